@@ -0,0 +1,54 @@
+/**
+ * Role Audit Log API Route (admins only)
+ *
+ * Lists role grants and revocations, newest first.
+ *
+ * Endpoint: GET /api/admin/roles/audit?userId=xxx&page=1&limit=50
+ * - userId: Only changes to this user's roles (optional)
+ */
+
+import { NextResponse } from 'next/server';
+import { db } from '@/lib/db';
+import { requireRole } from '@/lib/requestAuth';
+
+const MAX_LIMIT = 100;
+
+export const GET = requireRole('admin', async (request) => {
+  try {
+    const { searchParams } = new URL(request.url);
+    const userId = searchParams.get('userId');
+    const page = Math.max(parseInt(searchParams.get('page') || '1', 10) || 1, 1);
+    const limit = Math.min(Math.max(parseInt(searchParams.get('limit') || '50', 10) || 50, 1), MAX_LIMIT);
+
+    const where = userId ? { targetUserId: userId } : {};
+
+    const [entries, total] = await Promise.all([
+      db.roleAuditLog.findMany({
+        where,
+        include: {
+          actor: { select: { id: true, username: true } },
+          targetUser: { select: { id: true, username: true } },
+          category: { select: { id: true, name: true, slug: true } },
+        },
+        orderBy: { createdAt: 'desc' },
+        skip: (page - 1) * limit,
+        take: limit,
+      }),
+      db.roleAuditLog.count({ where }),
+    ]);
+
+    return NextResponse.json({
+      entries,
+      total,
+      page,
+      limit,
+      totalPages: Math.ceil(total / limit),
+    });
+  } catch (error: any) {
+    console.error('Role audit log error:', error);
+    return NextResponse.json(
+      { error: 'Failed to load role audit log' },
+      { status: 500 }
+    );
+  }
+});
@@ -0,0 +1,222 @@
+/**
+ * Role Management API Route (admins only)
+ *
+ * GET - Lists all site admins and category moderators
+ * POST - Grants a role
+ * DELETE - Revokes a role
+ *
+ * The target user is given by userId or username. Moderator roles need the
+ * id of a MAIN category. Every change is recorded in the role audit log
+ * (GET /api/admin/roles/audit).
+ *
+ * Endpoints:
+ * - GET /api/admin/roles
+ * - POST /api/admin/roles      Body: { userId?: string, username?: string, role: 'admin' | 'moderator', categoryId?: string, reason?: string }
+ * - DELETE /api/admin/roles    Body: same as POST
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/lib/db';
+import { requireRole, type AuthenticatedUser } from '@/lib/requestAuth';
+import { grantRole, revokeRole, MANAGED_ROLES, type ManagedRole } from '@/lib/roles';
+
+const MAX_REASON_LENGTH = 500;
+
+/**
+ * Validate a grant/revoke request body and resolve the target user
+ * Returns the role change, or an error response.
+ */
+async function parseRoleChange(request: NextRequest, actor: AuthenticatedUser) {
+  const body = await request.json();
+  const { userId, username, role, categoryId, reason } = body;
+
+  // ✅ VALIDATION: Check input types
+  if (
+    (userId !== undefined && typeof userId !== 'string') ||
+    (username !== undefined && typeof username !== 'string') ||
+    (categoryId !== undefined && categoryId !== null && typeof categoryId !== 'string') ||
+    (reason !== undefined && reason !== null && typeof reason !== 'string')
+  ) {
+    return {
+      error: NextResponse.json({ error: 'Invalid input type' }, { status: 400 }),
+    };
+  }
+
+  if (!MANAGED_ROLES.includes(role)) {
+    return {
+      error: NextResponse.json(
+        { error: `Role must be one of: ${MANAGED_ROLES.join(', ')}` },
+        { status: 400 }
+      ),
+    };
+  }
+
+  if (!userId && !username) {
+    return {
+      error: NextResponse.json({ error: 'userId or username is required' }, { status: 400 }),
+    };
+  }
+
+  if (reason && reason.length > MAX_REASON_LENGTH) {
+    return {
+      error: NextResponse.json(
+        { error: `Reason must be ${MAX_REASON_LENGTH} characters or less` },
+        { status: 400 }
+      ),
+    };
+  }
+
+  const target = await db.user.findUnique({
+    where: userId ? { id: userId } : { username: username.trim() },
+    select: { id: true, username: true, role: true },
+  });
+  if (!target) {
+    return {
+      error: NextResponse.json({ error: 'User not found' }, { status: 404 }),
+    };
+  }
+
+  // Moderator roles are scoped to a main category
+  if (role === 'moderator') {
+    if (!categoryId) {
+      return {
+        error: NextResponse.json(
+          { error: 'categoryId is required for the moderator role' },
+          { status: 400 }
+        ),
+      };
+    }
+
+    const category = await db.category.findUnique({
+      where: { id: categoryId },
+      select: { id: true, parentId: true },
+    });
+    if (!category) {
+      return {
+        error: NextResponse.json({ error: 'Category not found' }, { status: 404 }),
+      };
+    }
+    if (category.parentId) {
+      return {
+        error: NextResponse.json(
+          { error: 'Moderators are assigned to main categories only' },
+          { status: 400 }
+        ),
+      };
+    }
+  }
+
+  return {
+    target,
+    change: {
+      targetUserId: target.id,
+      role: role as ManagedRole,
+      categoryId: role === 'moderator' ? categoryId : null,
+      actorId: actor.id,
+      reason: reason?.trim() || null,
+    },
+  };
+}
+
+/**
+ * GET /api/admin/roles - List admins and moderators
+ */
+export const GET = requireRole('admin', async () => {
+  try {
+    const [admins, moderators] = await Promise.all([
+      db.user.findMany({
+        where: { role: 'admin' },
+        select: { id: true, username: true, email: true, createdAt: true },
+        orderBy: { createdAt: 'asc' },
+      }),
+      db.categoryModerator.findMany({
+        include: {
+          user: { select: { id: true, username: true, email: true } },
+          category: { select: { id: true, name: true, slug: true } },
+          grantedBy: { select: { id: true, username: true } },
+        },
+        orderBy: { createdAt: 'asc' },
+      }),
+    ]);
+
+    return NextResponse.json({
+      admins,
+      moderators: moderators.map((moderator) => ({
+        user: moderator.user,
+        category: moderator.category,
+        grantedBy: moderator.grantedBy,
+        grantedAt: moderator.createdAt,
+      })),
+    });
+  } catch (error: any) {
+    console.error('List roles error:', error);
+    return NextResponse.json(
+      { error: 'Failed to list roles' },
+      { status: 500 }
+    );
+  }
+});
+
+/**
+ * POST /api/admin/roles - Grant a role
+ */
+export const POST = requireRole('admin', async (request, context, user) => {
+  try {
+    const parsed = await parseRoleChange(request, user);
+    if (parsed.error) {
+      return parsed.error;
+    }
+
+    const granted = await grantRole(db, parsed.change);
+    if (!granted) {
+      return NextResponse.json(
+        { error: `${parsed.target.username || 'This user'} already has this role` },
+        { status: 409 } // HTTP 409 = Conflict
+      );
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error: any) {
+    console.error('Grant role error:', error);
+    return NextResponse.json(
+      { error: 'Failed to grant role' },
+      { status: 500 }
+    );
+  }
+});
+
+/**
+ * DELETE /api/admin/roles - Revoke a role
+ */
+export const DELETE = requireRole('admin', async (request, context, user) => {
+  try {
+    const parsed = await parseRoleChange(request, user);
+    if (parsed.error) {
+      return parsed.error;
+    }
+
+    // Admins can't demote themselves (there is always at least one admin left)
+    if (parsed.change.role === 'admin' && parsed.target.id === user.id) {
+      return NextResponse.json(
+        { error: 'You cannot revoke your own admin role' },
+        { status: 400 }
+      );
+    }
+
+    const revoked = await revokeRole(db, parsed.change);
+    if (!revoked) {
+      return NextResponse.json(
+        { error: `${parsed.target.username || 'This user'} does not have this role` },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error: any) {
+    console.error('Revoke role error:', error);
+    return NextResponse.json(
+      { error: 'Failed to revoke role' },
+      { status: 500 }
+    );
+  }
+});
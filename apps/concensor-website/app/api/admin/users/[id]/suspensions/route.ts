@@ -0,0 +1,210 @@
+/**
+ * User Suspensions API Route (admins only)
+ *
+ * GET - Lists the user's suspensions and bans (newest first)
+ * POST - Suspends the user for durationDays, or bans them permanently
+ * DELETE - Lifts every active suspension and ban
+ *
+ * Moderators suspend from the report queue (POST /api/moderation/reports/[id]);
+ * this route is for admins acting without a report. Every change is recorded
+ * in the moderation log with targetType 'user'.
+ *
+ * Endpoints:
+ * - GET /api/admin/users/[id]/suspensions
+ * - POST /api/admin/users/[id]/suspensions    Body: { type: 'suspension' | 'ban', reason: string, durationDays?: number }
+ * - DELETE /api/admin/users/[id]/suspensions  Body: { note?: string }
+ */
+
+import { NextResponse } from 'next/server';
+import { db } from '@/lib/db';
+import { requireRole } from '@/lib/requestAuth';
+import { emailService } from '@/lib/email';
+import { MODERATION_CONFIG, findModerationTarget, logModerationAction } from '@/lib/moderation';
+import { suspendUser, banUser, liftRestrictions, getActiveRestriction } from '@/lib/suspensions';
+import { revokeAllSessions } from '@/lib/sessions';
+
+export const GET = requireRole<{ id: string }>('admin', async (request, { params }) => {
+  try {
+    const user = await db.user.findUnique({
+      where: { id: params.id },
+      select: { id: true, username: true },
+    });
+
+    if (!user) {
+      return NextResponse.json(
+        { error: 'User not found' },
+        { status: 404 }
+      );
+    }
+
+    const suspensions = await db.userSuspension.findMany({
+      where: { userId: user.id },
+      orderBy: { createdAt: 'desc' },
+      include: {
+        issuedBy: { select: { id: true, username: true } },
+        liftedBy: { select: { id: true, username: true } },
+      },
+    });
+
+    return NextResponse.json({
+      user,
+      active: await getActiveRestriction(db, user.id),
+      suspensions,
+    });
+  } catch (error: any) {
+    console.error('List suspensions error:', error);
+    return NextResponse.json(
+      { error: 'Failed to get suspensions' },
+      { status: 500 }
+    );
+  }
+});
+
+export const POST = requireRole<{ id: string }>('admin', async (request, { params }, admin) => {
+  try {
+    const body = await request.json();
+    const { type, durationDays } = body;
+    const reason = typeof body.reason === 'string' ? body.reason.trim() : '';
+
+    // ✅ VALIDATION: Type, reason and duration
+    if (type !== 'suspension' && type !== 'ban') {
+      return NextResponse.json(
+        { error: "Type must be 'suspension' or 'ban'" },
+        { status: 400 }
+      );
+    }
+
+    if (!reason) {
+      return NextResponse.json(
+        { error: 'A reason is required (the user will see it)' },
+        { status: 400 }
+      );
+    }
+
+    if (reason.length > MODERATION_CONFIG.MAX_NOTE_LENGTH) {
+      return NextResponse.json(
+        { error: `Reason must be ${MODERATION_CONFIG.MAX_NOTE_LENGTH} characters or less` },
+        { status: 400 }
+      );
+    }
+
+    if (
+      type === 'suspension' &&
+      (!Number.isInteger(durationDays) || durationDays < 1 || durationDays > MODERATION_CONFIG.MAX_SUSPENSION_DAYS)
+    ) {
+      return NextResponse.json(
+        { error: `durationDays must be a whole number from 1 to ${MODERATION_CONFIG.MAX_SUSPENSION_DAYS}` },
+        { status: 400 }
+      );
+    }
+
+    if (params.id === admin.id) {
+      return NextResponse.json(
+        { error: 'You cannot suspend or ban yourself' },
+        { status: 400 }
+      );
+    }
+
+    const target = await findModerationTarget(db, 'user', params.id);
+    const user = target
+      ? await db.user.findUnique({
+          where: { id: params.id },
+          select: { id: true, email: true, username: true },
+        })
+      : null;
+
+    if (!target || !user) {
+      return NextResponse.json(
+        { error: 'User not found' },
+        { status: 404 }
+      );
+    }
+
+    // The restriction and its log entry are written together
+    const expiresAt = await db.$transaction(async (tx) => {
+      let until: Date | null = null;
+      if (type === 'ban') {
+        await banUser(tx, user.id, reason, admin.id);
+      } else {
+        until = await suspendUser(tx, user.id, reason, durationDays, admin.id);
+      }
+
+      await logModerationAction(tx, {
+        action: type === 'ban' ? 'ban' : 'suspend',
+        moderatorId: admin.id,
+        target,
+        note: reason,
+      });
+      return until;
+    });
+
+    if (type === 'ban') {
+      await revokeAllSessions(db, user.id);
+    }
+
+    // Tell the user (non-blocking: the restriction is in place either way)
+    try {
+      await emailService.sendSuspensionEmail(user.email, reason, expiresAt, user.username || undefined);
+    } catch (emailError) {
+      console.error('Error sending suspension email:', emailError);
+    }
+
+    return NextResponse.json({
+      success: true,
+      type,
+      expiresAt,
+    });
+  } catch (error: any) {
+    console.error('Suspend user error:', error);
+    return NextResponse.json(
+      { error: 'Failed to suspend user' },
+      { status: 500 }
+    );
+  }
+});
+
+export const DELETE = requireRole<{ id: string }>('admin', async (request, { params }, admin) => {
+  try {
+    const body = await request.json().catch(() => ({}));
+    const note = typeof body.note === 'string' ? body.note.trim() : '';
+
+    // ✅ VALIDATION: Note length
+    if (note.length > MODERATION_CONFIG.MAX_NOTE_LENGTH) {
+      return NextResponse.json(
+        { error: `Note must be ${MODERATION_CONFIG.MAX_NOTE_LENGTH} characters or less` },
+        { status: 400 }
+      );
+    }
+
+    const target = await findModerationTarget(db, 'user', params.id);
+    if (!target) {
+      return NextResponse.json(
+        { error: 'User not found' },
+        { status: 404 }
+      );
+    }
+
+    const lifted = await liftRestrictions(db, params.id, admin.id);
+    if (lifted === 0) {
+      return NextResponse.json(
+        { error: 'This user has no active suspension or ban' },
+        { status: 404 }
+      );
+    }
+
+    await logModerationAction(db, {
+      action: 'lift',
+      moderatorId: admin.id,
+      target,
+      note,
+    });
+
+    return NextResponse.json({ success: true, lifted });
+  } catch (error: any) {
+    console.error('Lift suspension error:', error);
+    return NextResponse.json(
+      { error: 'Failed to lift suspension' },
+      { status: 500 }
+    );
+  }
+});
@@ -0,0 +1,156 @@
+/**
+ * Vote Flags API Route (admins only)
+ *
+ * Review queue of votes flagged by the coordinated voting detection job
+ * (see src/lib/sybilDetection.ts).
+ *
+ * GET - Lists flags, highest score first, then oldest first
+ * POST - Excludes, dismisses or restores flags. Excluding takes the votes out
+ *        of their posts' counters and restoring puts them back; both recount
+ *        the posts' counters.
+ *
+ * Endpoints:
+ * - GET /api/admin/vote-flags?status=open&signal=&postId=&userId=&page=1&limit=50
+ *   - status: open (default), dismissed, excluded or all
+ *   - signal: fresh_account_burst, identical_votes, shared_ip or unverified_email
+ * - POST /api/admin/vote-flags  Body: { action: 'exclude' | 'dismiss' | 'restore', flagIds?: string[], userId?: string }
+ *   (userId: every flag of that account the action applies to)
+ */
+
+import { NextResponse } from 'next/server';
+import { db } from '@/lib/db';
+import { requireRole } from '@/lib/requestAuth';
+import {
+  SYBIL_DETECTION_CONFIG,
+  VOTE_FLAG_ACTIONS,
+  VOTE_FLAG_STATUSES,
+  isSybilSignal,
+  isVoteFlagAction,
+  reviewVoteFlags,
+} from '@/lib/sybilDetection';
+
+const MAX_LIMIT = 100;
+
+export const GET = requireRole('admin', async (request) => {
+  try {
+    const { searchParams } = new URL(request.url);
+    const status = searchParams.get('status') || 'open';
+    const signal = searchParams.get('signal');
+    const postId = searchParams.get('postId');
+    const userId = searchParams.get('userId');
+    const page = Math.max(parseInt(searchParams.get('page') || '1', 10) || 1, 1);
+    const limit = Math.min(Math.max(parseInt(searchParams.get('limit') || '50', 10) || 50, 1), MAX_LIMIT);
+
+    // ✅ VALIDATION: Filter values
+    if (status !== 'all' && !(VOTE_FLAG_STATUSES as readonly string[]).includes(status)) {
+      return NextResponse.json({ error: 'Invalid status' }, { status: 400 });
+    }
+    if (signal && !isSybilSignal(signal)) {
+      return NextResponse.json({ error: 'Invalid signal' }, { status: 400 });
+    }
+
+    // Build where clause
+    const where: any = {};
+    if (status !== 'all') {
+      where.status = status;
+    }
+    if (signal) {
+      where.signals = { has: signal };
+    }
+    if (postId) {
+      where.postId = postId;
+    }
+    if (userId) {
+      where.userId = userId;
+    }
+
+    const [flags, total] = await Promise.all([
+      db.voteFlag.findMany({
+        where,
+        include: {
+          user: {
+            select: { id: true, username: true, createdAt: true, emailVerified: true, provider: true },
+          },
+          post: { select: { id: true, title: true, status: true } },
+          vote: { select: { voteType: true, createdAt: true, excluded: true } },
+          reviewedBy: { select: { id: true, username: true } },
+        },
+        orderBy: [{ score: 'desc' }, { createdAt: 'asc' }],
+        skip: (page - 1) * limit,
+        take: limit,
+      }),
+      db.voteFlag.count({ where }),
+    ]);
+
+    return NextResponse.json({
+      flags,
+      total,
+      page,
+      limit,
+      totalPages: Math.ceil(total / limit),
+    });
+  } catch (error: any) {
+    console.error('Vote flag queue error:', error);
+    return NextResponse.json(
+      { error: 'Failed to load vote flags' },
+      { status: 500 }
+    );
+  }
+});
+
+export const POST = requireRole('admin', async (request, context, admin) => {
+  try {
+    const body = await request.json();
+    const { action, flagIds, userId } = body;
+
+    // ✅ VALIDATION: Action and which flags
+    if (!isVoteFlagAction(action)) {
+      return NextResponse.json(
+        { error: `Action must be one of: ${VOTE_FLAG_ACTIONS.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const byIds = Array.isArray(flagIds);
+    if (byIds === (typeof userId === 'string')) {
+      return NextResponse.json(
+        { error: 'Provide either flagIds or userId' },
+        { status: 400 }
+      );
+    }
+
+    if (
+      byIds &&
+      (flagIds.length === 0 ||
+        flagIds.length > SYBIL_DETECTION_CONFIG.MAX_REVIEW_FLAGS ||
+        !flagIds.every((id: unknown) => typeof id === 'string'))
+    ) {
+      return NextResponse.json(
+        { error: `flagIds must be a list of 1 to ${SYBIL_DETECTION_CONFIG.MAX_REVIEW_FLAGS} IDs` },
+        { status: 400 }
+      );
+    }
+
+    const ids: string[] = byIds
+      ? flagIds
+      : (
+          await db.voteFlag.findMany({
+            where: { userId, status: action === 'restore' ? 'excluded' : 'open' },
+            select: { id: true },
+          })
+        ).map((flag) => flag.id);
+
+    const result = await reviewVoteFlags(db, ids, action, admin.id);
+
+    return NextResponse.json({
+      success: true,
+      ...result,
+    });
+  } catch (error: any) {
+    console.error('Vote flag review error:', error);
+    return NextResponse.json(
+      { error: 'Failed to review vote flags' },
+      { status: 500 }
+    );
+  }
+});
@@ -9,6 +9,7 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 import { db } from '@/lib/db'; // Database client
+import { getClientIp, consumeRateLimit, rateLimitExceededResponse } from '@/lib/rateLimit'; // Rate limiting
 
 /**
  * POST Handler for Username Availability Check
@@ -18,6 +19,12 @@ import { db } from '@/lib/db'; // Database client
  */
 export async function POST(request: NextRequest) {
   try {
+    // ✅ RATE LIMIT: Per IP
+    const ipLimit = await consumeRateLimit('AVAILABILITY_CHECK_IP', getClientIp(request));
+    if (!ipLimit.allowed) {
+      return rateLimitExceededResponse(ipLimit.retryAfterSeconds);
+    }
+
     // Parse request body
     const body = await request.json();
     const { username } = body;
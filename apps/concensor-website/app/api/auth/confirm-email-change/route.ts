@@ -0,0 +1,109 @@
+/**
+ * Confirm Email Change API Route
+ *
+ * Opened from the link sent to the new address by PUT /api/user/profile:
+ * 1. Finds the user by the hashed confirmation token (must not be expired)
+ * 2. Replaces the email with the pending address (marked as verified)
+ * 3. Increments tokenVersion and revokes all sessions (logs out every device)
+ * 4. Notifies the old address
+ *
+ * Endpoint: GET /api/auth/confirm-email-change?token=xxx
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/lib/db'; // Database client
+import { hashToken } from '@/lib/auth';
+import { revokeAllSessions } from '@/lib/sessions';
+import { emailService } from '@/lib/email';
+
+/**
+ * GET Handler for Email Change Confirmation
+ *
+ * @param request - Next.js request object (contains token query parameter)
+ * @returns NextResponse - Redirects to the login page with a status message
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const token = request.nextUrl.searchParams.get('token');
+
+    // ✅ VALIDATION: Check if token exists
+    if (!token) {
+      return NextResponse.redirect(
+        new URL('/login?error=invalid_email_change_token', request.url)
+      );
+    }
+
+    const user = await db.user.findUnique({
+      where: { pendingEmailTokenHash: hashToken(token) },
+    });
+
+    if (!user || !user.pendingEmail || !user.pendingEmailExpires || user.pendingEmailExpires <= new Date()) {
+      return NextResponse.redirect(
+        new URL('/login?error=invalid_email_change_token', request.url)
+      );
+    }
+
+    const oldEmail = user.email;
+    const newEmail = user.pendingEmail;
+
+    // ✅ Apply the new email and consume the token
+    // updateMany with the token hash in the WHERE clause makes the link single-use
+    try {
+      const result = await db.user.updateMany({
+        where: {
+          id: user.id,
+          pendingEmailTokenHash: user.pendingEmailTokenHash,
+        },
+        data: {
+          email: newEmail,
+          emailVerified: true,             // Opening the link proves ownership of the new address
+          pendingEmail: null,
+          pendingEmailTokenHash: null,
+          pendingEmailExpires: null,
+          emailVerificationToken: null,    // Old-address verification links are void
+          emailVerificationExpires: null,
+          passwordResetTokenHash: null,    // Reset links sent to the old address are void
+          passwordResetExpires: null,
+          tokenVersion: { increment: 1 },  // Invalidate all existing JWTs
+        },
+      });
+
+      if (result.count === 0) {
+        return NextResponse.redirect(
+          new URL('/login?error=invalid_email_change_token', request.url)
+        );
+      }
+    } catch (updateError: any) {
+      // Unique constraint: someone registered the new address in the meantime
+      if (updateError?.code === 'P2002') {
+        return NextResponse.redirect(
+          new URL('/login?error=email_change_taken', request.url)
+        );
+      }
+      throw updateError;
+    }
+
+    // ✅ Remove every device from the session list
+    await revokeAllSessions(db, user.id);
+
+    // ✅ Let the old address know (non-blocking: the change is done either way)
+    try {
+      await emailService.sendEmailChangedNotification(
+        oldEmail,
+        newEmail,
+        user.username || undefined
+      );
+    } catch (emailError) {
+      console.error('Error sending email changed notification:', emailError);
+    }
+
+    return NextResponse.redirect(
+      new URL('/login?message=email_changed', request.url)
+    );
+  } catch (error: any) {
+    console.error('Confirm email change error:', error);
+    return NextResponse.redirect(
+      new URL('/login?error=email_change_failed', request.url)
+    );
+  }
+}
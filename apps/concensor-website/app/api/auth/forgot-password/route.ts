@@ -0,0 +1,137 @@
+/**
+ * Forgot Password API Route
+ * 
+ * Starts the password reset flow:
+ * 1. Validates email
+ * 2. Finds user with a password (email/password accounts)
+ * 3. Generates a one-time reset token (only its hash is stored)
+ * 4. Sends reset link via email service
+ * 
+ * Security Note: Always returns the same message whether or not the email exists,
+ * so this endpoint cannot be used to enumerate registered emails.
+ * 
+ * Endpoint: POST /api/auth/forgot-password
+ * Body: { email: string }
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import validator from 'validator'; // Library for input validation
+import crypto from 'crypto'; // Node.js crypto module for generating secure random tokens
+import { db } from '@/lib/db'; // Database client
+import { hashToken } from '@/lib/auth'; // Auth utilities
+import { emailService } from '@/lib/email'; // Email service for sending reset emails
+import { getClientIp, consumeRateLimit, rateLimitExceededResponse } from '@/lib/rateLimit'; // Rate limiting
+
+// Generic response (same for existing and non-existing emails)
+const GENERIC_MESSAGE = 'If an account exists with this email, a password reset link has been sent.';
+
+/**
+ * POST Handler for Forgot Password
+ * 
+ * @param request - Next.js request object containing email in body
+ * @returns NextResponse - JSON response with generic success message
+ */
+export async function POST(request: NextRequest) {
+  try {
+    // ✅ RATE LIMIT: Per IP
+    const ipLimit = await consumeRateLimit('FORGOT_PASSWORD_IP', getClientIp(request));
+    if (!ipLimit.allowed) {
+      return rateLimitExceededResponse(ipLimit.retryAfterSeconds);
+    }
+
+    // Parse request body
+    const body = await request.json();
+    const { email } = body;
+
+    // ✅ VALIDATION: Check input type
+    if (typeof email !== 'string') {
+      return NextResponse.json(
+        { error: 'Invalid input type' },
+        { status: 400 } // HTTP 400 = Bad Request
+      );
+    }
+
+    // ✅ SANITIZATION: Clean and normalize email
+    const trimmedEmail = email.trim().toLowerCase();
+
+    // ✅ VALIDATION: Check email format
+    if (!validator.isEmail(trimmedEmail) || trimmedEmail.length > 254) {
+      return NextResponse.json(
+        { error: 'Invalid email format' },
+        { status: 400 }
+      );
+    }
+
+    // ✅ RATE LIMIT: Per account (stops one inbox from being flooded)
+    const accountLimit = await consumeRateLimit('FORGOT_PASSWORD_ACCOUNT', trimmedEmail);
+    if (!accountLimit.allowed) {
+      return rateLimitExceededResponse(
+        accountLimit.retryAfterSeconds,
+        'Too many password reset emails requested. Please try again later.'
+      );
+    }
+
+    // ✅ Find user by email
+    const user = await db.user.findUnique({
+      where: { email: trimmedEmail },
+    });
+
+    // ✅ Only email/password accounts can reset a password
+    // Google-only accounts have no password to reset.
+    // Don't reveal either case (security: prevent email enumeration)
+    if (!user || !user.passwordHash) {
+      return NextResponse.json({
+        success: true,
+        message: GENERIC_MESSAGE,
+      });
+    }
+
+    // ✅ Generate reset token
+    // The plain token only ever leaves the server inside the email link
+    // The database stores its SHA-256 hash
+    const resetToken = crypto.randomBytes(32).toString('hex');
+
+    // ✅ Set token expiration (1 hour from now, matches the email text)
+    const resetExpires = new Date(Date.now() + 60 * 60 * 1000);
+
+    // ✅ Store hashed token (replaces any previous reset token)
+    await db.user.update({
+      where: { id: user.id },
+      data: {
+        passwordResetTokenHash: hashToken(resetToken),
+        passwordResetExpires: resetExpires,
+      },
+    });
+
+    // ✅ Send reset email
+    try {
+      await emailService.sendPasswordResetEmail(
+        user.email,
+        resetToken,
+        user.username || undefined
+      );
+    } catch (emailError) {
+      // If email sending fails, log error
+      console.error('Failed to send password reset email:', emailError);
+      return NextResponse.json(
+        { error: 'Failed to send password reset email. Please try again later.' },
+        { status: 500 } // HTTP 500 = Internal Server Error
+      );
+    }
+
+    // ✅ Return generic success response
+    return NextResponse.json({
+      success: true,
+      message: GENERIC_MESSAGE,
+    });
+  } catch (error: any) {
+    // Log error for debugging
+    console.error('Forgot password error:', error);
+
+    // Return generic error
+    return NextResponse.json(
+      { error: 'Failed to process password reset request. Please try again later.' },
+      { status: 500 }
+    );
+  }
+}
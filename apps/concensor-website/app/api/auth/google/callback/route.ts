@@ -12,21 +12,92 @@
  * 4. Generate JWT token
  * 5. Set HttpOnly cookie
  * 6. Redirect to home page (/)
+ * 
+ * Account linking:
+ * If the flow was started by GET /api/auth/google/link (oauth_link cookie),
+ * the Google account is attached to that logged-in user instead, and the
+ * user is sent back to /setting/accounts. Google sign-in never links to an
+ * existing email/password account on its own.
  */
 
 import { NextRequest, NextResponse } from 'next/server';
 import { OAuth2Client } from 'google-auth-library';
 import { db } from '@/lib/db';
-import { generateToken } from '@/lib/auth';
+import { verifyAccountLinkToken } from '@/lib/auth';
+import { startSession } from '@/lib/requestAuth';
 import { applyBadgeDecayOnLogin } from '@/lib/decayService';
+import { purgeAccountIfDue } from '@/lib/accountDeletion';
 import { initializeRookieBadges } from '@/lib/badgeInit';
+import { isUploadedAvatar } from '@/lib/avatarUrl';
+import { getActiveRestriction } from '@/lib/suspensions';
+import { getClientIp } from '@/lib/rateLimit';
+
+import {
+  GOOGLE_CLIENT_ID,
+  GOOGLE_CLIENT_SECRET,
+  GOOGLE_REDIRECT_URI,
+  OAUTH_STATE_COOKIE,
+  OAUTH_LINK_COOKIE,
+} from '@/lib/googleOAuth';
+
+/**
+ * Redirect back to the Connected accounts page after a link attempt
+ * Clears the OAuth cookies either way.
+ */
+function linkRedirect(request: NextRequest, query: string) {
+  const response = NextResponse.redirect(
+    new URL(`/setting/accounts?${query}`, request.url)
+  );
+  response.cookies.delete(OAUTH_STATE_COOKIE);
+  response.cookies.delete(OAUTH_LINK_COOKIE);
+  return response;
+}
+
+/**
+ * Attach a Google account to the user who started the link flow
+ *
+ * @param request - Callback request (for redirect URLs)
+ * @param linkToken - Value of the oauth_link cookie
+ * @param google - Verified Google identity
+ */
+async function handleAccountLink(
+  request: NextRequest,
+  linkToken: string,
+  google: { googleId: string; picture?: string }
+) {
+  let link;
+  try {
+    link = verifyAccountLinkToken(linkToken);
+  } catch {
+    return linkRedirect(request, 'error=link_expired');
+  }
+
+  const user = await db.user.findUnique({ where: { id: link.userId } });
+  if (!user || user.tokenVersion !== link.tokenVersion) {
+    return linkRedirect(request, 'error=link_expired');
+  }
+
+  if (user.googleId) {
+    return linkRedirect(request, 'error=google_already_linked');
+  }
+
+  // A Google account can only belong to one Concensor account
+  const owner = await db.user.findUnique({ where: { googleId: google.googleId } });
+  if (owner) {
+    return linkRedirect(request, 'error=google_in_use');
+  }
+
+  await db.user.update({
+    where: { id: user.id },
+    data: {
+      googleId: google.googleId,
+      // Use the Google picture only if the user has none yet
+      profilePicture: user.profilePicture || google.picture || null,
+    },
+  });
 
-// Google OAuth configuration
-const GOOGLE_CLIENT_ID = process.env.GOOGLE_CLIENT_ID;
-const GOOGLE_CLIENT_SECRET = process.env.GOOGLE_CLIENT_SECRET;
-const REDIRECT_URI = process.env.GOOGLE_REDIRECT_URI || 
-  `${process.env.NEXT_PUBLIC_BASE_URL || 'http://localhost:3000'}/api/auth/google/callback`;
-const JWT_SECRET = process.env.JWT_SECRET || 'your-secret-key-change-in-production';
+  return linkRedirect(request, 'linked=google');
+}
 
 /**
  * GET Handler - Handles Google OAuth callback
@@ -57,7 +128,7 @@ export async function GET(request: NextRequest) {
     }
 
     // Verify state parameter (CSRF protection)
-    const storedState = request.cookies.get('oauth_state')?.value;
+    const storedState = request.cookies.get(OAUTH_STATE_COOKIE)?.value;
     if (!state || state !== storedState) {
       console.error('Invalid state parameter - possible CSRF attack');
       return NextResponse.redirect(
@@ -77,7 +148,7 @@ export async function GET(request: NextRequest) {
     const oauth2Client = new OAuth2Client(
       GOOGLE_CLIENT_ID,
       GOOGLE_CLIENT_SECRET,
-      REDIRECT_URI
+      GOOGLE_REDIRECT_URI
     );
 
     // Exchange authorization code for tokens
@@ -113,28 +184,56 @@ export async function GET(request: NextRequest) {
       );
     }
 
-    // Check if user already exists (by email or googleId)
-    let user = await db.user.findFirst({
-      where: {
-        OR: [
-          { email },
-          { googleId },
-        ],
-      },
+    // ✅ Account linking flow (started from Setting → Connected accounts)
+    const linkToken = request.cookies.get(OAUTH_LINK_COOKIE)?.value;
+    if (linkToken) {
+      return handleAccountLink(request, linkToken, { googleId, picture });
+    }
+
+    // Check if user already exists
+    // Match by googleId first: a linked Google account may use a different email
+    let user = await db.user.findUnique({
+      where: { googleId },
     });
+    if (!user) {
+      user = await db.user.findUnique({
+        where: { email },
+      });
+    }
+
+    // Accounts past their deletion date are purged; signing in again starts a new account
+    if (user && await purgeAccountIfDue(db, user)) {
+      user = null;
+    }
 
     if (user) {
       // User exists - check if they already have Google linked
       if (!user.googleId) {
         // Email account exists but Google is not linked
-        // Block automatic linking - require user to link manually in profile settings
+        // Block automatic linking - the user must log in with their password
+        // and connect Google in Setting → Connected accounts
         // This is more secure and gives user explicit control
         return NextResponse.redirect(
           new URL('/login?error=email_exists_use_password', request.url)
         );
+      } else if (user.googleId !== googleId) {
+        // Found by email, but a different Google account is linked to it:
+        // only the linked Google account can sign in
+        return NextResponse.redirect(
+          new URL('/login?error=google_account_mismatch', request.url)
+        );
       } else {
+        // Banned accounts can't log in
+        const restriction = await getActiveRestriction(db, user.id);
+        if (restriction?.type === 'ban') {
+          return NextResponse.redirect(
+            new URL('/login?error=account_banned', request.url)
+          );
+        }
+
         // Google account already linked - just update profile picture if needed
-        if (picture) {
+        // (an uploaded picture is never replaced by the Google one)
+        if (picture && !isUploadedAvatar(user.profilePicture)) {
           user = await db.user.update({
             where: { id: user.id },
             data: {
@@ -179,6 +278,7 @@ export async function GET(request: NextRequest) {
         }
       }
 
+      const signupIp = getClientIp(request);
       user = await db.user.create({
         data: {
           email,
@@ -188,6 +288,7 @@ export async function GET(request: NextRequest) {
           profilePicture: picture || null,
           passwordHash: null, // OAuth users don't have passwords
           tokenVersion: 0,
+          signupIp: signupIp === 'unknown' ? null : signupIp, // For coordinated voting detection
         },
       });
 
@@ -200,29 +301,16 @@ export async function GET(request: NextRequest) {
       }
     }
 
-    // Generate JWT token (same as email/password login)
-    const token = generateToken({
-      userId: user.id,
-      email: user.email,
-      tokenVersion: user.tokenVersion,
-    });
-
     // Create response to redirect to home page
     const response = NextResponse.redirect(
       new URL('/', request.url)
     );
 
-    // Set HttpOnly cookie with JWT token (same as email/password login)
-    response.cookies.set('token', token, {
-      httpOnly: true,
-      secure: process.env.NODE_ENV === 'production',
-      sameSite: 'strict',
-      maxAge: 60 * 60 * 24 * 7, // 7 days (same as JWT_EXPIRES_IN)
-      path: '/',
-    });
+    // Start session and set HttpOnly cookie with JWT token (same as email/password login)
+    await startSession(request, response, user);
 
     // Clear OAuth state cookie
-    response.cookies.delete('oauth_state');
+    response.cookies.delete(OAUTH_STATE_COOKIE);
 
     // Apply badge decay on login (non-blocking)
     try {
@@ -0,0 +1,65 @@
+/**
+ * Google Account Link Initiation Route
+ * 
+ * Starts "Connect Google" for a logged-in user. Same as GET /api/auth/google,
+ * but also stores a signed link intent so the callback attaches the Google
+ * account to the current user instead of logging in.
+ * 
+ * Endpoint: GET /api/auth/google/link
+ * 
+ * Flow:
+ * 1. User clicks "Connect" next to Google in Setting → Connected accounts
+ * 2. This route redirects to Google's OAuth consent page
+ * 3. Google redirects to /api/auth/google/callback
+ * 4. Callback links the Google account and redirects back to /setting/accounts
+ */
+
+import { NextResponse } from 'next/server';
+import { generateAccountLinkToken } from '@/lib/auth';
+import { requireUser } from '@/lib/requestAuth';
+import {
+  GOOGLE_CLIENT_ID,
+  OAUTH_STATE_COOKIE,
+  OAUTH_LINK_COOKIE,
+  generateOAuthState,
+  buildGoogleAuthorizationUrl,
+  setOAuthCookie,
+} from '@/lib/googleOAuth';
+
+/**
+ * GET Handler - Initiates Google OAuth flow for account linking
+ */
+export const GET = requireUser(async (request, context, user) => {
+  try {
+    if (!GOOGLE_CLIENT_ID) {
+      console.error('GOOGLE_CLIENT_ID is not set in environment variables');
+      return NextResponse.redirect(
+        new URL('/setting/accounts?error=config_error', request.url)
+      );
+    }
+
+    if (user.googleId) {
+      return NextResponse.redirect(
+        new URL('/setting/accounts?error=google_already_linked', request.url)
+      );
+    }
+
+    const state = generateOAuthState();
+    const response = NextResponse.redirect(buildGoogleAuthorizationUrl(state));
+
+    // Store state (CSRF protection) and who is linking
+    setOAuthCookie(response, OAUTH_STATE_COOKIE, state);
+    setOAuthCookie(
+      response,
+      OAUTH_LINK_COOKIE,
+      generateAccountLinkToken({ userId: user.id, tokenVersion: user.tokenVersion })
+    );
+
+    return response;
+  } catch (error: any) {
+    console.error('Google link initiation error:', error);
+    return NextResponse.redirect(
+      new URL('/setting/accounts?error=oauth_failed', request.url)
+    );
+  }
+});
@@ -14,12 +14,14 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server';
-
-// Google OAuth configuration
-const GOOGLE_CLIENT_ID = process.env.GOOGLE_CLIENT_ID;
-const GOOGLE_CLIENT_SECRET = process.env.GOOGLE_CLIENT_SECRET;
-const REDIRECT_URI = process.env.GOOGLE_REDIRECT_URI || 
-  `${process.env.NEXT_PUBLIC_BASE_URL || 'http://localhost:3000'}/api/auth/google/callback`;
+import {
+  GOOGLE_CLIENT_ID,
+  OAUTH_STATE_COOKIE,
+  OAUTH_LINK_COOKIE,
+  generateOAuthState,
+  buildGoogleAuthorizationUrl,
+  setOAuthCookie,
+} from '@/lib/googleOAuth';
 
 /**
  * GET Handler - Initiates Google OAuth flow
@@ -38,30 +40,16 @@ export async function GET(request: NextRequest) {
     }
 
     // Generate a random state parameter for CSRF protection
-    // In production, you should store this in a session or encrypted cookie
-    const state = Math.random().toString(36).substring(2, 15) + 
-                  Math.random().toString(36).substring(2, 15);
+    const state = generateOAuthState();
     
-    // Store state in a cookie (for verification in callback)
-    const response = NextResponse.redirect(
-      `https://accounts.google.com/o/oauth2/v2/auth?` +
-      `client_id=${encodeURIComponent(GOOGLE_CLIENT_ID)}&` +
-      `redirect_uri=${encodeURIComponent(REDIRECT_URI)}&` +
-      `response_type=code&` +
-      `scope=${encodeURIComponent('openid email profile')}&` +
-      `state=${encodeURIComponent(state)}&` +
-      `access_type=offline&` +
-      `prompt=consent`
-    );
+    // Redirect to Google's consent page
+    const response = NextResponse.redirect(buildGoogleAuthorizationUrl(state));
 
     // Store state in HttpOnly cookie for verification
-    response.cookies.set('oauth_state', state, {
-      httpOnly: true,
-      secure: process.env.NODE_ENV === 'production',
-      sameSite: 'lax',
-      maxAge: 600, // 10 minutes
-      path: '/',
-    });
+    setOAuthCookie(response, OAUTH_STATE_COOKIE, state);
+
+    // A plain login must never finish as an account link
+    response.cookies.delete(OAUTH_LINK_COOKIE);
 
     return response;
   } catch (error: any) {
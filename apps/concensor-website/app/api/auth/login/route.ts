@@ -5,8 +5,18 @@
  * 1. Validates email and password
  * 2. Finds user in database
  * 3. Verifies password matches
- * 4. Generates JWT token
- * 5. Sets HttpOnly cookie with token
+ * 4. Refuses banned accounts
+ * 5. Creates a session and generates JWT token
+ * 6. Sets HttpOnly cookie with token
+ * 
+ * Two-factor authentication:
+ * If the account has 2FA enabled, step 5-6 are skipped. The response contains
+ * { requiresTwoFactor: true, challengeToken } instead, and the client finishes
+ * login at POST /api/auth/login/two-factor with a TOTP or recovery code.
+ * 
+ * Rate limiting:
+ * - Per IP: RATE_LIMITS.LOGIN_IP
+ * - Per account: progressive lockout after repeated wrong passwords
  * 
  * Endpoint: POST /api/auth/login
  */
@@ -14,8 +24,20 @@
 import { NextRequest, NextResponse } from 'next/server';
 import validator from 'validator'; // Library for input validation
 import { db } from '@/lib/db'; // Database client
-import { verifyPassword, generateToken } from '@/lib/auth'; // Auth utilities
+import { verifyPassword, generateTwoFactorChallengeToken } from '@/lib/auth'; // Auth utilities
+import { startSession } from '@/lib/requestAuth';
+import {
+  getClientIp,
+  consumeRateLimit,
+  rateLimitExceededResponse,
+  checkAccountLockout,
+  recordFailedPasswordAttempt,
+  clearFailedPasswordAttempts,
+  accountLockedResponse,
+} from '@/lib/rateLimit';
 import { applyBadgeDecayOnLogin } from '@/lib/decayService';
+import { purgeAccountIfDue } from '@/lib/accountDeletion';
+import { getActiveRestriction, accountRestrictedResponse } from '@/lib/suspensions';
 
 /**
  * POST Handler for Login
@@ -27,6 +49,15 @@ import { applyBadgeDecayOnLogin } from '@/lib/decayService';
  */
 export async function POST(request: NextRequest) {
   try {
+    // ✅ RATE LIMIT: Per IP (slows down password spraying across many accounts)
+    const ipLimit = await consumeRateLimit('LOGIN_IP', getClientIp(request));
+    if (!ipLimit.allowed) {
+      return rateLimitExceededResponse(
+        ipLimit.retryAfterSeconds,
+        'Too many login attempts. Please try again later.'
+      );
+    }
+
     // Parse request body (JSON string → JavaScript object)
     // Example: { email: "john@example.com", password: "SecurePass123!" }
     const body = await request.json();
@@ -93,17 +124,34 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    // ✅ RATE LIMIT: Account lockout (brute force on a single account)
+    // Checked before touching the password so a locked account can't be probed
+    const lockout = await checkAccountLockout(email);
+    if (!lockout.allowed) {
+      return accountLockedResponse(lockout.retryAfterSeconds);
+    }
+
     // ✅ Query database for user by email
     // findUnique() finds a single record matching the condition
     // Returns the user object if found, null if not found
-    const user = await db.user.findUnique({
+    let user = await db.user.findUnique({
       where: { email }, // Find user where email matches
     });
 
+    // ✅ Account deletion: accounts past their deletion date are purged, not logged in
+    if (user && await purgeAccountIfDue(db, user)) {
+      user = null;
+    }
+
     // ✅ Security: Don't reveal if email exists
     // If we said "Email not found", attacker could enumerate valid emails
     // Generic message "Invalid email or password" prevents information leakage
+    // Unknown emails count as failures too, so lockout behaves the same either way
     if (!user) {
+      const failure = await recordFailedPasswordAttempt(email);
+      if (!failure.allowed) {
+        return accountLockedResponse(failure.retryAfterSeconds);
+      }
       return NextResponse.json(
         { error: 'Invalid email or password' },
         { status: 401 } // HTTP 401 = Unauthorized
@@ -115,9 +163,13 @@ export async function POST(request: NextRequest) {
     // But if they have both (email + Google linked), allow password login
     if (!user.passwordHash) {
       // User has no password - they must use Google login
+      // Point them to Setting → Connected accounts if they want email login too
       if (user.googleId) {
         return NextResponse.json(
-          { error: 'This account uses Google login. Please login with Google.' },
+          {
+            error: 'This account uses Google login. Please login with Google. To also log in with your email, set a password in Setting → Connected accounts.',
+            useGoogleLogin: true, // Flag so the client can highlight the Google button
+          },
           { status: 401 } // HTTP 401 = Unauthorized
         );
       } else {
@@ -138,12 +190,24 @@ export async function POST(request: NextRequest) {
     // If password doesn't match, return generic error (same as email not found)
     // This prevents attackers from knowing if email exists or password is wrong
     if (!isValid) {
+      // Count the failure (may lock the account)
+      const failure = await recordFailedPasswordAttempt(email);
+      if (!failure.allowed) {
+        return accountLockedResponse(failure.retryAfterSeconds);
+      }
       return NextResponse.json(
         { error: 'Invalid email or password' },
         { status: 401 } // HTTP 401 = Unauthorized
       );
     }
 
+    // Correct password: reset the failure count
+    // With 2FA the count is only reset once the second factor is verified too,
+    // otherwise repeating the password step would allow unlimited code guesses
+    if (!user.twoFactorEnabled) {
+      await clearFailedPasswordAttempts(email);
+    }
+
     // ✅ Check if email is verified (for email/password users only)
     // Google OAuth users don't need email verification (Google already verified their email)
     if (user.provider === 'email' && !user.emailVerified) {
@@ -156,14 +220,26 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // ✅ Generate JWT token
-    // Create a token containing user information
-    // This token proves the user is authenticated
-    const token = generateToken({
-      userId: user.id,              // User's unique ID
-      email: user.email,            // User's email
-      tokenVersion: user.tokenVersion, // Token version (for invalidation on password change)
-    });
+    // ✅ Banned accounts can't log in (suspended ones can, but can't post, vote or comment)
+    const restriction = await getActiveRestriction(db, user.id);
+    if (restriction?.type === 'ban') {
+      return accountRestrictedResponse(restriction);
+    }
+
+    // ✅ Two-factor authentication
+    // Password is correct, but the auth cookie is only set after the second step
+    if (user.twoFactorEnabled) {
+      const challengeToken = generateTwoFactorChallengeToken({
+        userId: user.id,
+        tokenVersion: user.tokenVersion,
+      });
+
+      return NextResponse.json({
+        success: true,
+        requiresTwoFactor: true, // Client should ask for a TOTP or recovery code
+        challengeToken,          // Valid for 5 minutes
+      });
+    }
 
     // ✅ Create response with user data
     // Don't include passwordHash in response (security!)
@@ -173,19 +249,16 @@ export async function POST(request: NextRequest) {
         id: user.id,               // User ID
         email: user.email,         // User email
         username: user.username,   // Username
+        suspension: restriction,   // Active suspension (can log in, can't post, vote or comment)
       },
+      deletionScheduledAt: user.deletionScheduledAt, // Set if the account is pending deletion
     });
 
-    // ✅ Set HttpOnly cookie with token
+    // ✅ Start session and set HttpOnly cookie with token
+    // The session row (device, IP, last seen) lets the user revoke this login later
     // HttpOnly = JavaScript cannot access (prevents XSS attacks)
     // Browser automatically sends this cookie with every request
-    response.cookies.set('token', token, {
-      httpOnly: true,                              // JavaScript cannot read (XSS protection)
-      secure: process.env.NODE_ENV === 'production', // HTTPS only in production
-      sameSite: 'strict',                          // Prevents CSRF attacks
-      maxAge: 60 * 60 * 24 * 7,                   // Cookie expires in 7 days (in seconds)
-      path: '/',                                   // Cookie available for all paths on domain
-    });
+    await startSession(request, response, user);
 
     // ✅ Apply badge decay on login (non-blocking)
     // This updates points based on inactivity and updates lastLoginDate
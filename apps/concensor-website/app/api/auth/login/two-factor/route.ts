@@ -0,0 +1,159 @@
+/**
+ * Two-Factor Login API Route
+ *
+ * Second step of login for accounts with 2FA enabled:
+ * 1. Verifies the challenge token from POST /api/auth/login
+ * 2. Verifies the TOTP code (or a one-time recovery code)
+ * 3. Creates a session and generates JWT token
+ * 4. Sets HttpOnly cookie with token
+ *
+ * Wrong codes count toward the same account lockout as wrong passwords. For
+ * 2FA accounts the password step doesn't reset the count, only a verified
+ * code here does.
+ *
+ * Endpoint: POST /api/auth/login/two-factor
+ * Body: { challengeToken: string, code: string }
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/lib/db'; // Database client
+import { verifyTwoFactorChallengeToken } from '@/lib/auth'; // Auth utilities
+import { verifySecondFactor } from '@/lib/twoFactor';
+import { startSession } from '@/lib/requestAuth';
+import { getActiveRestriction, accountRestrictedResponse } from '@/lib/suspensions';
+import {
+  getClientIp,
+  consumeRateLimit,
+  rateLimitExceededResponse,
+  checkAccountLockout,
+  recordFailedPasswordAttempt,
+  clearFailedPasswordAttempts,
+  accountLockedResponse,
+} from '@/lib/rateLimit';
+import { applyBadgeDecayOnLogin } from '@/lib/decayService';
+
+/**
+ * POST Handler for Two-Factor Login
+ *
+ * @param request - Next.js request object (contains challengeToken and code in body)
+ * @returns NextResponse - JSON response with user data and cookie set
+ */
+export async function POST(request: NextRequest) {
+  try {
+    // ✅ RATE LIMIT: Per IP (shared with the password step)
+    const ipLimit = await consumeRateLimit('LOGIN_IP', getClientIp(request));
+    if (!ipLimit.allowed) {
+      return rateLimitExceededResponse(
+        ipLimit.retryAfterSeconds,
+        'Too many login attempts. Please try again later.'
+      );
+    }
+
+    const body = await request.json();
+    const { challengeToken, code } = body;
+
+    // ✅ VALIDATION: Check input types
+    if (typeof challengeToken !== 'string' || typeof code !== 'string') {
+      return NextResponse.json(
+        { error: 'Invalid input type' },
+        { status: 400 } // HTTP 400 = Bad Request
+      );
+    }
+
+    const trimmedCode = code.trim();
+    if (!trimmedCode) {
+      return NextResponse.json(
+        { error: 'Verification code is required' },
+        { status: 400 }
+      );
+    }
+
+    // ✅ Verify challenge token (expires 5 minutes after the password step)
+    let challenge;
+    try {
+      challenge = verifyTwoFactorChallengeToken(challengeToken);
+    } catch {
+      return NextResponse.json(
+        { error: 'Your login session has expired. Please log in again.' },
+        { status: 401 } // HTTP 401 = Unauthorized
+      );
+    }
+
+    const user = await db.user.findUnique({
+      where: { id: challenge.userId },
+    });
+
+    // Challenge is void if tokens were invalidated (password changed, 2FA disabled, etc.)
+    if (!user || user.tokenVersion !== challenge.tokenVersion || !user.twoFactorEnabled) {
+      return NextResponse.json(
+        { error: 'Your login session has expired. Please log in again.' },
+        { status: 401 }
+      );
+    }
+
+    // ✅ RATE LIMIT: Account lockout (6-digit codes are easy to brute-force otherwise)
+    const lockout = await checkAccountLockout(user.email);
+    if (!lockout.allowed) {
+      return accountLockedResponse(lockout.retryAfterSeconds);
+    }
+
+    // ✅ Verify TOTP or recovery code
+    const method = await verifySecondFactor(db, user, trimmedCode);
+    if (!method) {
+      const failure = await recordFailedPasswordAttempt(user.email);
+      if (!failure.allowed) {
+        return accountLockedResponse(failure.retryAfterSeconds);
+      }
+      return NextResponse.json(
+        { error: 'Invalid verification code' },
+        { status: 401 }
+      );
+    }
+
+    await clearFailedPasswordAttempts(user.email);
+
+    // Banned between the password step and now
+    const restriction = await getActiveRestriction(db, user.id);
+    if (restriction?.type === 'ban') {
+      return accountRestrictedResponse(restriction);
+    }
+
+    // Let the user know how many recovery codes are left after using one
+    let remainingRecoveryCodes: number | undefined;
+    if (method === 'recovery') {
+      remainingRecoveryCodes = await db.twoFactorRecoveryCode.count({
+        where: { userId: user.id, usedAt: null },
+      });
+    }
+
+    const response = NextResponse.json({
+      success: true,
+      user: {
+        id: user.id,
+        email: user.email,
+        username: user.username,
+        suspension: restriction,
+      },
+      remainingRecoveryCodes,
+    });
+
+    // ✅ Start session and set HttpOnly cookie with token
+    await startSession(request, response, user);
+
+    // ✅ Apply badge decay on login (non-blocking)
+    try {
+      await applyBadgeDecayOnLogin(db, user.id);
+    } catch (decayError) {
+      // Log error but don't fail login if decay calculation fails
+      console.error('Error applying badge decay on login:', decayError);
+    }
+
+    return response;
+  } catch (error: any) {
+    console.error('Two-factor login error:', error);
+    return NextResponse.json(
+      { error: 'Authentication failed. Please try again.' },
+      { status: 500 }
+    );
+  }
+}
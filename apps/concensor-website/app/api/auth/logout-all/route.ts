@@ -0,0 +1,51 @@
+/**
+ * Logout All Devices API Route
+ *
+ * Logs the user out everywhere by revoking every session and incrementing
+ * tokenVersion. Every existing JWT (on any device) is rejected on its next
+ * request. The current device's cookie is cleared as well.
+ *
+ * Endpoint: POST /api/auth/logout-all
+ */
+
+import { NextResponse } from 'next/server';
+import { db } from '@/lib/db';
+import { requireUser, clearAuthCookie } from '@/lib/requestAuth';
+import { revokeAllSessions } from '@/lib/sessions';
+
+/**
+ * POST Handler for Logout All Devices
+ *
+ * @param request - Next.js request object
+ * @returns NextResponse - JSON response with success status and cleared cookie
+ */
+export const POST = requireUser(async (request, context, user) => {
+  try {
+    // Revoke every session (clears the device list)
+    await revokeAllSessions(db, user.id);
+
+    // Bump tokenVersion - invalidates every JWT issued so far
+    await db.user.update({
+      where: { id: user.id },
+      data: {
+        tokenVersion: { increment: 1 },
+      },
+    });
+
+    const response = NextResponse.json({
+      success: true,
+      message: 'Logged out of all devices',
+    });
+
+    // Clear the cookie on this device too (same settings as /api/auth/logout)
+    clearAuthCookie(response);
+
+    return response;
+  } catch (error: any) {
+    console.error('Logout all devices error:', error);
+    return NextResponse.json(
+      { error: 'Logout failed. Please try again.' },
+      { status: 500 }
+    );
+  }
+}, { allowSuspended: true });
@@ -1,13 +1,17 @@
 /**
  * Logout API Route
  *
- * Handles user logout by clearing the HttpOnly cookie.
+ * Handles user logout by revoking the current session and clearing the HttpOnly cookie.
+ * Only this device is logged out; other sessions stay active.
  * Since the cookie is HttpOnly, it can only be cleared by the server.
  *
  * Endpoint: POST /api/auth/logout
  */
 
 import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/lib/db';
+import { getAuthenticatedUser, getCurrentSessionId, clearAuthCookie } from '@/lib/requestAuth';
+import { revokeSession } from '@/lib/sessions';
 
 /**
  * POST Handler for Logout
@@ -20,6 +24,14 @@ import { NextRequest, NextResponse } from 'next/server';
  */
 export async function POST(request: NextRequest) {
   try {
+    // Revoke the current session so its token can't be reused
+    // (works even if the cookie was copied elsewhere)
+    const user = await getAuthenticatedUser(request);
+    const sessionId = await getCurrentSessionId(request);
+    if (user && sessionId) {
+      await revokeSession(db, user.id, sessionId);
+    }
+
     // Create response with success message
     const response = NextResponse.json({
       success: true,
@@ -27,14 +39,7 @@ export async function POST(request: NextRequest) {
     });
 
     // Clear the HttpOnly cookie by setting it to expire immediately
-    // This is done by setting maxAge to 0 or expires to a past date
-    response.cookies.set('token', '', {
-      httpOnly: true,                              // Must match original cookie settings
-      secure: process.env.NODE_ENV === 'production', // Must match original cookie settings
-      sameSite: 'strict',                          // Must match original cookie settings
-      maxAge: 0,                                   // Expire immediately (0 seconds)
-      path: '/',                                   // Must match original cookie path
-    });
+    clearAuthCookie(response);
 
     // Return response (cookie is automatically cleared in browser)
     return response;
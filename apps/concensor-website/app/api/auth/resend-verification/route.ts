@@ -15,6 +15,7 @@ import validator from 'validator'; // Library for input validation
 import crypto from 'crypto'; // Node.js crypto module for generating secure random tokens
 import { db } from '@/lib/db'; // Database client
 import { emailService } from '@/lib/email'; // Email service for sending verification emails
+import { getClientIp, consumeRateLimit, rateLimitExceededResponse } from '@/lib/rateLimit'; // Rate limiting
 
 /**
  * POST Handler for Resending Verification Email
@@ -24,6 +25,12 @@ import { emailService } from '@/lib/email'; // Email service for sending verific
  */
 export async function POST(request: NextRequest) {
   try {
+    // ✅ RATE LIMIT: Per IP
+    const ipLimit = await consumeRateLimit('RESEND_VERIFICATION_IP', getClientIp(request));
+    if (!ipLimit.allowed) {
+      return rateLimitExceededResponse(ipLimit.retryAfterSeconds);
+    }
+
     // Parse request body
     const body = await request.json();
     const { email } = body;
@@ -47,6 +54,15 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    // ✅ RATE LIMIT: Per account (stops one inbox from being flooded)
+    const accountLimit = await consumeRateLimit('RESEND_VERIFICATION_ACCOUNT', trimmedEmail);
+    if (!accountLimit.allowed) {
+      return rateLimitExceededResponse(
+        accountLimit.retryAfterSeconds,
+        'Too many verification emails requested. Please try again later.'
+      );
+    }
+
     // ✅ Find user by email
     const user = await db.user.findUnique({
       where: { email: trimmedEmail },
@@ -0,0 +1,116 @@
+/**
+ * Reset Password API Route
+ * 
+ * Completes the password reset flow:
+ * 1. Validates reset token and new password
+ * 2. Finds user by hashed token (must not be expired)
+ * 3. Hashes and stores the new password
+ * 4. Clears reset token (security: one-time use)
+ * 5. Increments tokenVersion and revokes all sessions (logs out every device)
+ * 
+ * The user is NOT logged in automatically - they log in with the new password.
+ * 
+ * Endpoint: POST /api/auth/reset-password
+ * Body: { token: string, password: string }
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/lib/db'; // Database client
+import { hashPassword, hashToken, validatePasswordStrength } from '@/lib/auth'; // Auth utilities
+import { revokeAllSessions } from '@/lib/sessions';
+
+/**
+ * POST Handler for Reset Password
+ * 
+ * @param request - Next.js request object containing token and new password in body
+ * @returns NextResponse - JSON response with success or error message
+ */
+export async function POST(request: NextRequest) {
+  try {
+    // Parse request body
+    const body = await request.json();
+    let { token, password } = body;
+
+    // ✅ VALIDATION: Check input types
+    if (typeof token !== 'string' || typeof password !== 'string') {
+      return NextResponse.json(
+        { error: 'Invalid input type' },
+        { status: 400 } // HTTP 400 = Bad Request
+      );
+    }
+
+    // ✅ SANITIZATION: Clean input (same as signup)
+    token = token.trim();
+    password = password.trim();
+
+    if (!token) {
+      return NextResponse.json(
+        { error: 'Invalid or expired reset link' },
+        { status: 400 }
+      );
+    }
+
+    // ✅ VALIDATION: Password strength requirements (same rules as signup)
+    const passwordError = validatePasswordStrength(password);
+    if (passwordError) {
+      return NextResponse.json(
+        { error: passwordError },
+        { status: 400 }
+      );
+    }
+
+    const tokenHash = hashToken(token);
+    const passwordHash = await hashPassword(password);
+
+    // Look up the owner first (the token hash is cleared by the update below)
+    const owner = await db.user.findUnique({
+      where: { passwordResetTokenHash: tokenHash },
+      select: { id: true },
+    });
+
+    // ✅ Update password and consume token in a single statement
+    // updateMany with the token in the WHERE clause makes the token single-use:
+    // if two requests race with the same token, only one of them matches
+    const result = await db.user.updateMany({
+      where: {
+        id: owner?.id,
+        passwordResetTokenHash: tokenHash, // Token must match
+        passwordResetExpires: {
+          gt: new Date(), // Token must not be expired
+        },
+      },
+      data: {
+        passwordHash,                    // New hashed password
+        passwordResetTokenHash: null,    // Clear token (one-time use)
+        passwordResetExpires: null,      // Clear expiration
+        tokenVersion: { increment: 1 },  // Invalidate all existing JWTs
+        emailVerified: true,             // Clicking the emailed link proves email ownership
+      },
+    });
+
+    if (!owner || result.count === 0) {
+      return NextResponse.json(
+        { error: 'Invalid or expired reset link' },
+        { status: 400 }
+      );
+    }
+
+    // ✅ Remove every device from the session list
+    await revokeAllSessions(db, owner.id);
+
+    // ✅ Return success response
+    return NextResponse.json({
+      success: true,
+      message: 'Your password has been reset. Please log in with your new password.',
+    });
+  } catch (error: any) {
+    // Log error for debugging
+    console.error('Reset password error:', error);
+
+    // Return generic error
+    return NextResponse.json(
+      { error: 'Failed to reset password. Please try again later.' },
+      { status: 500 }
+    );
+  }
+}
@@ -16,9 +16,10 @@ import { NextRequest, NextResponse } from 'next/server';
 import validator from 'validator'; // Library for input validation (email, etc.)
 import crypto from 'crypto'; // Node.js crypto module for generating secure random tokens
 import { db } from '@/lib/db'; // Database client
-import { hashPassword } from '@/lib/auth'; // Auth utilities
+import { hashPassword, validatePasswordStrength } from '@/lib/auth'; // Auth utilities
 import { emailService } from '@/lib/email'; // Email service for sending verification emails
 import { initializeRookieBadges } from '@/lib/badgeInit'; // Badge initialization
+import { getClientIp, consumeRateLimit, rateLimitExceededResponse } from '@/lib/rateLimit'; // Rate limiting
 
 /**
  * POST Handler for Signup
@@ -30,6 +31,16 @@ import { initializeRookieBadges } from '@/lib/badgeInit'; // Badge initializatio
  */
 export async function POST(request: NextRequest) {
   try {
+    // ✅ RATE LIMIT: Per IP
+    const ipAddress = getClientIp(request);
+    const ipLimit = await consumeRateLimit('SIGNUP_IP', ipAddress);
+    if (!ipLimit.allowed) {
+      return rateLimitExceededResponse(
+        ipLimit.retryAfterSeconds,
+        'Too many signup attempts. Please try again later.'
+      );
+    }
+
     // Parse request body (JSON string → JavaScript object)
     // Example: { username: "johndoe", email: "john@example.com", password: "SecurePass123!" }
     const body = await request.json();
@@ -102,32 +113,11 @@ export async function POST(request: NextRequest) {
 
     // ✅ VALIDATION: Password strength requirements
     // Strong passwords prevent brute force attacks
-    
-    // Check 1: Minimum length (12 characters)
-    // Longer passwords are exponentially harder to crack
-    if (password.length < 12) {
-      return NextResponse.json(
-        { error: 'Password must be at least 12 characters' },
-        { status: 400 }
-      );
-    }
-
-    // Check 2: Must contain uppercase letter
-    // Regex: /[A-Z]/ = at least one uppercase letter (A-Z)
-    if (!/[A-Z]/.test(password)) {
-      return NextResponse.json(
-        { error: 'Password must contain at least one uppercase letter' },
-        { status: 400 }
-      );
-    }
-
-    // Check 3: Must contain symbol
-    // Regex: /[!@#$%^&*()_+\-=\[\]{};':"\\|,.<>\/?]/
-    // This matches common special characters
-    // Symbols make passwords harder to guess
-    if (!/[!@#$%^&*()_+\-=\[\]{};':"\\|,.<>\/?]/.test(password)) {
+    // Same rules are used for password reset and password change (see validatePasswordStrength)
+    const passwordError = validatePasswordStrength(password);
+    if (passwordError) {
       return NextResponse.json(
-        { error: 'Password must contain at least one symbol' },
+        { error: passwordError },
         { status: 400 }
       );
     }
@@ -219,6 +209,7 @@ export async function POST(request: NextRequest) {
         emailVerified: false,          // Email not verified yet
         emailVerificationToken: verificationToken, // Token for email verification
         emailVerificationExpires: verificationExpires, // Token expiration time
+        signupIp: ipAddress === 'unknown' ? null : ipAddress, // For coordinated voting detection
       },
     });
 
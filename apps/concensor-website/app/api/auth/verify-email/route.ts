@@ -13,7 +13,7 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 import { db } from '@/lib/db'; // Database client
-import { generateToken } from '@/lib/auth'; // Auth utilities for generating JWT
+import { startSession } from '@/lib/requestAuth'; // Session + JWT cookie for automatic login
 import { applyBadgeDecayOnLogin } from '@/lib/decayService';
 
 /**
@@ -78,29 +78,15 @@ export async function GET(request: NextRequest) {
       },
     });
 
-    // ✅ Generate JWT token for automatic login
-    // After verifying email, automatically log user in
-    const jwtToken = generateToken({
-      userId: user.id,
-      email: user.email,
-      tokenVersion: user.tokenVersion,
-    });
-
     // ✅ Create redirect response to home page
     // User is now verified and logged in
     const response = NextResponse.redirect(
       new URL('/?verified=true', request.url)
     );
 
-    // ✅ Set HttpOnly cookie with JWT token
+    // ✅ Start session and set HttpOnly cookie with JWT token
     // User is automatically logged in after email verification
-    response.cookies.set('token', jwtToken, {
-      httpOnly: true,                              // JavaScript cannot read (XSS protection)
-      secure: process.env.NODE_ENV === 'production', // HTTPS only in production
-      sameSite: 'strict',                          // Prevents CSRF attacks
-      maxAge: 60 * 60 * 24 * 7,                   // Cookie expires in 7 days (seconds)
-      path: '/',                                   // Cookie available for all paths
-    });
+    await startSession(request, response, user);
 
     // ✅ Apply badge decay on login (non-blocking)
     try {
@@ -0,0 +1,48 @@
+// Opinion map API route
+// GET /api/categories/[slug]/opinion-map - Groups of voters who vote alike in a sub category (public)
+
+import { NextResponse } from 'next/server';
+import { db } from '@/lib/db';
+import { optionalUser } from '@/lib/requestAuth';
+import { getOpinionMap } from '@/lib/opinionMaps';
+
+/**
+ * GET /api/categories/[slug]/opinion-map
+ * Returns the latest opinion map built by the clustering job (see
+ * src/lib/opinionMaps.ts): the groups, the posts each group agrees or
+ * disagrees on, and anonymous voter positions. Logged-in viewers also get
+ * their own position. map is null until the sub category has enough votes.
+ */
+export const GET = optionalUser<{ slug: string }>(async (request, { params }, user) => {
+  try {
+    const { slug } = params;
+
+    const category = await db.category.findUnique({
+      where: { slug },
+      select: { id: true, parentId: true },
+    });
+
+    if (!category) {
+      return NextResponse.json(
+        { error: 'Category not found' },
+        { status: 404 }
+      );
+    }
+
+    // Maps are built per sub category
+    if (!category.parentId) {
+      return NextResponse.json(
+        { error: 'Opinion maps are only available for sub categories' },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json({ map: await getOpinionMap(db, category.id, user?.id ?? null) });
+  } catch (error: any) {
+    console.error('Error fetching opinion map:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch opinion map' },
+      { status: 500 }
+    );
+  }
+});
@@ -1,8 +1,12 @@
 // Category by slug API route
 // GET /api/categories/[slug] - Get category by slug with full details
+// PUT /api/categories/[slug] - Update name / description (category moderator or admin)
+// DELETE /api/categories/[slug] - Delete an empty category (admins only)
 
 import { NextRequest, NextResponse } from 'next/server';
 import { db } from '@/lib/db';
+import { requireUser, requireRole, forbiddenResponse } from '@/lib/requestAuth';
+import { canManageCategory, isAdmin } from '@/lib/permissions';
 
 export async function GET(
   request: NextRequest,
@@ -44,3 +48,116 @@ export async function GET(
   }
 }
 
+
+/**
+ * PUT /api/categories/[slug] - Update category details
+ * Body: { name?: string, description?: string | null }
+ * Moderators can change the description; renaming is reserved for admins.
+ */
+export const PUT = requireUser<{ slug: string }>(async (request, { params }, user) => {
+  try {
+    const body = await request.json();
+    const { name, description } = body;
+
+    // ✅ VALIDATION: Check input types
+    if (
+      (name !== undefined && (typeof name !== 'string' || !name.trim())) ||
+      (description !== undefined && description !== null && typeof description !== 'string')
+    ) {
+      return NextResponse.json(
+        { error: 'Invalid input' },
+        { status: 400 }
+      );
+    }
+
+    const category = await db.category.findUnique({
+      where: { slug: params.slug },
+      select: { id: true, parentId: true },
+    });
+
+    if (!category) {
+      return NextResponse.json(
+        { error: 'Category not found' },
+        { status: 404 }
+      );
+    }
+
+    // Check permission
+    if (!(await canManageCategory(db, user, category))) {
+      return forbiddenResponse('Not authorized to update this category');
+    }
+    if (name !== undefined && !isAdmin(user)) {
+      return forbiddenResponse('Only admins can rename categories');
+    }
+
+    try {
+      const updated = await db.category.update({
+        where: { id: category.id },
+        data: {
+          ...(name !== undefined && { name: name.trim() }),
+          ...(description !== undefined && { description: description?.trim() || null }),
+        },
+      });
+
+      return NextResponse.json(updated);
+    } catch (updateError: any) {
+      // Unique constraint on name
+      if (updateError?.code === 'P2002') {
+        return NextResponse.json(
+          { error: 'A category with this name already exists' },
+          { status: 409 }
+        );
+      }
+      throw updateError;
+    }
+  } catch (error: any) {
+    console.error('Error updating category:', error);
+    return NextResponse.json(
+      { error: 'Failed to update category' },
+      { status: 500 }
+    );
+  }
+});
+
+/**
+ * DELETE /api/categories/[slug] - Delete a category (admins only)
+ * Only categories without posts can be deleted; sub categories are deleted with their parent.
+ */
+export const DELETE = requireRole<{ slug: string }>('admin', async (request, { params }) => {
+  try {
+    const category = await db.category.findUnique({
+      where: { slug: params.slug },
+      select: { id: true },
+    });
+
+    if (!category) {
+      return NextResponse.json(
+        { error: 'Category not found' },
+        { status: 404 }
+      );
+    }
+
+    // Posts of the category or any of its sub categories
+    const postCount = await db.post.count({
+      where: {
+        OR: [{ mainCategoryId: category.id }, { subCategoryId: category.id }],
+      },
+    });
+    if (postCount > 0) {
+      return NextResponse.json(
+        { error: 'Categories with posts cannot be deleted' },
+        { status: 409 }
+      );
+    }
+
+    await db.category.delete({ where: { id: category.id } });
+
+    return NextResponse.json({ success: true });
+  } catch (error: any) {
+    console.error('Error deleting category:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete category' },
+      { status: 500 }
+    );
+  }
+});
@@ -1,25 +1,9 @@
 // Category View Tracking API route
 // POST /api/categories/[slug]/view - Track user viewing a category (for LRU)
 
-import { NextRequest, NextResponse } from 'next/server';
+import { NextResponse } from 'next/server';
 import { db } from '@/lib/db';
-import { verifyToken } from '@/lib/auth';
-
-/**
- * Helper function to get authenticated user from request
- */
-async function getAuthenticatedUser(request: NextRequest) {
-  const token = request.cookies.get('token')?.value;
-  if (!token) return null;
-  try {
-    const payload = verifyToken(token);
-    const user = await db.user.findUnique({ where: { id: payload.userId } });
-    if (!user || user.tokenVersion !== payload.tokenVersion) return null;
-    return user;
-  } catch {
-    return null;
-  }
-}
+import { optionalUser } from '@/lib/requestAuth';
 
 /**
  * POST /api/categories/[slug]/view
@@ -27,13 +11,8 @@ async function getAuthenticatedUser(request: NextRequest) {
  * Tracks that a user has viewed a category (for LRU).
  * If viewing a sub category, tracks the main category.
  */
-export async function POST(
-  request: NextRequest,
-  { params }: { params: { slug: string } }
-) {
+export const POST = optionalUser<{ slug: string }>(async (request, { params }, user) => {
   try {
-    const user = await getAuthenticatedUser(request);
-    
     // Only track if user is authenticated
     if (!user) {
       return NextResponse.json({ success: true }); // Silent success for unauthenticated users
@@ -87,5 +66,5 @@ export async function POST(
     // Don't fail the request if tracking fails
     return NextResponse.json({ success: true });
   }
-}
+});
 
@@ -3,6 +3,7 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 import { db } from '@/lib/db';
+import { requireRole } from '@/lib/requestAuth';
 
 /**
  * GET /api/categories
@@ -94,3 +95,83 @@ export async function GET(request: NextRequest) {
   }
 }
 
+
+/**
+ * POST /api/categories - Create a category (admins only)
+ *
+ * Body:
+ * - name: string (required)
+ * - slug: string (required, lowercase letters, numbers and dashes)
+ * - parentId: string (optional, main category ID for a sub category)
+ * - description: string (optional)
+ */
+export const POST = requireRole('admin', async (request) => {
+  try {
+    const body = await request.json();
+    const { name, slug, parentId, description } = body;
+
+    // ✅ VALIDATION: Required fields and types
+    if (typeof name !== 'string' || typeof slug !== 'string' || !name.trim() || !slug.trim()) {
+      return NextResponse.json(
+        { error: 'Missing required fields: name, slug' },
+        { status: 400 }
+      );
+    }
+
+    if (!/^[a-z0-9]+(-[a-z0-9]+)*$/.test(slug.trim())) {
+      return NextResponse.json(
+        { error: 'Slug can only contain lowercase letters, numbers and dashes' },
+        { status: 400 }
+      );
+    }
+
+    if (description !== undefined && description !== null && typeof description !== 'string') {
+      return NextResponse.json(
+        { error: 'Invalid input type' },
+        { status: 400 }
+      );
+    }
+
+    // Sub categories must belong to a main category (two levels only)
+    if (parentId) {
+      const parent = await db.category.findUnique({
+        where: { id: parentId },
+        select: { parentId: true },
+      });
+      if (!parent || parent.parentId) {
+        return NextResponse.json(
+          { error: 'Parent must be a main category' },
+          { status: 400 }
+        );
+      }
+    }
+
+    try {
+      const category = await db.category.create({
+        data: {
+          name: name.trim(),
+          slug: slug.trim(),
+          parentId: parentId || null,
+          description: description?.trim() || null,
+        },
+      });
+
+      return NextResponse.json(category, { status: 201 });
+    } catch (createError: any) {
+      // Unique constraint on name or slug
+      if (createError?.code === 'P2002') {
+        return NextResponse.json(
+          { error: 'A category with this name or slug already exists' },
+          { status: 409 }
+        );
+      }
+      throw createError;
+    }
+  } catch (error: any) {
+    console.error('Error creating category:', error);
+    return NextResponse.json(
+      { error: 'Failed to create category' },
+      { status: 500 }
+    );
+  }
+});
@@ -0,0 +1,85 @@
+/**
+ * Moderation Log API Route
+ *
+ * Lists moderator actions, newest first. Moderators see actions in the main
+ * categories they moderate; admins see everything.
+ *
+ * Endpoint: GET /api/moderation/actions
+ *
+ * Query parameters:
+ * - category: Main category slug
+ * - userId: Only actions about this user
+ * - page: Page number (default: 1)
+ * - limit: Entries per page (default: 50, max 100)
+ */
+
+import { NextResponse } from 'next/server';
+import { db } from '@/lib/db';
+import { requireUser, forbiddenResponse } from '@/lib/requestAuth';
+import { getModerationScope } from '@/lib/permissions';
+
+const MAX_LIMIT = 100;
+
+export const GET = requireUser(async (request, context, user) => {
+  try {
+    const scope = await getModerationScope(db, user);
+    if (scope !== null && scope.length === 0) {
+      return forbiddenResponse('Only moderators can view the moderation log');
+    }
+
+    const { searchParams } = new URL(request.url);
+    const categorySlug = searchParams.get('category');
+    const userId = searchParams.get('userId');
+    const page = Math.max(parseInt(searchParams.get('page') || '1', 10) || 1, 1);
+    const limit = Math.min(Math.max(parseInt(searchParams.get('limit') || '50', 10) || 50, 1), MAX_LIMIT);
+
+    const where: any = {};
+    if (scope !== null) {
+      where.categoryId = { in: scope };
+    }
+    if (userId) {
+      where.targetUserId = userId;
+    }
+
+    if (categorySlug) {
+      const category = await db.category.findUnique({
+        where: { slug: categorySlug },
+        select: { id: true, parentId: true },
+      });
+      const mainCategoryId = category ? category.parentId ?? category.id : null;
+      if (!mainCategoryId || (scope !== null && !scope.includes(mainCategoryId))) {
+        return forbiddenResponse('You do not moderate this category');
+      }
+      where.categoryId = mainCategoryId;
+    }
+
+    const [entries, total] = await Promise.all([
+      db.moderationAction.findMany({
+        where,
+        include: {
+          moderator: { select: { id: true, username: true } },
+          targetUser: { select: { id: true, username: true } },
+          category: { select: { id: true, name: true, slug: true } },
+        },
+        orderBy: { createdAt: 'desc' },
+        skip: (page - 1) * limit,
+        take: limit,
+      }),
+      db.moderationAction.count({ where }),
+    ]);
+
+    return NextResponse.json({
+      entries,
+      total,
+      page,
+      limit,
+      totalPages: Math.ceil(total / limit),
+    });
+  } catch (error: any) {
+    console.error('Moderation log error:', error);
+    return NextResponse.json(
+      { error: 'Failed to load moderation log' },
+      { status: 500 }
+    );
+  }
+});
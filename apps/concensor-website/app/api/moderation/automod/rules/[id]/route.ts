@@ -0,0 +1,118 @@
+/**
+ * Automod Rule API Route
+ *
+ * PUT - Updates a rule (fields that are left out keep their value)
+ * DELETE - Deletes a rule
+ *
+ * A rule can't be moved between categories; create a new one instead. Regex
+ * rules can only be created, changed or deleted by admins.
+ *
+ * Endpoints:
+ * - PUT /api/moderation/automod/rules/[id]
+ *   Body: { name?, appliesTo?, type?, config?, action?, message?, enabled? }
+ * - DELETE /api/moderation/automod/rules/[id]
+ */
+
+import { NextResponse } from 'next/server';
+import { db } from '@/lib/db';
+import { requireUser, forbiddenResponse } from '@/lib/requestAuth';
+import { canManageAutomodRule } from '@/lib/permissions';
+import { parseRuleInput, toRuleData } from '@/lib/automod';
+
+export const PUT = requireUser<{ id: string }>(async (request, { params }, user) => {
+  try {
+    const body = await request.json();
+
+    const existing = await db.automodRule.findUnique({
+      where: { id: params.id },
+    });
+
+    if (!existing) {
+      return NextResponse.json(
+        { error: 'Rule not found' },
+        { status: 404 }
+      );
+    }
+
+    // Check permission
+    if (!(await canManageAutomodRule(db, user, existing))) {
+      return forbiddenResponse('You cannot change this rule');
+    }
+
+    if (body.categoryId !== undefined && body.categoryId !== existing.categoryId) {
+      return NextResponse.json(
+        { error: 'A rule cannot be moved to another category' },
+        { status: 400 }
+      );
+    }
+
+    // ✅ VALIDATION: Rule fields and config
+    const parsed = parseRuleInput(body, toRuleData(existing));
+    if (parsed.error !== undefined) {
+      return NextResponse.json(
+        { error: parsed.error },
+        { status: 400 }
+      );
+    }
+    const rule = parsed.value;
+
+    // Changing the type to regex needs the same permission as creating it
+    if (!(await canManageAutomodRule(db, user, rule))) {
+      return forbiddenResponse('Only admins can create regex rules');
+    }
+
+    const updated = await db.automodRule.update({
+      where: { id: existing.id },
+      data: {
+        name: rule.name,
+        appliesTo: rule.appliesTo,
+        type: rule.type,
+        config: rule.config as object,
+        action: rule.action,
+        message: rule.message,
+        enabled: rule.enabled,
+      },
+    });
+
+    return NextResponse.json({ rule: updated });
+  } catch (error: any) {
+    console.error('Update automod rule error:', error);
+    return NextResponse.json(
+      { error: 'Failed to update automod rule' },
+      { status: 500 }
+    );
+  }
+});
+
+export const DELETE = requireUser<{ id: string }>(async (request, { params }, user) => {
+  try {
+    const existing = await db.automodRule.findUnique({
+      where: { id: params.id },
+      select: { id: true, categoryId: true, type: true },
+    });
+
+    if (!existing) {
+      return NextResponse.json(
+        { error: 'Rule not found' },
+        { status: 404 }
+      );
+    }
+
+    // Check permission
+    if (!(await canManageAutomodRule(db, user, existing))) {
+      return forbiddenResponse('You cannot delete this rule');
+    }
+
+    await db.automodRule.delete({
+      where: { id: existing.id },
+    });
+
+    return NextResponse.json({ success: true });
+  } catch (error: any) {
+    console.error('Delete automod rule error:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete automod rule' },
+      { status: 500 }
+    );
+  }
+});
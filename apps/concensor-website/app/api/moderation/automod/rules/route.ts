@@ -0,0 +1,132 @@
+/**
+ * Automod Rules API Route
+ *
+ * GET - Lists the rules the user can manage (admins: all, including
+ *       site-wide rules; moderators: the rules of their categories)
+ * POST - Creates a rule
+ *
+ * Site-wide rules (categoryId null) and regex rules can only be created by
+ * admins. Category rules must use a MAIN category id. See src/lib/automod.ts for rule types
+ * and their config.
+ *
+ * Endpoints:
+ * - GET /api/moderation/automod/rules?category=slug
+ * - POST /api/moderation/automod/rules
+ *   Body: { name, categoryId?, appliesTo?: 'post' | 'comment' | 'all', type, config, action: 'reject' | 'hold' | 'flag', message?, enabled? }
+ */
+
+import { NextResponse } from 'next/server';
+import { db } from '@/lib/db';
+import { requireUser, forbiddenResponse } from '@/lib/requestAuth';
+import { canManageAutomodRule, getModerationScope } from '@/lib/permissions';
+import { parseRuleInput } from '@/lib/automod';
+
+export const GET = requireUser(async (request, context, user) => {
+  try {
+    const scope = await getModerationScope(db, user);
+    if (scope !== null && scope.length === 0) {
+      return forbiddenResponse('Only moderators can manage automod rules');
+    }
+
+    const { searchParams } = new URL(request.url);
+    const categorySlug = searchParams.get('category');
+
+    // Limit to the categories the user moderates (admins also see site-wide rules)
+    const where: any = {};
+    if (scope !== null) {
+      where.categoryId = { in: scope };
+    }
+
+    // Filter by category
+    if (categorySlug) {
+      const category = await db.category.findUnique({
+        where: { slug: categorySlug },
+        select: { id: true, parentId: true },
+      });
+      const mainCategoryId = category ? category.parentId ?? category.id : null;
+      if (!mainCategoryId || (scope !== null && !scope.includes(mainCategoryId))) {
+        return forbiddenResponse('You do not moderate this category');
+      }
+      where.categoryId = mainCategoryId;
+    }
+
+    const rules = await db.automodRule.findMany({
+      where,
+      include: {
+        category: { select: { id: true, name: true, slug: true } },
+        createdBy: { select: { id: true, username: true } },
+      },
+      orderBy: [{ categoryId: { sort: 'asc', nulls: 'first' } }, { createdAt: 'asc' }],
+    });
+
+    return NextResponse.json({ rules });
+  } catch (error: any) {
+    console.error('List automod rules error:', error);
+    return NextResponse.json(
+      { error: 'Failed to load automod rules' },
+      { status: 500 }
+    );
+  }
+});
+
+export const POST = requireUser(async (request, context, user) => {
+  try {
+    const body = await request.json();
+
+    // ✅ VALIDATION: Rule fields and config
+    const parsed = parseRuleInput(body);
+    if (parsed.error !== undefined) {
+      return NextResponse.json(
+        { error: parsed.error },
+        { status: 400 }
+      );
+    }
+    const rule = parsed.value;
+
+    // Check permission (site-wide and regex rules: admins only)
+    if (!(await canManageAutomodRule(db, user, rule))) {
+      if (rule.type === 'regex') {
+        return forbiddenResponse('Only admins can create regex rules');
+      }
+      return forbiddenResponse(
+        rule.categoryId ? 'You do not moderate this category' : 'Only admins can create site-wide rules'
+      );
+    }
+
+    // Category rules apply to a main category and its sub categories
+    if (rule.categoryId) {
+      const category = await db.category.findUnique({
+        where: { id: rule.categoryId },
+        select: { parentId: true },
+      });
+      if (!category || category.parentId) {
+        return NextResponse.json(
+          { error: 'categoryId must be a main category' },
+          { status: 400 }
+        );
+      }
+    }
+
+    const created = await db.automodRule.create({
+      data: {
+        name: rule.name,
+        categoryId: rule.categoryId,
+        appliesTo: rule.appliesTo,
+        type: rule.type,
+        config: rule.config as object,
+        action: rule.action,
+        message: rule.message,
+        enabled: rule.enabled,
+        createdById: user.id,
+      },
+    });
+
+    return NextResponse.json({ rule: created }, { status: 201 });
+  } catch (error: any) {
+    console.error('Create automod rule error:', error);
+    return NextResponse.json(
+      { error: 'Failed to create automod rule' },
+      { status: 500 }
+    );
+  }
+});
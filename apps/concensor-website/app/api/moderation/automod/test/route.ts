@@ -0,0 +1,123 @@
+/**
+ * Automod Test API Route
+ *
+ * Runs automod rules against sample text without creating anything, so
+ * moderators can check a rule before saving or enabling it.
+ *
+ * - With `rule`: tests that single (unsaved) rule, even if it is disabled
+ * - Without `rule`: tests every enabled rule that applies to new content in
+ *   `categoryId` (site-wide and category rules), like POST /api/posts does
+ *
+ * Account-based rules (age, verified email, category points) look at the user
+ * given by `username`, or the moderator themselves.
+ *
+ * Endpoint: POST /api/moderation/automod/test
+ * Body: { text: string, categoryId?: string, target?: 'post' | 'comment', username?: string, rule?: { ...same as POST /api/moderation/automod/rules } }
+ */
+
+import { NextResponse } from 'next/server';
+import { db } from '@/lib/db';
+import { requireUser, forbiddenResponse } from '@/lib/requestAuth';
+import { canManageAutomodRule, canModerateCategory } from '@/lib/permissions';
+import {
+  AUTOMOD_CONFIG,
+  applyRules,
+  getApplicableRules,
+  getAutomodAuthor,
+  parseRuleInput,
+  type AutomodRuleData,
+} from '@/lib/automod';
+
+export const POST = requireUser(async (request, context, user) => {
+  try {
+    const body = await request.json();
+    const { text, categoryId, username, rule: ruleInput } = body;
+    const target = body.target ?? 'post';
+
+    // ✅ VALIDATION: Check input types
+    if (
+      typeof text !== 'string' ||
+      (categoryId !== undefined && categoryId !== null && typeof categoryId !== 'string') ||
+      (username !== undefined && typeof username !== 'string') ||
+      (ruleInput !== undefined && (typeof ruleInput !== 'object' || ruleInput === null))
+    ) {
+      return NextResponse.json(
+        { error: 'Invalid input type' },
+        { status: 400 }
+      );
+    }
+
+    if (text.length > AUTOMOD_CONFIG.MAX_SAMPLE_LENGTH) {
+      return NextResponse.json(
+        { error: `Text must be ${AUTOMOD_CONFIG.MAX_SAMPLE_LENGTH} characters or less` },
+        { status: 400 }
+      );
+    }
+
+    if (target !== 'post' && target !== 'comment') {
+      return NextResponse.json(
+        { error: "target must be 'post' or 'comment'" },
+        { status: 400 }
+      );
+    }
+
+    let rules: AutomodRuleData[];
+    let mainCategoryId: string | null = categoryId ?? null;
+
+    if (ruleInput) {
+      // ✅ VALIDATION: Same checks as saving the rule
+      const parsed = parseRuleInput({ ...ruleInput, enabled: true, categoryId: ruleInput.categoryId ?? mainCategoryId });
+      if (parsed.error !== undefined) {
+        return NextResponse.json(
+          { error: parsed.error },
+          { status: 400 }
+        );
+      }
+      if (!(await canManageAutomodRule(db, user, parsed.value))) {
+        return forbiddenResponse('You cannot manage rules for this category');
+      }
+      rules = [parsed.value];
+      mainCategoryId = parsed.value.categoryId;
+    } else {
+      if (!mainCategoryId) {
+        return NextResponse.json(
+          { error: 'categoryId or rule is required' },
+          { status: 400 }
+        );
+      }
+      if (!(await canModerateCategory(db, user, mainCategoryId))) {
+        return forbiddenResponse('You do not moderate this category');
+      }
+      rules = await getApplicableRules(db, mainCategoryId, target);
+    }
+
+    // Whose account the account-based rules look at
+    let authorId = user.id;
+    if (username) {
+      const author = await db.user.findUnique({
+        where: { username: username.trim() },
+        select: { id: true },
+      });
+      if (!author) {
+        return NextResponse.json(
+          { error: 'User not found' },
+          { status: 404 }
+        );
+      }
+      authorId = author.id;
+    }
+    const author = await getAutomodAuthor(db, authorId, mainCategoryId);
+
+    return NextResponse.json({
+      rulesChecked: rules.length,
+      author,
+      result: applyRules(rules, text, author, target),
+    });
+  } catch (error: any) {
+    console.error('Automod test error:', error);
+    return NextResponse.json(
+      { error: 'Failed to test automod rules' },
+      { status: 500 }
+    );
+  }
+});
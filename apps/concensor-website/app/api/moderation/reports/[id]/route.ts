@@ -0,0 +1,234 @@
+/**
+ * Moderation Action API Route
+ *
+ * Takes an action on a report. The action closes every open report on the
+ * same post, comment or user, and is recorded in the moderation log.
+ *
+ * Actions:
+ * - dismiss: No violation
+ * - approve: Publish a post or comment held by automod
+ * - remove: Set the post's / comment's status to 'removed'
+ * - warn: Email the author (note required, it is the warning text)
+ * - suspend: Suspend the author for durationDays (note required, shown to the user)
+ * - ban: Ban the author permanently (admins only, note required)
+ *
+ * Nobody can warn, suspend or ban themselves, and only admins can warn,
+ * suspend or ban admins and moderators of the category.
+ *
+ * Endpoint: POST /api/moderation/reports/[id]
+ * Body: { action: 'dismiss' | 'approve' | 'remove' | 'warn' | 'suspend' | 'ban', note?: string, durationDays?: number }
+ *
+ * Content held by automod must be approved or removed first (any other action
+ * would close its reports and leave it unpublished).
+ */
+
+import { NextResponse } from 'next/server';
+import { db } from '@/lib/db';
+import { requireUser, forbiddenResponse } from '@/lib/requestAuth';
+import { canModerateCategory, isAdmin } from '@/lib/permissions';
+import { emailService } from '@/lib/email';
+import {
+  MODERATION_ACTIONS,
+  MODERATION_CONFIG,
+  getReportTarget,
+  approveContent,
+  awardApprovedContentPoints,
+  isHeldContent,
+  removeContent,
+  resolveReports,
+} from '@/lib/moderation';
+import { suspendUser, banUser } from '@/lib/suspensions';
+import { revokeAllSessions } from '@/lib/sessions';
+
+export const POST = requireUser<{ id: string }>(async (request, { params }, user) => {
+  try {
+    const body = await request.json();
+    const { action, durationDays } = body;
+    const note = typeof body.note === 'string' ? body.note.trim() : '';
+
+    // ✅ VALIDATION: Action and note
+    if (!MODERATION_ACTIONS.includes(action)) {
+      return NextResponse.json(
+        { error: `Action must be one of: ${MODERATION_ACTIONS.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    if (note.length > MODERATION_CONFIG.MAX_NOTE_LENGTH) {
+      return NextResponse.json(
+        { error: `Note must be ${MODERATION_CONFIG.MAX_NOTE_LENGTH} characters or less` },
+        { status: 400 }
+      );
+    }
+
+    const targetsAuthor = action === 'warn' || action === 'suspend' || action === 'ban';
+
+    if (targetsAuthor && !note) {
+      return NextResponse.json(
+        { error: 'A note explaining the reason is required (the user will see it)' },
+        { status: 400 }
+      );
+    }
+
+    if (
+      action === 'suspend' &&
+      (!Number.isInteger(durationDays) || durationDays < 1 || durationDays > MODERATION_CONFIG.MAX_SUSPENSION_DAYS)
+    ) {
+      return NextResponse.json(
+        { error: `durationDays must be a whole number from 1 to ${MODERATION_CONFIG.MAX_SUSPENSION_DAYS}` },
+        { status: 400 }
+      );
+    }
+
+    const report = await db.report.findUnique({
+      where: { id: params.id },
+    });
+
+    if (!report) {
+      return NextResponse.json(
+        { error: 'Report not found' },
+        { status: 404 }
+      );
+    }
+
+    // Check permission (user reports have no category: admins only)
+    const allowed = report.categoryId
+      ? await canModerateCategory(db, user, report.categoryId)
+      : isAdmin(user);
+    if (!allowed) {
+      return forbiddenResponse('You do not moderate this category');
+    }
+
+    // Bans are permanent: admins only
+    if (action === 'ban' && !isAdmin(user)) {
+      return forbiddenResponse('Only admins can ban users. Suspend them instead.');
+    }
+
+    if (report.status !== 'open') {
+      return NextResponse.json(
+        { error: 'This report has already been resolved' },
+        { status: 409 } // HTTP 409 = Conflict
+      );
+    }
+
+    const target = getReportTarget(report);
+
+    if (action === 'remove' && target.targetType === 'user') {
+      return NextResponse.json(
+        { error: 'Users cannot be removed. Warn or suspend them instead.' },
+        { status: 400 }
+      );
+    }
+
+    const held = await isHeldContent(db, target);
+    if (action === 'approve' && !held) {
+      return NextResponse.json(
+        { error: 'Only content held by automod can be approved' },
+        { status: 400 }
+      );
+    }
+    if (held && action !== 'approve' && action !== 'remove') {
+      return NextResponse.json(
+        { error: 'This content is held for review. Approve or remove it.' },
+        { status: 400 }
+      );
+    }
+
+    // Warn / suspend / ban need an author (not a deleted account)
+    const author = target.targetUserId
+      ? await db.user.findUnique({
+          where: { id: target.targetUserId },
+          select: { id: true, email: true, username: true, role: true },
+        })
+      : null;
+    if (targetsAuthor && !author) {
+      return NextResponse.json(
+        { error: "The author's account no longer exists" },
+        { status: 400 }
+      );
+    }
+
+    if (targetsAuthor) {
+      if (author!.id === user.id) {
+        return NextResponse.json(
+          { error: 'You cannot take action against yourself' },
+          { status: 400 }
+        );
+      }
+
+      // Moderators can't act against admins or the category's other moderators
+      const authorIsStaff =
+        isAdmin(author) || (report.categoryId !== null && (await canModerateCategory(db, author, report.categoryId)));
+      if (authorIsStaff && !isAdmin(user)) {
+        return forbiddenResponse('Only admins can warn, suspend or ban admins and moderators');
+      }
+    }
+
+    // Apply the action and close the reports together. Claiming the report
+    // first locks it, so a second moderator acting at the same time gets a 409
+    let approved = false;
+    const outcome = await db.$transaction(async (tx) => {
+      const claimed = await tx.report.updateMany({
+        where: { id: report.id, status: 'open' },
+        data: { resolvedById: user.id, resolvedAt: new Date() },
+      });
+      if (claimed.count === 0) {
+        return null;
+      }
+
+      let suspendedUntil: Date | null = null;
+      if (action === 'remove') {
+        await removeContent(tx, target);
+      } else if (action === 'approve') {
+        approved = await approveContent(tx, target);
+      } else if (action === 'suspend') {
+        suspendedUntil = await suspendUser(tx, author!.id, note, durationDays, user.id);
+      } else if (action === 'ban') {
+        await banUser(tx, author!.id, note, user.id);
+      }
+
+      const resolvedReportIds = await resolveReports(tx, action, user.id, target, note);
+      return { resolvedReportIds, suspendedUntil };
+    });
+
+    if (!outcome) {
+      return NextResponse.json(
+        { error: 'This report has already been resolved' },
+        { status: 409 } // HTTP 409 = Conflict
+      );
+    }
+    const { resolvedReportIds, suspendedUntil } = outcome;
+
+    if (approved) {
+      await awardApprovedContentPoints(db, target);
+    }
+    if (action === 'ban') {
+      await revokeAllSessions(db, author!.id);
+    }
+
+    // Tell the author (non-blocking: the action is done either way)
+    try {
+      if (action === 'warn') {
+        await emailService.sendModerationWarningEmail(author!.email, note, author!.username || undefined);
+      } else if (action === 'suspend' && suspendedUntil) {
+        await emailService.sendSuspensionEmail(author!.email, note, suspendedUntil, author!.username || undefined);
+      } else if (action === 'ban') {
+        await emailService.sendSuspensionEmail(author!.email, note, null, author!.username || undefined);
+      }
+    } catch (emailError) {
+      console.error('Error sending moderation email:', emailError);
+    }
+
+    return NextResponse.json({
+      success: true,
+      resolvedReportIds,
+      suspendedUntil,
+    });
+  } catch (error: any) {
+    console.error('Moderation action error:', error);
+    return NextResponse.json(
+      { error: 'Failed to apply moderation action' },
+      { status: 500 }
+    );
+  }
+});
@@ -0,0 +1,131 @@
+/**
+ * Moderation Queue API Route
+ *
+ * Lists reports for moderators. Moderators see reports in the main categories
+ * they moderate; admins see every report, including user reports.
+ *
+ * Endpoint: GET /api/moderation/reports
+ *
+ * Query parameters:
+ * - status: open (default), dismissed, actioned or all
+ * - category: Main category slug
+ * - reason: Reason code (spam, harassment, ..., or automod for held and flagged content)
+ * - targetType: post, comment or user
+ * - page: Page number (default: 1)
+ * - limit: Reports per page (default: 20, max 100)
+ */
+
+import { NextResponse } from 'next/server';
+import { db } from '@/lib/db';
+import { requireUser, forbiddenResponse } from '@/lib/requestAuth';
+import { getModerationScope } from '@/lib/permissions';
+import { REPORT_REASONS, REPORT_STATUSES, REPORT_TARGET_TYPES } from '@/lib/moderation';
+import { AUTOMOD_REPORT_REASON } from '@/lib/automod';
+
+const MAX_LIMIT = 100;
+
+export const GET = requireUser(async (request, context, user) => {
+  try {
+    const scope = await getModerationScope(db, user);
+    if (scope !== null && scope.length === 0) {
+      return forbiddenResponse('Only moderators can view reports');
+    }
+
+    const { searchParams } = new URL(request.url);
+    const status = searchParams.get('status') || 'open';
+    const categorySlug = searchParams.get('category');
+    const reason = searchParams.get('reason');
+    const targetType = searchParams.get('targetType');
+    const page = Math.max(parseInt(searchParams.get('page') || '1', 10) || 1, 1);
+    const limit = Math.min(Math.max(parseInt(searchParams.get('limit') || '20', 10) || 20, 1), MAX_LIMIT);
+
+    // ✅ VALIDATION: Filter values
+    if (status !== 'all' && !(REPORT_STATUSES as readonly string[]).includes(status)) {
+      return NextResponse.json({ error: 'Invalid status' }, { status: 400 });
+    }
+    if (reason && reason !== AUTOMOD_REPORT_REASON && !(REPORT_REASONS as readonly string[]).includes(reason)) {
+      return NextResponse.json({ error: 'Invalid reason' }, { status: 400 });
+    }
+    if (targetType && !(REPORT_TARGET_TYPES as readonly string[]).includes(targetType)) {
+      return NextResponse.json({ error: 'Invalid target type' }, { status: 400 });
+    }
+
+    // Build where clause
+    const where: any = {};
+    if (status !== 'all') {
+      where.status = status;
+    }
+    if (reason) {
+      where.reason = reason;
+    }
+    if (targetType) {
+      where.targetType = targetType;
+    }
+
+    // Limit to the categories the user moderates
+    if (scope !== null) {
+      where.categoryId = { in: scope };
+    }
+
+    // Filter by category
+    if (categorySlug) {
+      const category = await db.category.findUnique({
+        where: { slug: categorySlug },
+        select: { id: true, parentId: true },
+      });
+      const mainCategoryId = category ? category.parentId ?? category.id : null;
+      if (!mainCategoryId || (scope !== null && !scope.includes(mainCategoryId))) {
+        return forbiddenResponse('You do not moderate this category');
+      }
+      where.categoryId = mainCategoryId;
+    }
+
+    const [reports, total] = await Promise.all([
+      db.report.findMany({
+        where,
+        include: {
+          reporter: { select: { id: true, username: true } },
+          reportedUser: { select: { id: true, username: true } },
+          resolvedBy: { select: { id: true, username: true } },
+          category: { select: { id: true, name: true, slug: true } },
+          post: { select: { id: true, title: true, status: true } },
+          comment: { select: { id: true, content: true, status: true, postId: true } },
+        },
+        orderBy: { createdAt: 'asc' }, // Oldest first: first come, first served
+        skip: (page - 1) * limit,
+        take: limit,
+      }),
+      db.report.count({ where }),
+    ]);
+
+    // Number of open reports per target (several users often report the same thing)
+    const targetIds = [...new Set(reports.map((report) => report.targetId))];
+    const openCounts = targetIds.length > 0
+      ? await db.report.groupBy({
+          by: ['targetType', 'targetId'],
+          where: { targetId: { in: targetIds }, status: 'open' },
+          _count: { _all: true },
+        })
+      : [];
+    const openCountMap = new Map(
+      openCounts.map((row) => [`${row.targetType}:${row.targetId}`, row._count._all])
+    );
+
+    return NextResponse.json({
+      reports: reports.map((report) => ({
+        ...report,
+        openReportsForTarget: openCountMap.get(`${report.targetType}:${report.targetId}`) ?? 0,
+      })),
+      total,
+      page,
+      limit,
+      totalPages: Math.ceil(total / limit),
+    });
+  } catch (error: any) {
+    console.error('Moderation queue error:', error);
+    return NextResponse.json(
+      { error: 'Failed to load reports' },
+      { status: 500 }
+    );
+  }
+});
@@ -0,0 +1,67 @@
+// Comment edit history
+// GET /api/posts/[id]/comments/[commentId]/revisions - Previous versions of a comment
+// (commenter, category moderator or admin)
+
+import { NextResponse } from 'next/server';
+import { db } from '@/lib/db';
+import { requireUser, forbiddenResponse } from '@/lib/requestAuth';
+import { canDeleteComment } from '@/lib/permissions';
+
+/**
+ * GET /api/posts/[id]/comments/[commentId]/revisions
+ * Returns the current text and every earlier version, newest first.
+ * Moderators see the history of deleted and removed comments too.
+ */
+export const GET = requireUser<{ id: string; commentId: string }>(async (request, { params }, user) => {
+  try {
+    const { id: postId, commentId } = params;
+
+    const comment = await db.comment.findUnique({
+      where: { id: commentId },
+      select: {
+        id: true,
+        postId: true,
+        userId: true,
+        content: true,
+        status: true,
+        editedAt: true,
+        createdAt: true,
+        post: { select: { mainCategoryId: true } },
+      },
+    });
+
+    if (!comment || comment.postId !== postId) {
+      return NextResponse.json(
+        { error: 'Comment not found' },
+        { status: 404 }
+      );
+    }
+
+    // Same people who can delete the comment can read its history
+    if (!(await canDeleteComment(db, user, comment, comment.post))) {
+      return forbiddenResponse('Not authorized to view this comment history');
+    }
+
+    const revisions = await db.commentRevision.findMany({
+      where: { commentId },
+      select: { id: true, content: true, createdAt: true },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    return NextResponse.json({
+      current: {
+        content: comment.content,
+        status: comment.status,
+        editedAt: comment.editedAt,
+        createdAt: comment.createdAt,
+      },
+      revisions, // createdAt = when that version was replaced
+    });
+  } catch (error: any) {
+    console.error('Error fetching comment revisions:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch comment history' },
+      { status: 500 }
+    );
+  }
+});
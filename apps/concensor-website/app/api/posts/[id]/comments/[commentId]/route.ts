@@ -0,0 +1,172 @@
+// Single comment endpoint
+// PUT /api/posts/[id]/comments/[commentId] - Edit a comment (commenter only)
+// DELETE /api/posts/[id]/comments/[commentId] - Delete a comment (commenter, category moderator or admin)
+
+import { NextResponse } from 'next/server';
+import { db } from '@/lib/db';
+import { requireUser, forbiddenResponse } from '@/lib/requestAuth';
+import { canDeleteComment, canEditComment } from '@/lib/permissions';
+import { editComment, unpublishComment } from '@/lib/comments';
+import { resolveReports } from '@/lib/moderation';
+import { checkContent, fileAutomodReport } from '@/lib/automod';
+
+/**
+ * PUT /api/posts/[id]/comments/[commentId] - Edit comment
+ * Body: { content: string }
+ *
+ * The previous text is kept in CommentRevision and the comment is marked as
+ * edited. Automod rules run on the new text: 'reject' refuses the edit, 'hold'
+ * and 'flag' save it and report the comment (it is already public).
+ */
+export const PUT = requireUser<{ id: string; commentId: string }>(async (request, { params }, user) => {
+  try {
+    const { id: postId, commentId } = params;
+    const body = await request.json();
+    const { content } = body;
+
+    // Validation (same as creating a comment)
+    if (!content || typeof content !== 'string' || content.trim().length === 0) {
+      return NextResponse.json(
+        { error: 'Comment content is required' },
+        { status: 400 }
+      );
+    }
+
+    if (content.length > 5000) {
+      return NextResponse.json(
+        { error: 'Comment is too long (max 5000 characters)' },
+        { status: 400 }
+      );
+    }
+
+    const comment = await db.comment.findUnique({
+      where: { id: commentId },
+      select: {
+        id: true,
+        postId: true,
+        userId: true,
+        status: true,
+        post: { select: { mainCategoryId: true, status: true } },
+      },
+    });
+
+    if (!comment || comment.postId !== postId || comment.status !== 'published' || comment.post.status !== 'published') {
+      return NextResponse.json(
+        { error: 'Comment not found' },
+        { status: 404 }
+      );
+    }
+
+    // Check permission (moderators can remove but not edit)
+    if (!canEditComment(user, comment)) {
+      return forbiddenResponse('Not authorized to edit this comment');
+    }
+
+    // ✅ AUTOMOD: Same rules as new comments
+    const automod = await checkContent(db, user, {
+      target: 'comment',
+      text: content.trim(),
+      mainCategoryId: comment.post.mainCategoryId,
+    });
+    if (automod.decision === 'reject') {
+      return NextResponse.json(
+        { error: automod.message },
+        { status: 422 } // HTTP 422 = Unprocessable Content
+      );
+    }
+
+    const updated = await editComment(db, commentId, content.trim());
+    if (!updated) {
+      return NextResponse.json(
+        { error: 'Comment not found' },
+        { status: 404 }
+      );
+    }
+
+    if (automod.decision !== 'allow') {
+      await fileAutomodReport(db, {
+        targetType: 'comment',
+        targetId: comment.id,
+        postId: comment.postId,
+        commentId: comment.id,
+        targetUserId: comment.userId,
+        categoryId: comment.post.mainCategoryId,
+      }, automod.matches);
+    }
+
+    return NextResponse.json({
+      success: true,
+      comment: {
+        id: updated.id,
+        content: updated.content,
+        editedAt: updated.editedAt,
+      },
+    });
+  } catch (error: any) {
+    console.error('Error editing comment:', error);
+    return NextResponse.json(
+      { error: 'Failed to edit comment' },
+      { status: 500 }
+    );
+  }
+});
+
+/**
+ * DELETE /api/posts/[id]/comments/[commentId] - Delete comment (soft delete)
+ * The row stays so replies keep their place; GET shows it as "[deleted]"
+ * while it has replies. Post.commentCount and hotScore are updated.
+ */
+export const DELETE = requireUser<{ id: string; commentId: string }>(async (request, { params }, user) => {
+  try {
+    const { id: postId, commentId } = params;
+
+    const comment = await db.comment.findUnique({
+      where: { id: commentId },
+      select: {
+        id: true,
+        postId: true,
+        userId: true,
+        status: true,
+        post: { select: { mainCategoryId: true } },
+      },
+    });
+
+    if (!comment || comment.postId !== postId || comment.status !== 'published') {
+      return NextResponse.json(
+        { error: 'Comment not found' },
+        { status: 404 }
+      );
+    }
+
+    // Check permission
+    if (!(await canDeleteComment(db, user, comment, comment.post))) {
+      return forbiddenResponse('Not authorized to delete this comment');
+    }
+
+    // Soft delete and update post comment count
+    // Someone else's comment is taken down by a moderator: 'removed' and logged
+    const isOwnComment = comment.userId === user.id;
+    await db.$transaction(async (tx) => {
+      const unpublished = await unpublishComment(tx, commentId, isOwnComment ? 'deleted' : 'removed');
+
+      if (unpublished && !isOwnComment) {
+        await resolveReports(tx, 'remove', user.id, {
+          targetType: 'comment',
+          targetId: comment.id,
+          postId: comment.postId,
+          commentId: comment.id,
+          targetUserId: comment.userId,
+          categoryId: comment.post.mainCategoryId,
+        });
+      }
+    });
+
+    return NextResponse.json({ success: true });
+  } catch (error: any) {
+    console.error('Error deleting comment:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete comment' },
+      { status: 500 }
+    );
+  }
+});
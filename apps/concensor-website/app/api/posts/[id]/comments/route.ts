@@ -4,39 +4,23 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 import { db } from '@/lib/db';
-import { verifyToken } from '@/lib/auth';
+import { requireUser } from '@/lib/requestAuth';
 import { awardCommentPoints } from '@/lib/pointsService';
+import { checkContent, fileAutomodReport } from '@/lib/automod';
 import { recalculateHotScore } from '@/lib/hotScore';
 import { getBadgeName } from '@/lib/points';
+import { DELETED_USER } from '@/lib/accountDeletion';
 
-/**
- * Helper function to get authenticated user from request
- */
-async function getAuthenticatedUser(request: NextRequest) {
-  const token = request.cookies.get('token')?.value;
-  if (!token) {
-    return null;
-  }
-
-  try {
-    const payload = verifyToken(token);
-    const user = await db.user.findUnique({
-      where: { id: payload.userId },
-    });
-
-    if (!user || user.tokenVersion !== payload.tokenVersion) {
-      return null;
-    }
-
-    return user;
-  } catch {
-    return null;
-  }
-}
+// Statuses returned by GET (pending comments wait for a moderator and are left out)
+const VISIBLE_COMMENT_STATUSES = ['published', 'deleted', 'removed'];
 
 /**
  * GET /api/posts/[id]/comments - Get all comments for a post
  * Returns comments in a flat structure with nested replies
+ *
+ * Deleted and removed comments are included with their text and author
+ * stripped, so replies stay attached and comment numbers don't shift. The
+ * client shows them as "[deleted]" while they have replies.
  */
 export async function GET(
   request: NextRequest,
@@ -62,7 +46,7 @@ export async function GET(
       where: {
         postId,
         parentId: null,
-        status: 'published',
+        status: { in: VISIBLE_COMMENT_STATUSES },
       },
       include: {
         user: {
@@ -101,7 +85,7 @@ export async function GET(
       where: {
         postId,
         parentId: { not: null },
-        status: 'published',
+        status: { in: VISIBLE_COMMENT_STATUSES },
       },
       include: {
         user: {
@@ -169,6 +153,11 @@ export async function GET(
 
     // Build tree structure
     const addEquippedBadge = (comment: any) => {
+      // Commenter's account was deleted: show "[deleted user]" without a badge
+      if (!comment.user) {
+        return { ...comment, user: DELETED_USER };
+      }
+
       const equippedCategoryId = comment.user?.equippedBadgeCategoryId;
       const equippedCategory = comment.user?.equippedBadgeCategory;
       const equippedPoints = equippedCategoryId
@@ -194,8 +183,14 @@ export async function GET(
       };
     };
 
-    const decoratedReplies = allReplies.map(addEquippedBadge);
-    const decoratedTopLevel = topLevelComments.map(addEquippedBadge);
+    // Deleted / removed comments keep their place but not their text or author
+    const hideDeleted = (comment: any) =>
+      comment.status === 'published'
+        ? comment
+        : { ...comment, content: '', userId: null, user: null, editedAt: null };
+
+    const decoratedReplies = allReplies.map(hideDeleted).map(addEquippedBadge);
+    const decoratedTopLevel = topLevelComments.map(hideDeleted).map(addEquippedBadge);
 
     const commentTree = decoratedTopLevel.map((comment) => ({
       ...comment,
@@ -216,21 +211,12 @@ export async function GET(
 /**
  * POST /api/posts/[id]/comments - Create a new comment
  * Body: { content: string, parentId?: string }
+ *
+ * Automod rules can reject the comment (422) or hold it for review (202,
+ * status 'pending', not counted in commentCount until approved).
  */
-export async function POST(
-  request: NextRequest,
-  { params }: { params: { id: string } }
-) {
+export const POST = requireUser<{ id: string }>(async (request, { params }, user) => {
   try {
-    // Check authentication
-    const user = await getAuthenticatedUser(request);
-    if (!user) {
-      return NextResponse.json(
-        { error: 'Not authenticated' },
-        { status: 401 }
-      );
-    }
-
     const { id: postId } = params;
     const body = await request.json();
     const { content, parentId } = body;
@@ -292,6 +278,20 @@ export async function POST(
       }
     }
 
+    // ✅ AUTOMOD: Site-wide and category rules
+    const automod = await checkContent(db, user, {
+      target: 'comment',
+      text: content.trim(),
+      mainCategoryId: post.mainCategoryId,
+    });
+    if (automod.decision === 'reject') {
+      return NextResponse.json(
+        { error: automod.message },
+        { status: 422 } // HTTP 422 = Unprocessable Content
+      );
+    }
+    const held = automod.decision === 'hold';
+
     // Create comment and update post in a transaction
     const result = await db.$transaction(async (tx) => {
       // Create comment
@@ -301,6 +301,7 @@ export async function POST(
           userId: user.id,
           content: content.trim(),
           parentId: parentId || null,
+          status: held ? 'pending' : 'published', // Held comments wait for a moderator
         },
         include: {
           user: {
@@ -326,6 +327,11 @@ export async function POST(
         },
       });
 
+      // Held comments don't count until approved
+      if (held) {
+        return { comment, mainCategoryId: post.mainCategoryId };
+      }
+
       // Update post comment count
       const updatedPost = await tx.post.update({
         where: { id: postId },
@@ -354,7 +360,31 @@ export async function POST(
       return { comment, mainCategoryId: post.mainCategoryId };
     });
 
-    // Award points for commenting (after transaction)
+    // Held or flagged: put it in the moderation queue
+    if (automod.decision !== 'allow') {
+      await fileAutomodReport(db, {
+        targetType: 'comment',
+        targetId: result.comment.id,
+        postId,
+        commentId: result.comment.id,
+        targetUserId: user.id,
+        categoryId: result.mainCategoryId,
+      }, automod.matches);
+    }
+
+    if (held) {
+      return NextResponse.json(
+        {
+          success: true,
+          held: true,
+          comment: result.comment,
+          message: 'Your comment was held for review by the moderators. It will appear once approved.',
+        },
+        { status: 202 } // HTTP 202 = Accepted (not published yet)
+      );
+    }
+
+    // Award points for commenting (after transaction; held comments get them once approved)
     try {
       await awardCommentPoints(db, user.id, result.mainCategoryId);
     } catch (pointsError) {
@@ -388,5 +418,5 @@ export async function POST(
       { status: 500 }
     );
   }
-}
+});
 
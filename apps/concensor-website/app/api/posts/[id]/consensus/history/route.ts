@@ -0,0 +1,57 @@
+// Consensus history
+// GET /api/posts/[id]/consensus/history?interval=hour|day - Vote counts over time (public)
+
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/lib/db';
+import { HISTORY_INTERVALS, getConsensusHistory, type HistoryInterval } from '@/lib/consensusHistory';
+
+/**
+ * GET /api/posts/[id]/consensus/history
+ *
+ * Query parameters:
+ * - interval: 'hour' | 'day' (default: 'day')
+ *
+ * Returns one snapshot of the five vote counts, totalVotes and weightedScore
+ * per bucket, from the first vote until now (see src/lib/consensusHistory.ts).
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { id: postId } = params;
+    const { searchParams } = new URL(request.url);
+    const interval = searchParams.get('interval') || 'day';
+
+    // ✅ VALIDATION: Supported bucket sizes
+    if (!(HISTORY_INTERVALS as readonly string[]).includes(interval)) {
+      return NextResponse.json(
+        { error: "interval must be 'hour' or 'day'" },
+        { status: 400 }
+      );
+    }
+
+    const post = await db.post.findUnique({
+      where: { id: postId },
+      select: { status: true },
+    });
+
+    if (!post || post.status !== 'published') {
+      return NextResponse.json(
+        { error: 'Post not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      interval,
+      history: await getConsensusHistory(db, postId, interval as HistoryInterval),
+    });
+  } catch (error: any) {
+    console.error('Error fetching consensus history:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch consensus history' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,40 @@
+// Opinion shifts
+// GET /api/posts/[id]/opinion-shifts - How votes on a post changed over time (public)
+
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/lib/db';
+import { getOpinionShiftStats } from '@/lib/votes';
+
+/**
+ * GET /api/posts/[id]/opinion-shifts
+ * Compares each voter's first vote with their current one (see
+ * getOpinionShiftStats in src/lib/votes.ts). Counts only, no voters.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { id: postId } = params;
+
+    const post = await db.post.findUnique({
+      where: { id: postId },
+      select: { status: true },
+    });
+
+    if (!post || post.status !== 'published') {
+      return NextResponse.json(
+        { error: 'Post not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(await getOpinionShiftStats(db, postId));
+  } catch (error: any) {
+    console.error('Error fetching opinion shifts:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch opinion shifts' },
+      { status: 500 }
+    );
+  }
+}
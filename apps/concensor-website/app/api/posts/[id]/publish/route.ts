@@ -0,0 +1,68 @@
+// Publish a draft
+// POST /api/posts/[id]/publish - Publish own draft now (author only)
+
+import { NextResponse } from 'next/server';
+import { db } from '@/lib/db';
+import { requireUser, forbiddenResponse } from '@/lib/requestAuth';
+import { canEditPost } from '@/lib/permissions';
+import { publishDraft } from '@/lib/drafts';
+
+/**
+ * POST /api/posts/[id]/publish
+ *
+ * Publishes the draft right away (a scheduled time is dropped). Like creating
+ * a post, automod can reject it (422, it stays a draft) or hold it for review
+ * (202, status 'pending').
+ */
+export const POST = requireUser<{ id: string }>(async (request, { params }, user) => {
+  try {
+    const { id } = params;
+
+    const post = await db.post.findUnique({
+      where: { id },
+      select: { id: true, authorId: true, status: true },
+    });
+
+    if (!post) {
+      return NextResponse.json(
+        { error: 'Post not found' },
+        { status: 404 }
+      );
+    }
+
+    // Check permission
+    if (!canEditPost(user, post)) {
+      return forbiddenResponse('Not authorized to publish this post');
+    }
+
+    const outcome = await publishDraft(db, post.id);
+
+    switch (outcome.status) {
+      case 'published':
+        return NextResponse.json({ success: true, id: post.id, status: 'published' });
+      case 'pending':
+        return NextResponse.json(
+          { success: true, id: post.id, status: 'pending', held: true, message: outcome.message },
+          { status: 202 } // HTTP 202 = Accepted (not published yet)
+        );
+      case 'rejected':
+        return NextResponse.json(
+          { error: outcome.message },
+          { status: 422 } // HTTP 422 = Unprocessable Content
+        );
+      case 'restricted':
+        return forbiddenResponse('Your account is restricted');
+      default:
+        return NextResponse.json(
+          { error: 'Only drafts can be published' },
+          { status: 409 } // HTTP 409 = Conflict
+        );
+    }
+  } catch (error: any) {
+    console.error('Error publishing post:', error);
+    return NextResponse.json(
+      { error: 'Failed to publish post' },
+      { status: 500 }
+    );
+  }
+});
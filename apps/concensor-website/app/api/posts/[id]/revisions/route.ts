@@ -0,0 +1,63 @@
+// Post edit history
+// GET /api/posts/[id]/revisions - Every version of a post (public)
+
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/lib/db';
+
+/**
+ * GET /api/posts/[id]/revisions
+ * Returns every version of the title and content, oldest first, with how
+ * many of the current votes were cast against each one. The post page uses
+ * it to show what changed between versions.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { id: postId } = params;
+
+    const post = await db.post.findUnique({
+      where: { id: postId },
+      select: { status: true, revision: true, editedAt: true, editsLocked: true },
+    });
+
+    if (!post || post.status !== 'published') {
+      return NextResponse.json(
+        { error: 'Post not found' },
+        { status: 404 }
+      );
+    }
+
+    const [revisions, voteCounts] = await Promise.all([
+      db.postRevision.findMany({
+        where: { postId },
+        select: { revision: true, title: true, content: true, createdAt: true },
+        orderBy: { revision: 'asc' },
+      }),
+      db.vote.groupBy({
+        by: ['postRevision'],
+        where: { postId },
+        _count: { _all: true },
+      }),
+    ]);
+
+    const votesByRevision = new Map(voteCounts.map((row) => [row.postRevision, row._count._all]));
+
+    return NextResponse.json({
+      currentRevision: post.revision,
+      editedAt: post.editedAt,
+      editsLocked: post.editsLocked,
+      revisions: revisions.map((revision) => ({
+        ...revision,
+        voteCount: votesByRevision.get(revision.revision) ?? 0,
+      })),
+    });
+  } catch (error: any) {
+    console.error('Error fetching post revisions:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch post history' },
+      { status: 500 }
+    );
+  }
+}
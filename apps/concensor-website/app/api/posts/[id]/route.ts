@@ -1,57 +1,30 @@
 // Individual post operations
 // GET /api/posts/[id] - Get single post
-// PUT /api/posts/[id] - Update post
-// DELETE /api/posts/[id] - Delete post
+// PUT /api/posts/[id] - Update post (author only; each edit is kept as a revision)
+// DELETE /api/posts/[id] - Delete post (author, category moderator or admin)
 
-import { NextRequest, NextResponse } from 'next/server';
+import { NextResponse } from 'next/server';
 import { db } from '@/lib/db';
-import { verifyToken } from '@/lib/auth';
+import { requireUser, optionalUser, forbiddenResponse } from '@/lib/requestAuth';
+import { canEditPost, canDeletePost, canModerateCategory } from '@/lib/permissions';
 import { getBadgeName } from '@/lib/points';
-
-/**
- * Helper function to get authenticated user from request
- */
-async function getAuthenticatedUser(request: NextRequest) {
-  const token = request.cookies.get('token')?.value;
-  if (!token) {
-    return null;
-  }
-
-  try {
-    const payload = verifyToken(token);
-    const user = await db.user.findUnique({
-      where: { id: payload.userId },
-    });
-
-    if (!user || user.tokenVersion !== payload.tokenVersion) {
-      return null;
-    }
-
-    return user;
-  } catch {
-    return null;
-  }
-}
+import { DELETED_USER } from '@/lib/accountDeletion';
+import { resolveReports } from '@/lib/moderation';
+import { checkContent, fileAutomodReport } from '@/lib/automod';
+import { checkPostEdit, checkPostLength, editPost } from '@/lib/postRevisions';
+import { parsePublishAt, updateDraft } from '@/lib/drafts';
+import { getExpertConsensus } from '@/lib/expertConsensus';
 
 /**
  * GET /api/posts/[id] - Get single post with full details
+ * Includes viewerPermissions so the page knows which actions to show, and
+ * expertConsensus: the votes per badge tier of the post's main category
+ * (see src/lib/expertConsensus.ts).
  */
-export async function GET(
-  request: NextRequest,
-  { params }: { params: { id: string } }
-) {
+export const GET = optionalUser<{ id: string }>(async (request, { params }, user) => {
   try {
     const { id } = params;
 
-    // Try to get authenticated user (optional - for vote check)
-    let userId: string | null = null;
-    try {
-      const user = await getAuthenticatedUser(request);
-      userId = user?.id || null;
-    } catch {
-      // Not authenticated, continue without user vote
-    }
-
     const post = await db.post.findUnique({
       where: { id },
       include: {
@@ -111,6 +84,24 @@ export async function GET(
       data: { viewCount: { increment: 1 } },
     });
 
+    const canModerate = await canModerateCategory(db, user, post.mainCategoryId);
+    const viewerPermissions = {
+      canEdit: canEditPost(user, post),
+      canDelete: canEditPost(user, post) || canModerate,
+      canModerate, // Can remove other users' comments on this post
+    };
+    const expertConsensus = await getExpertConsensus(db, post);
+
+    // Author's account was deleted: show "[deleted user]" without a badge
+    if (!post.author) {
+      return NextResponse.json({
+        ...post,
+        author: DELETED_USER,
+        viewerPermissions,
+        expertConsensus,
+      });
+    }
+
     const equippedCategoryId = post.author.equippedBadgeCategoryId;
     const equippedCategory = post.author.equippedBadgeCategory;
     const equippedPoints = equippedCategoryId
@@ -135,6 +126,8 @@ export async function GET(
     return NextResponse.json({
       ...post,
       author: authorWithBadge,
+      viewerPermissions,
+      expertConsensus,
     });
   } catch (error: any) {
     console.error('Error fetching post:', error);
@@ -143,50 +136,60 @@ export async function GET(
       { status: 500 }
     );
   }
-}
+});
 
 /**
  * PUT /api/posts/[id] - Update post
+ *
+ * Body:
+ * - title?: string
+ * - content?: string
+ * - editsLocked?: true (locks the post for good; it can't be unlocked)
+ * - publishAt?: ISO date | null (drafts only; null unschedules)
+ *
+ * Every change to the title or content is stored as a new PostRevision, and
+ * votes keep the revision they were cast against. Locked posts can't be
+ * edited, and posts with many votes only take typo-level edits (see
+ * src/lib/postRevisions.ts). Automod rules run on the new text like on
+ * comment edits. Drafts are edited in place until they are published.
+ * Only published posts and drafts can be edited.
  */
-export async function PUT(
-  request: NextRequest,
-  { params }: { params: { id: string } }
-) {
+export const PUT = requireUser<{ id: string }>(async (request, { params }, user) => {
   try {
-    // Check authentication
-    const user = await getAuthenticatedUser(request);
-    if (!user) {
-      return NextResponse.json(
-        { error: 'Not authenticated' },
-        { status: 401 }
-      );
-    }
-
     const { id } = params;
     const body = await request.json();
-    const { title, content } = body;
+    const { title, content, editsLocked } = body;
 
     // Get post
     const post = await db.post.findUnique({
       where: { id },
     });
 
-    if (!post) {
+    // Deleted, removed and held (pending) posts can't be edited
+    if (!post || (post.status !== 'published' && post.status !== 'draft')) {
       return NextResponse.json(
         { error: 'Post not found' },
         { status: 404 }
       );
     }
 
-    // Check ownership
-    if (post.authorId !== user.id) {
+    // Check permission (moderators can delete but not edit)
+    if (!canEditPost(user, post)) {
+      return forbiddenResponse('Not authorized to update this post');
+    }
+
+    // Validation
+    if (
+      (title !== undefined && typeof title !== 'string') ||
+      (content !== undefined && typeof content !== 'string') ||
+      (editsLocked !== undefined && typeof editsLocked !== 'boolean')
+    ) {
       return NextResponse.json(
-        { error: 'Not authorized to update this post' },
-        { status: 403 }
+        { error: 'Invalid input type' },
+        { status: 400 }
       );
     }
 
-    // Validation
     if (title !== undefined && title.trim().length === 0) {
       return NextResponse.json(
         { error: 'Title cannot be empty' },
@@ -201,12 +204,90 @@ export async function PUT(
       );
     }
 
+    const lengthError = checkPostLength({ title: title ?? '', content: content ?? '' });
+    if (lengthError) {
+      return NextResponse.json(
+        { error: lengthError },
+        { status: 400 }
+      );
+    }
+
+    if (editsLocked === false && post.editsLocked) {
+      return NextResponse.json(
+        { error: 'Editing cannot be unlocked once locked' },
+        { status: 400 }
+      );
+    }
+
+    const isDraft = post.status === 'draft';
+    if (body.publishAt !== undefined && !isDraft) {
+      return NextResponse.json(
+        { error: 'Only drafts can be scheduled' },
+        { status: 400 }
+      );
+    }
+
+    const publishAt = parsePublishAt(body.publishAt);
+    if (publishAt.error !== undefined) {
+      return NextResponse.json(
+        { error: publishAt.error },
+        { status: 400 }
+      );
+    }
+
+    const next = {
+      title: title !== undefined ? title.trim() : post.title,
+      content: content !== undefined ? content.trim() : post.content,
+    };
+    const textChanged = next.title !== post.title || next.content !== post.content;
+
+    if (isDraft) {
+      // Nobody has seen a draft yet: no revisions, automod runs on publish
+      if (textChanged || body.publishAt !== undefined) {
+        await updateDraft(db, id, {
+          ...next,
+          ...(body.publishAt !== undefined && { publishAt: publishAt.value }),
+        });
+      }
+    } else if (textChanged) {
+      // Locked posts and typo-only limit after many votes
+      const editError = await checkPostEdit(db, post, next);
+      if (editError) {
+        return forbiddenResponse(editError);
+      }
+
+      // ✅ AUTOMOD: Same rules as new posts
+      const automod = await checkContent(db, user, {
+        target: 'post',
+        text: `${next.title}\n${next.content}`,
+        mainCategoryId: post.mainCategoryId,
+      });
+      if (automod.decision === 'reject') {
+        return NextResponse.json(
+          { error: automod.message },
+          { status: 422 } // HTTP 422 = Unprocessable Content
+        );
+      }
+
+      await editPost(db, id, next);
+
+      if (automod.decision !== 'allow') {
+        await fileAutomodReport(db, {
+          targetType: 'post',
+          targetId: post.id,
+          postId: post.id,
+          commentId: null,
+          targetUserId: post.authorId,
+          categoryId: post.mainCategoryId,
+        }, automod.matches);
+      }
+    }
+
     // Update post
     const updatedPost = await db.post.update({
       where: { id },
       data: {
-        ...(title !== undefined && { title: title.trim() }),
-        ...(content !== undefined && { content: content.trim() }),
+        ...(editsLocked === true && { editsLocked: true }),
       },
       include: {
         author: {
@@ -241,25 +322,13 @@ export async function PUT(
       { status: 500 }
     );
   }
-}
+});
 
 /**
  * DELETE /api/posts/[id] - Delete post (soft delete)
  */
-export async function DELETE(
-  request: NextRequest,
-  { params }: { params: { id: string } }
-) {
+export const DELETE = requireUser<{ id: string }>(async (request, { params }, user) => {
   try {
-    // Check authentication
-    const user = await getAuthenticatedUser(request);
-    if (!user) {
-      return NextResponse.json(
-        { error: 'Not authenticated' },
-        { status: 401 }
-      );
-    }
-
     const { id } = params;
 
     // Get post
@@ -274,18 +343,30 @@ export async function DELETE(
       );
     }
 
-    // Check ownership
-    if (post.authorId !== user.id) {
-      return NextResponse.json(
-        { error: 'Not authorized to delete this post' },
-        { status: 403 }
-      );
+    // Check permission (author, moderator of the post's category or admin)
+    if (!(await canDeletePost(db, user, post))) {
+      return forbiddenResponse('Not authorized to delete this post');
     }
 
     // Soft delete (change status to 'deleted')
-    await db.post.update({
-      where: { id },
-      data: { status: 'deleted' },
+    // Someone else's post is taken down by a moderator: 'removed' and logged
+    const isOwnPost = post.authorId === user.id;
+    await db.$transaction(async (tx) => {
+      await tx.post.update({
+        where: { id },
+        data: { status: isOwnPost ? 'deleted' : 'removed' },
+      });
+
+      if (!isOwnPost) {
+        await resolveReports(tx, 'remove', user.id, {
+          targetType: 'post',
+          targetId: post.id,
+          postId: post.id,
+          commentId: null,
+          targetUserId: post.authorId,
+          categoryId: post.mainCategoryId,
+        });
+      }
     });
 
     return NextResponse.json({ success: true });
@@ -296,4 +377,4 @@ export async function DELETE(
       { status: 500 }
     );
   }
-}
+});
@@ -1,84 +1,81 @@
 // Vote endpoint
-// POST /api/posts/[id]/vote - Submit a vote on a post
+// POST /api/posts/[id]/vote - Submit or change a vote on a post
+// DELETE /api/posts/[id]/vote - Retract a vote
+// GET /api/posts/[id]/vote - Get the user's vote
 
-import { NextRequest, NextResponse } from 'next/server';
+import { NextResponse } from 'next/server';
 import { db } from '@/lib/db';
-import { verifyToken } from '@/lib/auth';
-import { recalculateHotScore } from '@/lib/hotScore';
+import { requireUser } from '@/lib/requestAuth';
 import { awardVotePoints } from '@/lib/pointsService';
+import { DELETED_USER } from '@/lib/accountDeletion';
+import { consumeRateLimit, rateLimitExceededResponse } from '@/lib/rateLimit';
+import { castVote, isVoteType, retractVote } from '@/lib/votes';
+import { getExpertConsensus } from '@/lib/expertConsensus';
 
 /**
- * Helper function to get authenticated user from request
+ * Post as returned after a vote (new counters for the results bar and the
+ * badge tier breakdown)
  */
-async function getAuthenticatedUser(request: NextRequest) {
-  const token = request.cookies.get('token')?.value;
-  if (!token) {
-    return null;
-  }
-
-  try {
-    const payload = verifyToken(token);
-    const user = await db.user.findUnique({
-      where: { id: payload.userId },
-    });
-
-    if (!user || user.tokenVersion !== payload.tokenVersion) {
-      return null;
-    }
-
-    return user;
-  } catch {
-    return null;
-  }
-}
+async function getVotedPost(postId: string) {
+  const post = await db.post.findUniqueOrThrow({
+    where: { id: postId },
+    include: {
+      author: {
+        select: {
+          id: true,
+          username: true,
+          profilePicture: true,
+        },
+      },
+      mainCategory: {
+        select: {
+          id: true,
+          name: true,
+          slug: true,
+        },
+      },
+      subCategory: {
+        select: {
+          id: true,
+          name: true,
+          slug: true,
+        },
+      },
+      _count: {
+        select: {
+          votes: true,
+          comments: true,
+        },
+      },
+    },
+  });
 
-/**
- * Map vote type to vote value
- */
-function getVoteValue(voteType: string): number {
-  switch (voteType) {
-    case 'strongly_disagree':
-      return -2;
-    case 'disagree':
-      return -1;
-    case 'neutral':
-      return 0;
-    case 'agree':
-      return 1;
-    case 'strongly_agree':
-      return 2;
-    default:
-      return 0;
-  }
+  return {
+    ...post,
+    author: post.author ?? DELETED_USER,
+    expertConsensus: await getExpertConsensus(db, post),
+  };
 }
 
 /**
- * POST /api/posts/[id]/vote - Submit a vote
+ * POST /api/posts/[id]/vote - Submit a vote, or change it
  * 
  * Body:
  * - voteType: 'strongly_disagree' | 'disagree' | 'neutral' | 'agree' | 'strongly_agree'
+ *
+ * Counters, weighted score and hot score are moved from the old vote to the
+ * new one, and the change is kept in the vote history (see src/lib/votes.ts).
+ * Only the first vote on a post earns points. Two changes of the same voter
+ * racing each other: one of them gets a 409.
  */
-export async function POST(
-  request: NextRequest,
-  { params }: { params: { id: string } }
-) {
+export const POST = requireUser<{ id: string }>(async (request, { params }, user) => {
   try {
-    // Check authentication
-    const user = await getAuthenticatedUser(request);
-    if (!user) {
-      return NextResponse.json(
-        { error: 'Not authenticated' },
-        { status: 401 }
-      );
-    }
-
     const { id: postId } = params;
     const body = await request.json();
     const { voteType } = body;
 
     // Validation
-    const validVoteTypes = ['strongly_disagree', 'disagree', 'neutral', 'agree', 'strongly_agree'];
-    if (!voteType || !validVoteTypes.includes(voteType)) {
+    if (!isVoteType(voteType)) {
       return NextResponse.json(
         { error: 'Invalid vote type' },
         { status: 400 }
@@ -116,132 +113,64 @@ export async function POST(
     });
 
     if (existingVote) {
-      return NextResponse.json(
-        { error: 'You have already voted on this post' },
-        { status: 400 }
-      );
-    }
-
-    const voteValue = getVoteValue(voteType);
-
-    // Create vote and update post counts in a transaction
-    const result = await db.$transaction(async (tx) => {
-      // Create vote
-      const vote = await tx.vote.create({
-        data: {
-          postId,
-          userId: user.id,
-          voteType,
-          voteValue,
-        },
-      });
-
-      // Get current post to calculate new hot score and get category
-      const currentPost = await tx.post.findUnique({
-        where: { id: postId },
-        select: {
-          totalVotes: true,
-          commentCount: true,
-          createdAt: true,
-          mainCategoryId: true,
-        },
-      });
-
-      if (!currentPost) {
-        throw new Error('Post not found');
+      if (existingVote.voteType === voteType) {
+        return NextResponse.json(
+          { error: 'This is already your vote' },
+          { status: 400 }
+        );
       }
 
-      // Update post vote counts based on vote type
-      const updateData: any = {
-        totalVotes: { increment: 1 },
-        weightedScore: { increment: voteValue },
-      };
-
-      switch (voteType) {
-        case 'strongly_disagree':
-          updateData.stronglyDisagreeCount = { increment: 1 };
-          break;
-        case 'disagree':
-          updateData.disagreeCount = { increment: 1 };
-          break;
-        case 'neutral':
-          updateData.neutralCount = { increment: 1 };
-          break;
-        case 'agree':
-          updateData.agreeCount = { increment: 1 };
-          break;
-        case 'strongly_agree':
-          updateData.stronglyAgreeCount = { increment: 1 };
-          break;
+      // ✅ RATE LIMIT: Per voter and post (changing back and forth)
+      const limit = await consumeRateLimit('VOTE_CHANGE_ACCOUNT', `${user.id}:${postId}`);
+      if (!limit.allowed) {
+        return rateLimitExceededResponse(
+          limit.retryAfterSeconds,
+          'You have changed your vote too often. Please try again later.'
+        );
       }
+    }
 
-      // Recalculate hot score with new vote count
-      const newTotalVotes = currentPost.totalVotes + 1;
-      const newHotScore = recalculateHotScore({
-        totalVotes: newTotalVotes,
-        commentCount: currentPost.commentCount,
-        createdAt: currentPost.createdAt,
-      });
-      updateData.hotScore = newHotScore;
-
-      // Update post
-      const updatedPost = await tx.post.update({
-        where: { id: postId },
-        data: updateData,
-        include: {
-          author: {
-            select: {
-              id: true,
-              username: true,
-              profilePicture: true,
-            },
-          },
-          mainCategory: {
-            select: {
-              id: true,
-              name: true,
-              slug: true,
-            },
-          },
-          subCategory: {
-            select: {
-              id: true,
-              name: true,
-              slug: true,
-            },
-          },
-          _count: {
-            select: {
-              votes: true,
-              comments: true,
-            },
-          },
-        },
+    // Create or change the vote and update post counts in a transaction
+    let result;
+    try {
+      result = await castVote(db, {
+        postId,
+        userId: user.id,
+        voteType,
+        postRevision: post.revision, // The version of the post the user saw
       });
+    } catch (voteError: any) {
+      // Unique constraint: another first vote of this user was saved at the same time
+      if (voteError?.code !== 'P2002') {
+        throw voteError;
+      }
+      result = null;
+    }
 
-      // Award points to the voter (using main category)
-      // Note: We use the transaction client (tx) but pointsService expects PrismaClient
-      // We'll need to pass the transaction client or refactor pointsService
-      // For now, we'll award points after the transaction completes
-      // This is safe because points are idempotent (we can recalculate if needed)
-
-      return { vote, post: updatedPost, mainCategoryId: currentPost.mainCategoryId };
-    });
+    if (!result) {
+      return NextResponse.json(
+        { error: 'Your vote was changed at the same time. Please try again.' },
+        { status: 409 } // HTTP 409 = Conflict
+      );
+    }
 
-    // Award points to the voter (after transaction completes)
-    // This ensures the vote is committed before awarding points
-    try {
-      await awardVotePoints(db, user.id, result.mainCategoryId);
-    } catch (pointsError) {
-      // Log error but don't fail the vote request
-      // Points can be recalculated if needed
-      console.error('Error awarding vote points:', pointsError);
+    // Award points to the voter (after transaction completes, using main category)
+    // Only the first vote ever on the post counts, so toggling can't farm points
+    if (result.firstVote) {
+      try {
+        await awardVotePoints(db, user.id, post.mainCategoryId);
+      } catch (pointsError) {
+        // Log error but don't fail the vote request
+        // Points can be recalculated if needed
+        console.error('Error awarding vote points:', pointsError);
+      }
     }
 
     return NextResponse.json({
       success: true,
       vote: result.vote,
-      post: result.post,
+      previousVoteType: result.previousType, // null for a new vote
+      post: await getVotedPost(postId),
     });
   } catch (error: any) {
     console.error('Error processing vote:', error);
@@ -253,25 +182,69 @@ export async function POST(
       { status: 500 }
     );
   }
-}
+});
 
 /**
- * GET /api/posts/[id]/vote - Get user's vote on this post (if exists)
+ * DELETE /api/posts/[id]/vote - Retract the user's vote
+ * Points already earned for the vote are kept; voting again earns none.
  */
-export async function GET(
-  request: NextRequest,
-  { params }: { params: { id: string } }
-) {
+export const DELETE = requireUser<{ id: string }>(async (request, { params }, user) => {
   try {
-    // Check authentication
-    const user = await getAuthenticatedUser(request);
-    if (!user) {
+    const { id: postId } = params;
+
+    const post = await db.post.findUnique({
+      where: { id: postId },
+      select: { id: true, status: true, revision: true },
+    });
+
+    if (!post || post.status !== 'published') {
       return NextResponse.json(
-        { error: 'Not authenticated' },
-        { status: 401 }
+        { error: 'Post not found' },
+        { status: 404 }
       );
     }
 
+    // ✅ RATE LIMIT: Per voter and post (shared with vote changes)
+    const limit = await consumeRateLimit('VOTE_CHANGE_ACCOUNT', `${user.id}:${postId}`);
+    if (!limit.allowed) {
+      return rateLimitExceededResponse(
+        limit.retryAfterSeconds,
+        'You have changed your vote too often. Please try again later.'
+      );
+    }
+
+    const retracted = await retractVote(db, postId, user.id, post.revision);
+    if (retracted === null) {
+      return NextResponse.json(
+        { error: 'Your vote was changed at the same time. Please try again.' },
+        { status: 409 } // HTTP 409 = Conflict
+      );
+    }
+    if (!retracted) {
+      return NextResponse.json(
+        { error: 'You have not voted on this post' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      post: await getVotedPost(postId),
+    });
+  } catch (error: any) {
+    console.error('Error retracting vote:', error);
+    return NextResponse.json(
+      { error: 'Failed to retract vote' },
+      { status: 500 }
+    );
+  }
+});
+
+/**
+ * GET /api/posts/[id]/vote - Get user's vote on this post (if exists)
+ */
+export const GET = requireUser<{ id: string }>(async (request, { params }, user) => {
+  try {
     const { id: postId } = params;
 
     // Get user's vote
@@ -296,4 +269,4 @@ export async function GET(
       { status: 500 }
     );
   }
-}
+});
@@ -0,0 +1,50 @@
+import { NextResponse } from 'next/server';
+import { db } from '@/lib/db';
+import { requireUser } from '@/lib/requestAuth';
+
+/**
+ * GET /api/posts/drafts - Get the authenticated user's drafts
+ * Scheduled drafts (publishAt set) come first, soonest first; then the rest,
+ * most recently edited first.
+ */
+export const GET = requireUser(async (request, context, user) => {
+  try {
+    const drafts = await db.post.findMany({
+      where: { authorId: user.id, status: 'draft' },
+      select: {
+        id: true,
+        title: true,
+        content: true,
+        status: true,
+        publishAt: true,
+        mainCategoryId: true,
+        subCategoryId: true,
+        mainCategory: {
+          select: {
+            id: true,
+            name: true,
+            slug: true,
+          },
+        },
+        subCategory: {
+          select: {
+            id: true,
+            name: true,
+            slug: true,
+          },
+        },
+        createdAt: true,
+        updatedAt: true,
+      },
+      orderBy: [{ publishAt: { sort: 'asc', nulls: 'last' } }, { updatedAt: 'desc' }],
+    });
+
+    return NextResponse.json({ drafts });
+  } catch (error: any) {
+    console.error('Error fetching drafts:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch drafts' },
+      { status: 500 }
+    );
+  }
+});
@@ -2,35 +2,27 @@
 // This handles all post-related operations
 
 import { NextRequest, NextResponse } from 'next/server';
+import { Prisma } from '@prisma/client';
 import { db } from '@/lib/db';
-import { verifyToken } from '@/lib/auth';
+import { requireUser } from '@/lib/requestAuth';
 import { calculateHotScore, recalculateHotScore } from '@/lib/hotScore';
 import { awardPostPoints } from '@/lib/pointsService';
+import { checkContent, fileAutomodReport } from '@/lib/automod';
+import { DELETED_USER } from '@/lib/accountDeletion';
+import { HELD_POST_MESSAGE, parsePublishAt } from '@/lib/drafts';
+import { checkPostLength } from '@/lib/postRevisions';
+import { CONSENSUS_METRICS_CONFIG, isConsensusStrength } from '@/lib/consensusMetrics';
 
-/**
- * Helper function to get authenticated user from request
- */
-async function getAuthenticatedUser(request: NextRequest) {
-  const token = request.cookies.get('token')?.value;
-  if (!token) {
-    return null;
-  }
+const SORTS = ['new', 'popular', 'divisive', 'agreement', 'common-ground'] as const;
+type PostSort = (typeof SORTS)[number];
 
-  try {
-    const payload = verifyToken(token);
-    const user = await db.user.findUnique({
-      where: { id: payload.userId },
-    });
-
-    if (!user || user.tokenVersion !== payload.tokenVersion) {
-      return null;
-    }
-
-    return user;
-  } catch {
-    return null;
-  }
-}
+// Database order of every sort except popular (which is sorted after recalculating hot scores)
+const SORT_ORDER: Record<Exclude<PostSort, 'popular'>, Prisma.PostOrderByWithRelationInput[]> = {
+  new: [{ createdAt: 'desc' }],
+  divisive: [{ polarization: 'desc' }, { totalVotes: 'desc' }],
+  agreement: [{ polarization: 'asc' }, { totalVotes: 'desc' }],
+  'common-ground': [{ commonGroundScore: 'desc' }, { totalVotes: 'desc' }],
+};
 
 /**
  * GET /api/posts - Get all posts
@@ -39,7 +31,13 @@ async function getAuthenticatedUser(request: NextRequest) {
  * - category: Filter by category slug (main or sub)
  * - mainCategory: Filter by main category slug
  * - subCategory: Filter by sub category slug
- * - popular: Sort by hot score (popular posts)
+ * - popular: Sort by hot score (popular posts), same as sort=popular
+ * - sort: new (default), popular, divisive (most polarized first),
+ *   agreement (least polarized first) or common-ground (most agreed on by
+ *   every opinion group, see src/lib/opinionMaps.ts); divisive and agreement
+ *   only list posts with enough votes for the consensus metrics to mean
+ *   something, common-ground only posts scored by the last opinion map run
+ * - consensus: Filter by consensus strength (strong, moderate, weak, divided, insufficient)
  * - page: Page number (default: 1)
  * - limit: Posts per page (default: 20)
  */
@@ -50,15 +48,44 @@ export async function GET(request: NextRequest) {
     const mainCategorySlug = searchParams.get('mainCategory');
     const subCategorySlug = searchParams.get('subCategory');
     const popular = searchParams.get('popular') === 'true';
+    const sortParam = searchParams.get('sort');
+    const consensus = searchParams.get('consensus');
     const page = parseInt(searchParams.get('page') || '1', 10);
     const limit = parseInt(searchParams.get('limit') || '20', 10);
     const skip = (page - 1) * limit;
 
+    // ✅ VALIDATION: Sort and consensus filter
+    if (sortParam !== null && !(SORTS as readonly string[]).includes(sortParam)) {
+      return NextResponse.json(
+        { error: `sort must be one of: ${SORTS.join(', ')}` },
+        { status: 400 }
+      );
+    }
+    if (consensus !== null && !isConsensusStrength(consensus)) {
+      return NextResponse.json(
+        { error: 'Invalid consensus filter' },
+        { status: 400 }
+      );
+    }
+    const sort: PostSort = (sortParam as PostSort | null) ?? (popular ? 'popular' : 'new');
+
     // Build where clause
     const where: any = {
       status: 'published',
     };
 
+    if (consensus) {
+      where.consensusStrength = consensus;
+    }
+
+    // Posts with only a few votes would top both consensus sorts
+    if (sort === 'divisive' || sort === 'agreement') {
+      where.totalVotes = { gte: CONSENSUS_METRICS_CONFIG.MIN_VOTES };
+    }
+    if (sort === 'common-ground') {
+      where.commonGroundScore = { not: null };
+    }
+
     // Filter by category
     if (categorySlug) {
       const category = await db.category.findUnique({
@@ -106,7 +133,7 @@ export async function GET(request: NextRequest) {
     let posts;
     let total;
 
-    if (popular) {
+    if (sort === 'popular') {
       // For popular posts, fetch all matching posts first, then recalculate and sort
       const allPosts = await db.post.findMany({
         where,
@@ -162,7 +189,7 @@ export async function GET(request: NextRequest) {
       posts = postsWithRecalculatedScores.slice(skip, skip + limit);
     } else {
       // For non-popular queries, use database sorting
-      const orderBy = { createdAt: 'desc' as const };
+      const orderBy = SORT_ORDER[sort];
 
       const [fetchedPosts, fetchedTotal] = await Promise.all([
         db.post.findMany({
@@ -208,7 +235,8 @@ export async function GET(request: NextRequest) {
     }
 
     return NextResponse.json({
-      posts,
+      // Posts of deleted accounts are shown as "[deleted user]"
+      posts: posts.map((post) => ({ ...post, author: post.author ?? DELETED_USER })),
       total,
       page,
       limit,
@@ -239,20 +267,17 @@ export async function GET(request: NextRequest) {
  * - content: string (required)
  * - mainCategoryId: string (required)
  * - subCategoryId: string (required)
+ * - status: 'published' (default) | 'draft'
+ * - publishAt: ISO date (optional, drafts only) - publish automatically at that time
+ *
+ * Automod rules can reject the post (422) or hold it for review (202, status 'pending').
+ * Drafts skip automod and points until they are published (see src/lib/drafts.ts).
  */
-export async function POST(request: NextRequest) {
+export const POST = requireUser(async (request, context, user) => {
   try {
-    // Check authentication
-    const user = await getAuthenticatedUser(request);
-    if (!user) {
-      return NextResponse.json(
-        { error: 'Not authenticated' },
-        { status: 401 }
-      );
-    }
-
     const body = await request.json();
     const { title, content, mainCategoryId, subCategoryId } = body;
+    const status = body.status ?? 'published';
 
     // Validation
     if (!title || !content || !mainCategoryId || !subCategoryId) {
@@ -269,6 +294,36 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    const lengthError = checkPostLength({ title, content });
+    if (lengthError) {
+      return NextResponse.json(
+        { error: lengthError },
+        { status: 400 }
+      );
+    }
+
+    if (status !== 'published' && status !== 'draft') {
+      return NextResponse.json(
+        { error: "status must be 'published' or 'draft'" },
+        { status: 400 }
+      );
+    }
+
+    const publishAt = parsePublishAt(body.publishAt);
+    if (publishAt.error !== undefined) {
+      return NextResponse.json(
+        { error: publishAt.error },
+        { status: 400 }
+      );
+    }
+
+    if (publishAt.value && status !== 'draft') {
+      return NextResponse.json(
+        { error: 'Only drafts can be scheduled' },
+        { status: 400 }
+      );
+    }
+
     // Verify categories exist and sub belongs to main
     const [mainCategory, subCategory] = await Promise.all([
       db.category.findUnique({ where: { id: mainCategoryId } }),
@@ -289,6 +344,44 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    // Drafts: checked and awarded points when they are published
+    if (status === 'draft') {
+      const draft = await db.post.create({
+        data: {
+          title: title.trim(),
+          content: content.trim(),
+          authorId: user.id,
+          mainCategoryId,
+          subCategoryId,
+          status: 'draft',
+          publishAt: publishAt.value,
+          revisions: {
+            create: { revision: 1, title: title.trim(), content: content.trim() },
+          },
+        },
+        include: {
+          mainCategory: { select: { id: true, name: true, slug: true } },
+          subCategory: { select: { id: true, name: true, slug: true } },
+        },
+      });
+
+      return NextResponse.json(draft, { status: 201 });
+    }
+
+    // ✅ AUTOMOD: Site-wide and category rules
+    const automod = await checkContent(db, user, {
+      target: 'post',
+      text: `${title.trim()}\n${content.trim()}`,
+      mainCategoryId,
+    });
+    if (automod.decision === 'reject') {
+      return NextResponse.json(
+        { error: automod.message },
+        { status: 422 } // HTTP 422 = Unprocessable Content
+      );
+    }
+    const held = automod.decision === 'hold';
+
     // Calculate initial hot score (new post has 0 votes and 0 comments)
     const initialHotScore = calculateHotScore(0, 0, new Date());
 
@@ -300,8 +393,11 @@ export async function POST(request: NextRequest) {
         authorId: user.id,
         mainCategoryId,
         subCategoryId,
-        status: 'published',
+        status: held ? 'pending' : 'published', // Held posts wait for a moderator
         hotScore: initialHotScore,
+        revisions: {
+          create: { revision: 1, title: title.trim(), content: content.trim() },
+        },
       },
       include: {
         author: {
@@ -328,6 +424,30 @@ export async function POST(request: NextRequest) {
       },
     });
 
+    // Held or flagged: put it in the moderation queue
+    if (automod.decision !== 'allow') {
+      await fileAutomodReport(db, {
+        targetType: 'post',
+        targetId: post.id,
+        postId: post.id,
+        commentId: null,
+        targetUserId: user.id,
+        categoryId: mainCategoryId,
+      }, automod.matches);
+    }
+
+    // Held posts get their points once approved
+    if (held) {
+      return NextResponse.json(
+        {
+          ...post,
+          held: true,
+          message: HELD_POST_MESSAGE,
+        },
+        { status: 202 } // HTTP 202 = Accepted (not published yet)
+      );
+    }
+
     // Award points to the post author
     try {
       await awardPostPoints(db, user.id, mainCategoryId);
@@ -345,4 +465,4 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
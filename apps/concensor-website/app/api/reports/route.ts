@@ -0,0 +1,121 @@
+/**
+ * Report API Route
+ *
+ * Lets users flag a post, comment or user for the moderators. Each user can
+ * report the same target only once. Post and comment reports go to the
+ * moderators of the post's main category; user reports go to admins.
+ *
+ * Endpoint: POST /api/reports
+ * Body: { targetType: 'post' | 'comment' | 'user', targetId: string, reason: ReportReason, details?: string }
+ */
+
+import { NextResponse } from 'next/server';
+import { db } from '@/lib/db';
+import { requireUser } from '@/lib/requestAuth';
+import { consumeRateLimit, rateLimitExceededResponse } from '@/lib/rateLimit';
+import {
+  MODERATION_CONFIG,
+  REPORT_REASONS,
+  REPORT_TARGET_TYPES,
+  findModerationTarget,
+} from '@/lib/moderation';
+
+export const POST = requireUser(async (request, context, user) => {
+  try {
+    const body = await request.json();
+    const { targetType, targetId, reason } = body;
+    const details = typeof body.details === 'string' ? body.details.trim() : '';
+
+    // ✅ VALIDATION: Target and reason code
+    if (!REPORT_TARGET_TYPES.includes(targetType) || typeof targetId !== 'string' || !targetId) {
+      return NextResponse.json(
+        { error: 'Invalid report target' },
+        { status: 400 }
+      );
+    }
+
+    if (!REPORT_REASONS.includes(reason)) {
+      return NextResponse.json(
+        { error: `Reason must be one of: ${REPORT_REASONS.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    if (reason === 'other' && !details) {
+      return NextResponse.json(
+        { error: 'Please describe the problem' },
+        { status: 400 }
+      );
+    }
+
+    if (details.length > MODERATION_CONFIG.MAX_DETAILS_LENGTH) {
+      return NextResponse.json(
+        { error: `Details must be ${MODERATION_CONFIG.MAX_DETAILS_LENGTH} characters or less` },
+        { status: 400 }
+      );
+    }
+
+    // ✅ RATE LIMIT: Per account
+    const limit = await consumeRateLimit('REPORT_ACCOUNT', user.id);
+    if (!limit.allowed) {
+      return rateLimitExceededResponse(
+        limit.retryAfterSeconds,
+        'Too many reports. Please try again later.'
+      );
+    }
+
+    const target = await findModerationTarget(db, targetType, targetId);
+    if (!target) {
+      return NextResponse.json(
+        { error: 'Nothing to report: the content does not exist or was already removed' },
+        { status: 404 }
+      );
+    }
+
+    if (target.targetUserId === user.id) {
+      return NextResponse.json(
+        { error: 'You cannot report yourself or your own content' },
+        { status: 400 }
+      );
+    }
+
+    try {
+      await db.report.create({
+        data: {
+          reporterId: user.id,
+          targetType: target.targetType,
+          targetId: target.targetId,
+          postId: target.postId,
+          commentId: target.commentId,
+          reportedUserId: target.targetUserId,
+          categoryId: target.categoryId,
+          reason,
+          details: details || null,
+        },
+      });
+    } catch (createError: any) {
+      // Unique constraint: this user already reported this target
+      if (createError?.code === 'P2002') {
+        return NextResponse.json(
+          { error: 'You have already reported this' },
+          { status: 409 } // HTTP 409 = Conflict
+        );
+      }
+      throw createError;
+    }
+
+    return NextResponse.json(
+      {
+        success: true,
+        message: 'Thanks for your report. A moderator will review it.',
+      },
+      { status: 201 }
+    );
+  } catch (error: any) {
+    console.error('Report error:', error);
+    return NextResponse.json(
+      { error: 'Failed to submit report. Please try again.' },
+      { status: 500 }
+    );
+  }
+});
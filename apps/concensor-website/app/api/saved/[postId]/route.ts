@@ -1,42 +1,12 @@
-import { NextRequest, NextResponse } from 'next/server';
+import { NextResponse } from 'next/server';
 import { db } from '@/lib/db';
-import { verifyToken } from '@/lib/auth';
-
-async function getAuthenticatedUser(request: NextRequest) {
-  const token = request.cookies.get('token')?.value;
-  if (!token) {
-    return null;
-  }
-
-  try {
-    const payload = verifyToken(token);
-    const user = await db.user.findUnique({
-      where: { id: payload.userId },
-    });
-
-    if (!user || user.tokenVersion !== payload.tokenVersion) {
-      return null;
-    }
-
-    return user;
-  } catch {
-    return null;
-  }
-}
+import { requireUser } from '@/lib/requestAuth';
 
 /**
  * GET /api/saved/[postId] - Check if a post is saved by the current user
  */
-export async function GET(
-  request: NextRequest,
-  { params }: { params: { postId: string } }
-) {
+export const GET = requireUser<{ postId: string }>(async (request, { params }, user) => {
   try {
-    const user = await getAuthenticatedUser(request);
-    if (!user) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
-    }
-
     const savedPost = await db.savedPost.findUnique({
       where: {
         userId_postId: {
@@ -55,21 +25,13 @@ export async function GET(
       { status: 500 }
     );
   }
-}
+});
 
 /**
  * POST /api/saved/[postId] - Save a post for the current user
  */
-export async function POST(
-  request: NextRequest,
-  { params }: { params: { postId: string } }
-) {
+export const POST = requireUser<{ postId: string }>(async (request, { params }, user) => {
   try {
-    const user = await getAuthenticatedUser(request);
-    if (!user) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
-    }
-
     await db.savedPost.upsert({
       where: {
         userId_postId: {
@@ -92,21 +54,13 @@ export async function POST(
       { status: 500 }
     );
   }
-}
+}, { allowSuspended: true });
 
 /**
  * DELETE /api/saved/[postId] - Unsave a post for the current user
  */
-export async function DELETE(
-  request: NextRequest,
-  { params }: { params: { postId: string } }
-) {
+export const DELETE = requireUser<{ postId: string }>(async (request, { params }, user) => {
   try {
-    const user = await getAuthenticatedUser(request);
-    if (!user) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
-    }
-
     await db.savedPost.deleteMany({
       where: {
         userId: user.id,
@@ -122,4 +76,4 @@ export async function DELETE(
       { status: 500 }
     );
   }
-}
+}, { allowSuspended: true });
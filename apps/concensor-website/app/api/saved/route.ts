@@ -1,39 +1,13 @@
-import { NextRequest, NextResponse } from 'next/server';
+import { NextResponse } from 'next/server';
 import { db } from '@/lib/db';
-import { verifyToken } from '@/lib/auth';
-
-async function getAuthenticatedUser(request: NextRequest) {
-  const token = request.cookies.get('token')?.value;
-  if (!token) {
-    return null;
-  }
-
-  try {
-    const payload = verifyToken(token);
-    const user = await db.user.findUnique({
-      where: { id: payload.userId },
-    });
-
-    if (!user || user.tokenVersion !== payload.tokenVersion) {
-      return null;
-    }
-
-    return user;
-  } catch {
-    return null;
-  }
-}
+import { requireUser } from '@/lib/requestAuth';
+import { DELETED_USER } from '@/lib/accountDeletion';
 
 /**
  * GET /api/saved - Get saved posts for the authenticated user
  */
-export async function GET(request: NextRequest) {
+export const GET = requireUser(async (request, context, user) => {
   try {
-    const user = await getAuthenticatedUser(request);
-    if (!user) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
-    }
-
     const savedPosts = await db.savedPost.findMany({
       where: { userId: user.id },
       include: {
@@ -74,7 +48,10 @@ export async function GET(request: NextRequest) {
       },
     });
 
-    const posts = savedPosts.map((savedPost) => savedPost.post);
+    const posts = savedPosts.map((savedPost) => ({
+      ...savedPost.post,
+      author: savedPost.post.author ?? DELETED_USER, // Author's account was deleted
+    }));
 
     return NextResponse.json({ posts });
   } catch (error: any) {
@@ -84,4 +61,4 @@ export async function GET(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
@@ -0,0 +1,50 @@
+/**
+ * Uploaded Files API Route
+ *
+ * Serves files from the local storage backend (src/lib/storage/local.ts).
+ * Stored keys never change content (new uploads get new keys), so responses
+ * can be cached forever.
+ *
+ * Endpoint: GET /api/uploads/[...key]    e.g. /api/uploads/avatars/<userId>/<version>/128.webp
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { storageService } from '@/lib/storage';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { key: string[] } }
+) {
+  try {
+    const key = params.key.join('/');
+
+    let file: Awaited<ReturnType<typeof storageService.getObject>> = null;
+    try {
+      file = await storageService.getObject(key);
+    } catch {
+      // Invalid key (e.g. contains "..")
+    }
+
+    if (!file) {
+      return NextResponse.json(
+        { error: 'File not found' },
+        { status: 404 }
+      );
+    }
+
+    return new NextResponse(new Uint8Array(file.data), {
+      headers: {
+        'Content-Type': file.contentType,
+        'Content-Length': String(file.data.length),
+        'Cache-Control': 'public, max-age=31536000, immutable',
+        'X-Content-Type-Options': 'nosniff',
+      },
+    });
+  } catch (error: any) {
+    console.error('Serve upload error:', error);
+    return NextResponse.json(
+      { error: 'Failed to load file' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,89 @@
+import { NextResponse } from 'next/server';
+import { db } from '@/lib/db';
+import { optionalUser, requireUser, forbiddenResponse } from '@/lib/requestAuth';
+import {
+  IDEOLOGY_VISIBILITIES,
+  canViewIdeology,
+  getUserIdeology,
+  isIdeologyVisibility,
+} from '@/lib/ideology';
+
+/**
+ * Ideology Profile
+ *
+ * Endpoints:
+ * - GET /api/user/[userId]/ideology
+ *   Returns the user's stance per category, built from their votes (see
+ *   src/lib/ideology.ts). Only visible to others if the user allows it
+ *   (ideologyVisibility: members = logged-in users, public = everyone).
+ * - PUT /api/user/[userId]/ideology    Body: { visibility: 'private' | 'members' | 'public' }
+ *   Changes who can see the profile. Only for the user themselves.
+ */
+
+export const GET = optionalUser<{ userId: string }>(async (request, { params }, viewer) => {
+  try {
+    const { userId } = params;
+
+    const user = await db.user.findUnique({
+      where: { id: userId },
+      select: { id: true, username: true, ideologyVisibility: true },
+    });
+
+    if (!user) {
+      return NextResponse.json(
+        { error: 'User not found' },
+        { status: 404 }
+      );
+    }
+
+    if (!canViewIdeology(user, viewer?.id ?? null)) {
+      return forbiddenResponse('This ideology profile is private');
+    }
+
+    const ideology = await getUserIdeology(db, user.id);
+
+    return NextResponse.json({
+      userId: user.id,
+      username: user.username,
+      visibility: user.ideologyVisibility,
+      ...ideology,
+    });
+  } catch (error: any) {
+    console.error('Ideology profile error:', error);
+    return NextResponse.json(
+      { error: 'Failed to get ideology profile' },
+      { status: 500 }
+    );
+  }
+});
+
+export const PUT = requireUser<{ userId: string }>(async (request, { params }, user) => {
+  try {
+    if (params.userId !== user.id) {
+      return forbiddenResponse('You can only change your own ideology profile');
+    }
+
+    const { visibility } = await request.json();
+
+    // ✅ VALIDATION: Known visibility
+    if (!isIdeologyVisibility(visibility)) {
+      return NextResponse.json(
+        { error: `visibility must be one of: ${IDEOLOGY_VISIBILITIES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    await db.user.update({
+      where: { id: user.id },
+      data: { ideologyVisibility: visibility },
+    });
+
+    return NextResponse.json({ success: true, visibility });
+  } catch (error: any) {
+    console.error('Ideology visibility error:', error);
+    return NextResponse.json(
+      { error: 'Failed to update ideology visibility' },
+      { status: 500 }
+    );
+  }
+});
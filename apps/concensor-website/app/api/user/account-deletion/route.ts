@@ -0,0 +1,153 @@
+/**
+ * Account Deletion API Route
+ *
+ * GET - Whether the current user's account is scheduled for deletion
+ * POST - Schedules the account for deletion after a grace period
+ *        (ACCOUNT_DELETION_CONFIG.GRACE_PERIOD_MS). Other devices are logged out;
+ *        the current device stays logged in so the user can still cancel.
+ * DELETE - Cancels a scheduled deletion
+ *
+ * Re-authentication for POST:
+ * - Accounts with a password: the current password
+ * - Google-only accounts: the account's email address, typed out
+ *
+ * Endpoints:
+ * - GET /api/user/account-deletion
+ * - POST /api/user/account-deletion    Body: { password?: string, confirmEmail?: string }
+ * - DELETE /api/user/account-deletion
+ */
+
+import { NextResponse } from 'next/server';
+import { db } from '@/lib/db';
+import { verifyPassword } from '@/lib/auth';
+import { requireUser, getCurrentSessionId } from '@/lib/requestAuth';
+import { revokeAllSessions } from '@/lib/sessions';
+import { scheduleAccountDeletion, cancelAccountDeletion } from '@/lib/accountDeletion';
+import { emailService } from '@/lib/email';
+import {
+  checkAccountLockout,
+  recordFailedPasswordAttempt,
+  clearFailedPasswordAttempts,
+  accountLockedResponse,
+} from '@/lib/rateLimit';
+
+/**
+ * GET /api/user/account-deletion - Get deletion status
+ */
+export const GET = requireUser(async (request, context, user) => {
+  return NextResponse.json({
+    scheduled: user.deletionScheduledAt !== null,
+    requestedAt: user.deletionRequestedAt,
+    scheduledAt: user.deletionScheduledAt,
+  });
+});
+
+/**
+ * POST /api/user/account-deletion - Schedule account deletion
+ */
+export const POST = requireUser(async (request, context, user) => {
+  try {
+    const body = await request.json();
+    const { password, confirmEmail } = body;
+
+    if (user.deletionScheduledAt) {
+      return NextResponse.json(
+        { error: 'Your account is already scheduled for deletion.' },
+        { status: 409 } // HTTP 409 = Conflict
+      );
+    }
+
+    if (user.passwordHash) {
+      // ✅ VALIDATION: Check input type
+      if (typeof password !== 'string') {
+        return NextResponse.json(
+          { error: 'Password is required' },
+          { status: 400 }
+        );
+      }
+
+      // ✅ RATE LIMIT: Shares the login lockout
+      const lockout = await checkAccountLockout(user.email);
+      if (!lockout.allowed) {
+        return accountLockedResponse(lockout.retryAfterSeconds);
+      }
+
+      // ✅ Verify password
+      const isValid = await verifyPassword(password.trim(), user.passwordHash);
+      if (!isValid) {
+        const failure = await recordFailedPasswordAttempt(user.email);
+        if (!failure.allowed) {
+          return accountLockedResponse(failure.retryAfterSeconds);
+        }
+        return NextResponse.json(
+          { error: 'Password is incorrect' },
+          { status: 403 }
+        );
+      }
+      await clearFailedPasswordAttempts(user.email);
+    } else {
+      // Google-only accounts have no password to re-enter
+      if (typeof confirmEmail !== 'string' || confirmEmail.trim().toLowerCase() !== user.email) {
+        return NextResponse.json(
+          { error: 'Type your email address to confirm.' },
+          { status: 400 }
+        );
+      }
+    }
+
+    const scheduledAt = await scheduleAccountDeletion(db, user.id);
+
+    // ✅ Log out other devices (the current one can still cancel)
+    const sessionId = await getCurrentSessionId(request);
+    await revokeAllSessions(db, user.id, sessionId ?? undefined);
+
+    // Confirmation email (non-blocking: deletion is scheduled either way)
+    try {
+      await emailService.sendAccountDeletionScheduledEmail(
+        user.email,
+        scheduledAt,
+        user.username || undefined
+      );
+    } catch (emailError) {
+      console.error('Error sending account deletion email:', emailError);
+    }
+
+    return NextResponse.json({
+      success: true,
+      scheduledAt,
+      message: `Your account will be deleted on ${scheduledAt.toDateString()}. You can cancel until then.`,
+    });
+  } catch (error: any) {
+    console.error('Schedule account deletion error:', error);
+    return NextResponse.json(
+      { error: 'Failed to schedule account deletion. Please try again.' },
+      { status: 500 }
+    );
+  }
+}, { allowSuspended: true });
+
+/**
+ * DELETE /api/user/account-deletion - Cancel scheduled deletion
+ */
+export const DELETE = requireUser(async (request, context, user) => {
+  try {
+    const cancelled = await cancelAccountDeletion(db, user.id);
+    if (!cancelled) {
+      return NextResponse.json(
+        { error: 'Your account is not scheduled for deletion.' },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: 'Account deletion cancelled.',
+    });
+  } catch (error: any) {
+    console.error('Cancel account deletion error:', error);
+    return NextResponse.json(
+      { error: 'Failed to cancel account deletion. Please try again.' },
+      { status: 500 }
+    );
+  }
+}, { allowSuspended: true });
@@ -0,0 +1,105 @@
+/**
+ * Profile Picture API Route
+ *
+ * POST - Uploads a new profile picture (multipart/form-data, field "file").
+ *        The image is validated, stripped of metadata and resized to every
+ *        size in AVATAR_SIZES; profilePicture is set to the largest variant.
+ * DELETE - Removes the profile picture (the initial is shown instead)
+ *
+ * Endpoints:
+ * - POST /api/user/avatar    Body: FormData { file: File }
+ * - DELETE /api/user/avatar
+ */
+
+import { NextResponse } from 'next/server';
+import { db } from '@/lib/db';
+import { requireUser } from '@/lib/requestAuth';
+import { AVATAR_CONFIG, processAvatarImage, saveAvatar, removeAvatar } from '@/lib/avatars';
+import { consumeRateLimit, rateLimitExceededResponse } from '@/lib/rateLimit';
+
+/**
+ * POST /api/user/avatar - Upload profile picture
+ */
+export const POST = requireUser(async (request, context, user) => {
+  try {
+    // ✅ RATE LIMIT: Per account (image processing is expensive)
+    const limit = await consumeRateLimit('AVATAR_UPLOAD_ACCOUNT', user.id);
+    if (!limit.allowed) {
+      return rateLimitExceededResponse(
+        limit.retryAfterSeconds,
+        'Too many profile picture uploads. Please try again later.'
+      );
+    }
+
+    // ✅ VALIDATION: Reject oversized bodies before parsing them
+    const contentLength = Number(request.headers.get('content-length') || 0);
+    if (contentLength > AVATAR_CONFIG.MAX_FILE_SIZE + 64 * 1024) { // Allow for multipart overhead
+      return NextResponse.json(
+        { error: 'Image must be 5 MB or smaller' },
+        { status: 413 } // HTTP 413 = Payload Too Large
+      );
+    }
+
+    let file: FormDataEntryValue | null = null;
+    try {
+      const formData = await request.formData();
+      file = formData.get('file');
+    } catch {
+      // Not a multipart/form-data body
+    }
+
+    // ✅ VALIDATION: Check a file was sent
+    if (!file || typeof file === 'string') {
+      return NextResponse.json(
+        { error: 'No image file provided' },
+        { status: 400 }
+      );
+    }
+
+    if (file.size > AVATAR_CONFIG.MAX_FILE_SIZE) {
+      return NextResponse.json(
+        { error: 'Image must be 5 MB or smaller' },
+        { status: 413 }
+      );
+    }
+
+    // ✅ VALIDATION: Format is checked on the decoded image, not file.type
+    const result = await processAvatarImage(Buffer.from(await file.arrayBuffer()));
+    if ('error' in result) {
+      return NextResponse.json(
+        { error: result.error },
+        { status: 400 }
+      );
+    }
+
+    const profilePicture = await saveAvatar(db, user.id, user.profilePicture, result.variants);
+
+    return NextResponse.json({
+      success: true,
+      profilePicture,
+    });
+  } catch (error: any) {
+    console.error('Avatar upload error:', error);
+    return NextResponse.json(
+      { error: 'Failed to upload profile picture. Please try again.' },
+      { status: 500 }
+    );
+  }
+});
+
+/**
+ * DELETE /api/user/avatar - Remove profile picture
+ */
+export const DELETE = requireUser(async (request, context, user) => {
+  try {
+    await removeAvatar(db, user.id);
+
+    return NextResponse.json({ success: true });
+  } catch (error: any) {
+    console.error('Avatar delete error:', error);
+    return NextResponse.json(
+      { error: 'Failed to remove profile picture. Please try again.' },
+      { status: 500 }
+    );
+  }
+}, { allowSuspended: true });
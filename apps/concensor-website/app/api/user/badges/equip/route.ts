@@ -3,37 +3,16 @@
  * POST /api/user/badges/equip - Equip a badge for the current user
  */
 
-import { NextRequest, NextResponse } from 'next/server';
+import { NextResponse } from 'next/server';
 import { db } from '@/lib/db';
-import { verifyToken } from '@/lib/auth';
+import { requireUser } from '@/lib/requestAuth';
 
 /**
  * POST /api/user/badges/equip - Equip a badge
  * Body: { categoryId: string }
  */
-export async function POST(request: NextRequest) {
+export const POST = requireUser(async (request, context, user) => {
   try {
-    // Check authentication
-    const token = request.cookies.get('token')?.value;
-    if (!token) {
-      return NextResponse.json(
-        { error: 'Not authenticated' },
-        { status: 401 }
-      );
-    }
-
-    const payload = verifyToken(token);
-    const user = await db.user.findUnique({
-      where: { id: payload.userId },
-    });
-
-    if (!user || user.tokenVersion !== payload.tokenVersion) {
-      return NextResponse.json(
-        { error: 'Not authenticated' },
-        { status: 401 }
-      );
-    }
-
     const body = await request.json();
     const { categoryId } = body;
 
@@ -133,5 +112,5 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
 
@@ -0,0 +1,77 @@
+/**
+ * Personal Data Export API Route
+ * 
+ * Downloads everything stored about the current user: profile, posts,
+ * comments, votes, saved posts, category points, category views and sessions.
+ * 
+ * Formats:
+ * - json (default): One JSON file with a key per data set
+ * - zip: One JSON file per data set, in a ZIP archive
+ * 
+ * Endpoint: GET /api/user/export?format=json|zip
+ */
+
+import { NextResponse } from 'next/server';
+import { db } from '@/lib/db';
+import { requireUser } from '@/lib/requestAuth';
+import { buildUserDataExport, toZipEntries } from '@/lib/dataExport';
+import { createZipArchive } from '@/lib/zip';
+import { consumeRateLimit, rateLimitExceededResponse } from '@/lib/rateLimit'; // Rate limiting
+
+export const GET = requireUser(async (request, context, user) => {
+  try {
+    const format = request.nextUrl.searchParams.get('format') || 'json';
+
+    // ✅ VALIDATION: Supported formats
+    if (format !== 'json' && format !== 'zip') {
+      return NextResponse.json(
+        { error: 'Invalid format. Use "json" or "zip".' },
+        { status: 400 }
+      );
+    }
+
+    // ✅ RATE LIMIT: Per account (exports are expensive to build)
+    const limit = await consumeRateLimit('DATA_EXPORT_ACCOUNT', user.id);
+    if (!limit.allowed) {
+      return rateLimitExceededResponse(
+        limit.retryAfterSeconds,
+        'Too many export requests. Please try again later.'
+      );
+    }
+
+    const data = await buildUserDataExport(db, user.id);
+    if (!data) {
+      return NextResponse.json(
+        { error: 'User not found' },
+        { status: 404 }
+      );
+    }
+
+    const fileName = `concensor-data-${new Date().toISOString().slice(0, 10)}`;
+
+    if (format === 'zip') {
+      const archive = createZipArchive(toZipEntries(data));
+      return new NextResponse(new Uint8Array(archive), {
+        headers: {
+          'Content-Type': 'application/zip',
+          'Content-Disposition': `attachment; filename="${fileName}.zip"`,
+          'Cache-Control': 'no-store',
+        },
+      });
+    }
+
+    return new NextResponse(JSON.stringify(data, null, 2), {
+      headers: {
+        'Content-Type': 'application/json; charset=utf-8',
+        'Content-Disposition': `attachment; filename="${fileName}.json"`,
+        'Cache-Control': 'no-store',
+      },
+    });
+  } catch (error: any) {
+    console.error('Data export error:', error);
+    return NextResponse.json(
+      { error: 'Failed to export data' },
+      { status: 500 }
+    );
+  }
+});
@@ -0,0 +1,66 @@
+/**
+ * Unlink Google API Route
+ * 
+ * Disconnects the Google account from the current user.
+ * The user must have a password, so they can still log in afterwards.
+ * Sessions started with Google are ended (tokenVersion is incremented
+ * and other sessions are revoked); the current device stays logged in.
+ * 
+ * Endpoint: DELETE /api/user/linked-accounts/google
+ */
+
+import { NextResponse } from 'next/server';
+import { db } from '@/lib/db';
+import { requireUser, getCurrentSessionId, reissueSessionToken } from '@/lib/requestAuth';
+import { revokeAllSessions } from '@/lib/sessions';
+
+export const DELETE = requireUser(async (request, context, user) => {
+  try {
+    if (!user.googleId) {
+      return NextResponse.json(
+        { error: 'No Google account is connected.' },
+        { status: 400 }
+      );
+    }
+
+    // ✅ Guard: keep at least one login method
+    if (!user.passwordHash) {
+      return NextResponse.json(
+        { error: 'Set a password before disconnecting Google, or you will not be able to log in.' },
+        { status: 400 }
+      );
+    }
+
+    const updatedUser = await db.user.update({
+      where: { id: user.id },
+      data: {
+        googleId: null,
+        provider: 'email', // Email/password is now the only login method
+        // Google verified this email; keep it verified for password login
+        emailVerified: user.provider === 'google' ? true : user.emailVerified,
+        tokenVersion: { increment: 1 },
+      },
+    });
+
+    // ✅ Keep only the current device in the session list
+    const sessionId = await getCurrentSessionId(request);
+    await revokeAllSessions(db, user.id, sessionId ?? undefined);
+
+    const response = NextResponse.json({
+      success: true,
+      message: 'Google account disconnected.',
+    });
+
+    if (sessionId) {
+      reissueSessionToken(response, updatedUser, sessionId);
+    }
+
+    return response;
+  } catch (error: any) {
+    console.error('Unlink Google error:', error);
+    return NextResponse.json(
+      { error: 'Failed to disconnect Google account' },
+      { status: 500 }
+    );
+  }
+}, { allowSuspended: true });
@@ -0,0 +1,39 @@
+import { NextResponse } from 'next/server';
+import { requireUser } from '@/lib/requestAuth';
+
+/**
+ * Get Linked Login Methods
+ * 
+ * Endpoint: GET /api/user/linked-accounts
+ * 
+ * Returns which login methods the current user has:
+ * - email: Email/password login (a password is set)
+ * - google: Google account connected
+ * 
+ * canUnlink is false for the last remaining method.
+ */
+
+export const GET = requireUser(async (request, context, user) => {
+  try {
+    const hasPassword = !!user.passwordHash;
+    const hasGoogle = !!user.googleId;
+
+    return NextResponse.json({
+      email: {
+        address: user.email,
+        linked: hasPassword,
+        canUnlink: hasPassword && hasGoogle,
+      },
+      google: {
+        linked: hasGoogle,
+        canUnlink: hasGoogle && hasPassword,
+      },
+    });
+  } catch (error: any) {
+    console.error('Get linked accounts error:', error);
+    return NextResponse.json(
+      { error: 'Failed to get linked accounts' },
+      { status: 500 }
+    );
+  }
+});
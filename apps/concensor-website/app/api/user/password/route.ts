@@ -0,0 +1,293 @@
+/**
+ * Password API Route
+ * 
+ * PUT - Lets a logged-in email/password user change their password:
+ * 1. Verifies the current password
+ * 2. Validates the new password (same rules as signup)
+ * 3. Hashes and stores the new password
+ * 4. Increments tokenVersion and revokes other sessions (logs out all other devices)
+ * 5. Issues a fresh token for the current device so the user stays logged in
+ * 
+ * POST - Lets a Google-only user add a password (enables email/password login)
+ * DELETE - Removes the password from an account that also has Google linked
+ * 
+ * Endpoints:
+ * - PUT /api/user/password     Body: { currentPassword: string, newPassword: string }
+ * - POST /api/user/password    Body: { newPassword: string }
+ * - DELETE /api/user/password  Body: { currentPassword: string }
+ */
+
+import { NextResponse } from 'next/server';
+import { db } from '@/lib/db';
+import {
+  verifyPassword,
+  hashPassword,
+  validatePasswordStrength,
+} from '@/lib/auth';
+import { requireUser, getCurrentSessionId, reissueSessionToken } from '@/lib/requestAuth';
+import { revokeAllSessions } from '@/lib/sessions';
+import {
+  checkAccountLockout,
+  recordFailedPasswordAttempt,
+  clearFailedPasswordAttempts,
+  accountLockedResponse,
+} from '@/lib/rateLimit';
+
+/**
+ * PUT /api/user/password - Change password
+ */
+export const PUT = requireUser(async (request, context, user) => {
+  try {
+    const body = await request.json();
+    let { currentPassword, newPassword } = body;
+
+    // ✅ VALIDATION: Check input types
+    if (typeof currentPassword !== 'string' || typeof newPassword !== 'string') {
+      return NextResponse.json(
+        { error: 'Invalid input type' },
+        { status: 400 }
+      );
+    }
+
+    // ✅ SANITIZATION: Same trimming as signup and login
+    currentPassword = currentPassword.trim();
+    newPassword = newPassword.trim();
+
+    // Google-only accounts have no password to change
+    if (!user.passwordHash) {
+      return NextResponse.json(
+        { error: 'This account uses Google login and has no password yet. Set one in Setting → Connected accounts.' },
+        { status: 400 }
+      );
+    }
+
+    // ✅ RATE LIMIT: Shares the login lockout (same password, same brute-force risk)
+    const lockout = await checkAccountLockout(user.email);
+    if (!lockout.allowed) {
+      return accountLockedResponse(lockout.retryAfterSeconds);
+    }
+
+    // ✅ Verify current password
+    const isValid = await verifyPassword(currentPassword, user.passwordHash);
+    if (!isValid) {
+      const failure = await recordFailedPasswordAttempt(user.email);
+      if (!failure.allowed) {
+        return accountLockedResponse(failure.retryAfterSeconds);
+      }
+      return NextResponse.json(
+        { error: 'Current password is incorrect' },
+        { status: 403 }
+      );
+    }
+    await clearFailedPasswordAttempts(user.email);
+
+    // ✅ VALIDATION: Password strength requirements (same rules as signup)
+    const passwordError = validatePasswordStrength(newPassword);
+    if (passwordError) {
+      return NextResponse.json(
+        { error: passwordError },
+        { status: 400 }
+      );
+    }
+
+    if (newPassword === currentPassword) {
+      return NextResponse.json(
+        { error: 'New password must be different from current password' },
+        { status: 400 }
+      );
+    }
+
+    // ✅ Store new password and invalidate existing tokens
+    const passwordHash = await hashPassword(newPassword);
+    const updatedUser = await db.user.update({
+      where: { id: user.id },
+      data: {
+        passwordHash,
+        tokenVersion: { increment: 1 }, // Invalidates JWTs on every other device
+        passwordResetTokenHash: null,   // Any pending reset link is no longer needed
+        passwordResetExpires: null,
+      },
+    });
+
+    // ✅ Keep only the current device in the session list
+    const sessionId = await getCurrentSessionId(request);
+    await revokeAllSessions(db, user.id, sessionId ?? undefined);
+
+    const response = NextResponse.json({
+      success: true,
+      message: 'Password changed. You have been logged out on all other devices.',
+    });
+
+    // ✅ Re-issue token for the current session (with the new tokenVersion)
+    if (sessionId) {
+      reissueSessionToken(response, updatedUser, sessionId);
+    }
+
+    return response;
+  } catch (error: any) {
+    console.error('Change password error:', error);
+    return NextResponse.json(
+      { error: 'Failed to change password. Please try again.' },
+      { status: 500 }
+    );
+  }
+}, { allowSuspended: true });
+
+/**
+ * POST /api/user/password - Set a password on a Google-only account
+ * 
+ * The user is already authenticated through Google, so no current password
+ * is needed. Other devices stay logged in (nothing was taken away).
+ */
+export const POST = requireUser(async (request, context, user) => {
+  try {
+    const body = await request.json();
+    let { newPassword } = body;
+
+    // ✅ VALIDATION: Check input type
+    if (typeof newPassword !== 'string') {
+      return NextResponse.json(
+        { error: 'Invalid input type' },
+        { status: 400 }
+      );
+    }
+
+    // ✅ SANITIZATION: Same trimming as signup and login
+    newPassword = newPassword.trim();
+
+    if (user.passwordHash) {
+      return NextResponse.json(
+        { error: 'This account already has a password. Use change password instead.' },
+        { status: 409 } // HTTP 409 = Conflict
+      );
+    }
+
+    // ✅ VALIDATION: Password strength requirements (same rules as signup)
+    const passwordError = validatePasswordStrength(newPassword);
+    if (passwordError) {
+      return NextResponse.json(
+        { error: passwordError },
+        { status: 400 }
+      );
+    }
+
+    const passwordHash = await hashPassword(newPassword);
+    await db.user.update({
+      where: { id: user.id },
+      data: {
+        passwordHash,
+        // The email was verified by Google when the account was created
+        emailVerified: true,
+      },
+    });
+
+    return NextResponse.json({
+      success: true,
+      message: 'Password set. You can now log in with your email and password.',
+    });
+  } catch (error: any) {
+    console.error('Set password error:', error);
+    return NextResponse.json(
+      { error: 'Failed to set password. Please try again.' },
+      { status: 500 }
+    );
+  }
+}, { allowSuspended: true });
+
+/**
+ * DELETE /api/user/password - Remove password (Google becomes the only login method)
+ * 
+ * Guards:
+ * - Google must be linked (can't remove the last login method)
+ * - Two-factor authentication must be disabled first (it protects password login)
+ * - Current password is re-checked
+ */
+export const DELETE = requireUser(async (request, context, user) => {
+  try {
+    const body = await request.json();
+    const { currentPassword } = body;
+
+    // ✅ VALIDATION: Check input type
+    if (typeof currentPassword !== 'string') {
+      return NextResponse.json(
+        { error: 'Invalid input type' },
+        { status: 400 }
+      );
+    }
+
+    if (!user.passwordHash) {
+      return NextResponse.json(
+        { error: 'This account has no password.' },
+        { status: 400 }
+      );
+    }
+
+    // ✅ Guard: keep at least one login method
+    if (!user.googleId) {
+      return NextResponse.json(
+        { error: 'Connect Google before removing your password, or you will not be able to log in.' },
+        { status: 400 }
+      );
+    }
+
+    if (user.twoFactorEnabled) {
+      return NextResponse.json(
+        { error: 'Disable two-factor authentication before removing your password.' },
+        { status: 400 }
+      );
+    }
+
+    // ✅ RATE LIMIT: Shares the login lockout
+    const lockout = await checkAccountLockout(user.email);
+    if (!lockout.allowed) {
+      return accountLockedResponse(lockout.retryAfterSeconds);
+    }
+
+    // ✅ Verify current password
+    const isValid = await verifyPassword(currentPassword.trim(), user.passwordHash);
+    if (!isValid) {
+      const failure = await recordFailedPasswordAttempt(user.email);
+      if (!failure.allowed) {
+        return accountLockedResponse(failure.retryAfterSeconds);
+      }
+      return NextResponse.json(
+        { error: 'Current password is incorrect' },
+        { status: 403 }
+      );
+    }
+    await clearFailedPasswordAttempts(user.email);
+
+    // ✅ Remove password and invalidate existing tokens
+    const updatedUser = await db.user.update({
+      where: { id: user.id },
+      data: {
+        passwordHash: null,
+        provider: 'google',             // Google is now the only login method
+        tokenVersion: { increment: 1 }, // Sessions that logged in with the password end here
+        passwordResetTokenHash: null,
+        passwordResetExpires: null,
+      },
+    });
+
+    // ✅ Keep only the current device in the session list
+    const sessionId = await getCurrentSessionId(request);
+    await revokeAllSessions(db, user.id, sessionId ?? undefined);
+
+    const response = NextResponse.json({
+      success: true,
+      message: 'Password removed. Log in with Google from now on.',
+    });
+
+    if (sessionId) {
+      reissueSessionToken(response, updatedUser, sessionId);
+    }
+
+    return response;
+  } catch (error: any) {
+    console.error('Remove password error:', error);
+    return NextResponse.json(
+      { error: 'Failed to remove password. Please try again.' },
+      { status: 500 }
+    );
+  }
+}, { allowSuspended: true });
@@ -3,37 +3,16 @@
  * GET /api/user/points - Get current user's points and badges
  */
 
-import { NextRequest, NextResponse } from 'next/server';
+import { NextResponse } from 'next/server';
 import { db } from '@/lib/db';
-import { verifyToken } from '@/lib/auth';
+import { requireUser } from '@/lib/requestAuth';
 import { getBadgeName } from '@/lib/points';
 
 /**
  * GET /api/user/points - Get current user's points and badges
  */
-export async function GET(request: NextRequest) {
+export const GET = requireUser(async (request, context, user) => {
   try {
-    // Check authentication
-    const token = request.cookies.get('token')?.value;
-    if (!token) {
-      return NextResponse.json(
-        { error: 'Not authenticated' },
-        { status: 401 }
-      );
-    }
-
-    const payload = verifyToken(token);
-    const user = await db.user.findUnique({
-      where: { id: payload.userId },
-    });
-
-    if (!user || user.tokenVersion !== payload.tokenVersion) {
-      return NextResponse.json(
-        { error: 'Not authenticated' },
-        { status: 401 }
-      );
-    }
-
     // Get user's category points with category details
     const categoryPoints = await db.userCategoryPoints.findMany({
       where: { userId: user.id },
@@ -77,5 +56,5 @@ export async function GET(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
 
@@ -1,76 +1,245 @@
-import { NextRequest, NextResponse } from 'next/server';
+import crypto from 'crypto';
+import { NextResponse } from 'next/server';
+import validator from 'validator';
 import { db } from '@/lib/db';
-import { verifyToken } from '@/lib/auth';
+import { requireUser, getAccountRestriction } from '@/lib/requestAuth';
+import { verifyPassword, validateUsername, hashToken } from '@/lib/auth';
+import { emailService } from '@/lib/email';
+import {
+  consumeRateLimit,
+  rateLimitExceededResponse,
+  checkAccountLockout,
+  recordFailedPasswordAttempt,
+  clearFailedPasswordAttempts,
+  accountLockedResponse,
+} from '@/lib/rateLimit';
 
 /**
- * Get Current User Profile
- * 
- * Endpoint: GET /api/user/profile
- * 
- * Returns the current logged-in user's profile.
+ * Current User Profile
+ *
+ * Endpoints:
+ * - GET /api/user/profile
+ *   Returns the current logged-in user's profile (including an active
+ *   suspension, so the client can show its end date).
+ * - PUT /api/user/profile    Body: { username?: string, email?: string, currentPassword?: string }
+ *   Updates the username right away. A new email is stored as pendingEmail and
+ *   a confirmation link is sent to it; the address only changes once the link
+ *   is opened (GET /api/auth/confirm-email-change). Sending the current email
+ *   cancels a pending change.
+ *
  * Requires authentication (HttpOnly cookie with JWT token).
  */
 
-export async function GET(request: NextRequest) {
+const EMAIL_CHANGE_EXPIRY_MS = 24 * 60 * 60 * 1000; // 24 hours, matches the email text
+
+export const GET = requireUser(async (request, context, user) => {
   try {
-    // Get token from cookie
-    const token = request.cookies.get('token')?.value;
+    // Return user data without sensitive fields
+    return NextResponse.json({
+      user: {
+        id: user.id,
+        username: user.username,
+        email: user.email,
+        pendingEmail: user.pendingEmail, // New email waiting for confirmation
+        profilePicture: user.profilePicture,
+        provider: user.provider,
+        role: user.role,
+        hasPassword: !!user.passwordHash, // Google-only accounts have no password to change
+        twoFactorEnabled: user.twoFactorEnabled,
+        deletionScheduledAt: user.deletionScheduledAt, // Set if the account is pending deletion
+        suspension: await getAccountRestriction(request), // Set while the account is suspended
+        createdAt: user.createdAt,
+        // Don't return passwordHash or tokenVersion
+      },
+    });
+  } catch (error: any) {
+    console.error('Profile error:', error);
+    return NextResponse.json(
+      { error: 'Failed to get profile' },
+      { status: 500 }
+    );
+  }
+});
 
-    if (!token) {
+export const PUT = requireUser(async (request, context, user) => {
+  try {
+    const body = await request.json();
+    let { username, email } = body;
+    const { currentPassword } = body;
+
+    // ✅ VALIDATION: Check input types (both fields are optional)
+    if (
+      (username !== undefined && typeof username !== 'string') ||
+      (email !== undefined && typeof email !== 'string')
+    ) {
       return NextResponse.json(
-        { error: 'Not authenticated' },
-        { status: 401 }
+        { error: 'Invalid input type' },
+        { status: 400 }
       );
     }
 
-    // Verify token
-    let payload;
-    try {
-      payload = verifyToken(token);
-    } catch (error) {
-      return NextResponse.json(
-        { error: 'Invalid or expired token' },
-        { status: 401 }
-      );
+    // ✅ SANITIZATION: Same normalization as signup
+    username = username?.trim();
+    email = email?.trim().toLowerCase();
+
+    const data: Record<string, unknown> = {};
+
+    // ============================================
+    // USERNAME
+    // ============================================
+    if (username !== undefined && username !== user.username) {
+      // ✅ VALIDATION: Same rules as signup
+      const usernameError = validateUsername(username);
+      if (usernameError) {
+        return NextResponse.json(
+          { error: usernameError },
+          { status: 400 }
+        );
+      }
+
+      const existingUser = await db.user.findUnique({
+        where: { username },
+        select: { id: true },
+      });
+      if (existingUser && existingUser.id !== user.id) {
+        return NextResponse.json(
+          { error: 'Username already exists' },
+          { status: 409 } // HTTP 409 = Conflict
+        );
+      }
+
+      data.username = username;
     }
 
-    // Get user from database (include tokenVersion for verification, but don't return it)
-    const user = await db.user.findUnique({
-      where: { id: payload.userId },
-    });
+    // ============================================
+    // EMAIL
+    // ============================================
+    let emailChangeToken: string | null = null;
 
-    if (!user) {
-      return NextResponse.json(
-        { error: 'User not found' },
-        { status: 404 }
-      );
+    if (email !== undefined && email === user.email) {
+      // Back to the current address: cancel any pending change
+      if (user.pendingEmail) {
+        data.pendingEmail = null;
+        data.pendingEmailTokenHash = null;
+        data.pendingEmailExpires = null;
+      }
+    } else if (email !== undefined) {
+      // ✅ VALIDATION: Email format and length
+      if (!validator.isEmail(email) || email.length > 254) {
+        return NextResponse.json(
+          { error: 'Invalid email format' },
+          { status: 400 }
+        );
+      }
+
+      // ✅ RATE LIMIT: Per account (each request sends an email)
+      const limit = await consumeRateLimit('EMAIL_CHANGE_ACCOUNT', user.id);
+      if (!limit.allowed) {
+        return rateLimitExceededResponse(
+          limit.retryAfterSeconds,
+          'Too many email change requests. Please try again later.'
+        );
+      }
+
+      // ✅ Re-authenticate: changing the email changes where password resets go
+      if (user.passwordHash) {
+        if (typeof currentPassword !== 'string') {
+          return NextResponse.json(
+            { error: 'Current password is required to change your email' },
+            { status: 400 }
+          );
+        }
+
+        const lockout = await checkAccountLockout(user.email);
+        if (!lockout.allowed) {
+          return accountLockedResponse(lockout.retryAfterSeconds);
+        }
+
+        const isValid = await verifyPassword(currentPassword.trim(), user.passwordHash);
+        if (!isValid) {
+          const failure = await recordFailedPasswordAttempt(user.email);
+          if (!failure.allowed) {
+            return accountLockedResponse(failure.retryAfterSeconds);
+          }
+          return NextResponse.json(
+            { error: 'Current password is incorrect' },
+            { status: 403 }
+          );
+        }
+        await clearFailedPasswordAttempts(user.email);
+      }
+
+      const existingUser = await db.user.findUnique({
+        where: { email },
+        select: { id: true },
+      });
+      if (existingUser) {
+        return NextResponse.json(
+          { error: 'Email already exists' },
+          { status: 409 }
+        );
+      }
+
+      // ✅ Generate confirmation token (only its hash is stored)
+      emailChangeToken = crypto.randomBytes(32).toString('hex');
+      data.pendingEmail = email;
+      data.pendingEmailTokenHash = hashToken(emailChangeToken);
+      data.pendingEmailExpires = new Date(Date.now() + EMAIL_CHANGE_EXPIRY_MS);
     }
 
-    // Check if token version matches (for password change invalidation)
-    if (user.tokenVersion !== payload.tokenVersion) {
-      return NextResponse.json(
-        { error: 'Token expired. Please login again.' },
-        { status: 401 }
-      );
+    let updatedUser = user;
+    if (Object.keys(data).length > 0) {
+      try {
+        updatedUser = await db.user.update({
+          where: { id: user.id },
+          data,
+        });
+      } catch (updateError: any) {
+        // Unique constraint: username was taken between the check and the update
+        if (updateError?.code === 'P2002') {
+          return NextResponse.json(
+            { error: 'Username already exists' },
+            { status: 409 }
+          );
+        }
+        throw updateError;
+      }
+    }
+
+    // ✅ Send confirmation link to the new address
+    if (emailChangeToken && updatedUser.pendingEmail) {
+      try {
+        await emailService.sendEmailChangeVerification(
+          updatedUser.pendingEmail,
+          emailChangeToken,
+          updatedUser.username || undefined
+        );
+      } catch (emailError) {
+        console.error('Failed to send email change verification:', emailError);
+        return NextResponse.json(
+          { error: 'Failed to send confirmation email. Please try again later.' },
+          { status: 500 }
+        );
+      }
     }
 
-    // Return user data without sensitive fields
     return NextResponse.json({
+      success: true,
       user: {
-        id: user.id,
-        username: user.username,
-        email: user.email,
-        profilePicture: user.profilePicture,
-        createdAt: user.createdAt,
-        // Don't return passwordHash or tokenVersion
+        id: updatedUser.id,
+        username: updatedUser.username,
+        email: updatedUser.email,
+        pendingEmail: updatedUser.pendingEmail,
       },
+      message: emailChangeToken
+        ? `We sent a confirmation link to ${updatedUser.pendingEmail}. Your email will change once you open it.`
+        : 'Profile updated.',
     });
   } catch (error: any) {
-    console.error('Profile error:', error);
+    console.error('Update profile error:', error);
     return NextResponse.json(
-      { error: 'Failed to get profile' },
+      { error: 'Failed to update profile' },
       { status: 500 }
     );
   }
-}
-
+});
@@ -1,25 +1,9 @@
 // Recent Categories API route
 // GET /api/user/recent-categories - Get user's recently viewed categories (LRU)
 
-import { NextRequest, NextResponse } from 'next/server';
+import { NextResponse } from 'next/server';
 import { db } from '@/lib/db';
-import { verifyToken } from '@/lib/auth';
-
-/**
- * Helper function to get authenticated user from request
- */
-async function getAuthenticatedUser(request: NextRequest) {
-  const token = request.cookies.get('token')?.value;
-  if (!token) return null;
-  try {
-    const payload = verifyToken(token);
-    const user = await db.user.findUnique({ where: { id: payload.userId } });
-    if (!user || user.tokenVersion !== payload.tokenVersion) return null;
-    return user;
-  } catch {
-    return null;
-  }
-}
+import { requireUser } from '@/lib/requestAuth';
 
 /**
  * GET /api/user/recent-categories
@@ -27,17 +11,8 @@ async function getAuthenticatedUser(request: NextRequest) {
  * Returns user's recently viewed categories (LRU), ordered by lastViewedAt (most recent first)
  * Returns both main and sub categories that the user has viewed
  */
-export async function GET(request: NextRequest) {
+export const GET = requireUser(async (request, context, user) => {
   try {
-    const user = await getAuthenticatedUser(request);
-    
-    if (!user) {
-      return NextResponse.json(
-        { error: 'Not authenticated' },
-        { status: 401 }
-      );
-    }
-
     // Get user's recently viewed categories (LRU)
     // Order by lastViewedAt descending (most recent first)
     // Note: UserCategoryView only tracks main categories currently
@@ -83,5 +58,5 @@ export async function GET(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
 
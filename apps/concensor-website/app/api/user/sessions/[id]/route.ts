@@ -0,0 +1,49 @@
+import { NextResponse } from 'next/server';
+import { db } from '@/lib/db';
+import { requireUser, getCurrentSessionId, clearAuthCookie } from '@/lib/requestAuth';
+import { revokeSession } from '@/lib/sessions';
+
+/**
+ * Revoke Session
+ * 
+ * Endpoint: DELETE /api/user/sessions/[id]
+ * 
+ * Logs out a single device. Its token is rejected on the next request.
+ * Revoking the current session also clears this device's cookie
+ * (same as POST /api/auth/logout).
+ */
+
+export const DELETE = requireUser<{ id: string }>(async (request, { params }, user) => {
+  try {
+    const { id } = params;
+
+    // Scoped to the user, so other users' sessions look the same as missing ones
+    const revoked = await revokeSession(db, user.id, id);
+    if (!revoked) {
+      return NextResponse.json(
+        { error: 'Session not found' },
+        { status: 404 }
+      );
+    }
+
+    const currentSessionId = await getCurrentSessionId(request);
+    const isCurrent = id === currentSessionId;
+
+    const response = NextResponse.json({
+      success: true,
+      current: isCurrent, // Client should treat this device as logged out
+    });
+
+    if (isCurrent) {
+      clearAuthCookie(response);
+    }
+
+    return response;
+  } catch (error: any) {
+    console.error('Revoke session error:', error);
+    return NextResponse.json(
+      { error: 'Failed to revoke session' },
+      { status: 500 }
+    );
+  }
+}, { allowSuspended: true });
@@ -0,0 +1,40 @@
+import { NextResponse } from 'next/server';
+import { db } from '@/lib/db';
+import { requireUser, getCurrentSessionId } from '@/lib/requestAuth';
+import { listActiveSessions } from '@/lib/sessions';
+
+/**
+ * Get Active Sessions
+ * 
+ * Endpoint: GET /api/user/sessions
+ * 
+ * Returns the current user's active sessions (one per logged-in device),
+ * most recently active first. The session making the request is marked
+ * with current: true.
+ */
+
+export const GET = requireUser(async (request, context, user) => {
+  try {
+    const [sessions, currentSessionId] = await Promise.all([
+      listActiveSessions(db, user.id),
+      getCurrentSessionId(request),
+    ]);
+
+    return NextResponse.json({
+      sessions: sessions.map((session) => ({
+        id: session.id,
+        userAgent: session.userAgent,
+        ipAddress: session.ipAddress,
+        createdAt: session.createdAt,
+        lastSeenAt: session.lastSeenAt,
+        current: session.id === currentSessionId,
+      })),
+    });
+  } catch (error: any) {
+    console.error('Get sessions error:', error);
+    return NextResponse.json(
+      { error: 'Failed to get sessions' },
+      { status: 500 }
+    );
+  }
+});
@@ -0,0 +1,103 @@
+/**
+ * Disable Two-Factor API Route
+ * 
+ * Turns off 2FA after re-checking the user's password:
+ * 1. Verifies the password (counts toward account lockout)
+ * 2. Removes the TOTP secret and recovery codes
+ * 3. Increments tokenVersion and revokes other sessions (logs out all other devices)
+ * 4. Issues a fresh token for the current device
+ * 
+ * Endpoint: POST /api/user/two-factor/disable
+ * Body: { password: string }
+ */
+
+import { NextResponse } from 'next/server';
+import { db } from '@/lib/db';
+import { verifyPassword } from '@/lib/auth';
+import { requireUser, getCurrentSessionId, reissueSessionToken } from '@/lib/requestAuth';
+import { revokeAllSessions } from '@/lib/sessions';
+import {
+  checkAccountLockout,
+  recordFailedPasswordAttempt,
+  clearFailedPasswordAttempts,
+  accountLockedResponse,
+} from '@/lib/rateLimit';
+
+export const POST = requireUser(async (request, context, user) => {
+  try {
+    const body = await request.json();
+    const { password } = body;
+
+    // ✅ VALIDATION: Check input type
+    if (typeof password !== 'string') {
+      return NextResponse.json(
+        { error: 'Invalid input type' },
+        { status: 400 }
+      );
+    }
+
+    if (!user.twoFactorEnabled || !user.passwordHash) {
+      return NextResponse.json(
+        { error: 'Two-factor authentication is not enabled.' },
+        { status: 400 }
+      );
+    }
+
+    // ✅ RATE LIMIT: Shares the login lockout
+    const lockout = await checkAccountLockout(user.email);
+    if (!lockout.allowed) {
+      return accountLockedResponse(lockout.retryAfterSeconds);
+    }
+
+    // ✅ Re-check password (a stolen session alone can't turn 2FA off)
+    const isValid = await verifyPassword(password.trim(), user.passwordHash);
+    if (!isValid) {
+      const failure = await recordFailedPasswordAttempt(user.email);
+      if (!failure.allowed) {
+        return accountLockedResponse(failure.retryAfterSeconds);
+      }
+      return NextResponse.json(
+        { error: 'Password is incorrect' },
+        { status: 403 }
+      );
+    }
+    await clearFailedPasswordAttempts(user.email);
+
+    // ✅ Remove 2FA and invalidate existing tokens
+    const [, updatedUser] = await db.$transaction([
+      db.twoFactorRecoveryCode.deleteMany({ where: { userId: user.id } }),
+      db.user.update({
+        where: { id: user.id },
+        data: {
+          twoFactorEnabled: false,
+          twoFactorSecret: null,
+          twoFactorPendingSecret: null,
+          twoFactorLastUsedStep: null,
+          tokenVersion: { increment: 1 }, // Invalidates JWTs on every other device
+        },
+      }),
+    ]);
+
+    // ✅ Keep only the current device in the session list
+    const sessionId = await getCurrentSessionId(request);
+    await revokeAllSessions(db, user.id, sessionId ?? undefined);
+
+    const response = NextResponse.json({
+      success: true,
+      message: 'Two-factor authentication disabled. You have been logged out on all other devices.',
+    });
+
+    // ✅ Re-issue token for the current session (with the new tokenVersion)
+    if (sessionId) {
+      reissueSessionToken(response, updatedUser, sessionId);
+    }
+
+    return response;
+  } catch (error: any) {
+    console.error('Disable two-factor error:', error);
+    return NextResponse.json(
+      { error: 'Failed to disable two-factor authentication' },
+      { status: 500 }
+    );
+  }
+}, { allowSuspended: true });
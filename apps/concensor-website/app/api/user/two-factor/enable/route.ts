@@ -0,0 +1,92 @@
+/**
+ * Enable Two-Factor API Route
+ * 
+ * Finishes 2FA enrollment:
+ * 1. Verifies a code from the authenticator app against the pending secret
+ * 2. Activates the secret
+ * 3. Generates one-time recovery codes (returned once, only hashes are stored)
+ * 
+ * Endpoint: POST /api/user/two-factor/enable
+ * Body: { code: string }
+ */
+
+import { NextResponse } from 'next/server';
+import { db } from '@/lib/db';
+import { requireUser } from '@/lib/requestAuth';
+import {
+  verifyTotpCode,
+  decryptSecret,
+  generateRecoveryCodes,
+  hashRecoveryCode,
+} from '@/lib/twoFactor';
+
+export const POST = requireUser(async (request, context, user) => {
+  try {
+    const body = await request.json();
+    const { code } = body;
+
+    // ✅ VALIDATION: Check input type
+    if (typeof code !== 'string') {
+      return NextResponse.json(
+        { error: 'Invalid input type' },
+        { status: 400 }
+      );
+    }
+
+    if (user.twoFactorEnabled) {
+      return NextResponse.json(
+        { error: 'Two-factor authentication is already enabled.' },
+        { status: 409 }
+      );
+    }
+
+    if (!user.twoFactorPendingSecret) {
+      return NextResponse.json(
+        { error: 'Start two-factor setup first.' },
+        { status: 400 }
+      );
+    }
+
+    // ✅ Verify the code proves the app was set up correctly
+    const step = verifyTotpCode(decryptSecret(user.twoFactorPendingSecret), code.trim());
+    if (step === null) {
+      return NextResponse.json(
+        { error: 'Invalid verification code' },
+        { status: 400 }
+      );
+    }
+
+    const recoveryCodes = generateRecoveryCodes();
+
+    // ✅ Activate secret and replace any old recovery codes in one transaction
+    await db.$transaction([
+      db.twoFactorRecoveryCode.deleteMany({ where: { userId: user.id } }),
+      db.twoFactorRecoveryCode.createMany({
+        data: recoveryCodes.map((recoveryCode) => ({
+          userId: user.id,
+          codeHash: hashRecoveryCode(recoveryCode),
+        })),
+      }),
+      db.user.update({
+        where: { id: user.id },
+        data: {
+          twoFactorEnabled: true,
+          twoFactorSecret: user.twoFactorPendingSecret,
+          twoFactorPendingSecret: null,
+          twoFactorLastUsedStep: step, // The setup code can't be reused to log in
+        },
+      }),
+    ]);
+
+    return NextResponse.json({
+      success: true,
+      recoveryCodes, // Shown once - the user must save them now
+    });
+  } catch (error: any) {
+    console.error('Enable two-factor error:', error);
+    return NextResponse.json(
+      { error: 'Failed to enable two-factor authentication' },
+      { status: 500 }
+    );
+  }
+}, { allowSuspended: true });
@@ -0,0 +1,34 @@
+import { NextResponse } from 'next/server';
+import { db } from '@/lib/db';
+import { requireUser } from '@/lib/requestAuth';
+
+/**
+ * Get Two-Factor Authentication Status
+ * 
+ * Endpoint: GET /api/user/two-factor
+ * 
+ * Returns whether 2FA is enabled, whether it can be enabled
+ * (email/password accounts only) and how many recovery codes are unused.
+ */
+
+export const GET = requireUser(async (request, context, user) => {
+  try {
+    const remainingRecoveryCodes = user.twoFactorEnabled
+      ? await db.twoFactorRecoveryCode.count({
+          where: { userId: user.id, usedAt: null },
+        })
+      : 0;
+
+    return NextResponse.json({
+      enabled: user.twoFactorEnabled,
+      available: !!user.passwordHash, // Google-only accounts sign in through Google
+      remainingRecoveryCodes,
+    });
+  } catch (error: any) {
+    console.error('Get two-factor status error:', error);
+    return NextResponse.json(
+      { error: 'Failed to get two-factor status' },
+      { status: 500 }
+    );
+  }
+});
@@ -0,0 +1,55 @@
+/**
+ * Two-Factor Setup API Route
+ * 
+ * Starts 2FA enrollment:
+ * 1. Generates a new TOTP secret
+ * 2. Stores it (encrypted) as the pending secret
+ * 3. Returns the secret and otpauth:// URI for the authenticator app
+ * 
+ * 2FA is not active until the user confirms a code at POST /api/user/two-factor/enable.
+ * Calling this again replaces the pending secret.
+ * 
+ * Endpoint: POST /api/user/two-factor/setup
+ */
+
+import { NextResponse } from 'next/server';
+import { db } from '@/lib/db';
+import { requireUser } from '@/lib/requestAuth';
+import { generateTotpSecret, buildOtpauthUri, encryptSecret } from '@/lib/twoFactor';
+
+export const POST = requireUser(async (request, context, user) => {
+  try {
+    // 2FA protects the password login, so it needs a password account
+    if (!user.passwordHash) {
+      return NextResponse.json(
+        { error: 'Two-factor authentication is only available for email/password accounts.' },
+        { status: 400 }
+      );
+    }
+
+    if (user.twoFactorEnabled) {
+      return NextResponse.json(
+        { error: 'Two-factor authentication is already enabled.' },
+        { status: 409 } // HTTP 409 = Conflict
+      );
+    }
+
+    const secret = generateTotpSecret();
+
+    await db.user.update({
+      where: { id: user.id },
+      data: { twoFactorPendingSecret: encryptSecret(secret) },
+    });
+
+    return NextResponse.json({
+      secret,                                        // For manual entry in the authenticator app
+      otpauthUri: buildOtpauthUri(secret, user.email), // For QR codes / "open in app" links
+    });
+  } catch (error: any) {
+    console.error('Two-factor setup error:', error);
+    return NextResponse.json(
+      { error: 'Failed to start two-factor setup' },
+      { status: 500 }
+    );
+  }
+}, { allowSuspended: true });
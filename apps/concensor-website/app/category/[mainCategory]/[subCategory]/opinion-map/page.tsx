@@ -0,0 +1,204 @@
+'use client';
+
+/**
+ * Opinion Map Page
+ * 
+ * Route: /category/[mainCategory]/[subCategory]/opinion-map
+ * Shows the groups of voters who vote alike on this sub category's posts
+ * (built nightly by the clustering job): a map of anonymous voters colored
+ * by group, and what each group agrees and disagrees on.
+ * Accessible to both logged in and logged out users.
+ */
+
+import { useEffect, useState } from 'react';
+import { useRouter, useParams } from 'next/navigation';
+import MainLayout from '@/layouts/MainLayout';
+import AuthLayout from '@/layouts/AuthLayout';
+import { useAuth } from '@/contexts/AuthContext';
+import { useSidebar } from '@/contexts/SidebarContext';
+import { api } from '@/lib/api';
+import { Category, OpinionMap, OpinionGroupPost } from '@/types';
+import Sidebar from '@/components/common/Sidebar';
+import './page.css';
+
+const GROUP_COLORS = ['#1565c0', '#e65100', '#2e7d32', '#6a1b9a', '#c62828'];
+const SIZE = 400; // SVG viewBox width and height
+const PADDING = 20;
+
+const groupName = (label: number) => `Group ${String.fromCharCode(65 + label)}`;
+
+export default function OpinionMapPage() {
+  const router = useRouter();
+  const params = useParams();
+  const { isAuthenticated, loading: authLoading } = useAuth();
+  const { sidebarOpen } = useSidebar();
+  const [subCategory, setSubCategory] = useState<Category | null>(null);
+  const [map, setMap] = useState<OpinionMap | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+
+  const mainCategorySlug = params?.mainCategory as string;
+  const subCategorySlug = params?.subCategory as string;
+
+  useEffect(() => {
+    const fetchData = async () => {
+      try {
+        setLoading(true);
+        setError('');
+        const [categoryData, mapData] = await Promise.all([
+          api.getCategoryBySlug(subCategorySlug),
+          api.getOpinionMap(subCategorySlug),
+        ]);
+        setSubCategory(categoryData);
+        setMap(mapData);
+      } catch (err: any) {
+        setError(err.message || 'Failed to load opinion map');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    if (subCategorySlug) {
+      fetchData();
+    }
+  }, [subCategorySlug, isAuthenticated]);
+
+  // Use appropriate layout based on authentication status
+  const Layout = isAuthenticated ? AuthLayout : MainLayout;
+
+  if (authLoading) {
+    return null;
+  }
+
+  // Scale map coordinates into the SVG, keeping the aspect ratio
+  const extent = map
+    ? Math.max(...map.points.flatMap((point) => [Math.abs(point.x), Math.abs(point.y)]), 1e-6)
+    : 1;
+  const toSvg = (value: number) => SIZE / 2 + (value / extent) * (SIZE / 2 - PADDING);
+
+  const renderPosts = (posts: OpinionGroupPost[], verb: string) => (
+    posts.length === 0 ? (
+      <p className="opinion-group-none">Nothing stands out</p>
+    ) : (
+      <ul className="opinion-group-posts">
+        {posts.map((item) => (
+          <li key={item.post.id}>
+            <button
+              type="button"
+              className="opinion-group-post"
+              onClick={() => router.push(`/posts/${item.post.id}`)}
+            >
+              {item.post.title}
+            </button>
+            <span className="opinion-group-post-stats">
+              {Math.round(item.share * 100)}% {verb}, vs {Math.round(item.othersShare * 100)}% of everyone else
+            </span>
+          </li>
+        ))}
+      </ul>
+    )
+  );
+
+  return (
+    <Layout>
+      <div className="opinion-map-page">
+        <div className="opinion-map-page-content">
+          <Sidebar />
+          <main className={`opinion-map-main ${sidebarOpen ? 'sidebar-open' : ''}`}>
+            <div className="opinion-map-container">
+              <button
+                type="button"
+                className="opinion-map-back"
+                onClick={() => router.push(`/category/${mainCategorySlug}/${subCategorySlug}`)}
+              >
+                ← Back to posts
+              </button>
+              <h1 className="opinion-map-title">Opinion map{subCategory ? `: ${subCategory.name}` : ''}</h1>
+
+              {loading ? (
+                <div className="opinion-map-message">Loading opinion map...</div>
+              ) : error ? (
+                <div className="opinion-map-message opinion-map-error">{error}</div>
+              ) : !map ? (
+                <div className="opinion-map-message">
+                  Not enough votes yet. The map appears once enough people have voted on several posts here.
+                </div>
+              ) : (
+                <>
+                  <p className="opinion-map-subtitle">
+                    {map.voterCount} voters on {map.postCount} posts, grouped by how they vote.
+                    Voters close together vote alike. Updated {new Date(map.computedAt).toLocaleDateString()}.
+                  </p>
+
+                  <div className="opinion-map-layout">
+                    <svg
+                      className="opinion-map-chart"
+                      viewBox={`0 0 ${SIZE} ${SIZE}`}
+                      role="img"
+                      aria-label="Map of voters grouped by how they vote"
+                    >
+                      <line x1={SIZE / 2} y1={0} x2={SIZE / 2} y2={SIZE} className="opinion-map-axis" />
+                      <line x1={0} y1={SIZE / 2} x2={SIZE} y2={SIZE / 2} className="opinion-map-axis" />
+                      {map.points.map((point, index) => (
+                        <circle
+                          key={index}
+                          cx={toSvg(point.x)}
+                          cy={toSvg(point.y)}
+                          r={3}
+                          fill={GROUP_COLORS[point.group % GROUP_COLORS.length]}
+                          opacity={0.6}
+                        />
+                      ))}
+                      {map.groups.map((group) => (
+                        <text
+                          key={group.label}
+                          x={toSvg(group.center.x)}
+                          y={toSvg(group.center.y)}
+                          className="opinion-map-group-label"
+                        >
+                          {String.fromCharCode(65 + group.label)}
+                        </text>
+                      ))}
+                      {map.viewer && (
+                        <circle
+                          cx={toSvg(map.viewer.x)}
+                          cy={toSvg(map.viewer.y)}
+                          r={7}
+                          className="opinion-map-viewer"
+                        >
+                          <title>You</title>
+                        </circle>
+                      )}
+                    </svg>
+
+                    <div className="opinion-groups">
+                      {map.groups.map((group) => (
+                        <section key={group.label} className="opinion-group">
+                          <h2 className="opinion-group-title">
+                            <span
+                              className="opinion-group-swatch"
+                              style={{ backgroundColor: GROUP_COLORS[group.label % GROUP_COLORS.length] }}
+                            />
+                            {groupName(group.label)}
+                            <span className="opinion-group-size">
+                              {group.memberCount} voters
+                              {map.viewer?.group === group.label && ' · including you'}
+                            </span>
+                          </h2>
+                          <h3 className="opinion-group-heading">Agrees with</h3>
+                          {renderPosts(group.agreesOn, 'agree')}
+                          <h3 className="opinion-group-heading">Disagrees with</h3>
+                          {renderPosts(group.disagreesOn, 'disagree')}
+                        </section>
+                      ))}
+                    </div>
+                  </div>
+                </>
+              )}
+            </div>
+          </main>
+        </div>
+      </div>
+    </Layout>
+  );
+}
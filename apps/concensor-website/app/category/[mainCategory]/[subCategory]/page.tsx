@@ -15,7 +15,7 @@ import AuthLayout from '@/layouts/AuthLayout';
 import { useAuth } from '@/contexts/AuthContext';
 import { useSidebar } from '@/contexts/SidebarContext';
 import { api } from '@/lib/api';
-import { Post, Category } from '@/types';
+import { Post, PostSort, Category } from '@/types';
 import PostList from '@/components/posts/PostList';
 import Sidebar from '@/components/common/Sidebar';
 import './page.css';
@@ -30,6 +30,8 @@ export default function SubCategoryPage() {
   const [subCategory, setSubCategory] = useState<Category | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState('');
+  const [sort, setSort] = useState<PostSort>('popular'); // Default to popular within category
+  const [postsLoading, setPostsLoading] = useState(true);
 
   const mainCategorySlug = params?.mainCategory as string;
   const subCategorySlug = params?.subCategory as string;
@@ -90,11 +92,27 @@ export default function SubCategoryPage() {
             // Ignore backend tracking errors
           }
         }
+      } catch (err: any) {
+        setError(err.message || 'Failed to load category');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    if (mainCategorySlug && subCategorySlug) {
+      fetchData();
+    }
+  }, [mainCategorySlug, subCategorySlug, isAuthenticated]);
 
-        // Fetch posts for this sub category
+  // Fetch posts for this sub category (again whenever the sort changes)
+  useEffect(() => {
+    const fetchPosts = async () => {
+      try {
+        setPostsLoading(true);
+        setError('');
         const postsData = await api.getPosts({
           subCategory: subCategorySlug,
-          popular: true, // Default to popular within category
+          sort,
         });
         
         if (Array.isArray(postsData)) {
@@ -105,16 +123,16 @@ export default function SubCategoryPage() {
           setPosts([]);
         }
       } catch (err: any) {
-        setError(err.message || 'Failed to load category or posts');
+        setError(err.message || 'Failed to load posts');
       } finally {
-        setLoading(false);
+        setPostsLoading(false);
       }
     };
 
     if (mainCategorySlug && subCategorySlug) {
-      fetchData();
+      fetchPosts();
     }
-  }, [mainCategorySlug, subCategorySlug, isAuthenticated]);
+  }, [mainCategorySlug, subCategorySlug, sort]);
 
   // Use appropriate layout based on authentication status
   const Layout = isAuthenticated ? AuthLayout : MainLayout;
@@ -148,10 +166,21 @@ export default function SubCategoryPage() {
         <div className="sub-category-page-content">
           <Sidebar />
           <main className={`sub-category-main ${sidebarOpen ? 'sidebar-open' : ''}`}>
+            <div className="sub-category-actions">
+              <button
+                type="button"
+                className="opinion-map-link"
+                onClick={() => router.push(`/category/${mainCategorySlug}/${subCategorySlug}/opinion-map`)}
+              >
+                🗺️ Opinion map
+              </button>
+            </div>
             <PostList 
               posts={posts} 
-              loading={loading} 
+              loading={loading || postsLoading} 
               error={error}
+              sort={sort}
+              onSortChange={setSort}
               title={categoryTitle}
             />
           </main>
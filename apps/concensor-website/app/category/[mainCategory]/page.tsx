@@ -15,7 +15,7 @@ import AuthLayout from '@/layouts/AuthLayout';
 import { useAuth } from '@/contexts/AuthContext';
 import { useSidebar } from '@/contexts/SidebarContext';
 import { api } from '@/lib/api';
-import { Post, Category } from '@/types';
+import { Post, PostSort, Category } from '@/types';
 import PostList from '@/components/posts/PostList';
 import Sidebar from '@/components/common/Sidebar';
 import './page.css';
@@ -29,6 +29,8 @@ export default function MainCategoryPage() {
   const [category, setCategory] = useState<Category | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState('');
+  const [sort, setSort] = useState<PostSort>('popular'); // Default to popular within category
+  const [postsLoading, setPostsLoading] = useState(true);
 
   const mainCategorySlug = params?.mainCategory as string;
 
@@ -75,11 +77,27 @@ export default function MainCategoryPage() {
             // Ignore backend tracking errors
           }
         }
+      } catch (err: any) {
+        setError(err.message || 'Failed to load category');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    if (mainCategorySlug) {
+      fetchData();
+    }
+  }, [mainCategorySlug, isAuthenticated]);
 
-        // Fetch posts for this main category
+  // Fetch posts for this main category (again whenever the sort changes)
+  useEffect(() => {
+    const fetchPosts = async () => {
+      try {
+        setPostsLoading(true);
+        setError('');
         const postsData = await api.getPosts({
           mainCategory: mainCategorySlug,
-          popular: true, // Default to popular within category
+          sort,
         });
         
         if (Array.isArray(postsData)) {
@@ -90,16 +108,16 @@ export default function MainCategoryPage() {
           setPosts([]);
         }
       } catch (err: any) {
-        setError(err.message || 'Failed to load category or posts');
+        setError(err.message || 'Failed to load posts');
       } finally {
-        setLoading(false);
+        setPostsLoading(false);
       }
     };
 
     if (mainCategorySlug) {
-      fetchData();
+      fetchPosts();
     }
-  }, [mainCategorySlug, isAuthenticated]);
+  }, [mainCategorySlug, sort]);
 
   // Use appropriate layout based on authentication status
   const Layout = isAuthenticated ? AuthLayout : MainLayout;
@@ -131,8 +149,10 @@ export default function MainCategoryPage() {
           <main className={`category-main ${sidebarOpen ? 'sidebar-open' : ''}`}>
             <PostList 
               posts={posts} 
-              loading={loading} 
+              loading={loading || postsLoading} 
               error={error}
+              sort={sort}
+              onSortChange={setSort}
               title={category?.name || 'Category'}
             />
           </main>
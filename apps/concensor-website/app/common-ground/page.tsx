@@ -0,0 +1,90 @@
+'use client';
+
+/**
+ * Common Ground Page
+ * 
+ * Route: /common-ground
+ * Shows the posts every opinion group agrees on (sort=common-ground), so
+ * posts that bridge divides rank above posts only one side likes.
+ * Accessible to both logged in and logged out users.
+ */
+
+import { useEffect, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import MainLayout from '@/layouts/MainLayout';
+import AuthLayout from '@/layouts/AuthLayout';
+import { useAuth } from '@/contexts/AuthContext';
+import { useSidebar } from '@/contexts/SidebarContext';
+import { api } from '@/lib/api';
+import { Post } from '@/types';
+import PostList from '@/components/posts/PostList';
+import Sidebar from '@/components/common/Sidebar';
+import './page.css';
+
+export default function CommonGroundPage() {
+  const router = useRouter();
+  const { isAuthenticated, loading: authLoading } = useAuth();
+  const { sidebarOpen } = useSidebar();
+  const [posts, setPosts] = useState<Post[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+
+  // Fetch common ground posts (accessible to all users)
+  useEffect(() => {
+    const fetchPosts = async () => {
+      try {
+        setLoading(true);
+        setError('');
+        const data = await api.getPosts({
+          sort: 'common-ground', // Scored by the opinion map job
+        });
+        
+        if (Array.isArray(data)) {
+          setPosts(data);
+        } else if (data.posts) {
+          setPosts(data.posts);
+        } else {
+          setPosts([]);
+        }
+      } catch (err: any) {
+        setError(err.message || 'Failed to load posts');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchPosts();
+  }, []);
+
+  // Use appropriate layout based on authentication status
+  const Layout = isAuthenticated ? AuthLayout : MainLayout;
+
+  // Show loading state while checking auth
+  if (authLoading) {
+    return null;
+  }
+
+  return (
+    <Layout>
+      <div className="common-ground-page">
+        <div className="common-ground-page-content">
+          <Sidebar />
+          <main className={`common-ground-main ${sidebarOpen ? 'sidebar-open' : ''}`}>
+            <h1 className="common-ground-title">Common Ground</h1>
+            <p className="common-ground-subtitle">
+              Posts that voters who usually disagree with each other both agree on.
+              Updated nightly from the opinion maps of each topic.
+            </p>
+            <PostList 
+              posts={posts} 
+              loading={loading} 
+              error={error}
+              sort="common-ground"
+            />
+          </main>
+        </div>
+      </div>
+    </Layout>
+  );
+}
+
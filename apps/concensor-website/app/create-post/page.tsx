@@ -3,12 +3,13 @@
 /**
  * Create Post Page
  * 
- * Allows authenticated users to create new posts.
+ * Allows authenticated users to create new posts, save them as drafts or
+ * schedule them. With ?draft=<id> it edits and publishes an existing draft.
  * Route: /create-post
  */
 
-import { useState, useEffect } from 'react';
-import { useRouter } from 'next/navigation';
+import { useState, useEffect, useRef } from 'react';
+import { useRouter, useSearchParams } from 'next/navigation';
 import AuthLayout from '@/layouts/AuthLayout';
 import { useAuth } from '@/contexts/AuthContext';
 import { api } from '@/lib/api';
@@ -22,8 +23,17 @@ interface Category {
   children?: Category[];
 }
 
+// <input type="datetime-local"> works in local time without a zone
+function toLocalInputValue(isoDate: string): string {
+  const date = new Date(isoDate);
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}T${pad(date.getHours())}:${pad(date.getMinutes())}`;
+}
+
 export default function CreatePostPage() {
   const router = useRouter();
+  const searchParams = useSearchParams();
+  const draftId = searchParams.get('draft');
   const { isAuthenticated, loading: authLoading } = useAuth();
   const [title, setTitle] = useState('');
   const [content, setContent] = useState('');
@@ -34,6 +44,9 @@ export default function CreatePostPage() {
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState('');
   const [categoriesLoading, setCategoriesLoading] = useState(true);
+  const [publishAt, setPublishAt] = useState(''); // datetime-local value, '' = not scheduled
+  const [savingDraft, setSavingDraft] = useState(false);
+  const draftSubCategoryId = useRef<string | null>(null); // Selected once the draft's sub categories load
 
   // Redirect unauthenticated users
   useEffect(() => {
@@ -66,6 +79,26 @@ export default function CreatePostPage() {
     }
   }, [isAuthenticated]);
 
+  // Load the draft being edited
+  useEffect(() => {
+    if (!draftId || !isAuthenticated) return;
+
+    api.getDrafts()
+      .then((drafts) => {
+        const draft = drafts.find((item) => item.id === draftId);
+        if (!draft) {
+          setError('Draft not found');
+          return;
+        }
+        setTitle(draft.title);
+        setContent(draft.content);
+        setPublishAt(draft.publishAt ? toLocalInputValue(draft.publishAt) : '');
+        draftSubCategoryId.current = draft.subCategoryId;
+        setMainCategoryId(draft.mainCategoryId);
+      })
+      .catch((err: any) => setError(err.message || 'Failed to load draft'));
+  }, [draftId, isAuthenticated]);
+
   // Fetch sub categories when main category changes
   useEffect(() => {
     if (mainCategoryId) {
@@ -79,7 +112,8 @@ export default function CreatePostPage() {
             }
             const categories = await response.json();
             setSubCategories(categories);
-            setSubCategoryId(''); // Reset sub category selection
+            setSubCategoryId(draftSubCategoryId.current ?? ''); // Reset sub category selection (keep a loaded draft's)
+            draftSubCategoryId.current = null;
           }
         } catch (err: any) {
           console.error('Error fetching sub categories:', err);
@@ -94,39 +128,59 @@ export default function CreatePostPage() {
     }
   }, [mainCategoryId, mainCategories]);
 
-  const handleSubmit = async (e: React.FormEvent) => {
-    e.preventDefault();
-    setError('');
-
-    // Validation
+  const validate = (): string | null => {
     if (!title.trim()) {
-      setError('Title is required');
-      return;
+      return 'Title is required';
     }
 
     if (!content.trim()) {
-      setError('Content is required');
-      return;
+      return 'Content is required';
     }
 
     if (!mainCategoryId) {
-      setError('Please select a main category');
-      return;
+      return 'Please select a main category';
     }
 
     if (!subCategoryId) {
-      setError('Please select a sub category');
+      return 'Please select a sub category';
+    }
+
+    return null;
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+
+    // Validation
+    const validationError = validate();
+    if (validationError) {
+      setError(validationError);
       return;
     }
 
     try {
       setLoading(true);
-      const post = await api.createPost({
-        title: title.trim(),
-        content: content.trim(),
-        mainCategoryId,
-        subCategoryId,
-      });
+      let post;
+      if (draftId) {
+        // Save the latest text, then publish the draft now
+        await api.updatePost(draftId, { title: title.trim(), content: content.trim() });
+        post = await api.publishPost(draftId);
+      } else {
+        post = await api.createPost({
+          title: title.trim(),
+          content: content.trim(),
+          mainCategoryId,
+          subCategoryId,
+        });
+      }
+
+      // Held by automod: not visible until a moderator approves it
+      if (post.held) {
+        alert(post.message);
+        router.push('/');
+        return;
+      }
 
       // Redirect to post details page
       router.push(`/posts/${post.id}`);
@@ -137,6 +191,43 @@ export default function CreatePostPage() {
     }
   };
 
+  // Save as a draft; with a publish time it is published automatically
+  const handleSaveDraft = async () => {
+    setError('');
+
+    const validationError = validate();
+    if (validationError) {
+      setError(validationError);
+      return;
+    }
+
+    try {
+      setSavingDraft(true);
+      const scheduledAt = publishAt ? new Date(publishAt).toISOString() : null;
+      if (draftId) {
+        await api.updatePost(draftId, {
+          title: title.trim(),
+          content: content.trim(),
+          publishAt: scheduledAt,
+        });
+      } else {
+        await api.createPost({
+          title: title.trim(),
+          content: content.trim(),
+          mainCategoryId,
+          subCategoryId,
+          status: 'draft',
+          publishAt: scheduledAt,
+        });
+      }
+      router.push('/drafts');
+    } catch (err: any) {
+      setError(err.message || 'Failed to save draft');
+    } finally {
+      setSavingDraft(false);
+    }
+  };
+
   if (authLoading || !isAuthenticated) {
     return null;
   }
@@ -145,7 +236,7 @@ export default function CreatePostPage() {
     <AuthLayout>
       <div className="create-post-page">
         <div className="create-post-container">
-          <h1 className="create-post-title">Create New Post</h1>
+          <h1 className="create-post-title">{draftId ? 'Edit Draft' : 'Create New Post'}</h1>
 
           <form onSubmit={handleSubmit} className="create-post-form">
             {error && <div className="form-error">{error}</div>}
@@ -177,6 +268,7 @@ export default function CreatePostPage() {
                 onChange={(e) => setContent(e.target.value)}
                 placeholder="Write your post content here..."
                 rows={10}
+                maxLength={20000}
                 required
               />
             </div>
@@ -190,7 +282,7 @@ export default function CreatePostPage() {
                 className="form-select"
                 value={mainCategoryId}
                 onChange={(e) => setMainCategoryId(e.target.value)}
-                disabled={categoriesLoading}
+                disabled={categoriesLoading || !!draftId} // A draft keeps its categories
                 required
               >
                 <option value="">Select main category</option>
@@ -211,7 +303,7 @@ export default function CreatePostPage() {
                 className="form-select"
                 value={subCategoryId}
                 onChange={(e) => setSubCategoryId(e.target.value)}
-                disabled={!mainCategoryId || subCategories.length === 0}
+                disabled={!mainCategoryId || subCategories.length === 0 || !!draftId}
                 required
               >
                 <option value="">
@@ -229,25 +321,51 @@ export default function CreatePostPage() {
               </select>
             </div>
 
+            <div className="form-group">
+              <label htmlFor="publishAt" className="form-label">
+                Schedule (optional)
+              </label>
+              <input
+                id="publishAt"
+                type="datetime-local"
+                className="form-input"
+                value={publishAt}
+                onChange={(e) => setPublishAt(e.target.value)}
+              />
+              <span className="form-hint">
+                Scheduled posts are saved as drafts and published automatically at this time.
+              </span>
+            </div>
+
             <div className="form-actions">
               <button
                 type="button"
                 className="cancel-button"
                 onClick={() => router.back()}
-                disabled={loading}
+                disabled={loading || savingDraft}
               >
                 Cancel
               </button>
+              <button
+                type="button"
+                className="draft-button"
+                onClick={handleSaveDraft}
+                disabled={loading || savingDraft}
+              >
+                {savingDraft ? 'Saving...' : publishAt ? 'Schedule' : 'Save Draft'}
+              </button>
               <button
                 type="submit"
                 className="submit-button"
-                disabled={loading}
+                disabled={loading || savingDraft}
               >
                 {loading ? (
                   <>
                     <span className="spinner"></span>
-                    Creating...
+                    {draftId ? 'Publishing...' : 'Creating...'}
                   </>
+                ) : draftId ? (
+                  'Publish Now'
                 ) : (
                   'Create Post'
                 )}
@@ -0,0 +1,169 @@
+'use client';
+
+/**
+ * Drafts Page
+ * 
+ * Route: /drafts
+ * Shows the user's unpublished drafts, including scheduled ones.
+ * Drafts can be edited (on /create-post?draft=<id>), published or deleted.
+ * Requires authentication.
+ */
+
+import { useEffect, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import AuthLayout from '@/layouts/AuthLayout';
+import { useAuth } from '@/contexts/AuthContext';
+import { useSidebar } from '@/contexts/SidebarContext';
+import { api } from '@/lib/api';
+import { Post } from '@/types';
+import ProfileSidebar from '@/components/common/ProfileSidebar';
+import './page.css';
+
+export default function DraftsPage() {
+  const router = useRouter();
+  const { isAuthenticated, loading: authLoading } = useAuth();
+  const { sidebarOpen } = useSidebar();
+  const [drafts, setDrafts] = useState<Post[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  // Redirect unauthenticated users
+  useEffect(() => {
+    if (!authLoading && !isAuthenticated) {
+      router.replace('/login');
+    }
+  }, [isAuthenticated, authLoading, router]);
+
+  // Fetch drafts
+  useEffect(() => {
+    if (!authLoading && isAuthenticated) {
+      const fetchDrafts = async () => {
+        try {
+          setLoading(true);
+          setError('');
+          setDrafts(await api.getDrafts());
+        } catch (err: any) {
+          setError(err.message || 'Failed to load drafts');
+        } finally {
+          setLoading(false);
+        }
+      };
+
+      fetchDrafts();
+    }
+  }, [authLoading, isAuthenticated]);
+
+  if (authLoading || !isAuthenticated) {
+    return null;
+  }
+
+  const handlePublish = async (draft: Post) => {
+    if (!window.confirm(`Publish "${draft.title}" now?`)) {
+      return;
+    }
+
+    try {
+      setBusyId(draft.id);
+      const result = await api.publishPost(draft.id);
+
+      // Held by automod: not visible until a moderator approves it
+      if (result.held) {
+        alert(result.message);
+        setDrafts((prev) => prev.filter((item) => item.id !== draft.id));
+        return;
+      }
+
+      router.push(`/posts/${draft.id}`);
+    } catch (err: any) {
+      alert(err.message || 'Failed to publish draft');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleDelete = async (draft: Post) => {
+    if (!window.confirm('Are you sure you want to delete this draft?')) {
+      return;
+    }
+
+    try {
+      setBusyId(draft.id);
+      await api.deletePost(draft.id);
+      setDrafts((prev) => prev.filter((item) => item.id !== draft.id));
+    } catch (err: any) {
+      alert(err.message || 'Failed to delete draft');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  return (
+    <AuthLayout>
+      <div className="drafts-page">
+        <div className="drafts-page-content">
+          <ProfileSidebar />
+          <main className={`drafts-main ${sidebarOpen ? 'sidebar-open' : ''}`}>
+            <h1 className="drafts-title">Drafts</h1>
+
+            {loading && <div className="drafts-loading">Loading drafts...</div>}
+            {error && <div className="drafts-error">{error}</div>}
+
+            {!loading && !error && drafts.length === 0 && (
+              <div className="drafts-empty">No drafts yet</div>
+            )}
+
+            {!loading && !error && drafts.length > 0 && (
+              <div className="drafts-list">
+                {drafts.map((draft) => (
+                  <article key={draft.id} className="draft-card">
+                    <div className="draft-card-meta">
+                      <span>
+                        {draft.mainCategory.name} / {draft.subCategory.name}
+                      </span>
+                      {draft.publishAt ? (
+                        <span className="draft-scheduled">
+                          Scheduled for {new Date(draft.publishAt).toLocaleString()}
+                        </span>
+                      ) : (
+                        <span>Last edited {new Date(draft.updatedAt).toLocaleString()}</span>
+                      )}
+                    </div>
+                    <h2 className="draft-card-title">{draft.title}</h2>
+                    <p className="draft-card-content">{draft.content}</p>
+                    <div className="draft-card-actions">
+                      <button
+                        type="button"
+                        className="draft-action-button"
+                        onClick={() => router.push(`/create-post?draft=${draft.id}`)}
+                        disabled={busyId === draft.id}
+                      >
+                        Edit
+                      </button>
+                      <button
+                        type="button"
+                        className="draft-action-button draft-publish-button"
+                        onClick={() => handlePublish(draft)}
+                        disabled={busyId === draft.id}
+                      >
+                        Publish now
+                      </button>
+                      <button
+                        type="button"
+                        className="draft-action-button draft-delete-button"
+                        onClick={() => handleDelete(draft)}
+                        disabled={busyId === draft.id}
+                      >
+                        Delete
+                      </button>
+                    </div>
+                  </article>
+                ))}
+              </div>
+            )}
+          </main>
+        </div>
+      </div>
+    </AuthLayout>
+  );
+}
@@ -0,0 +1,38 @@
+'use client';
+
+import { useEffect } from 'react';
+import { useRouter } from 'next/navigation';
+import BackgroundImage from '@/components/common/BackgroundImage';
+import MainLayout from '@/layouts/MainLayout';
+import ForgotPasswordForm from '@/components/auth/ForgotPasswordForm';
+import { useAuth } from '@/contexts/AuthContext';
+import './page.css';
+
+export default function ForgotPasswordPage() {
+  const router = useRouter();
+  const { isAuthenticated, loading } = useAuth();
+
+  // Redirect authenticated users to home page
+  useEffect(() => {
+    if (!loading && isAuthenticated) {
+      router.replace('/');
+    }
+  }, [isAuthenticated, loading, router]);
+
+  // Show nothing while checking auth or if authenticated (will redirect)
+  if (loading || isAuthenticated) {
+    return null;
+  }
+
+  return (
+    <BackgroundImage>
+      <MainLayout>
+      <div className="forgot-password-page">
+        <div className="forgot-password-page-content">
+          <ForgotPasswordForm />
+        </div>
+      </div>
+      </MainLayout>
+    </BackgroundImage>
+  );
+}
@@ -0,0 +1,123 @@
+'use client';
+
+/**
+ * Ideology Page
+ * 
+ * Route: /ideology
+ * Shows the user's ideology profile: their stance per category, built from
+ * their votes, and lets them choose who else can see it.
+ * Requires authentication.
+ */
+
+import { useEffect, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import AuthLayout from '@/layouts/AuthLayout';
+import { useAuth } from '@/contexts/AuthContext';
+import { useSidebar } from '@/contexts/SidebarContext';
+import { api } from '@/lib/api';
+import { IdeologyProfile, IdeologyVisibility } from '@/types';
+import ProfileSidebar from '@/components/common/ProfileSidebar';
+import IdeologyChart from '@/components/ideology/IdeologyChart';
+import './page.css';
+
+const VISIBILITY_OPTIONS: { value: IdeologyVisibility; label: string }[] = [
+  { value: 'private', label: 'Only me' },
+  { value: 'members', label: 'Logged-in members' },
+  { value: 'public', label: 'Everyone' },
+];
+
+export default function IdeologyPage() {
+  const router = useRouter();
+  const { user, isAuthenticated, loading: authLoading } = useAuth();
+  const { sidebarOpen } = useSidebar();
+  const [profile, setProfile] = useState<IdeologyProfile | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [savingVisibility, setSavingVisibility] = useState(false);
+
+  // Redirect unauthenticated users
+  useEffect(() => {
+    if (!authLoading && !isAuthenticated) {
+      router.replace('/login');
+    }
+  }, [isAuthenticated, authLoading, router]);
+
+  // Fetch the profile
+  useEffect(() => {
+    if (!authLoading && user) {
+      const fetchProfile = async () => {
+        try {
+          setLoading(true);
+          setError('');
+          setProfile(await api.getIdeology(user.id));
+        } catch (err: any) {
+          setError(err.message || 'Failed to load ideology profile');
+        } finally {
+          setLoading(false);
+        }
+      };
+
+      fetchProfile();
+    }
+  }, [authLoading, user]);
+
+  if (authLoading || !isAuthenticated || !user) {
+    return null;
+  }
+
+  const handleVisibilityChange = async (visibility: IdeologyVisibility) => {
+    try {
+      setSavingVisibility(true);
+      await api.updateIdeologyVisibility(user.id, visibility);
+      setProfile((prev) => (prev ? { ...prev, visibility } : prev));
+    } catch (err: any) {
+      alert(err.message || 'Failed to update visibility');
+    } finally {
+      setSavingVisibility(false);
+    }
+  };
+
+  return (
+    <AuthLayout>
+      <div className="ideology-page">
+        <div className="ideology-page-content">
+          <ProfileSidebar />
+          <main className={`ideology-main ${sidebarOpen ? 'sidebar-open' : ''}`}>
+            <div className="ideology-container">
+              <h1 className="ideology-title">My Ideology</h1>
+              <p className="ideology-subtitle">
+                How much you tend to agree with posts in each category, based on your votes.
+                Categories with few votes are shown faded.
+              </p>
+
+              {loading ? (
+                <div className="ideology-loading">Loading ideology profile...</div>
+              ) : error ? (
+                <div className="ideology-error">{error}</div>
+              ) : profile && (
+                <>
+                  <label className="ideology-visibility">
+                    Who can see this
+                    <select
+                      value={profile.visibility}
+                      onChange={(e) => handleVisibilityChange(e.target.value as IdeologyVisibility)}
+                      disabled={savingVisibility}
+                    >
+                      {VISIBILITY_OPTIONS.map((option) => (
+                        <option key={option.value} value={option.value}>{option.label}</option>
+                      ))}
+                    </select>
+                  </label>
+
+                  <div className="ideology-card">
+                    <IdeologyChart profile={profile} />
+                  </div>
+                </>
+              )}
+            </div>
+          </main>
+        </div>
+      </div>
+    </AuthLayout>
+  );
+}
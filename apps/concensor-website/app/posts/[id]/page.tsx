@@ -17,8 +17,13 @@ import CommentSection from '@/components/comments/CommentSection';
 import { useAuth } from '@/contexts/AuthContext';
 import { useSidebar } from '@/contexts/SidebarContext';
 import { api } from '@/lib/api';
-import { Post } from '@/types';
+import { getAvatarUrl } from '@/lib/avatarUrl';
+import { OpinionShiftStats, Post } from '@/types';
 import SavedButton from '@/components/common/SavedButton';
+import ReportButton from '@/components/common/ReportButton';
+import PostRevisionHistory from '@/components/posts/PostRevisionHistory';
+import ConsensusHistoryChart from '@/components/posts/ConsensusHistoryChart';
+import ExpertConsensusPanel from '@/components/posts/ExpertConsensusPanel';
 import './page.css';
 
 type VoteType = 'strongly_disagree' | 'disagree' | 'neutral' | 'agree' | 'strongly_agree';
@@ -27,6 +32,7 @@ interface Vote {
   id: string;
   voteType: VoteType;
   voteValue: number;
+  postRevision: number; // Post revision the vote was cast against
   createdAt: string;
 }
 
@@ -41,10 +47,14 @@ export default function PostDetailsPage() {
   const [voting, setVoting] = useState(false);
   const [error, setError] = useState('');
   const [deleting, setDeleting] = useState(false);
+  const [locking, setLocking] = useState(false);
   const [showVotePreview, setShowVotePreview] = useState(false);
   const [selectedVote, setSelectedVote] = useState<VoteType | null>(null);
   const [isSaved, setIsSaved] = useState(false);
   const [saving, setSaving] = useState(false);
+  const [changingVote, setChangingVote] = useState(false); // Voter reopened the voting interface
+  const [retracting, setRetracting] = useState(false);
+  const [opinionShifts, setOpinionShifts] = useState<OpinionShiftStats | null>(null);
 
   const postId = params?.id as string;
 
@@ -91,6 +101,18 @@ export default function PostDetailsPage() {
     fetchData();
   }, [postId, authLoading, isAuthenticated]);
 
+  // Opinion shifts are shown with the results (voters and the author)
+  const canSeeResults = !!userVote || (!!post && !!user && user.id === post.authorId);
+  const totalVotes = post?.totalVotes;
+  const currentVoteType = userVote?.voteType;
+  useEffect(() => {
+    if (!postId || !canSeeResults) return;
+
+    api.getOpinionShifts(postId)
+      .then(setOpinionShifts)
+      .catch(() => setOpinionShifts(null));
+  }, [postId, canSeeResults, totalVotes, currentVoteType]);
+
   const handleDelete = async () => {
     if (!post || !window.confirm('Are you sure you want to delete this post?')) {
       return;
@@ -107,6 +129,25 @@ export default function PostDetailsPage() {
     }
   };
 
+  const handleLockEdits = async () => {
+    if (
+      !post ||
+      !window.confirm('Lock this post? You will not be able to edit it anymore, and this cannot be undone.')
+    ) {
+      return;
+    }
+
+    try {
+      setLocking(true);
+      await api.updatePost(post.id, { editsLocked: true });
+      setPost({ ...post, editsLocked: true });
+    } catch (err: any) {
+      alert(err.message || 'Failed to lock post');
+    } finally {
+      setLocking(false);
+    }
+  };
+
   const handleShare = () => {
     const link = window.location.href;
     window.prompt('Copy this link:', link);
@@ -136,7 +177,8 @@ export default function PostDetailsPage() {
   };
 
   const handleVoteClick = (voteType: VoteType) => {
-    if (!post || isAuthor || userVote) return; // Can't vote if already voted or is author
+    if (!post || isAuthor || (userVote && !changingVote)) return; // Can't vote if already voted (unless changing) or is author
+    if (userVote?.voteType === voteType) return; // Same as the current vote
     
     setSelectedVote(voteType);
     setShowVotePreview(true);
@@ -154,6 +196,7 @@ export default function PostDetailsPage() {
       setUserVote(response.vote);
       setShowVotePreview(false);
       setSelectedVote(null);
+      setChangingVote(false);
     } catch (err: any) {
       alert(err.message || 'Failed to submit vote');
     } finally {
@@ -161,6 +204,25 @@ export default function PostDetailsPage() {
     }
   };
 
+  const handleRetractVote = async () => {
+    if (!post || !window.confirm('Retract your vote? You will need to vote again to see results and comment.')) {
+      return;
+    }
+
+    try {
+      setRetracting(true);
+      const response = await api.retractVote(post.id);
+      setPost({ ...post, ...response.post });
+      setUserVote(null);
+      setChangingVote(false);
+      setOpinionShifts(null);
+    } catch (err: any) {
+      alert(err.message || 'Failed to retract vote');
+    } finally {
+      setRetracting(false);
+    }
+  };
+
   const handleCancelVote = () => {
     setShowVotePreview(false);
     setSelectedVote(null);
@@ -213,6 +275,43 @@ export default function PostDetailsPage() {
     };
   };
 
+  const renderConsensusMetrics = () => {
+    if (!post || post.consensusStrength === 'insufficient') return null;
+
+    const labels = {
+      strong: 'Strong consensus',
+      moderate: 'Moderate consensus',
+      weak: 'Weak consensus',
+      divided: 'Divided',
+    };
+
+    return (
+      <p className="consensus-metrics">
+        <span className={`consensus-metrics-strength consensus-metrics-${post.consensusStrength}`}>
+          {labels[post.consensusStrength]}
+        </span>
+        {' '}Polarization {Math.round(post.polarization * 100)}% · Average vote {post.voteMean > 0 ? '+' : ''}{post.voteMean.toFixed(2)}
+      </p>
+    );
+  };
+
+  const renderOpinionShifts = () => {
+    if (!opinionShifts || opinionShifts.changedVoters === 0) return null;
+
+    const details = [
+      opinionShifts.towardAgree > 0 && `${opinionShifts.towardAgree} toward agree`,
+      opinionShifts.towardDisagree > 0 && `${opinionShifts.towardDisagree} toward disagree`,
+      opinionShifts.retracted > 0 && `${opinionShifts.retracted} retracted`,
+    ].filter(Boolean);
+
+    return (
+      <p className="opinion-shifts">
+        Opinions shifted: {opinionShifts.changedVoters} of {opinionShifts.voters} voters changed their vote
+        {details.length > 0 && ` (${details.join(', ')})`}
+      </p>
+    );
+  };
+
   const getUserVotePosition = () => {
     if (!userVote || !post) return null;
 
@@ -275,8 +374,10 @@ export default function PostDetailsPage() {
 
   const consensus = calculateConsensus();
   const isAuthor = isAuthenticated && user?.id === post.authorId;
+  const canDeletePost = !!post.viewerPermissions?.canDelete; // Author, category moderator or admin
+  const canModerate = !!post.viewerPermissions?.canModerate;
   const hasVoted = !!userVote;
-  const canVote = isAuthenticated && !isAuthor && !hasVoted;
+  const canVote = isAuthenticated && !isAuthor && (!hasVoted || changingVote);
   const canComment = isAuthenticated && (hasVoted || isAuthor); // Must be authenticated and (vote OR be author) to comment
   const userVotePosition = getUserVotePosition();
 
@@ -313,14 +414,26 @@ export default function PostDetailsPage() {
               </Link>
             </div>
 
-            {isAuthor && (
+            {(isAuthor || canDeletePost) && (
               <div className="post-actions">
-                <button
-                  className="edit-button"
-                  onClick={() => router.push(`/posts/${post.id}/edit`)}
-                >
-                  Edit
-                </button>
+                {isAuthor && !post.editsLocked && (
+                  <>
+                    <button
+                      className="edit-button"
+                      onClick={() => router.push(`/posts/${post.id}/edit`)}
+                    >
+                      Edit
+                    </button>
+                    <button
+                      className="lock-button"
+                      onClick={handleLockEdits}
+                      disabled={locking}
+                      title="Lock the post so voters know it won't change"
+                    >
+                      {locking ? 'Locking...' : 'Lock edits'}
+                    </button>
+                  </>
+                )}
                 <button
                   className="delete-button"
                   onClick={handleDelete}
@@ -338,7 +451,7 @@ export default function PostDetailsPage() {
               <div className="author-avatar">
                 {post.author.profilePicture ? (
                   <img
-                    src={post.author.profilePicture}
+                    src={getAvatarUrl(post.author.profilePicture, 'small')!}
                     alt={post.author.username || 'User'}
                     className="avatar-image"
                   />
@@ -359,7 +472,11 @@ export default function PostDetailsPage() {
                     </span>
                   )}
                 </div>
-                <div className="post-date">{formatDate(post.createdAt)}</div>
+                <div className="post-date">
+                  {formatDate(post.createdAt)}
+                  {post.editedAt && <PostRevisionHistory postId={post.id} editedAt={post.editedAt} />}
+                  {post.editsLocked && <span className="post-locked">🔒 Edits locked</span>}
+                </div>
               </div>
             </div>
 
@@ -384,6 +501,14 @@ export default function PostDetailsPage() {
                   ariaLabel={isSaved ? 'Unsave post' : 'Save post'}
                   disabled={saving}
                 />
+                {isAuthenticated && !isAuthor && (
+                  <ReportButton
+                    targetType="post"
+                    targetId={post.id}
+                    variant="icon"
+                    className="post-action-button"
+                  />
+                )}
               </div>
             </div>
             <div className="post-details-content">{post.content}</div>
@@ -473,6 +598,10 @@ export default function PostDetailsPage() {
                       </div>
                       <span className="vote-label-right">Strongly Disagree</span>
                     </div>
+                    {renderConsensusMetrics()}
+                    {post.expertConsensus && <ExpertConsensusPanel expertConsensus={post.expertConsensus} />}
+                    {renderOpinionShifts()}
+                    <ConsensusHistoryChart postId={post.id} totalVotes={post.totalVotes} />
                   </div>
                 ) : (
                   // No votes yet - show empty bar
@@ -489,10 +618,15 @@ export default function PostDetailsPage() {
                     </div>
                   </div>
                 )
-              ) : hasVoted ? (
+              ) : hasVoted && !changingVote ? (
                 // Show results after voting
                 <div className="voting-results">
                   <h3 className="voting-results-title">Community Consensus</h3>
+                  {userVote.postRevision < post.revision && (
+                    <p className="voting-edited-note">
+                      The post was edited after you voted. Open &quot;(edited)&quot; to see what changed.
+                    </p>
+                  )}
                   
                   {/* User's Vote Indicator */}
                   <div className="user-vote-indicator">
@@ -544,16 +678,43 @@ export default function PostDetailsPage() {
                     </div>
                     <span className="vote-label-right">Strongly Disagree</span>
                   </div>
+                  {renderConsensusMetrics()}
+                  {post.expertConsensus && <ExpertConsensusPanel expertConsensus={post.expertConsensus} />}
+                  {renderOpinionShifts()}
+                  <ConsensusHistoryChart postId={post.id} totalVotes={post.totalVotes} />
+
+                  <div className="vote-change-actions">
+                    <button
+                      type="button"
+                      className="vote-change-button"
+                      onClick={() => setChangingVote(true)}
+                      disabled={retracting}
+                    >
+                      Change vote
+                    </button>
+                    <button
+                      type="button"
+                      className="vote-change-button vote-retract-button"
+                      onClick={handleRetractVote}
+                      disabled={retracting}
+                    >
+                      {retracting ? 'Retracting...' : 'Retract vote'}
+                    </button>
+                  </div>
                 </div>
               ) : (
-                // Show voting interface before voting - NO result bar shown until user votes
+                // Show voting interface before voting (or while changing it) - NO result bar shown until user votes
                 <div className="voting-interface">
-                  <h3 className="voting-title">What's your opinion?</h3>
-                  <p className="voting-subtitle">Vote to see results and join the discussion</p>
+                  <h3 className="voting-title">{changingVote ? 'Change your vote' : "What's your opinion?"}</h3>
+                  <p className="voting-subtitle">
+                    {changingVote && userVote
+                      ? `Your current vote: ${getVoteLabel(userVote.voteType)}`
+                      : 'Vote to see results and join the discussion'}
+                  </p>
                   
                   <div className="vote-slider">
                     <button
-                      className={`vote-option ${selectedVote === 'strongly_agree' ? 'selected' : ''}`}
+                      className={`vote-option ${selectedVote === 'strongly_agree' ? 'selected' : ''} ${userVote?.voteType === 'strongly_agree' ? 'current' : ''}`}
                       onClick={() => handleVoteClick('strongly_agree')}
                       disabled={voting}
                     >
@@ -561,7 +722,7 @@ export default function PostDetailsPage() {
                       <span className="vote-label">Strongly Agree</span>
                     </button>
                     <button
-                      className={`vote-option ${selectedVote === 'agree' ? 'selected' : ''}`}
+                      className={`vote-option ${selectedVote === 'agree' ? 'selected' : ''} ${userVote?.voteType === 'agree' ? 'current' : ''}`}
                       onClick={() => handleVoteClick('agree')}
                       disabled={voting}
                     >
@@ -569,7 +730,7 @@ export default function PostDetailsPage() {
                       <span className="vote-label">Agree</span>
                     </button>
                     <button
-                      className={`vote-option ${selectedVote === 'neutral' ? 'selected' : ''}`}
+                      className={`vote-option ${selectedVote === 'neutral' ? 'selected' : ''} ${userVote?.voteType === 'neutral' ? 'current' : ''}`}
                       onClick={() => handleVoteClick('neutral')}
                       disabled={voting}
                     >
@@ -577,7 +738,7 @@ export default function PostDetailsPage() {
                       <span className="vote-label">Neutral</span>
                     </button>
                     <button
-                      className={`vote-option ${selectedVote === 'disagree' ? 'selected' : ''}`}
+                      className={`vote-option ${selectedVote === 'disagree' ? 'selected' : ''} ${userVote?.voteType === 'disagree' ? 'current' : ''}`}
                       onClick={() => handleVoteClick('disagree')}
                       disabled={voting}
                     >
@@ -585,7 +746,7 @@ export default function PostDetailsPage() {
                       <span className="vote-label">Disagree</span>
                     </button>
                     <button
-                      className={`vote-option ${selectedVote === 'strongly_disagree' ? 'selected' : ''}`}
+                      className={`vote-option ${selectedVote === 'strongly_disagree' ? 'selected' : ''} ${userVote?.voteType === 'strongly_disagree' ? 'current' : ''}`}
                       onClick={() => handleVoteClick('strongly_disagree')}
                       disabled={voting}
                     >
@@ -593,6 +754,18 @@ export default function PostDetailsPage() {
                       <span className="vote-label">Strongly Disagree</span>
                     </button>
                   </div>
+                  {changingVote && (
+                    <div className="vote-change-actions">
+                      <button
+                        type="button"
+                        className="vote-change-button"
+                        onClick={() => setChangingVote(false)}
+                        disabled={voting}
+                      >
+                        Keep my vote
+                      </button>
+                    </div>
+                  )}
                 </div>
               )}
             </div>
@@ -603,10 +776,10 @@ export default function PostDetailsPage() {
                 <div className="vote-preview-modal" onClick={(e) => e.stopPropagation()}>
                   <h3 className="vote-preview-title">Confirm Your Vote</h3>
                   <p className="vote-preview-message">
-                    You are about to vote: <strong>{getVoteLabel(selectedVote)}</strong>
+                    {userVote ? 'Change your vote to' : 'You are about to vote'}: <strong>{getVoteLabel(selectedVote)}</strong>
                   </p>
                   <p className="vote-preview-note">
-                    This vote is final and cannot be changed. Make sure this reflects your true opinion.
+                    You can change or retract your vote later. Every change is kept in the post&apos;s vote history.
                   </p>
                   <div className="vote-preview-actions">
                     <button
@@ -635,11 +808,12 @@ export default function PostDetailsPage() {
               </h3>
               
               {/* Show comments for all users (authenticated and non-authenticated can view) */}
-              {(hasVoted || isAuthor || !isAuthenticated) && (
+              {(hasVoted || isAuthor || canModerate || !isAuthenticated) && (
                 <CommentSection
                   postId={post.id}
                   userVote={userVote}
                   isAuthor={isAuthor}
+                  canModerate={canModerate}
                   onCommentAdded={() => {
                     // Refresh post to update comment count
                     api.getPost(postId).then((updatedPost) => {
@@ -8,31 +8,53 @@
  * Requires authentication.
  */
 
-import { useEffect, useState } from 'react';
+import { useEffect, useRef, useState } from 'react';
 import { useRouter } from 'next/navigation';
 import AuthLayout from '@/layouts/AuthLayout';
 import { useAuth } from '@/contexts/AuthContext';
 import { useSidebar } from '@/contexts/SidebarContext';
 import ProfileSidebar from '@/components/common/ProfileSidebar';
 import { api } from '@/lib/api';
+import { getAvatarUrl } from '@/lib/avatarUrl';
 import './page.css';
 
 interface UserProfile {
   id: string;
   username: string | null;
   email: string;
+  pendingEmail: string | null; // New email waiting for confirmation
   profilePicture: string | null;
+  hasPassword: boolean;
 }
 
 export default function ProfilePage() {
   const router = useRouter();
-  const { isAuthenticated, loading: authLoading, user } = useAuth();
+  const { isAuthenticated, loading: authLoading, user, logout, checkAuth } = useAuth();
   const { sidebarOpen } = useSidebar();
   const [profile, setProfile] = useState<UserProfile | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState('');
   const [isEditingName, setIsEditingName] = useState(false);
   const [editedName, setEditedName] = useState('');
+  const [nameError, setNameError] = useState('');
+  const [savingName, setSavingName] = useState(false);
+  const avatarInputRef = useRef<HTMLInputElement>(null);
+  const [avatarError, setAvatarError] = useState('');
+  const [savingAvatar, setSavingAvatar] = useState(false);
+  const [isChangingEmail, setIsChangingEmail] = useState(false);
+  const [newEmail, setNewEmail] = useState('');
+  const [emailPassword, setEmailPassword] = useState('');
+  const [emailError, setEmailError] = useState('');
+  const [emailMessage, setEmailMessage] = useState('');
+  const [savingEmail, setSavingEmail] = useState(false);
+  const [isChangingPassword, setIsChangingPassword] = useState(false);
+  const [currentPassword, setCurrentPassword] = useState('');
+  const [newPassword, setNewPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [passwordError, setPasswordError] = useState('');
+  const [passwordMessage, setPasswordMessage] = useState('');
+  const [savingPassword, setSavingPassword] = useState(false);
+  const [loggingOutAll, setLoggingOutAll] = useState(false);
 
   // Redirect unauthenticated users
   useEffect(() => {
@@ -55,7 +77,9 @@ export default function ProfilePage() {
           id: userData.id,
           username: userData.username,
           email: userData.email,
+          pendingEmail: userData.pendingEmail ?? null,
           profilePicture: userData.profilePicture || user?.profilePicture || null,
+          hasPassword: userData.hasPassword ?? true,
         });
         setEditedName(userData.username || '');
       } catch (err: any) {
@@ -75,19 +99,167 @@ export default function ProfilePage() {
   };
 
   const handleSaveName = async () => {
-    // TODO: Implement name update API
-    setIsEditingName(false);
-    // For now, just update local state
-    if (profile) {
-      setProfile({ ...profile, username: editedName });
+    setNameError('');
+    try {
+      setSavingName(true);
+      const response = await api.updateProfile({ username: editedName });
+      setIsEditingName(false);
+      if (profile) {
+        setProfile({ ...profile, username: response.user.username });
+      }
+      // Refresh the user in the auth context (header, sidebar)
+      await checkAuth();
+    } catch (err: any) {
+      setNameError(err.message || 'Failed to update name');
+    } finally {
+      setSavingName(false);
+    }
+  };
+
+  const handleAvatarSelected = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ''; // Allow picking the same file again
+    if (!file) return;
+
+    setAvatarError('');
+    // Same limit as the server, checked early to skip a slow upload
+    if (file.size > 5 * 1024 * 1024) {
+      setAvatarError('Image must be 5 MB or smaller');
+      return;
+    }
+
+    try {
+      setSavingAvatar(true);
+      const response = await api.uploadAvatar(file);
+      if (profile) {
+        setProfile({ ...profile, profilePicture: response.profilePicture });
+      }
+      // Refresh the user in the auth context (header, sidebar)
+      await checkAuth();
+    } catch (err: any) {
+      setAvatarError(err.message || 'Failed to upload profile picture');
+    } finally {
+      setSavingAvatar(false);
+    }
+  };
+
+  const handleRemoveAvatar = async () => {
+    setAvatarError('');
+    try {
+      setSavingAvatar(true);
+      await api.removeAvatar();
+      if (profile) {
+        setProfile({ ...profile, profilePicture: null });
+      }
+      await checkAuth();
+    } catch (err: any) {
+      setAvatarError(err.message || 'Failed to remove profile picture');
+    } finally {
+      setSavingAvatar(false);
     }
   };
 
   const handleCancelEdit = () => {
     setIsEditingName(false);
+    setNameError('');
     setEditedName(profile?.username || '');
   };
 
+  const resetEmailForm = () => {
+    setNewEmail('');
+    setEmailPassword('');
+    setEmailError('');
+  };
+
+  const handleChangeEmail = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setEmailError('');
+    setEmailMessage('');
+
+    try {
+      setSavingEmail(true);
+      const response = await api.updateProfile({
+        email: newEmail,
+        ...(profile?.hasPassword && { currentPassword: emailPassword }),
+      });
+      if (profile) {
+        setProfile({ ...profile, pendingEmail: response.user.pendingEmail });
+      }
+      resetEmailForm();
+      setIsChangingEmail(false);
+      setEmailMessage(response.message);
+    } catch (err: any) {
+      setEmailError(err.message || 'Failed to change email');
+    } finally {
+      setSavingEmail(false);
+    }
+  };
+
+  const handleCancelPendingEmail = async () => {
+    if (!profile) return;
+    setEmailError('');
+    setEmailMessage('');
+
+    try {
+      // Sending the current email cancels the pending change
+      await api.updateProfile({ email: profile.email });
+      setProfile({ ...profile, pendingEmail: null });
+    } catch (err: any) {
+      setEmailError(err.message || 'Failed to cancel email change');
+    }
+  };
+
+  const resetPasswordForm = () => {
+    setCurrentPassword('');
+    setNewPassword('');
+    setConfirmPassword('');
+    setPasswordError('');
+  };
+
+  const handleChangePassword = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setPasswordError('');
+    setPasswordMessage('');
+
+    if (newPassword !== confirmPassword) {
+      setPasswordError('Passwords do not match');
+      return;
+    }
+
+    try {
+      setSavingPassword(true);
+      const response = await api.changePassword({ currentPassword, newPassword });
+      resetPasswordForm();
+      setIsChangingPassword(false);
+      setPasswordMessage(response.message || 'Password changed.');
+    } catch (err: any) {
+      setPasswordError(err.message || 'Failed to change password');
+    } finally {
+      setSavingPassword(false);
+    }
+  };
+
+  const handleCancelPasswordChange = () => {
+    resetPasswordForm();
+    setIsChangingPassword(false);
+  };
+
+  const handleLogoutAllDevices = async () => {
+    if (!window.confirm('Log out of all devices, including this one?')) {
+      return;
+    }
+
+    try {
+      setLoggingOutAll(true);
+      await api.logoutAllDevices();
+      // Token is already invalid everywhere - clear local auth state and redirect
+      await logout();
+    } catch (err: any) {
+      setPasswordError(err.message || 'Failed to log out of all devices');
+      setLoggingOutAll(false);
+    }
+  };
+
   if (authLoading || !isAuthenticated) {
     return null;
   }
@@ -131,7 +303,7 @@ export default function ProfilePage() {
                     <div className="profile-picture-section">
                       {profile.profilePicture ? (
                         <img
-                          src={profile.profilePicture}
+                          src={getAvatarUrl(profile.profilePicture, 'large')!}
                           alt={`${displayName}'s profile`}
                           className="profile-picture-large"
                         />
@@ -142,6 +314,31 @@ export default function ProfilePage() {
                           </span>
                         </div>
                       )}
+                      <div className="profile-picture-actions">
+                        <input
+                          ref={avatarInputRef}
+                          type="file"
+                          accept="image/jpeg,image/png,image/webp,image/gif"
+                          onChange={handleAvatarSelected}
+                          hidden
+                        />
+                        <button
+                          className="profile-link-button"
+                          onClick={() => avatarInputRef.current?.click()}
+                          disabled={savingAvatar}
+                        >
+                          {savingAvatar ? 'Uploading...' : 'Change photo'}
+                        </button>
+                        {profile.profilePicture && !savingAvatar && (
+                          <button
+                            className="profile-link-button"
+                            onClick={handleRemoveAvatar}
+                          >
+                            Remove
+                          </button>
+                        )}
+                      </div>
+                      {avatarError && <div className="profile-form-error">{avatarError}</div>}
                     </div>
 
                     {/* Name Section */}
@@ -159,8 +356,9 @@ export default function ProfilePage() {
                             <button
                               className="profile-save-button"
                               onClick={handleSaveName}
+                              disabled={savingName}
                             >
-                              Save
+                              {savingName ? 'Saving...' : 'Save'}
                             </button>
                             <button
                               className="profile-cancel-button"
@@ -169,6 +367,7 @@ export default function ProfilePage() {
                               Cancel
                             </button>
                           </div>
+                          {nameError && <div className="profile-form-error">{nameError}</div>}
                         </div>
                       ) : (
                         <div className="profile-name-display">
@@ -209,12 +408,184 @@ export default function ProfilePage() {
                   <div className="profile-detail-item">
                     <span className="profile-detail-label">Email</span>
                     <span className="profile-detail-value">{profile.email}</span>
+                    {!isChangingEmail && (
+                      <button
+                        className="profile-link-button"
+                        onClick={() => {
+                          setEmailMessage('');
+                          setIsChangingEmail(true);
+                        }}
+                      >
+                        Change
+                      </button>
+                    )}
                   </div>
+
+                  {profile.pendingEmail && (
+                    <div className="profile-detail-item">
+                      <span className="profile-detail-label">New email</span>
+                      <span className="profile-detail-value">
+                        {profile.pendingEmail} (waiting for confirmation)
+                      </span>
+                      <button className="profile-link-button" onClick={handleCancelPendingEmail}>
+                        Cancel
+                      </button>
+                    </div>
+                  )}
+
+                  {isChangingEmail && (
+                    <form className="profile-password-form" onSubmit={handleChangeEmail}>
+                      <input
+                        type="email"
+                        placeholder="New email"
+                        value={newEmail}
+                        onChange={(e) => setNewEmail(e.target.value)}
+                        className="profile-password-input"
+                        autoComplete="email"
+                        required
+                      />
+                      {profile.hasPassword && (
+                        <input
+                          type="password"
+                          placeholder="Current password"
+                          value={emailPassword}
+                          onChange={(e) => setEmailPassword(e.target.value)}
+                          className="profile-password-input"
+                          autoComplete="current-password"
+                          required
+                        />
+                      )}
+                      <p className="profile-password-hint">
+                        We will send a confirmation link to the new address. Your email
+                        changes once you open it, and all devices will be logged out.
+                      </p>
+                      <div className="profile-name-actions">
+                        <button
+                          type="submit"
+                          className="profile-save-button"
+                          disabled={savingEmail}
+                        >
+                          {savingEmail ? 'Sending...' : 'Send link'}
+                        </button>
+                        <button
+                          type="button"
+                          className="profile-cancel-button"
+                          onClick={() => {
+                            resetEmailForm();
+                            setIsChangingEmail(false);
+                          }}
+                        >
+                          Cancel
+                        </button>
+                      </div>
+                    </form>
+                  )}
+
+                  {emailError && <div className="profile-form-error">{emailError}</div>}
+                  {emailMessage && <div className="profile-form-success">{emailMessage}</div>}
+
                   <div className="profile-detail-item">
                     <span className="profile-detail-label">Password</span>
-                    <span className="profile-detail-value profile-password-masked">
-                      ***********************
-                    </span>
+                    {profile.hasPassword ? (
+                      <>
+                        <span className="profile-detail-value profile-password-masked">
+                          ***********************
+                        </span>
+                        {!isChangingPassword && (
+                          <button
+                            className="profile-link-button"
+                            onClick={() => {
+                              setPasswordMessage('');
+                              setIsChangingPassword(true);
+                            }}
+                          >
+                            Change
+                          </button>
+                        )}
+                      </>
+                    ) : (
+                      <>
+                        <span className="profile-detail-value">Signed in with Google</span>
+                        <button
+                          className="profile-link-button"
+                          onClick={() => router.push('/setting/accounts')}
+                        >
+                          Set password
+                        </button>
+                      </>
+                    )}
+                  </div>
+
+                  {isChangingPassword && (
+                    <form className="profile-password-form" onSubmit={handleChangePassword}>
+                      <input
+                        type="password"
+                        placeholder="Current password"
+                        value={currentPassword}
+                        onChange={(e) => setCurrentPassword(e.target.value)}
+                        className="profile-password-input"
+                        autoComplete="current-password"
+                        required
+                      />
+                      <input
+                        type="password"
+                        placeholder="New password"
+                        value={newPassword}
+                        onChange={(e) => setNewPassword(e.target.value)}
+                        className="profile-password-input"
+                        autoComplete="new-password"
+                        required
+                      />
+                      <input
+                        type="password"
+                        placeholder="Confirm new password"
+                        value={confirmPassword}
+                        onChange={(e) => setConfirmPassword(e.target.value)}
+                        className="profile-password-input"
+                        autoComplete="new-password"
+                        required
+                      />
+                      <p className="profile-password-hint">
+                        At least 12 characters, with an uppercase letter and a symbol.
+                        Other devices will be logged out.
+                      </p>
+                      <div className="profile-name-actions">
+                        <button
+                          type="submit"
+                          className="profile-save-button"
+                          disabled={savingPassword}
+                        >
+                          {savingPassword ? 'Saving...' : 'Save'}
+                        </button>
+                        <button
+                          type="button"
+                          className="profile-cancel-button"
+                          onClick={handleCancelPasswordChange}
+                        >
+                          Cancel
+                        </button>
+                      </div>
+                    </form>
+                  )}
+
+                  {passwordError && <div className="profile-form-error">{passwordError}</div>}
+                  {passwordMessage && <div className="profile-form-success">{passwordMessage}</div>}
+                </div>
+
+                {/* Divider */}
+                <div className="profile-divider"></div>
+
+                {/* Security */}
+                <div className="profile-details">
+                  <div className="profile-detail-item">
+                    <span className="profile-detail-label">Sessions</span>
+                    <button
+                      className="profile-danger-button"
+                      onClick={handleLogoutAllDevices}
+                      disabled={loggingOutAll}
+                    >
+                      {loggingOutAll ? 'Logging out...' : 'Log out of all devices'}
+                    </button>
                   </div>
                 </div>
               </div>
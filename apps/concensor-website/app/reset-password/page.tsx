@@ -0,0 +1,27 @@
+'use client';
+
+import BackgroundImage from '@/components/common/BackgroundImage';
+import MainLayout from '@/layouts/MainLayout';
+import ResetPasswordForm from '@/components/auth/ResetPasswordForm';
+import './page.css';
+
+/**
+ * Reset Password Page
+ *
+ * Route: /reset-password?token=xxx
+ * Opened from the password reset email. Accessible whether or not the user
+ * is logged in, since a successful reset logs out every existing session.
+ */
+export default function ResetPasswordPage() {
+  return (
+    <BackgroundImage>
+      <MainLayout>
+      <div className="reset-password-page">
+        <div className="reset-password-page-content">
+          <ResetPasswordForm />
+        </div>
+      </div>
+      </MainLayout>
+    </BackgroundImage>
+  );
+}
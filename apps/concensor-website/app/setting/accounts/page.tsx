@@ -0,0 +1,259 @@
+'use client';
+
+/**
+ * Connected Accounts Page
+ *
+ * Route: /setting/accounts
+ * Shows the user's login methods (email/password and Google) and lets them
+ * connect or disconnect each one. The last remaining method can't be removed.
+ * Requires authentication.
+ *
+ * Query params (set by the Google link callback):
+ * - linked=google: Google account connected
+ * - error=...: Why linking failed
+ */
+
+import { useCallback, useEffect, useState } from 'react';
+import { useRouter, useSearchParams } from 'next/navigation';
+import Link from 'next/link';
+import AuthLayout from '@/layouts/AuthLayout';
+import { useAuth } from '@/contexts/AuthContext';
+import { useSidebar } from '@/contexts/SidebarContext';
+import ProfileSidebar from '@/components/common/ProfileSidebar';
+import BackgroundImage from '@/components/common/BackgroundImage';
+import { api } from '@/lib/api';
+import { LinkedAccounts } from '@/types';
+import '../page.css';
+import './page.css';
+
+// Messages for ?error= values from the Google link flow
+const LINK_ERROR_MESSAGES: Record<string, string> = {
+  google_in_use: 'That Google account is already connected to another Concensor account.',
+  google_already_linked: 'A Google account is already connected.',
+  link_expired: 'The connection request expired. Please try again.',
+  config_error: 'Google login is not configured.',
+  oauth_failed: 'Connecting Google failed. Please try again.',
+};
+
+type PasswordForm = 'none' | 'set' | 'remove';
+
+export default function ConnectedAccountsPage() {
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const { isAuthenticated, loading: authLoading } = useAuth();
+  const { sidebarOpen } = useSidebar();
+  const [accounts, setAccounts] = useState<LinkedAccounts | null>(null);
+  const [passwordForm, setPasswordForm] = useState<PasswordForm>('none');
+  const [password, setPassword] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState('');
+  const [message, setMessage] = useState('');
+
+  useEffect(() => {
+    if (!authLoading && !isAuthenticated) {
+      router.replace('/login');
+    }
+  }, [authLoading, isAuthenticated, router]);
+
+  // Show the result of the Google link redirect
+  useEffect(() => {
+    const linked = searchParams.get('linked');
+    const errorParam = searchParams.get('error');
+    if (linked === 'google') {
+      setMessage('Google account connected. You can now log in with Google.');
+    } else if (errorParam) {
+      setError(LINK_ERROR_MESSAGES[errorParam] || 'Connecting Google failed. Please try again.');
+    }
+  }, [searchParams]);
+
+  const loadAccounts = useCallback(async () => {
+    try {
+      setAccounts(await api.getLinkedAccounts());
+    } catch (err: any) {
+      setError(err.message || 'Failed to load connected accounts');
+    }
+  }, []);
+
+  useEffect(() => {
+    if (isAuthenticated) {
+      loadAccounts();
+    }
+  }, [isAuthenticated, loadAccounts]);
+
+  const closePasswordForm = () => {
+    setPasswordForm('none');
+    setPassword('');
+  };
+
+  const handlePasswordSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+    setMessage('');
+    setSubmitting(true);
+    try {
+      const response = passwordForm === 'set'
+        ? await api.setPassword(password)
+        : await api.removePassword(password);
+      setMessage(response.message);
+      closePasswordForm();
+      await loadAccounts();
+    } catch (err: any) {
+      setError(err.message || 'Something went wrong. Please try again.');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleConnectGoogle = () => {
+    // Full page navigation: the link route redirects to Google's consent page
+    window.location.href = '/api/auth/google/link';
+  };
+
+  const handleDisconnectGoogle = async () => {
+    if (!confirm('Disconnect your Google account? You will log in with your email and password.')) {
+      return;
+    }
+    setError('');
+    setMessage('');
+    setSubmitting(true);
+    try {
+      const response = await api.unlinkGoogle();
+      setMessage(response.message);
+      await loadAccounts();
+    } catch (err: any) {
+      setError(err.message || 'Failed to disconnect Google account');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  if (authLoading || !isAuthenticated) {
+    return null;
+  }
+
+  return (
+    <AuthLayout>
+      <div className="setting-page">
+        <div className="setting-page-content">
+          <ProfileSidebar />
+          <main className={`setting-main ${sidebarOpen ? 'sidebar-open' : ''}`}>
+            <BackgroundImage className="setting-background">
+              <div className="setting-container">
+                <Link href="/setting" className="accounts-back-link">
+                  ← Setting
+                </Link>
+                <h1 className="setting-title">Connected Accounts</h1>
+
+                {error && <div className="accounts-error">{error}</div>}
+                {message && <div className="accounts-success">{message}</div>}
+
+                {accounts && (
+                  <ul className="accounts-list">
+                    <li className="accounts-item">
+                      <div className="accounts-item-row">
+                        <span className="accounts-item-icon" aria-hidden="true">✉️</span>
+                        <div className="accounts-item-info">
+                          <div className="accounts-item-name">Email and password</div>
+                          <div className="accounts-item-meta">
+                            {accounts.email.linked
+                              ? accounts.email.address
+                              : 'No password set'}
+                          </div>
+                        </div>
+                        {passwordForm === 'none' && (
+                          accounts.email.linked ? (
+                            <button
+                              type="button"
+                              className="accounts-button danger"
+                              onClick={() => setPasswordForm('remove')}
+                              disabled={!accounts.email.canUnlink || submitting}
+                              title={accounts.email.canUnlink ? undefined : 'Connect Google first - this is your only login method'}
+                            >
+                              Remove password
+                            </button>
+                          ) : (
+                            <button
+                              type="button"
+                              className="accounts-button primary"
+                              onClick={() => setPasswordForm('set')}
+                              disabled={submitting}
+                            >
+                              Set password
+                            </button>
+                          )
+                        )}
+                      </div>
+
+                      {passwordForm !== 'none' && (
+                        <form className="accounts-form" onSubmit={handlePasswordSubmit}>
+                          <label htmlFor="accountsPassword" className="accounts-form-label">
+                            {passwordForm === 'set'
+                              ? 'New password (at least 12 characters, one uppercase letter and one symbol)'
+                              : 'Enter your current password to remove it. You will log in with Google only.'}
+                          </label>
+                          <input
+                            id="accountsPassword"
+                            type="password"
+                            autoComplete={passwordForm === 'set' ? 'new-password' : 'current-password'}
+                            className="accounts-input"
+                            value={password}
+                            onChange={(e) => setPassword(e.target.value)}
+                            required
+                          />
+                          <div className="accounts-form-actions">
+                            <button
+                              type="submit"
+                              className={`accounts-button ${passwordForm === 'set' ? 'primary' : 'danger'}`}
+                              disabled={submitting}
+                            >
+                              {passwordForm === 'set' ? 'Set password' : 'Remove password'}
+                            </button>
+                            <button type="button" className="accounts-button secondary" onClick={closePasswordForm}>
+                              Cancel
+                            </button>
+                          </div>
+                        </form>
+                      )}
+                    </li>
+
+                    <li className="accounts-item">
+                      <div className="accounts-item-row">
+                        <span className="accounts-item-icon" aria-hidden="true">G</span>
+                        <div className="accounts-item-info">
+                          <div className="accounts-item-name">Google</div>
+                          <div className="accounts-item-meta">
+                            {accounts.google.linked ? 'Connected' : 'Not connected'}
+                          </div>
+                        </div>
+                        {accounts.google.linked ? (
+                          <button
+                            type="button"
+                            className="accounts-button danger"
+                            onClick={handleDisconnectGoogle}
+                            disabled={!accounts.google.canUnlink || submitting}
+                            title={accounts.google.canUnlink ? undefined : 'Set a password first - this is your only login method'}
+                          >
+                            Disconnect
+                          </button>
+                        ) : (
+                          <button
+                            type="button"
+                            className="accounts-button primary"
+                            onClick={handleConnectGoogle}
+                            disabled={submitting}
+                          >
+                            Connect
+                          </button>
+                        )}
+                      </div>
+                    </li>
+                  </ul>
+                )}
+              </div>
+            </BackgroundImage>
+          </main>
+        </div>
+      </div>
+    </AuthLayout>
+  );
+}
@@ -0,0 +1,266 @@
+'use client';
+
+/**
+ * Your Data Page
+ *
+ * Route: /setting/data
+ * Lets the user download a copy of their data (JSON or ZIP) and delete their
+ * account. Deletion is scheduled after a grace period and can be cancelled here
+ * until then.
+ * Requires authentication.
+ */
+
+import { useEffect, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import Link from 'next/link';
+import AuthLayout from '@/layouts/AuthLayout';
+import { useAuth } from '@/contexts/AuthContext';
+import { useSidebar } from '@/contexts/SidebarContext';
+import ProfileSidebar from '@/components/common/ProfileSidebar';
+import BackgroundImage from '@/components/common/BackgroundImage';
+import { api } from '@/lib/api';
+import { AccountDeletionStatus } from '@/types';
+import '../page.css';
+import './page.css';
+
+const formatDate = (value: string): string =>
+  new Date(value).toLocaleDateString(undefined, { dateStyle: 'long' });
+
+/**
+ * Save a downloaded file via a temporary link
+ */
+const saveFile = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+};
+
+export default function YourDataPage() {
+  const router = useRouter();
+  const { isAuthenticated, loading: authLoading } = useAuth();
+  const { sidebarOpen } = useSidebar();
+  const [deletion, setDeletion] = useState<AccountDeletionStatus | null>(null);
+  const [account, setAccount] = useState<{ email: string; hasPassword: boolean } | null>(null);
+  const [exporting, setExporting] = useState<'json' | 'zip' | null>(null);
+  const [showDeleteForm, setShowDeleteForm] = useState(false);
+  const [confirmation, setConfirmation] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState('');
+  const [message, setMessage] = useState('');
+
+  useEffect(() => {
+    if (!authLoading && !isAuthenticated) {
+      router.replace('/login');
+    }
+  }, [authLoading, isAuthenticated, router]);
+
+  useEffect(() => {
+    if (!isAuthenticated) return;
+
+    const fetchStatus = async () => {
+      try {
+        const [status, profile] = await Promise.all([
+          api.getAccountDeletionStatus(),
+          api.getProfile(),
+        ]);
+        setDeletion(status);
+        setAccount({ email: profile.user.email, hasPassword: profile.user.hasPassword });
+      } catch (err: any) {
+        setError(err.message || 'Failed to load account status');
+      }
+    };
+
+    fetchStatus();
+  }, [isAuthenticated]);
+
+  const handleExport = async (format: 'json' | 'zip') => {
+    setError('');
+    setMessage('');
+    setExporting(format);
+    try {
+      const blob = await api.exportData(format);
+      saveFile(blob, `concensor-data-${new Date().toISOString().slice(0, 10)}.${format}`);
+    } catch (err: any) {
+      // Error bodies of blob requests can't be read as JSON, so use a generic message
+      setError('Failed to export your data. You can export up to 5 times per hour.');
+    } finally {
+      setExporting(null);
+    }
+  };
+
+  const handleDelete = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!account) return;
+
+    setError('');
+    setMessage('');
+    setSubmitting(true);
+    try {
+      const response = await api.scheduleAccountDeletion(
+        account.hasPassword ? { password: confirmation } : { confirmEmail: confirmation }
+      );
+      setDeletion({
+        scheduled: true,
+        requestedAt: new Date().toISOString(),
+        scheduledAt: response.scheduledAt,
+      });
+      setMessage(response.message);
+      setShowDeleteForm(false);
+      setConfirmation('');
+    } catch (err: any) {
+      setError(err.message || 'Failed to delete account');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleCancelDeletion = async () => {
+    setError('');
+    setMessage('');
+    setSubmitting(true);
+    try {
+      const response = await api.cancelAccountDeletion();
+      setDeletion({ scheduled: false, requestedAt: null, scheduledAt: null });
+      setMessage(response.message);
+    } catch (err: any) {
+      setError(err.message || 'Failed to cancel account deletion');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  if (authLoading || !isAuthenticated) {
+    return null;
+  }
+
+  return (
+    <AuthLayout>
+      <div className="setting-page">
+        <div className="setting-page-content">
+          <ProfileSidebar />
+          <main className={`setting-main ${sidebarOpen ? 'sidebar-open' : ''}`}>
+            <BackgroundImage className="setting-background">
+              <div className="setting-container">
+                <Link href="/setting" className="data-back-link">
+                  ← Setting
+                </Link>
+                <h1 className="setting-title">Your Data</h1>
+
+                {error && <div className="data-error">{error}</div>}
+                {message && <div className="data-success">{message}</div>}
+
+                <section className="data-card">
+                  <h2 className="data-card-title">Download your data</h2>
+                  <p className="data-card-text">
+                    Get a copy of your profile, posts, comments, votes, saved posts,
+                    category points and recently viewed categories.
+                  </p>
+                  <div className="data-actions">
+                    <button
+                      type="button"
+                      className="data-button primary"
+                      onClick={() => handleExport('json')}
+                      disabled={exporting !== null}
+                    >
+                      {exporting === 'json' ? 'Preparing...' : 'Download JSON'}
+                    </button>
+                    <button
+                      type="button"
+                      className="data-button secondary"
+                      onClick={() => handleExport('zip')}
+                      disabled={exporting !== null}
+                    >
+                      {exporting === 'zip' ? 'Preparing...' : 'Download ZIP'}
+                    </button>
+                  </div>
+                </section>
+
+                <section className="data-card danger">
+                  <h2 className="data-card-title">Delete account</h2>
+                  {deletion?.scheduled && deletion.scheduledAt ? (
+                    <>
+                      <p className="data-card-text">
+                        Your account will be permanently deleted on{' '}
+                        <strong>{formatDate(deletion.scheduledAt)}</strong>. Until then you
+                        can keep it by cancelling the deletion.
+                      </p>
+                      <div className="data-actions">
+                        <button
+                          type="button"
+                          className="data-button primary"
+                          onClick={handleCancelDeletion}
+                          disabled={submitting}
+                        >
+                          Keep my account
+                        </button>
+                      </div>
+                    </>
+                  ) : (
+                    <>
+                      <p className="data-card-text">
+                        Your account is deleted 30 days after you ask, and you can cancel
+                        until then. Your posts and comments stay on the site as
+                        &quot;[deleted user]&quot;. Your votes are removed from every
+                        post&apos;s results, and your saved posts, points and badges are
+                        deleted.
+                      </p>
+                      {showDeleteForm && account ? (
+                        <form className="data-form" onSubmit={handleDelete}>
+                          <label htmlFor="deleteConfirmation" className="data-form-label">
+                            {account.hasPassword
+                              ? 'Enter your password to confirm'
+                              : `Type your email address (${account.email}) to confirm`}
+                          </label>
+                          <input
+                            id="deleteConfirmation"
+                            type={account.hasPassword ? 'password' : 'email'}
+                            autoComplete={account.hasPassword ? 'current-password' : 'off'}
+                            className="data-input"
+                            value={confirmation}
+                            onChange={(e) => setConfirmation(e.target.value)}
+                            required
+                          />
+                          <div className="data-actions">
+                            <button type="submit" className="data-button danger" disabled={submitting}>
+                              {submitting ? 'Deleting...' : 'Delete my account'}
+                            </button>
+                            <button
+                              type="button"
+                              className="data-button secondary"
+                              onClick={() => {
+                                setShowDeleteForm(false);
+                                setConfirmation('');
+                              }}
+                            >
+                              Cancel
+                            </button>
+                          </div>
+                        </form>
+                      ) : (
+                        <div className="data-actions">
+                          <button
+                            type="button"
+                            className="data-button danger"
+                            onClick={() => setShowDeleteForm(true)}
+                            disabled={!account}
+                          >
+                            Delete account
+                          </button>
+                        </div>
+                      )}
+                    </>
+                  )}
+                </section>
+              </div>
+            </BackgroundImage>
+          </main>
+        </div>
+      </div>
+    </AuthLayout>
+  );
+}
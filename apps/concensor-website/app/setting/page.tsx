@@ -5,6 +5,8 @@
  *
  * Route: /setting
  * Profile settings entry page.
+ * Includes account security settings (connected accounts, sessions, two-factor authentication)
+ * and data controls (export, account deletion).
  * Requires authentication.
  */
 
@@ -15,6 +17,7 @@ import { useAuth } from '@/contexts/AuthContext';
 import { useSidebar } from '@/contexts/SidebarContext';
 import ProfileSidebar from '@/components/common/ProfileSidebar';
 import BackgroundImage from '@/components/common/BackgroundImage';
+import TwoFactorSettings from '@/components/settings/TwoFactorSettings';
 import './page.css';
 
 export default function SettingPage() {
@@ -51,6 +54,37 @@ export default function SettingPage() {
                     <span className="setting-card-label">Privacy</span>
                   </button>
                 </div>
+                <h2 className="setting-section-title">Security</h2>
+                <div className="setting-cards">
+                  <button
+                    className="setting-card"
+                    type="button"
+                    onClick={() => router.push('/setting/accounts')}
+                  >
+                    <span className="setting-card-icon" aria-hidden="true">🔗</span>
+                    <span className="setting-card-label">Connected Accounts</span>
+                  </button>
+                  <button
+                    className="setting-card"
+                    type="button"
+                    onClick={() => router.push('/setting/sessions')}
+                  >
+                    <span className="setting-card-icon" aria-hidden="true">💻</span>
+                    <span className="setting-card-label">Sessions</span>
+                  </button>
+                  <TwoFactorSettings />
+                </div>
+                <h2 className="setting-section-title">Your Data</h2>
+                <div className="setting-cards">
+                  <button
+                    className="setting-card"
+                    type="button"
+                    onClick={() => router.push('/setting/data')}
+                  >
+                    <span className="setting-card-icon" aria-hidden="true">📦</span>
+                    <span className="setting-card-label">Download or Delete</span>
+                  </button>
+                </div>
               </div>
             </BackgroundImage>
           </main>
@@ -0,0 +1,170 @@
+'use client';
+
+/**
+ * Sessions Page
+ *
+ * Route: /setting/sessions
+ * Lists the devices the user is logged in on and lets them log out any one of them.
+ * Requires authentication.
+ */
+
+import { useEffect, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import Link from 'next/link';
+import AuthLayout from '@/layouts/AuthLayout';
+import { useAuth } from '@/contexts/AuthContext';
+import { useSidebar } from '@/contexts/SidebarContext';
+import ProfileSidebar from '@/components/common/ProfileSidebar';
+import BackgroundImage from '@/components/common/BackgroundImage';
+import { api } from '@/lib/api';
+import { UserSession } from '@/types';
+import '../page.css';
+import './page.css';
+
+/**
+ * Turn a User-Agent header into a short label like "Chrome on macOS"
+ */
+const describeUserAgent = (userAgent: string | null): string => {
+  if (!userAgent) return 'Unknown device';
+
+  let browser = 'Unknown browser';
+  if (/Edg\//.test(userAgent)) browser = 'Edge';
+  else if (/OPR\/|Opera/.test(userAgent)) browser = 'Opera';
+  else if (/Firefox\//.test(userAgent)) browser = 'Firefox';
+  else if (/Chrome\//.test(userAgent)) browser = 'Chrome';
+  else if (/Safari\//.test(userAgent)) browser = 'Safari';
+
+  let os = 'unknown OS';
+  if (/iPhone|iPad|iPod/.test(userAgent)) os = 'iOS';
+  else if (/Android/.test(userAgent)) os = 'Android';
+  else if (/Windows/.test(userAgent)) os = 'Windows';
+  else if (/Mac OS X|Macintosh/.test(userAgent)) os = 'macOS';
+  else if (/Linux/.test(userAgent)) os = 'Linux';
+
+  return `${browser} on ${os}`;
+};
+
+const formatDateTime = (value: string): string =>
+  new Date(value).toLocaleString(undefined, {
+    dateStyle: 'medium',
+    timeStyle: 'short',
+  });
+
+export default function SessionsPage() {
+  const router = useRouter();
+  const { isAuthenticated, loading: authLoading, logout } = useAuth();
+  const { sidebarOpen } = useSidebar();
+  const [sessions, setSessions] = useState<UserSession[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [revokingId, setRevokingId] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!authLoading && !isAuthenticated) {
+      router.replace('/login');
+    }
+  }, [authLoading, isAuthenticated, router]);
+
+  useEffect(() => {
+    if (!isAuthenticated) return;
+
+    const fetchSessions = async () => {
+      try {
+        const response = await api.getSessions();
+        setSessions(response.sessions);
+      } catch (err: any) {
+        setError(err.message || 'Failed to load sessions');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchSessions();
+  }, [isAuthenticated]);
+
+  const handleRevoke = async (session: UserSession) => {
+    if (session.current && !confirm('This will log you out on this device. Continue?')) {
+      return;
+    }
+
+    setError('');
+    setRevokingId(session.id);
+    try {
+      const response = await api.revokeSession(session.id);
+      if (response.current) {
+        // This device was logged out - clear local auth state
+        await logout();
+        return;
+      }
+      setSessions((prev) => prev.filter((s) => s.id !== session.id));
+    } catch (err: any) {
+      setError(err.message || 'Failed to log out session');
+    } finally {
+      setRevokingId(null);
+    }
+  };
+
+  if (authLoading || !isAuthenticated) {
+    return null;
+  }
+
+  return (
+    <AuthLayout>
+      <div className="setting-page">
+        <div className="setting-page-content">
+          <ProfileSidebar />
+          <main className={`setting-main ${sidebarOpen ? 'sidebar-open' : ''}`}>
+            <BackgroundImage className="setting-background">
+              <div className="setting-container">
+                <Link href="/setting" className="sessions-back-link">
+                  ← Setting
+                </Link>
+                <h1 className="setting-title">Sessions</h1>
+                <p className="sessions-description">
+                  These devices are currently logged in to your account.
+                  Log out any session you don&apos;t recognize.
+                </p>
+
+                {error && <div className="sessions-error">{error}</div>}
+
+                {loading ? (
+                  <div className="sessions-empty">Loading sessions...</div>
+                ) : sessions.length === 0 ? (
+                  <div className="sessions-empty">No active sessions.</div>
+                ) : (
+                  <ul className="sessions-list">
+                    {sessions.map((session) => (
+                      <li key={session.id} className="sessions-item">
+                        <div className="sessions-item-info">
+                          <div className="sessions-item-device">
+                            {describeUserAgent(session.userAgent)}
+                            {session.current && (
+                              <span className="sessions-current-badge">This device</span>
+                            )}
+                          </div>
+                          <div className="sessions-item-meta">
+                            {session.ipAddress && <span>{session.ipAddress} · </span>}
+                            <span>Last active {formatDateTime(session.lastSeenAt)}</span>
+                            <span> · Signed in {formatDateTime(session.createdAt)}</span>
+                          </div>
+                        </div>
+                        <button
+                          type="button"
+                          className="sessions-revoke-button"
+                          onClick={() => handleRevoke(session)}
+                          disabled={revokingId === session.id}
+                        >
+                          {revokingId === session.id ? 'Logging out...' : 'Log out'}
+                        </button>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            </BackgroundImage>
+          </main>
+        </div>
+      </div>
+    </AuthLayout>
+  );
+}
@@ -0,0 +1,7 @@
+-- AlterTable
+ALTER TABLE "users" ADD COLUMN     "pendingEmail" TEXT,
+ADD COLUMN     "pendingEmailExpires" TIMESTAMP(3),
+ADD COLUMN     "pendingEmailTokenHash" TEXT;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "users_pendingEmailTokenHash_key" ON "users"("pendingEmailTokenHash");
@@ -0,0 +1,54 @@
+-- CreateTable
+CREATE TABLE "category_moderators" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "categoryId" TEXT NOT NULL,
+    "grantedById" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "category_moderators_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "role_audit_logs" (
+    "id" TEXT NOT NULL,
+    "action" TEXT NOT NULL,
+    "role" TEXT NOT NULL,
+    "categoryId" TEXT,
+    "targetUserId" TEXT,
+    "actorId" TEXT,
+    "reason" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "role_audit_logs_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "category_moderators_categoryId_idx" ON "category_moderators"("categoryId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "category_moderators_userId_categoryId_key" ON "category_moderators"("userId", "categoryId");
+
+-- CreateIndex
+CREATE INDEX "role_audit_logs_targetUserId_idx" ON "role_audit_logs"("targetUserId");
+
+-- CreateIndex
+CREATE INDEX "role_audit_logs_createdAt_idx" ON "role_audit_logs"("createdAt");
+
+-- AddForeignKey
+ALTER TABLE "category_moderators" ADD CONSTRAINT "category_moderators_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "category_moderators" ADD CONSTRAINT "category_moderators_categoryId_fkey" FOREIGN KEY ("categoryId") REFERENCES "categories"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "category_moderators" ADD CONSTRAINT "category_moderators_grantedById_fkey" FOREIGN KEY ("grantedById") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "role_audit_logs" ADD CONSTRAINT "role_audit_logs_categoryId_fkey" FOREIGN KEY ("categoryId") REFERENCES "categories"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "role_audit_logs" ADD CONSTRAINT "role_audit_logs_targetUserId_fkey" FOREIGN KEY ("targetUserId") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "role_audit_logs" ADD CONSTRAINT "role_audit_logs_actorId_fkey" FOREIGN KEY ("actorId") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
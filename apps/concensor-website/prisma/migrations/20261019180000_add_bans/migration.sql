@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "user_suspensions" ADD COLUMN     "liftedAt" TIMESTAMP(3),
+ADD COLUMN     "liftedById" TEXT,
+ADD COLUMN     "type" TEXT NOT NULL DEFAULT 'suspension',
+ALTER COLUMN "expiresAt" DROP NOT NULL;
+
+-- AddForeignKey
+ALTER TABLE "user_suspensions" ADD CONSTRAINT "user_suspensions_liftedById_fkey" FOREIGN KEY ("liftedById") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,26 @@
+-- CreateTable
+CREATE TABLE "automod_rules" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "categoryId" TEXT,
+    "appliesTo" TEXT NOT NULL DEFAULT 'all',
+    "type" TEXT NOT NULL,
+    "config" JSONB NOT NULL DEFAULT '{}',
+    "action" TEXT NOT NULL,
+    "message" TEXT,
+    "enabled" BOOLEAN NOT NULL DEFAULT true,
+    "createdById" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "automod_rules_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "automod_rules_categoryId_enabled_idx" ON "automod_rules"("categoryId", "enabled");
+
+-- AddForeignKey
+ALTER TABLE "automod_rules" ADD CONSTRAINT "automod_rules_categoryId_fkey" FOREIGN KEY ("categoryId") REFERENCES "categories"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "automod_rules" ADD CONSTRAINT "automod_rules_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,18 @@
+-- AlterTable
+ALTER TABLE "comments" ADD COLUMN     "editedAt" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "comment_revisions" (
+    "id" TEXT NOT NULL,
+    "commentId" TEXT NOT NULL,
+    "content" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "comment_revisions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "comment_revisions_commentId_createdAt_idx" ON "comment_revisions"("commentId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "comment_revisions" ADD CONSTRAINT "comment_revisions_commentId_fkey" FOREIGN KEY ("commentId") REFERENCES "comments"("id") ON DELETE CASCADE ON UPDATE CASCADE;
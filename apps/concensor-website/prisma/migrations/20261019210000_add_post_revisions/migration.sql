@@ -0,0 +1,29 @@
+-- AlterTable
+ALTER TABLE "posts" ADD COLUMN     "editedAt" TIMESTAMP(3),
+ADD COLUMN     "editsLocked" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN     "revision" INTEGER NOT NULL DEFAULT 1;
+
+-- AlterTable
+ALTER TABLE "votes" ADD COLUMN     "postRevision" INTEGER NOT NULL DEFAULT 1;
+
+-- CreateTable
+CREATE TABLE "post_revisions" (
+    "id" TEXT NOT NULL,
+    "postId" TEXT NOT NULL,
+    "revision" INTEGER NOT NULL,
+    "title" TEXT NOT NULL,
+    "content" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "post_revisions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "post_revisions_postId_revision_key" ON "post_revisions"("postId", "revision");
+
+-- AddForeignKey
+ALTER TABLE "post_revisions" ADD CONSTRAINT "post_revisions_postId_fkey" FOREIGN KEY ("postId") REFERENCES "posts"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Backfill: existing posts start at revision 1 with their current text
+INSERT INTO "post_revisions" ("id", "postId", "revision", "title", "content", "createdAt")
+SELECT gen_random_uuid()::text, "id", 1, "title", "content", "createdAt" FROM "posts";
@@ -0,0 +1,30 @@
+-- CreateTable
+CREATE TABLE "vote_changes" (
+    "id" TEXT NOT NULL,
+    "postId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "fromType" TEXT,
+    "fromValue" INTEGER,
+    "toType" TEXT,
+    "toValue" INTEGER,
+    "postRevision" INTEGER NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "vote_changes_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "vote_changes_postId_createdAt_idx" ON "vote_changes"("postId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "vote_changes_userId_postId_idx" ON "vote_changes"("userId", "postId");
+
+-- AddForeignKey
+ALTER TABLE "vote_changes" ADD CONSTRAINT "vote_changes_postId_fkey" FOREIGN KEY ("postId") REFERENCES "posts"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "vote_changes" ADD CONSTRAINT "vote_changes_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Backfill: existing votes are their voters' first votes
+INSERT INTO "vote_changes" ("id", "postId", "userId", "fromType", "fromValue", "toType", "toValue", "postRevision", "createdAt")
+SELECT gen_random_uuid()::text, "postId", "userId", NULL, NULL, "voteType", "voteValue", "postRevision", "createdAt" FROM "votes";
@@ -0,0 +1,57 @@
+-- AlterTable
+ALTER TABLE "posts" ADD COLUMN     "voteMean" DOUBLE PRECISION NOT NULL DEFAULT 0,
+ADD COLUMN     "voteVariance" DOUBLE PRECISION NOT NULL DEFAULT 0,
+ADD COLUMN     "voteEntropy" DOUBLE PRECISION NOT NULL DEFAULT 0,
+ADD COLUMN     "polarization" DOUBLE PRECISION NOT NULL DEFAULT 0,
+ADD COLUMN     "consensusStrength" TEXT NOT NULL DEFAULT 'insufficient';
+
+-- Backfill posts that have votes (same formulas and thresholds as src/lib/consensusMetrics.ts)
+WITH shares AS (
+    SELECT
+        "id",
+        "stronglyDisagreeCount" + "disagreeCount" + "neutralCount" + "agreeCount" + "stronglyAgreeCount" AS total,
+        "stronglyDisagreeCount"::double precision / NULLIF("stronglyDisagreeCount" + "disagreeCount" + "neutralCount" + "agreeCount" + "stronglyAgreeCount", 0) AS p1,
+        "disagreeCount"::double precision / NULLIF("stronglyDisagreeCount" + "disagreeCount" + "neutralCount" + "agreeCount" + "stronglyAgreeCount", 0) AS p2,
+        "neutralCount"::double precision / NULLIF("stronglyDisagreeCount" + "disagreeCount" + "neutralCount" + "agreeCount" + "stronglyAgreeCount", 0) AS p3,
+        "agreeCount"::double precision / NULLIF("stronglyDisagreeCount" + "disagreeCount" + "neutralCount" + "agreeCount" + "stronglyAgreeCount", 0) AS p4,
+        "stronglyAgreeCount"::double precision / NULLIF("stronglyDisagreeCount" + "disagreeCount" + "neutralCount" + "agreeCount" + "stronglyAgreeCount", 0) AS p5
+    FROM "posts"
+),
+moments AS (
+    SELECT
+        *,
+        -2 * p1 - p2 + p4 + 2 * p5 AS mean,
+        (LEAST(p1, 1 - p1)
+            + LEAST(p1 + p2, 1 - (p1 + p2))
+            + LEAST(p1 + p2 + p3, 1 - (p1 + p2 + p3))
+            + LEAST(p1 + p2 + p3 + p4, 1 - (p1 + p2 + p3 + p4))) / 2 AS polarization
+    FROM shares
+    WHERE total > 0
+)
+UPDATE "posts" p
+SET
+    "voteMean" = m.mean,
+    "voteVariance" = 4 * m.p1 + m.p2 + m.p4 + 4 * m.p5 - m.mean * m.mean,
+    "voteEntropy" = -(
+        CASE WHEN m.p1 > 0 THEN m.p1 * LN(m.p1) ELSE 0 END
+        + CASE WHEN m.p2 > 0 THEN m.p2 * LN(m.p2) ELSE 0 END
+        + CASE WHEN m.p3 > 0 THEN m.p3 * LN(m.p3) ELSE 0 END
+        + CASE WHEN m.p4 > 0 THEN m.p4 * LN(m.p4) ELSE 0 END
+        + CASE WHEN m.p5 > 0 THEN m.p5 * LN(m.p5) ELSE 0 END
+    ) / LN(5),
+    "polarization" = m.polarization,
+    "consensusStrength" = CASE
+        WHEN m.total < 5 THEN 'insufficient'
+        WHEN m.polarization >= 0.5 THEN 'divided'
+        WHEN m.polarization <= 0.2 THEN 'strong'
+        WHEN m.polarization <= 0.35 THEN 'moderate'
+        ELSE 'weak'
+    END
+FROM moments m
+WHERE p."id" = m."id";
+
+-- CreateIndex
+CREATE INDEX "posts_polarization_idx" ON "posts"("polarization");
+
+-- CreateIndex
+CREATE INDEX "posts_consensusStrength_idx" ON "posts"("consensusStrength");
@@ -0,0 +1,48 @@
+-- AlterTable
+ALTER TABLE "users" ADD COLUMN     "ideologyVisibility" TEXT NOT NULL DEFAULT 'private';
+
+-- CreateTable
+CREATE TABLE "user_ideology" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "categoryId" TEXT NOT NULL,
+    "stronglyAgreeCount" INTEGER NOT NULL DEFAULT 0,
+    "agreeCount" INTEGER NOT NULL DEFAULT 0,
+    "neutralCount" INTEGER NOT NULL DEFAULT 0,
+    "disagreeCount" INTEGER NOT NULL DEFAULT 0,
+    "stronglyDisagreeCount" INTEGER NOT NULL DEFAULT 0,
+    "voteCount" INTEGER NOT NULL DEFAULT 0,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "user_ideology_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "user_ideology_userId_categoryId_key" ON "user_ideology"("userId", "categoryId");
+
+-- CreateIndex
+CREATE INDEX "user_ideology_categoryId_idx" ON "user_ideology"("categoryId");
+
+-- AddForeignKey
+ALTER TABLE "user_ideology" ADD CONSTRAINT "user_ideology_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "user_ideology" ADD CONSTRAINT "user_ideology_categoryId_fkey" FOREIGN KEY ("categoryId") REFERENCES "categories"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Backfill from existing votes (each vote counts for its post's main and sub category)
+INSERT INTO "user_ideology" ("id", "userId", "categoryId", "stronglyAgreeCount", "agreeCount", "neutralCount", "disagreeCount", "stronglyDisagreeCount", "voteCount", "updatedAt")
+SELECT
+    gen_random_uuid()::text,
+    v."userId",
+    c."categoryId",
+    COUNT(*) FILTER (WHERE v."voteType" = 'strongly_agree'),
+    COUNT(*) FILTER (WHERE v."voteType" = 'agree'),
+    COUNT(*) FILTER (WHERE v."voteType" = 'neutral'),
+    COUNT(*) FILTER (WHERE v."voteType" = 'disagree'),
+    COUNT(*) FILTER (WHERE v."voteType" = 'strongly_disagree'),
+    COUNT(*),
+    CURRENT_TIMESTAMP
+FROM "votes" v
+JOIN "posts" p ON p."id" = v."postId"
+CROSS JOIN LATERAL (VALUES (p."mainCategoryId"), (p."subCategoryId")) AS c("categoryId")
+GROUP BY v."userId", c."categoryId";
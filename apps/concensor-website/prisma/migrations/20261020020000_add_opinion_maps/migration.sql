@@ -0,0 +1,85 @@
+-- CreateTable
+CREATE TABLE "opinion_maps" (
+    "id" TEXT NOT NULL,
+    "subCategoryId" TEXT NOT NULL,
+    "voterCount" INTEGER NOT NULL,
+    "postCount" INTEGER NOT NULL,
+    "varianceExplained" DOUBLE PRECISION NOT NULL,
+    "silhouette" DOUBLE PRECISION NOT NULL,
+    "computedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "opinion_maps_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "opinion_groups" (
+    "id" TEXT NOT NULL,
+    "mapId" TEXT NOT NULL,
+    "label" INTEGER NOT NULL,
+    "memberCount" INTEGER NOT NULL,
+    "centerX" DOUBLE PRECISION NOT NULL,
+    "centerY" DOUBLE PRECISION NOT NULL,
+
+    CONSTRAINT "opinion_groups_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "opinion_group_members" (
+    "id" TEXT NOT NULL,
+    "groupId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "x" DOUBLE PRECISION NOT NULL,
+    "y" DOUBLE PRECISION NOT NULL,
+
+    CONSTRAINT "opinion_group_members_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "opinion_group_posts" (
+    "id" TEXT NOT NULL,
+    "groupId" TEXT NOT NULL,
+    "postId" TEXT NOT NULL,
+    "voteCount" INTEGER NOT NULL,
+    "agreeShare" DOUBLE PRECISION NOT NULL,
+    "disagreeShare" DOUBLE PRECISION NOT NULL,
+    "othersAgreeShare" DOUBLE PRECISION NOT NULL,
+    "othersDisagreeShare" DOUBLE PRECISION NOT NULL,
+
+    CONSTRAINT "opinion_group_posts_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "opinion_maps_subCategoryId_key" ON "opinion_maps"("subCategoryId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "opinion_groups_mapId_label_key" ON "opinion_groups"("mapId", "label");
+
+-- CreateIndex
+CREATE INDEX "opinion_group_members_userId_idx" ON "opinion_group_members"("userId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "opinion_group_members_groupId_userId_key" ON "opinion_group_members"("groupId", "userId");
+
+-- CreateIndex
+CREATE INDEX "opinion_group_posts_postId_idx" ON "opinion_group_posts"("postId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "opinion_group_posts_groupId_postId_key" ON "opinion_group_posts"("groupId", "postId");
+
+-- AddForeignKey
+ALTER TABLE "opinion_maps" ADD CONSTRAINT "opinion_maps_subCategoryId_fkey" FOREIGN KEY ("subCategoryId") REFERENCES "categories"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "opinion_groups" ADD CONSTRAINT "opinion_groups_mapId_fkey" FOREIGN KEY ("mapId") REFERENCES "opinion_maps"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "opinion_group_members" ADD CONSTRAINT "opinion_group_members_groupId_fkey" FOREIGN KEY ("groupId") REFERENCES "opinion_groups"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "opinion_group_members" ADD CONSTRAINT "opinion_group_members_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "opinion_group_posts" ADD CONSTRAINT "opinion_group_posts_groupId_fkey" FOREIGN KEY ("groupId") REFERENCES "opinion_groups"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "opinion_group_posts" ADD CONSTRAINT "opinion_group_posts_postId_fkey" FOREIGN KEY ("postId") REFERENCES "posts"("id") ON DELETE CASCADE ON UPDATE CASCADE;
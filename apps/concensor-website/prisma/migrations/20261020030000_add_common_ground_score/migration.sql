@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "posts" ADD COLUMN     "commonGroundScore" DOUBLE PRECISION;
+
+-- CreateIndex
+CREATE INDEX "posts_commonGroundScore_idx" ON "posts"("commonGroundScore");
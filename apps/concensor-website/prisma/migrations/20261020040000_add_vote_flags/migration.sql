@@ -0,0 +1,53 @@
+-- AlterTable
+ALTER TABLE "users" ADD COLUMN "signupIp" TEXT;
+
+-- AlterTable
+ALTER TABLE "votes" ADD COLUMN "excluded" BOOLEAN NOT NULL DEFAULT false;
+
+-- CreateTable
+CREATE TABLE "vote_flags" (
+    "id" TEXT NOT NULL,
+    "voteId" TEXT NOT NULL,
+    "postId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "signals" TEXT[],
+    "score" INTEGER NOT NULL,
+    "details" JSONB NOT NULL DEFAULT '{}',
+    "status" TEXT NOT NULL DEFAULT 'open',
+    "reviewedById" TEXT,
+    "reviewedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "vote_flags_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "users_signupIp_idx" ON "users"("signupIp");
+
+-- CreateIndex
+CREATE INDEX "sessions_ipAddress_idx" ON "sessions"("ipAddress");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "vote_flags_voteId_key" ON "vote_flags"("voteId");
+
+-- CreateIndex
+CREATE INDEX "vote_flags_status_createdAt_idx" ON "vote_flags"("status", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "vote_flags_postId_idx" ON "vote_flags"("postId");
+
+-- CreateIndex
+CREATE INDEX "vote_flags_userId_idx" ON "vote_flags"("userId");
+
+-- AddForeignKey
+ALTER TABLE "vote_flags" ADD CONSTRAINT "vote_flags_voteId_fkey" FOREIGN KEY ("voteId") REFERENCES "votes"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "vote_flags" ADD CONSTRAINT "vote_flags_postId_fkey" FOREIGN KEY ("postId") REFERENCES "posts"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "vote_flags" ADD CONSTRAINT "vote_flags_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "vote_flags" ADD CONSTRAINT "vote_flags_reviewedById_fkey" FOREIGN KEY ("reviewedById") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
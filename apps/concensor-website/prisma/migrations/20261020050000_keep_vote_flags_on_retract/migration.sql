@@ -0,0 +1,8 @@
+-- DropForeignKey
+ALTER TABLE "vote_flags" DROP CONSTRAINT "vote_flags_voteId_fkey";
+
+-- AlterTable
+ALTER TABLE "vote_flags" ALTER COLUMN "voteId" DROP NOT NULL;
+
+-- AddForeignKey
+ALTER TABLE "vote_flags" ADD CONSTRAINT "vote_flags_voteId_fkey" FOREIGN KEY ("voteId") REFERENCES "votes"("id") ON DELETE SET NULL ON UPDATE CASCADE;
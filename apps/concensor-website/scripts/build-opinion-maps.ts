@@ -0,0 +1,30 @@
+import 'dotenv/config';
+import { db } from '@/lib/db';
+import { buildAllOpinionMaps } from '@/lib/opinionMaps';
+
+/**
+ * Build Opinion Maps
+ * 
+ * Groups the voters of every sub category by how they vote (PCA + k-means)
+ * and stores the groups for the opinion map pages.
+ * Run it on a schedule (e.g. nightly from cron):
+ * 
+ *   npm run opinions:cluster
+ */
+
+async function main() {
+  console.log('🗺️  Building opinion maps...');
+  const counts = await buildAllOpinionMaps(db);
+  console.log(
+    `✅ Built ${counts.built}, skipped (not enough votes) ${counts.skipped}, failed ${counts.failed}`
+  );
+}
+
+main()
+  .catch((error) => {
+    console.error('❌ Error building opinion maps:', error);
+    process.exit(1);
+  })
+  .finally(async () => {
+    await db.$disconnect();
+  });
@@ -0,0 +1,32 @@
+import 'dotenv/config';
+import { db } from '@/lib/db';
+import { detectCoordinatedVoting } from '@/lib/sybilDetection';
+
+/**
+ * Detect Coordinated Voting
+ * 
+ * Scores recent voters on signs of throwaway or coordinated accounts (vote
+ * bursts from fresh accounts, identical votes, shared IPs, unverified
+ * emails) and puts the votes of suspicious accounts in the admin review
+ * queue (/api/admin/vote-flags). Nothing is excluded until an admin decides.
+ * Run it on a schedule (e.g. hourly from cron):
+ * 
+ *   npm run votes:detect
+ */
+
+async function main() {
+  console.log('🕵️  Checking recent votes for coordinated voting...');
+  const result = await detectCoordinatedVoting(db);
+  console.log(
+    `✅ Checked ${result.voters} voters, flagged ${result.flaggedAccounts} accounts (${result.newFlags} new vote flags)`
+  );
+}
+
+main()
+  .catch((error) => {
+    console.error('❌ Error detecting coordinated voting:', error);
+    process.exit(1);
+  })
+  .finally(async () => {
+    await db.$disconnect();
+  });
@@ -0,0 +1,52 @@
+import 'dotenv/config';
+import { db } from '@/lib/db';
+import { grantRole } from '@/lib/roles';
+
+/**
+ * Grant Admin Role
+ * 
+ * Makes an existing user a site admin. Used to create the first admin;
+ * after that, admins manage roles through /api/admin/roles.
+ * The change is recorded in the role audit log without an actor.
+ * 
+ *   npm run roles:grant-admin -- <username or email>
+ */
+
+async function main() {
+  const identifier = process.argv[2]?.trim();
+  if (!identifier) {
+    console.error('Usage: npm run roles:grant-admin -- <username or email>');
+    process.exit(1);
+  }
+
+  const user = await db.user.findFirst({
+    where: { OR: [{ username: identifier }, { email: identifier.toLowerCase() }] },
+    select: { id: true, username: true, email: true },
+  });
+  if (!user) {
+    console.error(`❌ No user found for "${identifier}"`);
+    process.exit(1);
+  }
+
+  const granted = await grantRole(db, {
+    targetUserId: user.id,
+    role: 'admin',
+    actorId: null,
+    reason: 'Granted from the command line',
+  });
+
+  console.log(
+    granted
+      ? `✅ ${user.username || user.email} is now an admin`
+      : `ℹ️  ${user.username || user.email} is already an admin`
+  );
+}
+
+main()
+  .catch((error) => {
+    console.error('❌ Error granting admin role:', error);
+    process.exit(1);
+  })
+  .finally(async () => {
+    await db.$disconnect();
+  });
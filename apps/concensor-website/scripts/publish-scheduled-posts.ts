@@ -0,0 +1,30 @@
+import 'dotenv/config';
+import { db } from '@/lib/db';
+import { publishScheduledPosts } from '@/lib/drafts';
+
+/**
+ * Publish Scheduled Posts
+ * 
+ * Publishes drafts whose publishAt time has passed.
+ * Run it on a schedule (e.g. every minute from cron):
+ * 
+ *   npm run posts:publish-scheduled
+ */
+
+async function main() {
+  console.log('🕒 Publishing scheduled posts...');
+  const counts = await publishScheduledPosts(db);
+  console.log(
+    `✅ Published ${counts.published}, held for review ${counts.pending}, ` +
+    `rejected by automod ${counts.rejected}, waiting on a suspension ${counts.restricted}`
+  );
+}
+
+main()
+  .catch((error) => {
+    console.error('❌ Error publishing scheduled posts:', error);
+    process.exit(1);
+  })
+  .finally(async () => {
+    await db.$disconnect();
+  });
@@ -0,0 +1,27 @@
+import 'dotenv/config';
+import { db } from '@/lib/db';
+import { purgeDueAccounts } from '@/lib/accountDeletion';
+
+/**
+ * Purge Deleted Accounts
+ * 
+ * Permanently deletes accounts whose deletion grace period is over.
+ * Run it on a schedule (e.g. daily cron job):
+ * 
+ *   npm run accounts:purge
+ */
+
+async function main() {
+  console.log('🗑️  Purging accounts past their deletion date...');
+  const purged = await purgeDueAccounts(db);
+  console.log(`✅ Purged ${purged} account(s)`);
+}
+
+main()
+  .catch((error) => {
+    console.error('❌ Error purging accounts:', error);
+    process.exit(1);
+  })
+  .finally(async () => {
+    await db.$disconnect();
+  });
@@ -0,0 +1,76 @@
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { api } from '@/lib/api';
+import './PasswordResetForm.css';
+
+const ForgotPasswordForm = () => {
+  const [email, setEmail] = useState('');
+  const [error, setError] = useState('');
+  const [message, setMessage] = useState('');
+  const [loading, setLoading] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+    setMessage('');
+    setLoading(true);
+
+    try {
+      const response = await api.forgotPassword(email);
+      setMessage(response.message || 'If an account exists with this email, a password reset link has been sent.');
+    } catch (err: any) {
+      setError(err.message || 'Failed to send reset link. Please try again.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="password-reset-form-container">
+      <h1 className="password-reset-title">Forgot Password</h1>
+      <form className="password-reset-form" onSubmit={handleSubmit}>
+        <p className="password-reset-description">
+          Enter the email you signed up with and we&apos;ll send you a link to reset your password.
+        </p>
+
+        <div className="form-group">
+          <label htmlFor="email" className="form-label">
+            Email <span className="required-asterisk">*</span>
+          </label>
+          <input
+            type="email"
+            id="email"
+            className="form-input"
+            value={email}
+            onChange={(e) => setEmail(e.target.value)}
+            required
+          />
+        </div>
+
+        {error && <div className="form-error">{error}</div>}
+        {message && <div className="form-success">{message}</div>}
+
+        <button type="submit" className="password-reset-button" disabled={loading}>
+          {loading ? (
+            <>
+              <span className="spinner"></span>
+              Sending...
+            </>
+          ) : (
+            'Send Reset Link'
+          )}
+        </button>
+
+        <div className="form-links">
+          <Link href="/login" className="form-link">
+            Back to Login
+          </Link>
+        </div>
+      </form>
+    </div>
+  );
+};
+
+export default ForgotPasswordForm;
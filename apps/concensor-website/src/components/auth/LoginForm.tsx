@@ -7,24 +7,43 @@ import { useAuth } from '@/contexts/AuthContext';
 import './LoginForm.css';
 
 const LoginForm = () => {
-  const { login } = useAuth(); // Use auth context instead of direct API call
+  const { login, completeTwoFactorLogin } = useAuth(); // Use auth context instead of direct API call
   const searchParams = useSearchParams();
   const [email, setEmail] = useState('');
   const [password, setPassword] = useState('');
   const [error, setError] = useState('');
+  const [notice, setNotice] = useState('');
   const [loading, setLoading] = useState(false);
   const [emailError, setEmailError] = useState('');
   const [emailTouched, setEmailTouched] = useState(false);
+  // Two-factor step (set when the password was correct and the account has 2FA)
+  const [challengeToken, setChallengeToken] = useState<string | null>(null);
+  const [twoFactorCode, setTwoFactorCode] = useState('');
 
   // Check for error messages from URL (e.g., from Google OAuth callback)
   useEffect(() => {
     const errorParam = searchParams.get('error');
     if (errorParam === 'email_exists_use_password') {
-      setError('This email is already registered. Please login with your password, then you can link your Google account in your profile settings.');
+      setError('This email is already registered. Please login with your password, then connect your Google account in Setting → Connected accounts.');
+    } else if (errorParam === 'google_account_mismatch') {
+      setError('A different Google account is connected to this account. Please sign in with that Google account or your password.');
     } else if (errorParam === 'google_denied') {
       setError('Google login was cancelled.');
     } else if (errorParam === 'oauth_failed') {
       setError('Google login failed. Please try again.');
+    } else if (errorParam === 'invalid_email_change_token') {
+      setError('This email change link is invalid or has expired. Please request the change again.');
+    } else if (errorParam === 'email_change_taken') {
+      setError('That email address is now used by another account. Your email was not changed.');
+    } else if (errorParam === 'email_change_failed') {
+      setError('Changing your email failed. Please try again.');
+    } else if (errorParam === 'account_banned') {
+      setError('This account has been banned.');
+    }
+
+    // Success messages (e.g., from the email change confirmation link)
+    if (searchParams.get('message') === 'email_changed') {
+      setNotice('Your email address has been changed. Please log in with your new email.');
     }
   }, [searchParams]);
 
@@ -35,8 +54,11 @@ const LoginForm = () => {
 
     try {
       // Use auth context login (handles redirect automatically)
-      await login(email, password);
-      // Redirect happens in AuthContext
+      const result = await login(email, password);
+      // Redirect happens in AuthContext, unless a 2FA code is needed first
+      if (result.requiresTwoFactor && result.challengeToken) {
+        setChallengeToken(result.challengeToken);
+      }
     } catch (err: any) {
       setError(err.message || 'Login failed. Please check your credentials.');
     } finally {
@@ -44,6 +66,30 @@ const LoginForm = () => {
     }
   };
 
+  const handleTwoFactorSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!challengeToken) return;
+    setError('');
+    setLoading(true);
+
+    try {
+      await completeTwoFactorLogin(challengeToken, twoFactorCode);
+      // Redirect happens in AuthContext
+    } catch (err: any) {
+      setError(err.message || 'Verification failed. Please try again.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Go back to the password step (e.g. challenge expired)
+  const handleTwoFactorCancel = () => {
+    setChallengeToken(null);
+    setTwoFactorCode('');
+    setPassword('');
+    setError('');
+  };
+
   const handleGoogleLogin = () => {
     // Redirect to Google OAuth initiation endpoint
     // This will redirect user to Google's login page
@@ -74,6 +120,55 @@ const LoginForm = () => {
     }
   };
 
+  if (challengeToken) {
+    return (
+      <div className="login-form-container">
+        <h1 className="login-title">Two-Factor Authentication</h1>
+        <form className="login-form" onSubmit={handleTwoFactorSubmit}>
+          <div className="form-group">
+            <label htmlFor="twoFactorCode" className="form-label">
+              Verification Code <span className="required-asterisk">*</span>
+            </label>
+            <input
+              type="text"
+              id="twoFactorCode"
+              className="form-input"
+              value={twoFactorCode}
+              onChange={(e) => setTwoFactorCode(e.target.value)}
+              autoComplete="one-time-code"
+              autoFocus
+              required
+            />
+            <div className="field-error-container">
+              <p className="form-hint">
+                Enter the 6-digit code from your authenticator app, or one of your recovery codes.
+              </p>
+            </div>
+          </div>
+
+          {error && <div className="form-error">{error}</div>}
+
+          <button type="submit" className="sign-in-button" disabled={loading}>
+            {loading ? (
+              <>
+                <span className="spinner"></span>
+                Verifying...
+              </>
+            ) : (
+              'Verify'
+            )}
+          </button>
+
+          <div className="form-links">
+            <button type="button" className="form-link form-link-button" onClick={handleTwoFactorCancel}>
+              Back to login
+            </button>
+          </div>
+        </form>
+      </div>
+    );
+  }
+
   return (
     <div className="login-form-container">
       <h1 className="login-title">Login</h1>
@@ -113,6 +208,7 @@ const LoginForm = () => {
           </div>
         </div>
 
+        {notice && <div className="form-success">{notice}</div>}
         {error && <div className="form-error">{error}</div>}
 
         <button type="submit" className="sign-in-button" disabled={loading}>
@@ -0,0 +1,133 @@
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { useSearchParams } from 'next/navigation';
+import { api } from '@/lib/api';
+import './PasswordResetForm.css';
+
+const ResetPasswordForm = () => {
+  const searchParams = useSearchParams();
+  const token = searchParams.get('token') || '';
+  const [password, setPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [error, setError] = useState('');
+  const [success, setSuccess] = useState(false);
+  const [loading, setLoading] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+
+    if (password !== confirmPassword) {
+      setError('Passwords do not match');
+      return;
+    }
+
+    setLoading(true);
+
+    try {
+      await api.resetPassword(token, password);
+      setSuccess(true);
+    } catch (err: any) {
+      setError(err.message || 'Failed to reset password. Please try again.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // No token in URL - link is broken or was copied incorrectly
+  if (!token) {
+    return (
+      <div className="password-reset-form-container">
+        <h1 className="password-reset-title">Reset Password</h1>
+        <div className="password-reset-form">
+          <div className="form-error">This reset link is invalid or has expired.</div>
+          <div className="form-links">
+            <Link href="/forgot-password" className="form-link">
+              Request a new reset link
+            </Link>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  if (success) {
+    return (
+      <div className="password-reset-form-container">
+        <h1 className="password-reset-title">Reset Password</h1>
+        <div className="password-reset-form">
+          <div className="form-success">
+            Your password has been reset. You have been logged out on all devices.
+          </div>
+          <div className="form-links">
+            <Link href="/login" className="form-link">
+              Go to Login
+            </Link>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="password-reset-form-container">
+      <h1 className="password-reset-title">Reset Password</h1>
+      <form className="password-reset-form" onSubmit={handleSubmit}>
+        <p className="password-reset-description">
+          Password must be at least 12 characters and include an uppercase letter and a symbol.
+        </p>
+
+        <div className="form-group">
+          <label htmlFor="password" className="form-label">
+            New Password <span className="required-asterisk">*</span>
+          </label>
+          <input
+            type="password"
+            id="password"
+            className="form-input"
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            required
+          />
+        </div>
+
+        <div className="form-group">
+          <label htmlFor="confirmPassword" className="form-label">
+            Confirm Password <span className="required-asterisk">*</span>
+          </label>
+          <input
+            type="password"
+            id="confirmPassword"
+            className="form-input"
+            value={confirmPassword}
+            onChange={(e) => setConfirmPassword(e.target.value)}
+            required
+          />
+        </div>
+
+        {error && <div className="form-error">{error}</div>}
+
+        <button type="submit" className="password-reset-button" disabled={loading}>
+          {loading ? (
+            <>
+              <span className="spinner"></span>
+              Resetting...
+            </>
+          ) : (
+            'Reset Password'
+          )}
+        </button>
+
+        <div className="form-links">
+          <Link href="/login" className="form-link">
+            Back to Login
+          </Link>
+        </div>
+      </form>
+    </div>
+  );
+};
+
+export default ResetPasswordForm;
@@ -9,11 +9,17 @@
  * - Nested replies with B1, B1-1, B1-2 numbering
  * - Sentiment indicators from user votes
  * - Reply functionality
+ * - Editing own comments ("edited" marker once changed)
+ * - Deleting own comments (moderators and admins can delete any comment)
+ * - Deleted comments with replies stay as "[deleted]" placeholders, so the
+ *   numbering of the other comments doesn't change
  */
 
 import { useState, useEffect } from 'react';
 import { useAuth } from '@/contexts/AuthContext';
 import { api } from '@/lib/api';
+import { getAvatarUrl } from '@/lib/avatarUrl';
+import ReportButton from '@/components/common/ReportButton';
 import { Comment } from '@/types';
 import './CommentSection.css';
 
@@ -21,10 +27,11 @@ interface CommentSectionProps {
   postId: string;
   userVote: { voteType: string } | null;
   isAuthor: boolean;
+  canModerate?: boolean; // Moderator of the post's category or admin
   onCommentAdded?: () => void;
 }
 
-export default function CommentSection({ postId, userVote, isAuthor, onCommentAdded }: CommentSectionProps) {
+export default function CommentSection({ postId, userVote, isAuthor, canModerate = false, onCommentAdded }: CommentSectionProps) {
   const { isAuthenticated, user } = useAuth();
   const [comments, setComments] = useState<Comment[]>([]);
   const [loading, setLoading] = useState(true);
@@ -32,6 +39,7 @@ export default function CommentSection({ postId, userVote, isAuthor, onCommentAd
   const [submitting, setSubmitting] = useState(false);
   const [replyingTo, setReplyingTo] = useState<{ id: string; number: string; username: string } | null>(null);
   const [replyContent, setReplyContent] = useState<{ [key: string]: string }>({});
+  const [editing, setEditing] = useState<{ id: string; content: string } | null>(null);
 
   // Fetch comments
   useEffect(() => {
@@ -41,8 +49,7 @@ export default function CommentSection({ postId, userVote, isAuthor, onCommentAd
       try {
         setLoading(true);
         const response = await api.getComments(postId);
-        const commentsWithNumbers = assignCommentNumbers(response.comments || []);
-        setComments(commentsWithNumbers);
+        setComments(prepareComments(response.comments || []));
       } catch (error: any) {
         console.error('Error fetching comments:', error);
       } finally {
@@ -128,6 +135,27 @@ export default function CommentSection({ postId, userVote, isAuthor, onCommentAd
     });
   };
 
+  /**
+   * Drop deleted comments that have no replies left to show
+   * Runs after numbering, so every comment keeps the number it had
+   * before anything was deleted.
+   */
+  const pruneDeletedComments = (comments: Comment[]): Comment[] => {
+    return comments
+      .map((comment) => ({
+        ...comment,
+        replies: comment.replies ? pruneDeletedComments(comment.replies) : undefined,
+      }))
+      .filter((comment) => comment.status === 'published' || (comment.replies?.length ?? 0) > 0);
+  };
+
+  /**
+   * Number the comments from the API and hide deleted ones without replies
+   */
+  const prepareComments = (comments: Comment[]): Comment[] => {
+    return pruneDeletedComments(assignCommentNumbers(comments));
+  };
+
   /**
    * Get sentiment label from vote type
    */
@@ -175,11 +203,13 @@ export default function CommentSection({ postId, userVote, isAuthor, onCommentAd
       const response = await api.createComment(postId, {
         content: commentContent.trim(),
       });
+      if (response.held) {
+        alert(response.message);
+      }
 
       // Refresh comments
       const commentsResponse = await api.getComments(postId);
-      const commentsWithNumbers = assignCommentNumbers(commentsResponse.comments || []);
-      setComments(commentsWithNumbers);
+      setComments(prepareComments(commentsResponse.comments || []));
       setCommentContent('');
       
       // Notify parent component to refresh post data
@@ -202,15 +232,17 @@ export default function CommentSection({ postId, userVote, isAuthor, onCommentAd
 
     try {
       setSubmitting(true);
-      await api.createComment(postId, {
+      const response = await api.createComment(postId, {
         content: content.trim(),
         parentId,
       });
+      if (response.held) {
+        alert(response.message);
+      }
 
       // Refresh comments
       const commentsResponse = await api.getComments(postId);
-      const commentsWithNumbers = assignCommentNumbers(commentsResponse.comments || []);
-      setComments(commentsWithNumbers);
+      setComments(prepareComments(commentsResponse.comments || []));
       setReplyContent({ ...replyContent, [parentId]: '' });
       setReplyingTo(null);
       
@@ -225,6 +257,49 @@ export default function CommentSection({ postId, userVote, isAuthor, onCommentAd
     }
   };
 
+  /**
+   * Handle comment deletion
+   */
+  const handleDeleteComment = async (commentId: string) => {
+    if (!window.confirm('Are you sure you want to delete this comment?')) return;
+
+    try {
+      await api.deleteComment(postId, commentId);
+
+      // Refresh comments
+      const commentsResponse = await api.getComments(postId);
+      setComments(prepareComments(commentsResponse.comments || []));
+
+      // Notify parent component to refresh post data (comment count)
+      if (onCommentAdded) {
+        onCommentAdded();
+      }
+    } catch (error: any) {
+      alert(error.message || 'Failed to delete comment');
+    }
+  };
+
+  /**
+   * Handle comment edit (saves the text being edited)
+   */
+  const handleSubmitEdit = async () => {
+    if (!editing || !editing.content.trim() || submitting) return;
+
+    try {
+      setSubmitting(true);
+      await api.updateComment(postId, editing.id, { content: editing.content.trim() });
+
+      // Refresh comments
+      const commentsResponse = await api.getComments(postId);
+      setComments(prepareComments(commentsResponse.comments || []));
+      setEditing(null);
+    } catch (error: any) {
+      alert(error.message || 'Failed to edit comment');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
   /**
    * Handle reply button click
    */
@@ -284,7 +359,7 @@ export default function CommentSection({ postId, userVote, isAuthor, onCommentAd
             <div className="comment-author-avatar">
               {user?.profilePicture ? (
                 <img
-                  src={user.profilePicture}
+                  src={getAvatarUrl(user.profilePicture, 'small')!}
                   alt={user.username || 'You'}
                   className="comment-avatar-image"
                 />
@@ -332,6 +407,11 @@ export default function CommentSection({ postId, userVote, isAuthor, onCommentAd
               onReplyClick={handleReplyClick}
               onCancelReply={handleCancelReply}
               onSubmitReply={handleSubmitReply}
+              onDelete={handleDeleteComment}
+              editing={editing}
+              onEditChange={setEditing}
+              onSubmitEdit={handleSubmitEdit}
+              canModerate={canModerate}
               onReplyContentChange={(parentId, content) =>
                 setReplyContent({ ...replyContent, [parentId]: content })
               }
@@ -360,6 +440,10 @@ interface CommentItemProps {
   onReplyClick: (comment: Comment) => void;
   onCancelReply: () => void;
   onSubmitReply: (parentId: string) => void;
+  onDelete: (commentId: string) => void;
+  editing: { id: string; content: string } | null;
+  onEditChange: (editing: { id: string; content: string } | null) => void;
+  onSubmitEdit: () => void;
   onReplyContentChange: (parentId: string, content: string) => void;
   getSentimentLabel: (voteType: string | null) => string;
   getSentimentColor: (voteType: string | null) => string;
@@ -367,6 +451,7 @@ interface CommentItemProps {
   isAuthenticated: boolean;
   currentUser: any;
   canComment: boolean;
+  canModerate: boolean;
   submitting: boolean;
   depth?: number;
 }
@@ -378,6 +463,10 @@ function CommentItem({
   onReplyClick,
   onCancelReply,
   onSubmitReply,
+  onDelete,
+  editing,
+  onEditChange,
+  onSubmitEdit,
   onReplyContentChange,
   getSentimentLabel,
   getSentimentColor,
@@ -385,6 +474,7 @@ function CommentItem({
   isAuthenticated,
   currentUser,
   canComment,
+  canModerate,
   submitting,
   depth = 0,
 }: CommentItemProps) {
@@ -393,72 +483,140 @@ function CommentItem({
   const sentimentLabel = getSentimentLabel(sentiment);
   const sentimentColor = getSentimentColor(sentiment);
   const replyCount = comment._count?.replies || comment.replies?.length || 0;
+  const isPlaceholder = comment.status !== 'published'; // Deleted, but has replies
+  const isEditing = editing?.id === comment.id;
+  const canEdit = isAuthenticated && !!comment.userId && comment.userId === currentUser?.id;
+  const canDelete = !isPlaceholder && isAuthenticated && (comment.userId === currentUser?.id || canModerate);
+  const canReport = isAuthenticated && !!comment.userId && comment.userId !== currentUser?.id;
 
   return (
     <div className={`comment-item ${depth > 0 ? 'comment-reply' : ''}`}>
-      <div className="comment-content">
-        <div className="comment-header">
-          <div className="comment-author-info">
-            <div className="comment-author-avatar">
-              {comment.user.profilePicture ? (
-                <img
-                  src={comment.user.profilePicture}
-                  alt={comment.user.username || 'User'}
-                  className="comment-avatar-image"
-                />
-              ) : (
-                <span className="comment-avatar-initial">
-                  {comment.user.username?.charAt(0).toUpperCase() || 'U'}
-                </span>
-              )}
-            </div>
-            <div className="comment-meta">
-              <div className="comment-author-row">
-                <span className="comment-author-name">{comment.user.username || 'Anonymous'}</span>
-                {comment.user.equippedBadge && (
-                  <span
-                    className={`user-badge badge-level-${comment.user.equippedBadge.badgeLevel}`}
-                  >
-                    {comment.user.equippedBadge.label}
+      {isPlaceholder ? (
+        <div className="comment-content comment-placeholder">
+          {comment.commentNumber && (
+            <div className="comment-number">{comment.commentNumber}</div>
+          )}
+          <div className="comment-text comment-placeholder-text">
+            {comment.status === 'removed' ? '[removed by a moderator]' : '[deleted]'}
+          </div>
+        </div>
+      ) : (
+        <div className="comment-content">
+          <div className="comment-header">
+            <div className="comment-author-info">
+              <div className="comment-author-avatar">
+                {comment.user.profilePicture ? (
+                  <img
+                    src={getAvatarUrl(comment.user.profilePicture, 'small')!}
+                    alt={comment.user.username || 'User'}
+                    className="comment-avatar-image"
+                  />
+                ) : (
+                  <span className="comment-avatar-initial">
+                    {comment.user.username?.charAt(0).toUpperCase() || 'U'}
                   </span>
                 )}
-                {sentimentLabel && (
-                  <span className={`comment-sentiment ${sentimentColor}`}>
-                    ({sentimentLabel})
-                  </span>
+              </div>
+              <div className="comment-meta">
+                <div className="comment-author-row">
+                  <span className="comment-author-name">{comment.user.username || 'Anonymous'}</span>
+                  {comment.user.equippedBadge && (
+                    <span
+                      className={`user-badge badge-level-${comment.user.equippedBadge.badgeLevel}`}
+                    >
+                      {comment.user.equippedBadge.label}
+                    </span>
+                  )}
+                  {sentimentLabel && (
+                    <span className={`comment-sentiment ${sentimentColor}`}>
+                      ({sentimentLabel})
+                    </span>
+                  )}
+                </div>
+                {comment.commentNumber && (
+                  <div className="comment-number">{comment.commentNumber}</div>
                 )}
               </div>
-              {comment.commentNumber && (
-                <div className="comment-number">{comment.commentNumber}</div>
-              )}
             </div>
+            <button className="comment-like-button" aria-label="Like comment">
+              ♡
+            </button>
           </div>
-          <button className="comment-like-button" aria-label="Like comment">
-            ♡
-          </button>
-        </div>
 
-        {comment.replyToNumber && (
-          <div className="comment-reply-to">
-            Replying to {comment.replyToNumber}
-          </div>
-        )}
+          {comment.replyToNumber && (
+            <div className="comment-reply-to">
+              Replying to {comment.replyToNumber}
+            </div>
+          )}
 
-        <div className="comment-text">{comment.content}</div>
-
-        <div className="comment-footer">
-          <button
-            className="comment-reply-button"
-            onClick={() => onReplyClick(comment)}
-            disabled={!canComment}
-          >
-            <span className="reply-icon">↩</span>
-            {replyCount > 0 && <span>Comments ({replyCount})</span>}
-            {replyCount === 0 && <span>Reply</span>}
-          </button>
-          <span className="comment-date">{formatDate(comment.createdAt)}</span>
+          {isEditing ? (
+            <div className="comment-edit">
+              <textarea
+                className="comment-input"
+                value={editing.content}
+                onChange={(e) => onEditChange({ id: comment.id, content: e.target.value })}
+                disabled={submitting}
+                rows={3}
+              />
+              <div className="comment-reply-actions">
+                <button
+                  className="comment-cancel-button"
+                  onClick={() => onEditChange(null)}
+                  disabled={submitting}
+                >
+                  Cancel
+                </button>
+                <button
+                  className="comment-send-button"
+                  onClick={onSubmitEdit}
+                  disabled={!editing.content.trim() || submitting}
+                >
+                  {submitting ? 'Saving...' : 'Save'}
+                </button>
+              </div>
+            </div>
+          ) : (
+            <div className="comment-text">{comment.content}</div>
+          )}
+
+          <div className="comment-footer">
+            <button
+              className="comment-reply-button"
+              onClick={() => onReplyClick(comment)}
+              disabled={!canComment}
+            >
+              <span className="reply-icon">↩</span>
+              {replyCount > 0 && <span>Comments ({replyCount})</span>}
+              {replyCount === 0 && <span>Reply</span>}
+            </button>
+            <div className="comment-footer-right">
+              {canReport && <ReportButton targetType="comment" targetId={comment.id} />}
+              {canEdit && !isEditing && (
+                <button
+                  className="comment-edit-button"
+                  onClick={() => onEditChange({ id: comment.id, content: comment.content })}
+                >
+                  Edit
+                </button>
+              )}
+              {canDelete && (
+                <button
+                  className="comment-delete-button"
+                  onClick={() => onDelete(comment.id)}
+                >
+                  Delete
+                </button>
+              )}
+              <span className="comment-date">{formatDate(comment.createdAt)}</span>
+              {comment.editedAt && (
+                <span className="comment-edited" title={`Edited ${formatDate(comment.editedAt)}`}>
+                  (edited)
+                </span>
+              )}
+            </div>
+          </div>
         </div>
-      </div>
+      )}
 
       {/* Reply Input */}
       {isReplying && isAuthenticated && (
@@ -467,7 +625,7 @@ function CommentItem({
             <div className="comment-author-avatar">
               {currentUser?.profilePicture ? (
                 <img
-                  src={currentUser.profilePicture}
+                  src={getAvatarUrl(currentUser.profilePicture, 'small')!}
                   alt={currentUser.username || 'You'}
                   className="comment-avatar-image"
                 />
@@ -524,6 +682,10 @@ function CommentItem({
                 onReplyClick={onReplyClick}
                 onCancelReply={onCancelReply}
                 onSubmitReply={onSubmitReply}
+                onDelete={onDelete}
+                editing={editing}
+                onEditChange={onEditChange}
+                onSubmitEdit={onSubmitEdit}
                 onReplyContentChange={onReplyContentChange}
                 getSentimentLabel={getSentimentLabel}
                 getSentimentColor={getSentimentColor}
@@ -531,6 +693,7 @@ function CommentItem({
                 isAuthenticated={isAuthenticated}
                 currentUser={currentUser}
                 canComment={canComment}
+                canModerate={canModerate}
                 submitting={submitting}
                 depth={depth + 1}
               />
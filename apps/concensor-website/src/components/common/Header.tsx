@@ -6,6 +6,7 @@ import { usePathname } from 'next/navigation';
 import Logo from '../../assets/Logo.svg';
 import { useAuth } from '@/contexts/AuthContext';
 import { useSidebar } from '@/contexts/SidebarContext';
+import { getAvatarUrl } from '@/lib/avatarUrl';
 import './Header.css';
 
 const Header = () => {
@@ -16,7 +17,7 @@ const Header = () => {
   const dropdownRef = useRef<HTMLDivElement>(null);
   
   // Get sidebar context (available on pages with sidebar)
-  const pagesWithSidebar = ['/', '/all', '/popular', '/category', '/posts', '/profile', '/badges', '/ideology', '/dashboard', '/setting'];
+  const pagesWithSidebar = ['/', '/all', '/popular', '/common-ground', '/category', '/posts', '/profile', '/badges', '/ideology', '/dashboard', '/setting'];
   const hasSidebar = pagesWithSidebar.some(route => pathname === route || pathname?.startsWith(route));
   let sidebarContext = null;
   if (hasSidebar) {
@@ -205,7 +206,7 @@ const Header = () => {
                   {/* Show user profile picture if available, otherwise show initial */}
                   {user?.profilePicture ? (
                     <img 
-                      src={user.profilePicture} 
+                      src={getAvatarUrl(user.profilePicture, 'small')!}
                       alt={`${user.username}'s profile`}
                       className="profile-picture-img"
                     />
@@ -4,7 +4,7 @@
  * ProfileSidebar Component
  * 
  * Sidebar for profile-related pages.
- * Navigation items:
+ * Shows the current user's picture and name above the navigation items:
  * - Profile
  * - Ideology
  * - Dashboard
@@ -13,12 +13,15 @@
 
 import { useRouter, usePathname } from 'next/navigation';
 import { useSidebar } from '@/contexts/SidebarContext';
+import { useAuth } from '@/contexts/AuthContext';
+import { getAvatarUrl } from '@/lib/avatarUrl';
 import './Sidebar.css'; // Reuse the same CSS
 
 export default function ProfileSidebar() {
   const router = useRouter();
   const pathname = usePathname();
   const { sidebarOpen, setSidebarOpen, isMobile, isResizing } = useSidebar();
+  const { user } = useAuth();
 
   const isActive = (path: string) => {
     return pathname === path || pathname?.startsWith(path);
@@ -44,6 +47,23 @@ export default function ProfileSidebar() {
       )}
 
       <nav className={sidebarClass}>
+        {user && (
+          <div className="sidebar-profile">
+            {user.profilePicture ? (
+              <img
+                src={getAvatarUrl(user.profilePicture, 'medium')!}
+                alt={`${user.username}'s profile`}
+                className="sidebar-profile-picture"
+              />
+            ) : (
+              <div className="sidebar-profile-picture sidebar-profile-placeholder">
+                {user.username?.charAt(0).toUpperCase() || 'U'}
+              </div>
+            )}
+            <span className="sidebar-profile-name">{user.username}</span>
+          </div>
+        )}
+
         <div className="sidebar-nav">
           {/* Profile */}
           <button
@@ -61,6 +81,14 @@ export default function ProfileSidebar() {
             Badges
           </button>
 
+          {/* Drafts */}
+          <button
+            className={`sidebar-link ${isActive('/drafts') ? 'active' : ''}`}
+            onClick={() => handleNavigation('/drafts')}
+          >
+            Drafts
+          </button>
+
           {/* Saved */}
           <button
             className={`sidebar-link ${isActive('/saved') ? 'active' : ''}`}
@@ -0,0 +1,165 @@
+'use client';
+
+/**
+ * ReportButton Component
+ * 
+ * Button that opens a dialog to report a post, comment or user to the
+ * moderators (POST /api/reports).
+ * 
+ * Variants:
+ * - icon: Flag icon (post action bar)
+ * - text: "Report" text button (comments)
+ */
+
+import { useState } from 'react';
+import { api } from '@/lib/api';
+import './ReportButton.css';
+
+// Reason codes accepted by POST /api/reports (see REPORT_REASONS in src/lib/moderation.ts)
+const REPORT_REASON_LABELS: Record<string, string> = {
+  spam: 'Spam',
+  harassment: 'Harassment or bullying',
+  hate_speech: 'Hate speech',
+  misinformation: 'Misinformation',
+  off_topic: 'Off-topic',
+  illegal: 'Illegal content',
+  other: 'Something else',
+};
+
+interface ReportButtonProps {
+  targetType: 'post' | 'comment' | 'user';
+  targetId: string;
+  variant?: 'icon' | 'text';
+  className?: string;
+}
+
+export default function ReportButton({
+  targetType,
+  targetId,
+  variant = 'text',
+  className,
+}: ReportButtonProps) {
+  const [open, setOpen] = useState(false);
+  const [reason, setReason] = useState('');
+  const [details, setDetails] = useState('');
+  const [error, setError] = useState('');
+  const [message, setMessage] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+
+  const handleClose = () => {
+    setOpen(false);
+    setReason('');
+    setDetails('');
+    setError('');
+    setMessage('');
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+
+    if (!reason) {
+      setError('Please choose a reason');
+      return;
+    }
+
+    try {
+      setSubmitting(true);
+      const response = await api.reportContent({
+        targetType,
+        targetId,
+        reason,
+        details: details.trim() || undefined,
+      });
+      setMessage(response.message);
+    } catch (err: any) {
+      setError(err.message || 'Failed to submit report');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <>
+      {variant === 'icon' ? (
+        <button
+          type="button"
+          className={className}
+          onClick={() => setOpen(true)}
+          aria-label={`Report ${targetType}`}
+        >
+          <svg viewBox="0 0 24 24" role="presentation">
+            <path d="M5 3h2v18H5V3zm3 1h10l-2.5 4.5L18 13H8V4z" />
+          </svg>
+        </button>
+      ) : (
+        <button
+          type="button"
+          className={['report-text-button', className || ''].filter(Boolean).join(' ')}
+          onClick={() => setOpen(true)}
+        >
+          Report
+        </button>
+      )}
+
+      {open && (
+        <div className="report-modal-overlay" onClick={handleClose}>
+          <div
+            className="report-modal"
+            role="dialog"
+            aria-modal="true"
+            onClick={(e) => e.stopPropagation()}
+          >
+            <h2 className="report-modal-title">Report {targetType}</h2>
+
+            {message ? (
+              <>
+                <p className="report-modal-success">{message}</p>
+                <div className="report-modal-actions">
+                  <button type="button" className="report-submit-button" onClick={handleClose}>
+                    Close
+                  </button>
+                </div>
+              </>
+            ) : (
+              <form onSubmit={handleSubmit}>
+                <p className="report-modal-text">What&apos;s wrong with this {targetType}?</p>
+                <div className="report-reasons">
+                  {Object.entries(REPORT_REASON_LABELS).map(([value, label]) => (
+                    <label key={value} className="report-reason-option">
+                      <input
+                        type="radio"
+                        name="report-reason"
+                        value={value}
+                        checked={reason === value}
+                        onChange={() => setReason(value)}
+                      />
+                      {label}
+                    </label>
+                  ))}
+                </div>
+                <textarea
+                  className="report-details-input"
+                  placeholder={reason === 'other' ? 'Describe the problem (required)' : 'Add details (optional)'}
+                  value={details}
+                  onChange={(e) => setDetails(e.target.value)}
+                  maxLength={1000}
+                  rows={3}
+                />
+                {error && <div className="report-modal-error">{error}</div>}
+                <div className="report-modal-actions">
+                  <button type="button" className="report-cancel-button" onClick={handleClose}>
+                    Cancel
+                  </button>
+                  <button type="submit" className="report-submit-button" disabled={submitting}>
+                    {submitting ? 'Sending...' : 'Submit Report'}
+                  </button>
+                </div>
+              </form>
+            )}
+          </div>
+        </div>
+      )}
+    </>
+  );
+}
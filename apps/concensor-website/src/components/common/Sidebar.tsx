@@ -8,6 +8,7 @@
  * - Home (personalized recommendations)
  * - All Posts (shows all main categories)
  * - Popular (popular posts)
+ * - Common Ground (posts every opinion group agrees on)
  * - Recent (LRU - recently viewed categories)
  * - Saved (saved posts) - authenticated only
  * - Messages (messaging) - authenticated only
@@ -182,6 +183,9 @@ export default function Sidebar() {
     if (path === '/popular') {
       return pathname === '/popular';
     }
+    if (path === '/common-ground') {
+      return pathname === '/common-ground';
+    }
     if (path === '/saved') {
       return pathname === '/saved';
     }
@@ -239,6 +243,13 @@ export default function Sidebar() {
             Popular
           </button>
 
+          <button
+            className={`sidebar-link ${isActive('/common-ground') ? 'active' : ''}`}
+            onClick={() => handleNavigation('/common-ground')}
+          >
+            Common Ground
+          </button>
+
           {/* Divider */}
           <div className="sidebar-divider"></div>
 
@@ -0,0 +1,40 @@
+'use client';
+
+/**
+ * SuspensionBanner Component
+ * 
+ * Shown at the bottom of the screen while the current user's account is suspended.
+ * Tells the user why and until when they can't post, comment or vote
+ * (the API refuses those requests with a 403 until then).
+ */
+
+import { useAuth } from '@/contexts/AuthContext';
+import './SuspensionBanner.css';
+
+const SuspensionBanner = () => {
+  const { user } = useAuth();
+  const suspension = user?.suspension;
+
+  if (!suspension) {
+    return null;
+  }
+
+  const endDate = suspension.expiresAt
+    ? new Date(suspension.expiresAt).toLocaleString(undefined, {
+        dateStyle: 'long',
+        timeStyle: 'short',
+      })
+    : null;
+
+  return (
+    <div className="suspension-banner" role="alert">
+      <strong>
+        {endDate ? `Your account is suspended until ${endDate}.` : 'Your account is suspended.'}
+      </strong>{' '}
+      Until then you can read posts, but you can&apos;t create posts, comment or vote.
+      <div className="suspension-banner-reason">Reason: {suspension.reason}</div>
+    </div>
+  );
+};
+
+export default SuspensionBanner;
@@ -0,0 +1,146 @@
+'use client';
+
+/**
+ * IdeologyChart Component
+ *
+ * Draws an ideology profile: one row per category with the user's average
+ * stance on a disagree-agree scale (the shaded band is the spread of their
+ * votes) and the split of their votes underneath. Rows with few votes are
+ * faded according to their confidence. Main categories can be expanded to
+ * show their sub categories.
+ */
+
+import { useState } from 'react';
+import { IdeologyProfile, StanceVector } from '@/types';
+import './IdeologyChart.css';
+
+type VoteType = keyof StanceVector['distribution'];
+
+// Left to right: disagree to agree, like the stance scale
+const SEGMENTS: { type: VoteType; label: string; color: string }[] = [
+  { type: 'strongly_disagree', label: 'Strongly Disagree', color: '#c62828' },
+  { type: 'disagree', label: 'Disagree', color: '#ef5350' },
+  { type: 'neutral', label: 'Neutral', color: '#9e9e9e' },
+  { type: 'agree', label: 'Agree', color: '#42a5f5' },
+  { type: 'strongly_agree', label: 'Strongly Agree', color: '#1565c0' },
+];
+
+// Position (0-100%) of a vote value on the -2..+2 scale
+const toPercent = (value: number) => ((Math.max(-2, Math.min(2, value)) + 2) / 4) * 100;
+
+const describeStance = (stance: number) => {
+  if (stance >= 1) return 'Mostly agrees';
+  if (stance >= 0.3) return 'Leans agree';
+  if (stance > -0.3) return 'Mixed / neutral';
+  if (stance > -1) return 'Leans disagree';
+  return 'Mostly disagrees';
+};
+
+interface StanceRowProps {
+  label: string;
+  vector: StanceVector;
+  compact?: boolean;
+}
+
+function StanceRow({ label, vector, compact }: StanceRowProps) {
+  return (
+    <div
+      className={`stance-row ${compact ? 'compact' : ''}`}
+      style={{ opacity: 0.4 + 0.6 * vector.confidence }}
+    >
+      <div className="stance-row-header">
+        <span className="stance-row-label">{label}</span>
+        <span className="stance-row-summary">
+          {describeStance(vector.stance)} · {vector.sampleSize} vote{vector.sampleSize === 1 ? '' : 's'} ·{' '}
+          {Math.round(vector.confidence * 100)}% confidence
+        </span>
+      </div>
+      <div
+        className="stance-scale"
+        title={`Average ${vector.stance > 0 ? '+' : ''}${vector.stance.toFixed(2)}, spread ${vector.spread.toFixed(2)}`}
+      >
+        <div
+          className="stance-spread"
+          style={{
+            left: `${toPercent(vector.stance - vector.spread)}%`,
+            width: `${toPercent(vector.stance + vector.spread) - toPercent(vector.stance - vector.spread)}%`,
+          }}
+        />
+        <div className="stance-center" />
+        <div className="stance-marker" style={{ left: `${toPercent(vector.stance)}%` }} />
+      </div>
+      {!compact && (
+        <div className="stance-distribution">
+          {SEGMENTS.map((segment) => (
+            <div
+              key={segment.type}
+              className="stance-distribution-segment"
+              style={{
+                width: `${vector.distribution[segment.type] * 100}%`,
+                backgroundColor: segment.color,
+              }}
+              title={`${segment.label}: ${Math.round(vector.distribution[segment.type] * 100)}%`}
+            />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+interface IdeologyChartProps {
+  profile: IdeologyProfile;
+}
+
+export default function IdeologyChart({ profile }: IdeologyChartProps) {
+  const [expanded, setExpanded] = useState<string | null>(null);
+
+  if (profile.categories.length === 0) {
+    return <div className="ideology-chart-empty">No votes yet. Vote on posts to build this profile.</div>;
+  }
+
+  return (
+    <div className="ideology-chart">
+      <div className="stance-scale-labels">
+        <span>Disagrees</span>
+        <span>Neutral</span>
+        <span>Agrees</span>
+      </div>
+
+      <StanceRow label="Overall" vector={profile.overall} />
+
+      {profile.categories.map((entry) => (
+        <div key={entry.category.id} className="ideology-category">
+          <StanceRow label={entry.category.name} vector={entry} />
+          {entry.subCategories.length > 0 && (
+            <button
+              type="button"
+              className="ideology-category-toggle"
+              onClick={() => setExpanded(expanded === entry.category.id ? null : entry.category.id)}
+            >
+              {expanded === entry.category.id
+                ? 'Hide topics'
+                : `Show ${entry.subCategories.length} topic${entry.subCategories.length === 1 ? '' : 's'}`}
+            </button>
+          )}
+          {expanded === entry.category.id && (
+            <div className="ideology-subcategories">
+              {entry.subCategories.map((sub) => (
+                <StanceRow key={sub.category.id} label={sub.category.name} vector={sub} compact />
+              ))}
+            </div>
+          )}
+        </div>
+      ))}
+
+      <div className="ideology-chart-legend">
+        {SEGMENTS.map((segment) => (
+          <span key={segment.type} className="ideology-chart-legend-item">
+            <span className="ideology-chart-swatch" style={{ backgroundColor: segment.color }} />
+            {segment.label}
+          </span>
+        ))}
+      </div>
+    </div>
+  );
+}
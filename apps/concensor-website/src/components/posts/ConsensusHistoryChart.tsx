@@ -0,0 +1,150 @@
+'use client';
+
+/**
+ * ConsensusHistoryChart Component
+ *
+ * Stacked-area chart of how a post's votes split over time (share of each
+ * vote type per hour or day), shown under the consensus bar. Hovering a
+ * column shows that bucket's counts.
+ */
+
+import { useEffect, useState } from 'react';
+import { api } from '@/lib/api';
+import { ConsensusSnapshot } from '@/types';
+import './ConsensusHistoryChart.css';
+
+type VoteType = keyof ConsensusSnapshot['counts'];
+
+// Top to bottom, same order as the consensus bar (agree on the left)
+const BANDS: { type: VoteType; label: string; color: string }[] = [
+  { type: 'strongly_agree', label: 'Strongly Agree', color: '#1565c0' },
+  { type: 'agree', label: 'Agree', color: '#42a5f5' },
+  { type: 'neutral', label: 'Neutral', color: '#9e9e9e' },
+  { type: 'disagree', label: 'Disagree', color: '#ef5350' },
+  { type: 'strongly_disagree', label: 'Strongly Disagree', color: '#c62828' },
+];
+
+const WIDTH = 600;
+const HEIGHT = 180;
+
+interface ConsensusHistoryChartProps {
+  postId: string;
+  totalVotes: number; // Refetches when the post's votes change
+}
+
+export default function ConsensusHistoryChart({ postId, totalVotes }: ConsensusHistoryChartProps) {
+  const [interval, setBucketInterval] = useState<'hour' | 'day'>('day');
+  const [history, setHistory] = useState<ConsensusSnapshot[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    setLoading(true);
+    setError('');
+    api.getConsensusHistory(postId, interval)
+      .then(setHistory)
+      .catch((err: any) => setError(err.message || 'Failed to load consensus history'))
+      .finally(() => setLoading(false));
+  }, [postId, interval, totalVotes]);
+
+  const formatTime = (time: string) => {
+    const date = new Date(time);
+    return interval === 'hour'
+      ? date.toLocaleString(undefined, { month: 'short', day: 'numeric', hour: 'numeric' })
+      : date.toLocaleDateString(undefined, { month: 'short', day: 'numeric' });
+  };
+
+  // x position of each snapshot; a single snapshot spans the whole width
+  const xs = history.length === 1
+    ? [0, WIDTH]
+    : history.map((_, index) => (index / (history.length - 1)) * WIDTH);
+  const points = history.length === 1 ? [history[0], history[0]] : history;
+
+  // Cumulative share (0-1) of the bands above and including each band, per snapshot
+  const stacked = points.map((point) => {
+    let cumulative = 0;
+    return BANDS.map((band) => {
+      const top = cumulative;
+      cumulative += point.totalVotes > 0 ? point.counts[band.type] / point.totalVotes : 0;
+      return { top, bottom: cumulative };
+    });
+  });
+
+  const bandPath = (bandIndex: number) => {
+    const upper = xs.map((x, i) => `${x},${stacked[i][bandIndex].top * HEIGHT}`);
+    const lower = xs.map((x, i) => `${x},${stacked[i][bandIndex].bottom * HEIGHT}`).reverse();
+    return `M${upper.join(' L')} L${lower.join(' L')} Z`;
+  };
+
+  return (
+    <div className="consensus-history">
+      <div className="consensus-history-header">
+        <h4 className="consensus-history-title">Consensus over time</h4>
+        <div className="consensus-history-intervals">
+          {(['hour', 'day'] as const).map((option) => (
+            <button
+              key={option}
+              type="button"
+              className={`consensus-history-interval ${interval === option ? 'active' : ''}`}
+              onClick={() => setBucketInterval(option)}
+            >
+              {option === 'hour' ? 'Hourly' : 'Daily'}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {loading ? (
+        <div className="consensus-history-message">Loading...</div>
+      ) : error ? (
+        <div className="consensus-history-message consensus-history-error">{error}</div>
+      ) : history.length === 0 ? (
+        <div className="consensus-history-message">No votes yet</div>
+      ) : (
+        <>
+          <svg
+            className="consensus-history-chart"
+            viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+            preserveAspectRatio="none"
+            role="img"
+            aria-label="Share of each vote type over time"
+          >
+            {BANDS.map((band, index) => (
+              <path key={band.type} d={bandPath(index)} fill={band.color} />
+            ))}
+            {history.map((point, index) => {
+              const columnWidth = WIDTH / history.length;
+              return (
+                <rect
+                  key={point.time}
+                  x={history.length === 1 ? 0 : Math.max(0, xs[index] - columnWidth / 2)}
+                  y={0}
+                  width={columnWidth}
+                  height={HEIGHT}
+                  className="consensus-history-column"
+                >
+                  <title>
+                    {`${formatTime(point.time)}: ${point.totalVotes} vote${point.totalVotes === 1 ? '' : 's'}\n` +
+                      BANDS.map((band) => `${band.label}: ${point.counts[band.type]}`).join('\n')}
+                  </title>
+                </rect>
+              );
+            })}
+          </svg>
+          <div className="consensus-history-axis">
+            <span>{formatTime(history[0].time)}</span>
+            <span>{formatTime(history[history.length - 1].time)}</span>
+          </div>
+          <div className="consensus-history-legend">
+            {BANDS.map((band) => (
+              <span key={band.type} className="consensus-history-legend-item">
+                <span className="consensus-history-swatch" style={{ backgroundColor: band.color }} />
+                {band.label}
+              </span>
+            ))}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
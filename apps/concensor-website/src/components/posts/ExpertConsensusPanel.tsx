@@ -0,0 +1,108 @@
+'use client';
+
+/**
+ * ExpertConsensusPanel Component
+ *
+ * "What experienced members think" toggle under the consensus bar. Opened,
+ * it shows the consensus with votes weighted by the voter's badge level in
+ * the post's main category, and the split of votes of each badge tier.
+ */
+
+import { useState } from 'react';
+import { ConsensusBreakdown, ExpertConsensus } from '@/types';
+import './ExpertConsensusPanel.css';
+
+const STRENGTH_LABELS: Record<string, string> = {
+  strong: 'Strong consensus',
+  moderate: 'Moderate consensus',
+  weak: 'Weak consensus',
+  divided: 'Divided',
+};
+
+// Agree / neutral / disagree shares (0-100), like the consensus bar
+const toShares = ({ counts }: ConsensusBreakdown) => {
+  const agree = counts.strongly_agree + counts.agree;
+  const disagree = counts.strongly_disagree + counts.disagree;
+  const total = agree + counts.neutral + disagree;
+  if (total === 0) {
+    return { agree: 0, neutral: 0, disagree: 0 };
+  }
+  return {
+    agree: Math.round((agree / total) * 100),
+    neutral: Math.round((counts.neutral / total) * 100),
+    disagree: Math.round((disagree / total) * 100),
+  };
+};
+
+function SharesBar({ breakdown, compact }: { breakdown: ConsensusBreakdown; compact?: boolean }) {
+  const shares = toShares(breakdown);
+  const minLabelShare = compact ? 15 : 5;
+
+  return (
+    <div className={`expert-consensus-bar ${compact ? 'compact' : ''}`}>
+      <div className="expert-consensus-segment agree" style={{ width: `${shares.agree}%` }}>
+        {shares.agree > minLabelShare && `${shares.agree}%`}
+      </div>
+      <div className="expert-consensus-segment neutral" style={{ width: `${shares.neutral}%` }}>
+        {shares.neutral > minLabelShare && `${shares.neutral}%`}
+      </div>
+      <div className="expert-consensus-segment disagree" style={{ width: `${shares.disagree}%` }}>
+        {shares.disagree > minLabelShare && `${shares.disagree}%`}
+      </div>
+    </div>
+  );
+}
+
+interface ExpertConsensusPanelProps {
+  expertConsensus: ExpertConsensus;
+}
+
+export default function ExpertConsensusPanel({ expertConsensus }: ExpertConsensusPanelProps) {
+  const [open, setOpen] = useState(false);
+  const { weighted, tiers } = expertConsensus;
+
+  return (
+    <div className="expert-consensus">
+      <button
+        type="button"
+        className={`expert-consensus-toggle ${open ? 'active' : ''}`}
+        onClick={() => setOpen(!open)}
+      >
+        {open ? 'Hide what experienced members think' : 'What experienced members think'}
+      </button>
+
+      {open && (
+        <div className="expert-consensus-content">
+          <p className="expert-consensus-note">
+            Votes weighted by the voter&apos;s badge in this category: a{' '}
+            {tiers[tiers.length - 1].name}&apos;s vote counts {tiers[tiers.length - 1].weight}× a{' '}
+            {tiers[0].name}&apos;s.
+          </p>
+          <SharesBar breakdown={weighted} />
+          {weighted.consensusStrength !== 'insufficient' && (
+            <p className="expert-consensus-summary">
+              {STRENGTH_LABELS[weighted.consensusStrength]} · Weighted average vote{' '}
+              {weighted.voteMean > 0 ? '+' : ''}{weighted.voteMean.toFixed(2)}
+            </p>
+          )}
+
+          <div className="expert-consensus-tiers">
+            {[...tiers].reverse().map((tier) => (
+              <div key={tier.level} className="expert-consensus-tier">
+                <span className="expert-consensus-tier-name">{tier.name}</span>
+                {tier.totalVotes > 0 ? (
+                  <SharesBar breakdown={tier} compact />
+                ) : (
+                  <span className="expert-consensus-tier-empty">No votes</span>
+                )}
+                <span className="expert-consensus-tier-votes">
+                  {tier.totalVotes} vote{tier.totalVotes === 1 ? '' : 's'}
+                </span>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -8,17 +8,35 @@
  */
 
 import { useRouter } from 'next/navigation';
-import { Post } from '@/types';
+import { Post, PostSort, ConsensusStrength } from '@/types';
 import './PostList.css';
 
+const SORT_OPTIONS: { value: PostSort; label: string }[] = [
+  { value: 'popular', label: 'Popular' },
+  { value: 'new', label: 'New' },
+  { value: 'divisive', label: 'Most divisive' },
+  { value: 'agreement', label: 'Broad agreement' },
+  { value: 'common-ground', label: 'Common ground' },
+];
+
+const STRENGTH_LABELS: Record<ConsensusStrength, string> = {
+  insufficient: 'Too few votes',
+  strong: 'Strong consensus',
+  moderate: 'Moderate consensus',
+  weak: 'Weak consensus',
+  divided: 'Divided',
+};
+
 interface PostListProps {
   posts: Post[];
   loading?: boolean;
   error?: string;
   title?: string;
+  sort?: PostSort;
+  onSortChange?: (sort: PostSort) => void; // Shows the sort selector
 }
 
-export default function PostList({ posts, loading, error, title }: PostListProps) {
+export default function PostList({ posts, loading, error, title, sort, onSortChange }: PostListProps) {
   const router = useRouter();
 
   if (loading) {
@@ -29,13 +47,38 @@ export default function PostList({ posts, loading, error, title }: PostListProps
     return <div className="post-list-error">{error}</div>;
   }
 
-  if (!loading && !error && posts.length === 0) {
+  // Without a sort selector there's nothing else to show
+  if (!loading && !error && posts.length === 0 && !onSortChange) {
     return <div className="post-list-empty">No posts yet. Be the first to create one!</div>;
   }
 
   return (
     <div className="post-list-container">
-      {title && <h1 className="post-list-title">{title}</h1>}
+      {(title || onSortChange) && (
+        <div className="post-list-header">
+          {title && <h1 className="post-list-title">{title}</h1>}
+          {onSortChange && (
+            <select
+              className="post-list-sort"
+              value={sort}
+              onChange={(e) => onSortChange(e.target.value as PostSort)}
+              aria-label="Sort posts"
+            >
+              {SORT_OPTIONS.map((option) => (
+                <option key={option.value} value={option.value}>{option.label}</option>
+              ))}
+            </select>
+          )}
+        </div>
+      )}
+
+      {posts.length === 0 && (
+        <div className="post-list-empty">
+          {sort === 'divisive' || sort === 'agreement' || sort === 'common-ground'
+            ? 'No posts with enough votes yet.'
+            : 'No posts yet. Be the first to create one!'}
+        </div>
+      )}
       
       <div className="post-list">
         {posts.map((post) => (
@@ -51,6 +94,14 @@ export default function PostList({ posts, loading, error, title }: PostListProps
               <span className="comment-count">
                 💬 {post._count?.comments || post.commentCount || 0}
               </span>
+              {post.consensusStrength && post.consensusStrength !== 'insufficient' && (
+                <span
+                  className={`consensus-strength consensus-strength-${post.consensusStrength}`}
+                  title={`Polarization ${Math.round(post.polarization * 100)}%`}
+                >
+                  {STRENGTH_LABELS[post.consensusStrength]}
+                </span>
+              )}
               {post.totalVotes > 0 && (
                 <div className="vote-bar">
                   <span className="agree-label">
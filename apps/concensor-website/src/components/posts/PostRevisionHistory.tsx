@@ -0,0 +1,141 @@
+'use client';
+
+/**
+ * PostRevisionHistory Component
+ *
+ * "(edited)" marker for a post that opens its edit history: pick two
+ * versions and see what changed in the title and content, word by word.
+ * Each version shows how many votes were cast while it was current.
+ */
+
+import { useState } from 'react';
+import { api } from '@/lib/api';
+import { diffWords } from '@/lib/textDiff';
+import { PostRevision } from '@/types';
+import './PostRevisionHistory.css';
+
+interface PostRevisionHistoryProps {
+  postId: string;
+  editedAt: string;
+}
+
+function DiffText({ before, after }: { before: string; after: string }) {
+  return (
+    <>
+      {diffWords(before, after).map((segment, index) =>
+        segment.type === 'insert' ? (
+          <ins key={index} className="revision-diff-insert">{segment.text}</ins>
+        ) : segment.type === 'delete' ? (
+          <del key={index} className="revision-diff-delete">{segment.text}</del>
+        ) : (
+          <span key={index}>{segment.text}</span>
+        )
+      )}
+    </>
+  );
+}
+
+export default function PostRevisionHistory({ postId, editedAt }: PostRevisionHistoryProps) {
+  const [open, setOpen] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+  const [revisions, setRevisions] = useState<PostRevision[]>([]);
+  const [fromRevision, setFromRevision] = useState(1);
+  const [toRevision, setToRevision] = useState(1);
+
+  const handleOpen = async () => {
+    setOpen(true);
+    try {
+      setLoading(true);
+      setError('');
+      const data = await api.getPostRevisions(postId);
+      setRevisions(data.revisions);
+      // Default: what the latest edit changed
+      setToRevision(data.currentRevision);
+      setFromRevision(Math.max(1, data.currentRevision - 1));
+    } catch (err: any) {
+      setError(err.message || 'Failed to load edit history');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const formatRevision = (revision: PostRevision) =>
+    `Version ${revision.revision} · ${new Date(revision.createdAt).toLocaleString()} · ${revision.voteCount} vote${revision.voteCount === 1 ? '' : 's'}`;
+
+  const from = revisions.find((revision) => revision.revision === fromRevision);
+  const to = revisions.find((revision) => revision.revision === toRevision);
+
+  return (
+    <>
+      <button
+        type="button"
+        className="post-edited-button"
+        title={`Edited ${new Date(editedAt).toLocaleString()}`}
+        onClick={handleOpen}
+      >
+        (edited)
+      </button>
+
+      {open && (
+        <div className="revision-history-overlay" onClick={() => setOpen(false)}>
+          <div className="revision-history-dialog" onClick={(e) => e.stopPropagation()}>
+            <div className="revision-history-header">
+              <h3 className="revision-history-title">Edit history</h3>
+              <button
+                type="button"
+                className="revision-history-close"
+                onClick={() => setOpen(false)}
+                aria-label="Close edit history"
+              >
+                ×
+              </button>
+            </div>
+
+            {loading ? (
+              <div className="revision-history-message">Loading...</div>
+            ) : error ? (
+              <div className="revision-history-message revision-history-error">{error}</div>
+            ) : (
+              <>
+                <div className="revision-history-pickers">
+                  <label>
+                    From
+                    <select value={fromRevision} onChange={(e) => setFromRevision(Number(e.target.value))}>
+                      {revisions.map((revision) => (
+                        <option key={revision.revision} value={revision.revision}>
+                          {formatRevision(revision)}
+                        </option>
+                      ))}
+                    </select>
+                  </label>
+                  <label>
+                    To
+                    <select value={toRevision} onChange={(e) => setToRevision(Number(e.target.value))}>
+                      {revisions.map((revision) => (
+                        <option key={revision.revision} value={revision.revision}>
+                          {formatRevision(revision)}
+                        </option>
+                      ))}
+                    </select>
+                  </label>
+                </div>
+
+                {from && to && (
+                  <div className="revision-diff">
+                    <h4 className="revision-diff-title">
+                      <DiffText before={from.title} after={to.title} />
+                    </h4>
+                    <div className="revision-diff-content">
+                      <DiffText before={from.content} after={to.content} />
+                    </div>
+                  </div>
+                )}
+              </>
+            )}
+          </div>
+        </div>
+      )}
+    </>
+  );
+}
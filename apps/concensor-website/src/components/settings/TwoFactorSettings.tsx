@@ -0,0 +1,251 @@
+'use client';
+
+/**
+ * Two-Factor Settings
+ *
+ * Enrollment and disable flow for TOTP two-factor authentication.
+ * Used on the /setting page.
+ *
+ * Steps:
+ * - Disabled: "Set up" → scan/enter secret → confirm code → save recovery codes
+ * - Enabled: "Disable" → re-enter password
+ */
+
+import { useEffect, useState } from 'react';
+import { api } from '@/lib/api';
+import './TwoFactorSettings.css';
+
+type Step = 'idle' | 'setup' | 'recovery' | 'disable';
+
+const TwoFactorSettings = () => {
+  const [loading, setLoading] = useState(true);
+  const [enabled, setEnabled] = useState(false);
+  const [available, setAvailable] = useState(false);
+  const [remainingRecoveryCodes, setRemainingRecoveryCodes] = useState(0);
+  const [step, setStep] = useState<Step>('idle');
+  const [secret, setSecret] = useState('');
+  const [otpauthUri, setOtpauthUri] = useState('');
+  const [code, setCode] = useState('');
+  const [password, setPassword] = useState('');
+  const [recoveryCodes, setRecoveryCodes] = useState<string[]>([]);
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState('');
+  const [message, setMessage] = useState('');
+
+  const loadStatus = async () => {
+    try {
+      const status = await api.getTwoFactorStatus();
+      setEnabled(status.enabled);
+      setAvailable(status.available);
+      setRemainingRecoveryCodes(status.remainingRecoveryCodes);
+    } catch (err: any) {
+      setError(err.message || 'Failed to load two-factor status');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadStatus();
+  }, []);
+
+  const resetForm = () => {
+    setStep('idle');
+    setSecret('');
+    setOtpauthUri('');
+    setCode('');
+    setPassword('');
+    setError('');
+  };
+
+  const handleStartSetup = async () => {
+    setError('');
+    setMessage('');
+    setSubmitting(true);
+    try {
+      const response = await api.setupTwoFactor();
+      setSecret(response.secret);
+      setOtpauthUri(response.otpauthUri);
+      setStep('setup');
+    } catch (err: any) {
+      setError(err.message || 'Failed to start two-factor setup');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleEnable = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+    setSubmitting(true);
+    try {
+      const response = await api.enableTwoFactor(code);
+      setRecoveryCodes(response.recoveryCodes);
+      setEnabled(true);
+      setRemainingRecoveryCodes(response.recoveryCodes.length);
+      setCode('');
+      setStep('recovery');
+    } catch (err: any) {
+      setError(err.message || 'Failed to enable two-factor authentication');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleDisable = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+    setSubmitting(true);
+    try {
+      const response = await api.disableTwoFactor(password);
+      setEnabled(false);
+      setRemainingRecoveryCodes(0);
+      resetForm();
+      setMessage(response.message);
+    } catch (err: any) {
+      setError(err.message || 'Failed to disable two-factor authentication');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleRecoveryCodesSaved = () => {
+    setRecoveryCodes([]);
+    resetForm();
+    setMessage('Two-factor authentication is on. You will be asked for a code when you log in.');
+  };
+
+  if (loading) {
+    return null;
+  }
+
+  return (
+    <section className="two-factor-settings">
+      <div className="two-factor-header">
+        <span className="two-factor-icon" aria-hidden="true">🔐</span>
+        <div className="two-factor-heading">
+          <h2 className="two-factor-title">Two-Factor Authentication</h2>
+          <p className="two-factor-status">
+            {enabled ? 'Enabled' : 'Disabled'}
+            {enabled && step !== 'recovery' && ` · ${remainingRecoveryCodes} recovery codes left`}
+          </p>
+        </div>
+        {available && step === 'idle' && (
+          enabled ? (
+            <button
+              type="button"
+              className="two-factor-button danger"
+              onClick={() => {
+                setMessage('');
+                setStep('disable');
+              }}
+            >
+              Disable
+            </button>
+          ) : (
+            <button
+              type="button"
+              className="two-factor-button primary"
+              onClick={handleStartSetup}
+              disabled={submitting}
+            >
+              Set up
+            </button>
+          )
+        )}
+      </div>
+
+      {!available && (
+        <p className="two-factor-text">
+          Two-factor authentication is available for accounts that log in with email and password.
+        </p>
+      )}
+
+      {step === 'setup' && (
+        <form className="two-factor-form" onSubmit={handleEnable}>
+          <p className="two-factor-text">
+            1. Add Concensor to your authenticator app (Google Authenticator, Authy, 1Password, ...).
+            Open the link on your phone, or enter this key manually:
+          </p>
+          <code className="two-factor-secret">{secret}</code>
+          <a className="two-factor-link" href={otpauthUri}>
+            Open in authenticator app
+          </a>
+          <label htmlFor="twoFactorSetupCode" className="two-factor-text">
+            2. Enter the 6-digit code the app shows:
+          </label>
+          <input
+            id="twoFactorSetupCode"
+            type="text"
+            inputMode="numeric"
+            autoComplete="one-time-code"
+            className="two-factor-input"
+            value={code}
+            onChange={(e) => setCode(e.target.value)}
+            required
+          />
+          <div className="two-factor-actions">
+            <button type="submit" className="two-factor-button primary" disabled={submitting}>
+              {submitting ? 'Verifying...' : 'Enable'}
+            </button>
+            <button type="button" className="two-factor-button secondary" onClick={resetForm}>
+              Cancel
+            </button>
+          </div>
+        </form>
+      )}
+
+      {step === 'recovery' && (
+        <div className="two-factor-form">
+          <p className="two-factor-text">
+            Save these recovery codes somewhere safe. Each one can be used once to log in
+            if you lose access to your authenticator app. They will not be shown again.
+          </p>
+          <ul className="two-factor-recovery-codes">
+            {recoveryCodes.map((recoveryCode) => (
+              <li key={recoveryCode}>
+                <code>{recoveryCode}</code>
+              </li>
+            ))}
+          </ul>
+          <div className="two-factor-actions">
+            <button type="button" className="two-factor-button primary" onClick={handleRecoveryCodesSaved}>
+              I saved my recovery codes
+            </button>
+          </div>
+        </div>
+      )}
+
+      {step === 'disable' && (
+        <form className="two-factor-form" onSubmit={handleDisable}>
+          <label htmlFor="twoFactorDisablePassword" className="two-factor-text">
+            Enter your password to turn off two-factor authentication.
+            You will be logged out on all other devices.
+          </label>
+          <input
+            id="twoFactorDisablePassword"
+            type="password"
+            autoComplete="current-password"
+            className="two-factor-input"
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            required
+          />
+          <div className="two-factor-actions">
+            <button type="submit" className="two-factor-button danger" disabled={submitting}>
+              {submitting ? 'Disabling...' : 'Disable'}
+            </button>
+            <button type="button" className="two-factor-button secondary" onClick={resetForm}>
+              Cancel
+            </button>
+          </div>
+        </form>
+      )}
+
+      {error && <div className="two-factor-error">{error}</div>}
+      {message && <div className="two-factor-success">{message}</div>}
+    </section>
+  );
+};
+
+export default TwoFactorSettings;
@@ -15,11 +15,21 @@ import { useRouter } from 'next/navigation';
 import { api } from '@/lib/api';
 import { User } from '@/types';
 
+/**
+ * Result of the password step of login
+ * If requiresTwoFactor is true, call completeTwoFactorLogin() with the challenge token.
+ */
+export interface LoginResult {
+  requiresTwoFactor: boolean;
+  challengeToken?: string;
+}
+
 interface AuthContextType {
   user: User | null;
   isAuthenticated: boolean;
   loading: boolean;
-  login: (email: string, password: string) => Promise<void>;
+  login: (email: string, password: string) => Promise<LoginResult>;
+  completeTwoFactorLogin: (challengeToken: string, code: string) => Promise<void>;
   logout: () => Promise<void>;
   checkAuth: () => Promise<void>;
 }
@@ -65,15 +75,31 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
   /**
    * Login function
    * Calls API, sets user state, and redirects to home page
+   * If the account has 2FA enabled, returns the challenge instead (no redirect yet)
    */
-  const login = async (email: string, password: string) => {
+  const login = async (email: string, password: string): Promise<LoginResult> => {
     const response = await api.login({ email, password });
+    if (response.requiresTwoFactor) {
+      return { requiresTwoFactor: true, challengeToken: response.challengeToken };
+    }
     setUser(response.user);
     setIsAuthenticated(true);
     // Use replace() instead of push() to avoid adding to history
     // This prevents the login page from being in browser history
     // and makes the redirect faster (no glitch)
     router.replace('/'); // Redirect to home page after login
+    return { requiresTwoFactor: false };
+  };
+
+  /**
+   * Second login step for accounts with 2FA
+   * Sends the TOTP / recovery code, sets user state, and redirects to home page
+   */
+  const completeTwoFactorLogin = async (challengeToken: string, code: string) => {
+    const response = await api.loginTwoFactor({ challengeToken, code });
+    setUser(response.user);
+    setIsAuthenticated(true);
+    router.replace('/');
   };
 
   /**
@@ -118,6 +144,7 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
         isAuthenticated,
         loading,
         login,
+        completeTwoFactorLogin,
         logout,
         checkAuth,
       }}
@@ -1,5 +1,6 @@
 import { ReactNode } from 'react';
 import Header from '../components/common/Header';
+import SuspensionBanner from '../components/common/SuspensionBanner';
 
 interface AuthLayoutProps {
   children: ReactNode;
@@ -9,12 +10,14 @@ interface AuthLayoutProps {
  * AuthLayout - For authenticated pages (after login)
  * 
  * Includes Header (with username and profile icon) but NO Footer
+ * Shows a banner while the account is suspended
  * Use this for: /, /profile, and other authenticated pages
  */
 const AuthLayout = ({ children }: AuthLayoutProps) => {
   return (
     <div>
       <Header />
+      <SuspensionBanner />
       {children}
       {/* No Footer - authenticated pages don't have footer */}
     </div>
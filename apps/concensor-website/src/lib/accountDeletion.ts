@@ -0,0 +1,165 @@
+/**
+ * Account Deletion
+ *
+ * Deleting an account is a two-step process:
+ * 1. The user requests deletion: the account is scheduled for purge after a
+ *    grace period and can still log in to cancel.
+ * 2. Once the grace period ends, the account is purged (npm run accounts:purge,
+ *    or at the next login attempt, whichever comes first).
+ *
+ * What happens to the user's data when the account is purged:
+ * - Votes are removed, and each post's vote counters, weighted score and hot score
+ *   are reduced accordingly, so the counters always match the remaining Vote rows
+ * - Posts and comments are kept, anonymized (author set to null, shown as "[deleted user]")
+ * - Everything else (vote history, ideology profile, saved posts, category points, views, sessions, 2FA codes) is deleted
+ */
+
+import { PrismaClient } from '@prisma/client';
+import { updatePostVoteCounters } from '@/lib/votes';
+import { deleteAvatarFiles } from '@/lib/avatars';
+
+/**
+ * Account deletion settings
+ */
+export const ACCOUNT_DELETION_CONFIG = {
+  GRACE_PERIOD_MS: 30 * 24 * 60 * 60 * 1000, // 30 days to change your mind
+  PURGE_BATCH_SIZE: 50,                      // Accounts purged per run of purgeDueAccounts()
+} as const;
+
+/**
+ * Author shown in place of a deleted account on posts and comments
+ */
+export const DELETED_USER = {
+  id: null,
+  username: '[deleted user]',
+  profilePicture: null,
+  equippedBadge: null,
+} as const;
+
+/**
+ * Schedule a user's account for deletion
+ *
+ * @param db - Prisma client instance
+ * @param userId - User ID
+ * @returns Date - When the account will be purged
+ */
+export async function scheduleAccountDeletion(db: PrismaClient, userId: string): Promise<Date> {
+  const now = new Date();
+  const scheduledAt = new Date(now.getTime() + ACCOUNT_DELETION_CONFIG.GRACE_PERIOD_MS);
+
+  await db.user.update({
+    where: { id: userId },
+    data: {
+      deletionRequestedAt: now,
+      deletionScheduledAt: scheduledAt,
+    },
+  });
+
+  return scheduledAt;
+}
+
+/**
+ * Cancel a scheduled account deletion
+ *
+ * @param db - Prisma client instance
+ * @param userId - User ID
+ * @returns boolean - True if a deletion was scheduled (and is now cancelled)
+ */
+export async function cancelAccountDeletion(db: PrismaClient, userId: string): Promise<boolean> {
+  const result = await db.user.updateMany({
+    where: { id: userId, deletionScheduledAt: { not: null } },
+    data: {
+      deletionRequestedAt: null,
+      deletionScheduledAt: null,
+    },
+  });
+  return result.count > 0;
+}
+
+/**
+ * Check whether an account's grace period is over
+ */
+export function isAccountDeletionDue(user: { deletionScheduledAt: Date | null }): boolean {
+  return user.deletionScheduledAt !== null && user.deletionScheduledAt <= new Date();
+}
+
+/**
+ * Permanently delete an account
+ *
+ * Each vote is removed together with its contribution to the post counters in
+ * its own small transaction, so an interrupted purge leaves consistent data
+ * and can simply be run again.
+ *
+ * @param db - Prisma client instance
+ * @param userId - User ID
+ */
+export async function purgeAccount(db: PrismaClient, userId: string): Promise<void> {
+  const votes = await db.vote.findMany({
+    where: { userId },
+    select: { id: true, postId: true, voteType: true, voteValue: true, excluded: true },
+  });
+
+  for (const vote of votes) {
+    await db.$transaction(async (tx) => {
+      // Excluded votes were already taken out of the counters
+      await updatePostVoteCounters(tx, vote.postId, vote.excluded ? null : vote, null);
+      await tx.vote.delete({ where: { id: vote.id } });
+    });
+  }
+
+  // Posts and comments are anonymized by their onDelete: SetNull relations,
+  // all other user data is removed by onDelete: Cascade
+  await db.user.delete({ where: { id: userId } });
+
+  // Uploaded profile pictures live outside the database
+  await deleteAvatarFiles(userId);
+}
+
+/**
+ * Purge an account if its grace period is over
+ *
+ * Called at login so an account can't be used after its deletion date,
+ * even if the scheduled purge hasn't run yet.
+ *
+ * @param db - Prisma client instance
+ * @param user - User loaded for the login attempt
+ * @returns boolean - True if the account was purged (treat it as not found)
+ */
+export async function purgeAccountIfDue(
+  db: PrismaClient,
+  user: { id: string; deletionScheduledAt: Date | null }
+): Promise<boolean> {
+  if (!isAccountDeletionDue(user)) {
+    return false;
+  }
+
+  await purgeAccount(db, user.id);
+  return true;
+}
+
+/**
+ * Purge every account whose grace period is over
+ *
+ * @param db - Prisma client instance
+ * @returns number - How many accounts were purged
+ */
+export async function purgeDueAccounts(db: PrismaClient): Promise<number> {
+  let purged = 0;
+
+  while (true) {
+    const due = await db.user.findMany({
+      where: { deletionScheduledAt: { lte: new Date() } },
+      select: { id: true },
+      take: ACCOUNT_DELETION_CONFIG.PURGE_BATCH_SIZE,
+    });
+
+    if (due.length === 0) {
+      return purged;
+    }
+
+    for (const user of due) {
+      await purgeAccount(db, user.id);
+      purged++;
+    }
+  }
+}
@@ -13,7 +13,7 @@
  */
 
 import axios, { AxiosError, AxiosInstance } from 'axios';
-import { Category, Post } from '@/types';
+import { Category, Post, PostSort, ConsensusStrength, PostRevision, OpinionShiftStats, ConsensusSnapshot, IdeologyProfile, IdeologyVisibility, OpinionMap, UserSession, LinkedAccounts, AccountDeletionStatus } from '@/types';
 
 // Base URL for API requests
 // For Next.js API routes (same origin), use empty string (relative paths)
@@ -187,6 +187,10 @@ export const api = {
    * Example:
    *   const response = await api.login({ email: 'user@example.com', password: 'password123' });
    *   console.log(response.user); // { id, email, username }
+   * 
+   * If the account has 2FA enabled, the response is
+   * { success: true, requiresTwoFactor: true, challengeToken } and no cookie is set yet.
+   * Finish with api.loginTwoFactor().
    */
   login: (credentials: { email: string; password: string }) =>
     // POST request to /api/auth/login
@@ -195,10 +199,23 @@ export const api = {
     // - Sets Content-Type to application/json
     // - Includes cookies (withCredentials: true)
     // - Adds Authorization header if token exists (from interceptor)
-    apiClient.post<{ success: boolean; user: any; token?: string }>('/api/auth/login', credentials)
+    apiClient.post<{ success: boolean; user?: any; token?: string; requiresTwoFactor?: boolean; challengeToken?: string }>('/api/auth/login', credentials)
       // Extract data from response (response.data contains the JSON body)
       .then((response) => response.data),
 
+  /**
+   * Two-Factor Login API call (second login step)
+   * 
+   * @param data - Challenge token from api.login() and a TOTP or recovery code
+   * @returns Promise with user data (cookie is set by the backend)
+   * 
+   * Example:
+   *   await api.loginTwoFactor({ challengeToken, code: '123456' });
+   */
+  loginTwoFactor: (data: { challengeToken: string; code: string }) =>
+    apiClient.post<{ success: boolean; user: any; remainingRecoveryCodes?: number }>('/api/auth/login/two-factor', data)
+      .then((response) => response.data),
+
   /**
    * Signup API call
    * 
@@ -222,13 +239,24 @@ export const api = {
    * Posts API calls
    */
   
-  // GET /api/posts - Get all posts
-  getPosts: (params?: { category?: string; mainCategory?: string; subCategory?: string; popular?: boolean; page?: number; limit?: number }) => {
+  // GET /api/posts - Get all posts (sort: new, popular, divisive, agreement, common-ground; consensus: filter by strength)
+  getPosts: (params?: {
+    category?: string;
+    mainCategory?: string;
+    subCategory?: string;
+    popular?: boolean;
+    sort?: PostSort;
+    consensus?: ConsensusStrength;
+    page?: number;
+    limit?: number;
+  }) => {
     const queryParams = new URLSearchParams();
     if (params?.category) queryParams.append('category', params.category);
     if (params?.mainCategory) queryParams.append('mainCategory', params.mainCategory);
     if (params?.subCategory) queryParams.append('subCategory', params.subCategory);
     if (params?.popular) queryParams.append('popular', 'true');
+    if (params?.sort) queryParams.append('sort', params.sort);
+    if (params?.consensus) queryParams.append('consensus', params.consensus);
     if (params?.page) queryParams.append('page', params.page.toString());
     if (params?.limit) queryParams.append('limit', params.limit.toString());
     const query = queryParams.toString();
@@ -239,20 +267,42 @@ export const api = {
   getPost: (id: string) =>
     apiClient.get(`/api/posts/${id}`).then((response) => response.data),
   
-  // POST /api/posts - Create new post
-  createPost: (data: { title: string; content: string; mainCategoryId: string; subCategoryId: string }) =>
+  // POST /api/posts - Create new post (status 'draft' saves a draft; publishAt schedules it)
+  createPost: (data: {
+    title: string;
+    content: string;
+    mainCategoryId: string;
+    subCategoryId: string;
+    status?: 'published' | 'draft';
+    publishAt?: string | null;
+  }) =>
     apiClient.post('/api/posts', data).then((response) => response.data),
 
-  // PUT /api/posts/:id - Update existing post
-  updatePost: (id: string, data: { title?: string; content?: string }) =>
+  // PUT /api/posts/:id - Update existing post (editsLocked: true locks it for good; publishAt: drafts only)
+  updatePost: (id: string, data: { title?: string; content?: string; editsLocked?: true; publishAt?: string | null }) =>
     apiClient.put(`/api/posts/${id}`, data).then((response) => response.data),
 
+  // GET /api/posts/drafts - Current user's drafts
+  getDrafts: () =>
+    apiClient.get<{ drafts: Post[] }>('/api/posts/drafts').then((response) => response.data.drafts),
+
+  // POST /api/posts/:id/publish - Publish a draft now
+  publishPost: (id: string) =>
+    apiClient.post(`/api/posts/${id}/publish`).then((response) => response.data),
+
+  // GET /api/posts/:id/revisions - Every version of a post with votes per version
+  getPostRevisions: (id: string) =>
+    apiClient
+      .get<{ currentRevision: number; editedAt: string | null; editsLocked: boolean; revisions: PostRevision[] }>(`/api/posts/${id}/revisions`)
+      .then((response) => response.data),
+
   // DELETE /api/posts/:id - Delete post
   deletePost: (id: string) =>
     apiClient.delete(`/api/posts/${id}`).then((response) => response.data),
 
   /**
    * Votes API
+   * Voting again with another type changes the vote.
    * 
    * @param postId - ID of the post to vote on
    * @param voteType - Vote type (strongly_disagree, disagree, neutral, agree, strongly_agree)
@@ -268,6 +318,20 @@ export const api = {
   getUserVote: (postId: string) =>
     apiClient.get(`/api/posts/${postId}/vote`).then((response) => response.data),
 
+  // DELETE /api/posts/:id/vote - Retract own vote
+  retractVote: (postId: string) =>
+    apiClient.delete(`/api/posts/${postId}/vote`).then((response) => response.data),
+
+  // GET /api/posts/:id/consensus/history - Vote counts per hour or day since the first vote
+  getConsensusHistory: (postId: string, interval: 'hour' | 'day' = 'day') =>
+    apiClient
+      .get<{ interval: 'hour' | 'day'; history: ConsensusSnapshot[] }>(`/api/posts/${postId}/consensus/history?interval=${interval}`)
+      .then((response) => response.data.history),
+
+  // GET /api/posts/:id/opinion-shifts - How many voters changed their vote since their first one
+  getOpinionShifts: (postId: string) =>
+    apiClient.get<OpinionShiftStats>(`/api/posts/${postId}/opinion-shifts`).then((response) => response.data),
+
   /**
    * User/Profile API calls
    */
@@ -276,9 +340,108 @@ export const api = {
   getProfile: () =>
     apiClient.get('/api/user/profile').then((response) => response.data),
   
-  // PUT /api/user/profile - Update current user's profile
-  updateProfile: (data: any) =>
-    apiClient.put('/api/user/profile', data).then((response) => response.data),
+  // PUT /api/user/profile - Update username and/or request an email change
+  // A new email is only applied after the confirmation link sent to it is opened;
+  // currentPassword is required to change the email of accounts with a password
+  updateProfile: (data: { username?: string; email?: string; currentPassword?: string }) =>
+    apiClient.put<{
+      success: boolean;
+      user: { id: string; username: string | null; email: string; pendingEmail: string | null };
+      message: string;
+    }>('/api/user/profile', data).then((response) => response.data),
+
+  // POST /api/user/avatar - Upload a profile picture (resized and stripped of metadata on the server)
+  uploadAvatar: (file: File) => {
+    const formData = new FormData();
+    formData.append('file', file);
+    return apiClient.post<{ success: boolean; profilePicture: string }>('/api/user/avatar', formData, {
+      headers: { 'Content-Type': 'multipart/form-data' },
+      timeout: 60000, // Large images take a while to upload
+    }).then((response) => response.data);
+  },
+
+  // DELETE /api/user/avatar - Remove the profile picture
+  removeAvatar: () =>
+    apiClient.delete<{ success: boolean }>('/api/user/avatar')
+      .then((response) => response.data),
+
+  // PUT /api/user/password - Change password (logs out all other devices)
+  changePassword: (data: { currentPassword: string; newPassword: string }) =>
+    apiClient.put<{ success: boolean; message: string }>('/api/user/password', data)
+      .then((response) => response.data),
+
+  // POST /api/user/password - Set a password on a Google-only account
+  setPassword: (newPassword: string) =>
+    apiClient.post<{ success: boolean; message: string }>('/api/user/password', { newPassword })
+      .then((response) => response.data),
+
+  // DELETE /api/user/password - Remove password (Google must be connected)
+  removePassword: (currentPassword: string) =>
+    apiClient.delete<{ success: boolean; message: string }>('/api/user/password', { data: { currentPassword } })
+      .then((response) => response.data),
+
+  // GET /api/user/linked-accounts - Which login methods are connected
+  getLinkedAccounts: () =>
+    apiClient.get<LinkedAccounts>('/api/user/linked-accounts')
+      .then((response) => response.data),
+
+  // DELETE /api/user/linked-accounts/google - Disconnect Google (a password must be set)
+  unlinkGoogle: () =>
+    apiClient.delete<{ success: boolean; message: string }>('/api/user/linked-accounts/google')
+      .then((response) => response.data),
+
+  // GET /api/user/export?format=json|zip - Download all personal data
+  exportData: (format: 'json' | 'zip') =>
+    apiClient.get<Blob>('/api/user/export', {
+      params: { format },
+      responseType: 'blob',
+      timeout: 60000, // Large accounts take a while to export
+    }).then((response) => response.data),
+
+  // GET /api/user/account-deletion - Whether the account is scheduled for deletion
+  getAccountDeletionStatus: () =>
+    apiClient.get<AccountDeletionStatus>('/api/user/account-deletion')
+      .then((response) => response.data),
+
+  // POST /api/user/account-deletion - Schedule account deletion (password, or email for Google-only accounts)
+  scheduleAccountDeletion: (data: { password?: string; confirmEmail?: string }) =>
+    apiClient.post<{ success: boolean; scheduledAt: string; message: string }>('/api/user/account-deletion', data)
+      .then((response) => response.data),
+
+  // DELETE /api/user/account-deletion - Cancel scheduled deletion
+  cancelAccountDeletion: () =>
+    apiClient.delete<{ success: boolean; message: string }>('/api/user/account-deletion')
+      .then((response) => response.data),
+
+  // GET /api/user/sessions - List active sessions (logged-in devices)
+  getSessions: () =>
+    apiClient.get<{ sessions: UserSession[] }>('/api/user/sessions')
+      .then((response) => response.data),
+
+  // DELETE /api/user/sessions/:id - Log out one device
+  revokeSession: (sessionId: string) =>
+    apiClient.delete<{ success: boolean; current: boolean }>(`/api/user/sessions/${sessionId}`)
+      .then((response) => response.data),
+
+  // GET /api/user/two-factor - Get 2FA status
+  getTwoFactorStatus: () =>
+    apiClient.get<{ enabled: boolean; available: boolean; remainingRecoveryCodes: number }>('/api/user/two-factor')
+      .then((response) => response.data),
+
+  // POST /api/user/two-factor/setup - Start 2FA setup (returns secret and otpauth URI)
+  setupTwoFactor: () =>
+    apiClient.post<{ secret: string; otpauthUri: string }>('/api/user/two-factor/setup')
+      .then((response) => response.data),
+
+  // POST /api/user/two-factor/enable - Confirm 2FA setup with a code (returns recovery codes)
+  enableTwoFactor: (code: string) =>
+    apiClient.post<{ success: boolean; recoveryCodes: string[] }>('/api/user/two-factor/enable', { code })
+      .then((response) => response.data),
+
+  // POST /api/user/two-factor/disable - Disable 2FA (requires password, logs out all other devices)
+  disableTwoFactor: (password: string) =>
+    apiClient.post<{ success: boolean; message: string }>('/api/user/two-factor/disable', { password })
+      .then((response) => response.data),
 
   // GET /api/user/points - Get current user's points and badges
   getUserPoints: () =>
@@ -297,10 +460,27 @@ export const api = {
   getComments: (postId: string) =>
     apiClient.get(`/api/posts/${postId}/comments`).then((response) => response.data),
 
+  // PUT /api/posts/[id]/comments/[commentId] - Edit own comment (old text is kept as a revision)
+  updateComment: (postId: string, commentId: string, data: { content: string }) =>
+    apiClient.put(`/api/posts/${postId}/comments/${commentId}`, data).then((response) => response.data),
+
+  // DELETE /api/posts/[id]/comments/[commentId] - Delete a comment (own, or as moderator)
+  deleteComment: (postId: string, commentId: string) =>
+    apiClient.delete(`/api/posts/${postId}/comments/${commentId}`).then((response) => response.data),
+
   // POST /api/posts/[id]/comments - Create a new comment
   createComment: (postId: string, data: { content: string; parentId?: string }) =>
     apiClient.post(`/api/posts/${postId}/comments`, data).then((response) => response.data),
 
+  /**
+   * Reports API
+   */
+
+  // POST /api/reports - Report a post, comment or user to the moderators
+  reportContent: (data: { targetType: 'post' | 'comment' | 'user'; targetId: string; reason: string; details?: string }) =>
+    apiClient.post<{ success: boolean; message: string }>('/api/reports', data)
+      .then((response) => response.data),
+
   /**
    * Logout API call
    * 
@@ -315,6 +495,20 @@ export const api = {
   logout: () =>
     apiClient.post('/api/auth/logout').then((response) => response.data),
 
+  /**
+   * Logout All Devices API call
+   * 
+   * Invalidates every token issued for this account (all devices),
+   * including the current one.
+   * 
+   * @returns Promise with success status
+   * 
+   * Example:
+   *   await api.logoutAllDevices();
+   */
+  logoutAllDevices: () =>
+    apiClient.post('/api/auth/logout-all').then((response) => response.data),
+
   /**
    * Check Username Availability
    * 
@@ -367,13 +561,56 @@ export const api = {
     apiClient.post<{ success: boolean; message: string; alreadyVerified?: boolean }>('/api/auth/resend-verification', { email })
       .then((response) => response.data),
 
+  /**
+   * Forgot Password
+   * 
+   * Requests a password reset link for an email/password account.
+   * Always resolves with the same message whether or not the email exists.
+   * 
+   * @param email - User's email address
+   * @returns Promise with success status and message
+   * 
+   * Example:
+   *   await api.forgotPassword('user@example.com');
+   */
+  forgotPassword: (email: string) =>
+    apiClient.post<{ success: boolean; message: string }>('/api/auth/forgot-password', { email })
+      .then((response) => response.data),
+
+  /**
+   * Reset Password
+   * 
+   * Sets a new password using the token from the reset email link.
+   * 
+   * @param token - Reset token from the email link
+   * @param password - New password
+   * @returns Promise with success status and message
+   * 
+   * Example:
+   *   await api.resetPassword(token, 'NewSecurePass123!');
+   */
+  resetPassword: (token: string, password: string) =>
+    apiClient.post<{ success: boolean; message: string }>('/api/auth/reset-password', { token, password })
+      .then((response) => response.data),
+
   /**
    * Ideology API
    * 
    * @param userId - ID of user to get ideology for
+   * @returns Stance per category (403 if the user keeps it private)
    */
   getIdeology: (userId: string) =>
-    apiClient.get(`/api/user/${userId}/ideology`).then((response) => response.data),
+    apiClient.get<IdeologyProfile>(`/api/user/${userId}/ideology`).then((response) => response.data),
+
+  /**
+   * Change who can see your ideology profile
+   * 
+   * @param userId - Your user ID
+   * @param visibility - private (only you), members (logged-in users) or public
+   */
+  updateIdeologyVisibility: (userId: string, visibility: IdeologyVisibility) =>
+    apiClient.put<{ success: boolean; visibility: IdeologyVisibility }>(`/api/user/${userId}/ideology`, { visibility })
+      .then((response) => response.data),
 
   /**
    * Categories API
@@ -397,6 +634,16 @@ export const api = {
   getCategoryBySlug: (slug: string) =>
     apiClient.get<Category>(`/api/categories/${slug}`).then((response) => response.data),
 
+  /**
+   * Opinion map of a sub category
+   * 
+   * @param slug - Sub category slug
+   * @returns Groups of voters who vote alike (null until there are enough votes)
+   */
+  getOpinionMap: (slug: string) =>
+    apiClient.get<{ map: OpinionMap | null }>(`/api/categories/${slug}/opinion-map`)
+      .then((response) => response.data.map),
+
   /**
    * Saved Posts API
    * 
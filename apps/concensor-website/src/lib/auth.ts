@@ -3,13 +3,18 @@
  * 
  * This file contains helper functions for:
  * - Password hashing and verification (bcrypt)
+ * - Password strength and username validation
  * - JWT token generation and verification
+ * - Two-factor login challenge tokens
+ * - Account link tokens (connecting Google to a logged-in account)
+ * - One-time token hashing (password reset)
  * 
  * These functions are used in login and signup routes.
  */
 
 import bcrypt from 'bcryptjs'; // Library for password hashing
 import jwt from 'jsonwebtoken'; // Library for JWT token creation and verification
+import crypto from 'crypto'; // Node.js crypto module for hashing one-time tokens
 
 /**
  * JWT Secret Key
@@ -41,6 +46,7 @@ export interface JWTPayload {
   userId: string;        // User's unique ID
   email: string;         // User's email
   tokenVersion: number;  // Version number (increments when password changes, invalidates old tokens)
+  sessionId: string;     // Session registry row for this login (revoking it logs out this device only)
 }
 
 /**
@@ -99,7 +105,8 @@ export async function verifyPassword(password: string, hash: string): Promise<bo
  *   const token = generateToken({
  *     userId: '123',
  *     email: 'user@example.com',
- *     tokenVersion: 0
+ *     tokenVersion: 0,
+ *     sessionId: session.id
  *   });
  */
 export function generateToken(payload: JWTPayload): string {
@@ -119,7 +126,7 @@ export function generateToken(payload: JWTPayload): string {
  * Throws an error if token is invalid or expired.
  * 
  * @param token - JWT token string to verify
- * @returns JWTPayload - Decoded token data (userId, email, tokenVersion)
+ * @returns JWTPayload - Decoded token data (userId, email, tokenVersion, sessionId)
  * @throws Error - If token is invalid, expired, or tampered with
  * 
  * Example:
@@ -139,3 +146,164 @@ export function verifyToken(token: string): JWTPayload {
   return jwt.verify(token, JWT_SECRET) as JWTPayload;
 }
 
+/**
+ * Two-Factor Challenge
+ * 
+ * Short-lived token returned by login when the account has 2FA enabled.
+ * It proves the password step succeeded and is exchanged for the real
+ * auth cookie once a valid TOTP or recovery code is entered.
+ * 
+ * Signed with a separate key so it can never be used as a login token.
+ */
+const TWO_FACTOR_CHALLENGE_SECRET = `${JWT_SECRET}:two-factor-challenge`;
+const TWO_FACTOR_CHALLENGE_EXPIRES_IN = '5m';
+
+export interface TwoFactorChallengePayload {
+  userId: string;        // User who passed the password step
+  tokenVersion: number;  // Challenge dies if tokens are invalidated in between
+}
+
+/**
+ * Generate Two-Factor Challenge Token
+ * 
+ * @param payload - User ID and current tokenVersion
+ * @returns string - JWT valid for 5 minutes
+ */
+export function generateTwoFactorChallengeToken(payload: TwoFactorChallengePayload): string {
+  return jwt.sign(payload, TWO_FACTOR_CHALLENGE_SECRET, {
+    expiresIn: TWO_FACTOR_CHALLENGE_EXPIRES_IN,
+  } as jwt.SignOptions);
+}
+
+/**
+ * Verify Two-Factor Challenge Token
+ * 
+ * @param token - Challenge token from the login response
+ * @returns TwoFactorChallengePayload - Decoded payload
+ * @throws Error - If token is invalid or expired
+ */
+export function verifyTwoFactorChallengeToken(token: string): TwoFactorChallengePayload {
+  return jwt.verify(token, TWO_FACTOR_CHALLENGE_SECRET) as TwoFactorChallengePayload;
+}
+
+/**
+ * Account Link Token
+ * 
+ * Short-lived token proving which logged-in user started "Connect Google".
+ * Stored in a cookie that survives the redirect through Google (the auth
+ * cookie is SameSite=strict and is not sent on that redirect).
+ * 
+ * Signed with a separate key so it can never be used as a login token.
+ */
+const ACCOUNT_LINK_SECRET = `${JWT_SECRET}:account-link`;
+const ACCOUNT_LINK_EXPIRES_IN = '10m';
+
+export interface AccountLinkPayload {
+  userId: string;        // User who is connecting the Google account
+  tokenVersion: number;  // Link intent dies if tokens are invalidated in between
+}
+
+/**
+ * Generate Account Link Token
+ * 
+ * @param payload - User ID and current tokenVersion
+ * @returns string - JWT valid for 10 minutes (same as the OAuth state cookie)
+ */
+export function generateAccountLinkToken(payload: AccountLinkPayload): string {
+  return jwt.sign(payload, ACCOUNT_LINK_SECRET, {
+    expiresIn: ACCOUNT_LINK_EXPIRES_IN,
+  } as jwt.SignOptions);
+}
+
+/**
+ * Verify Account Link Token
+ * 
+ * @param token - Token from the oauth_link cookie
+ * @returns AccountLinkPayload - Decoded payload
+ * @throws Error - If token is invalid or expired
+ */
+export function verifyAccountLinkToken(token: string): AccountLinkPayload {
+  return jwt.verify(token, ACCOUNT_LINK_SECRET) as AccountLinkPayload;
+}
+
+/**
+ * Validate Password Strength
+ * 
+ * Applies the password rules used at signup to any new password
+ * (signup, password reset, password change).
+ * 
+ * Rules:
+ * - At least 12 characters
+ * - At least one uppercase letter
+ * - At least one symbol
+ * 
+ * @param password - Plain text password (already trimmed)
+ * @returns string | null - Error message if invalid, null if password is strong enough
+ * 
+ * Example:
+ *   const passwordError = validatePasswordStrength(password);
+ *   if (passwordError) {
+ *     return NextResponse.json({ error: passwordError }, { status: 400 });
+ *   }
+ */
+export function validatePasswordStrength(password: string): string | null {
+  // Check 1: Minimum length (12 characters)
+  // Longer passwords are exponentially harder to crack
+  if (password.length < 12) {
+    return 'Password must be at least 12 characters';
+  }
+
+  // Check 2: Must contain uppercase letter
+  if (!/[A-Z]/.test(password)) {
+    return 'Password must contain at least one uppercase letter';
+  }
+
+  // Check 3: Must contain symbol
+  // Symbols make passwords harder to guess
+  if (!/[!@#$%^&*()_+\-=\[\]{};':"\\|,.<>\/?]/.test(password)) {
+    return 'Password must contain at least one symbol';
+  }
+
+  return null;
+}
+
+/**
+ * Validate Username
+ * 
+ * Applies the username rules used at signup (signup, profile update).
+ * 
+ * Rules:
+ * - 3 to 30 characters
+ * - Only letters, numbers and underscores
+ * 
+ * @param username - Username (already trimmed)
+ * @returns string | null - Error message if invalid, null if the username is allowed
+ */
+export function validateUsername(username: string): string | null {
+  if (username.length < 3 || username.length > 30) {
+    return 'Username must be 3-30 characters';
+  }
+
+  if (!/^[a-zA-Z0-9_]+$/.test(username)) {
+    return 'Username can only contain letters, numbers, and underscores';
+  }
+
+  return null;
+}
+
+/**
+ * Hash Token
+ * 
+ * Hashes a one-time token (e.g., password reset token) with SHA-256
+ * before it is stored in the database. Only the hash is stored, so a
+ * leaked database row cannot be used to reset someone's password.
+ * 
+ * Unlike passwords, these tokens are long random strings, so a fast hash
+ * is enough (no need for bcrypt).
+ * 
+ * @param token - Plain token (the one sent in the email link)
+ * @returns string - Hex-encoded SHA-256 hash
+ */
+export function hashToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
@@ -0,0 +1,543 @@
+/**
+ * Automod Rules Engine
+ *
+ * Rules are stored in AutomodRule and checked when a post or comment is
+ * created. A rule is site-wide (categoryId null, managed by admins) or scoped
+ * to a main category (managed by that category's moderators).
+ *
+ * Rule types and their config:
+ * - keyword: { keywords: string[] }      Whole-word match, case-insensitive
+ * - regex: { patterns: string[] }        Case-insensitive regular expressions (admins only;
+ *                                         no backreferences or nested repetition, see
+ *                                         isSafePattern; matched against the first
+ *                                         MAX_REGEX_TEXT_LENGTH characters)
+ * - link_limit: { maxLinks: number }     More links than this is a match
+ * - account_age: { minDays: number }     Accounts younger than this are a match
+ * - verified_email: {}                   Unverified email accounts are a match
+ * - category_points: { minPoints: number } Fewer UserCategoryPoints than this is a match
+ *
+ * Actions (the most severe matching rule wins):
+ * - reject: Refuse the content with the rule's message
+ * - hold: Save it as 'pending' and report it; a moderator approves or removes it
+ * - flag: Publish it and report it to the moderators
+ *
+ * Moderators of the category and admins are never checked.
+ */
+
+import { PrismaClient } from '@prisma/client';
+import { canModerateCategory } from '@/lib/permissions';
+import { MODERATION_CONFIG, type ModerationTarget } from '@/lib/moderation';
+
+export const AUTOMOD_CONFIG = {
+  MAX_NAME_LENGTH: 100,
+  MAX_MESSAGE_LENGTH: 300,
+  MAX_LIST_ITEMS: 200,     // Keywords / patterns per rule
+  MAX_ITEM_LENGTH: 200,    // Characters per keyword / pattern
+  MAX_SAMPLE_LENGTH: 10000, // Text sent to the test endpoint
+  MAX_REGEX_TEXT_LENGTH: 10000, // Text regex rules are matched against (the rest is ignored)
+  MAX_LINKS: 100,
+  MAX_ACCOUNT_AGE_DAYS: 3650,
+  MAX_MIN_POINTS: 1000000,
+};
+
+export const AUTOMOD_RULE_TYPES = [
+  'keyword',
+  'regex',
+  'link_limit',
+  'account_age',
+  'verified_email',
+  'category_points',
+] as const;
+
+export type AutomodRuleType = (typeof AUTOMOD_RULE_TYPES)[number];
+
+export const AUTOMOD_ACTIONS = ['reject', 'hold', 'flag'] as const;
+
+export type AutomodAction = (typeof AUTOMOD_ACTIONS)[number];
+
+export const AUTOMOD_TARGETS = ['post', 'comment', 'all'] as const;
+
+export type AutomodTarget = (typeof AUTOMOD_TARGETS)[number];
+
+/**
+ * Reason code of the reports automod files for held and flagged content
+ */
+export const AUTOMOD_REPORT_REASON = 'automod';
+
+// Most severe first
+const ACTION_SEVERITY: AutomodAction[] = ['reject', 'hold', 'flag'];
+
+const LINK_PATTERN = /\bhttps?:\/\/\S+|\bwww\.\S+/gi;
+
+/**
+ * Rule fields the engine needs (an AutomodRule row, or an unsaved rule being tested)
+ */
+export interface AutomodRuleData {
+  id?: string;
+  name: string;
+  categoryId: string | null;
+  appliesTo: AutomodTarget;
+  type: AutomodRuleType;
+  config: Record<string, unknown>;
+  action: AutomodAction;
+  message: string | null;
+  enabled: boolean;
+}
+
+/**
+ * What the account-based rules look at
+ */
+export interface AutomodAuthor {
+  accountAgeDays: number;
+  emailVerified: boolean;
+  categoryPoints: number; // Points in the content's main category
+}
+
+/**
+ * A rule that matched
+ */
+export interface AutomodMatch {
+  ruleId: string | null; // null for an unsaved rule
+  name: string;
+  action: AutomodAction;
+  detail: string; // Why it matched, for moderators
+}
+
+/**
+ * Outcome of checking a post or comment
+ */
+export interface AutomodResult {
+  decision: 'allow' | AutomodAction;
+  matches: AutomodMatch[];
+  message: string | null; // Shown to the author on reject
+}
+
+type ParseResult<T> = { value: T; error?: undefined } | { value?: undefined; error: string };
+
+function isStringList(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every((item) => typeof item === 'string');
+}
+
+function parseBoundedInteger(value: unknown, field: string, min: number, max: number): ParseResult<number> {
+  if (!Number.isInteger(value) || (value as number) < min || (value as number) > max) {
+    return { error: `config.${field} must be a whole number from ${min} to ${max}` };
+  }
+  return { value: value as number };
+}
+
+/**
+ * Whether a regex pattern is free of the constructs that make matching take
+ * exponential time: backreferences, and repeated groups that contain a
+ * quantifier or an alternation, like (a+)+ or (a|ab)*
+ */
+export function isSafePattern(pattern: string): boolean {
+  // Per open group: whether it contains a quantifier or |
+  const groups: boolean[] = [];
+  let inClass = false;
+  let closedRiskyGroup = false; // The previous token closed such a group
+
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    const afterRiskyGroup = closedRiskyGroup;
+    closedRiskyGroup = false;
+
+    if (char === '\\') {
+      const escaped = pattern[i + 1] ?? '';
+      if (!inClass && /[1-9k]/.test(escaped)) {
+        return false;
+      }
+      i++;
+      continue;
+    }
+    if (inClass) {
+      inClass = char !== ']';
+      continue;
+    }
+    if (char === '[') {
+      inClass = true;
+      continue;
+    }
+    if (char === '(') {
+      groups.push(false);
+      // Skip the ?:, ?=, ?!, ?<=, ?<! or ?<name> prefix so its ? isn't read as a quantifier
+      if (pattern[i + 1] === '?') {
+        i += 2;
+        if (pattern[i] === '<' && pattern[i + 1] !== '=' && pattern[i + 1] !== '!') {
+          const nameEnd = pattern.indexOf('>', i);
+          i = nameEnd === -1 ? pattern.length : nameEnd;
+        } else if (pattern[i] === '<') {
+          i++;
+        }
+      }
+      continue;
+    }
+    if (char === ')') {
+      closedRiskyGroup = groups.pop() ?? false;
+      if (groups.length > 0 && closedRiskyGroup) {
+        groups[groups.length - 1] = true;
+      }
+      continue;
+    }
+
+    const isQuantifier =
+      char === '*' || char === '+' || char === '?' || (char === '{' && /^\{\d+(,\d*)?\}/.test(pattern.slice(i)));
+    if (isQuantifier && afterRiskyGroup) {
+      return false;
+    }
+    if ((isQuantifier || char === '|') && groups.length > 0) {
+      groups[groups.length - 1] = true;
+    }
+  }
+
+  return true;
+}
+
+/**
+ * Validate and normalize a rule's config for its type
+ *
+ * @returns The config to store, or an error message
+ */
+export function parseRuleConfig(type: AutomodRuleType, config: unknown): ParseResult<Record<string, unknown>> {
+  const raw = (config && typeof config === 'object' ? config : {}) as Record<string, unknown>;
+
+  if (type === 'keyword' || type === 'regex') {
+    const field = type === 'keyword' ? 'keywords' : 'patterns';
+    const list = raw[field];
+    if (!isStringList(list)) {
+      return { error: `config.${field} must be a list of strings` };
+    }
+    const items = [...new Set(list.map((item) => item.trim()).filter(Boolean))];
+    if (items.length === 0 || items.length > AUTOMOD_CONFIG.MAX_LIST_ITEMS) {
+      return { error: `config.${field} must have 1 to ${AUTOMOD_CONFIG.MAX_LIST_ITEMS} entries` };
+    }
+    if (items.some((item) => item.length > AUTOMOD_CONFIG.MAX_ITEM_LENGTH)) {
+      return { error: `Each entry in config.${field} must be ${AUTOMOD_CONFIG.MAX_ITEM_LENGTH} characters or less` };
+    }
+    if (type === 'regex') {
+      for (const pattern of items) {
+        try {
+          new RegExp(pattern, 'iu');
+        } catch {
+          return { error: `Invalid regular expression: ${pattern}` };
+        }
+        if (!isSafePattern(pattern)) {
+          return { error: `Backreferences and repeated groups containing a quantifier or | are not allowed: ${pattern}` };
+        }
+      }
+    }
+    return { value: { [field]: type === 'keyword' ? items.map((item) => item.toLowerCase()) : items } };
+  }
+
+  if (type === 'link_limit') {
+    const maxLinks = parseBoundedInteger(raw.maxLinks, 'maxLinks', 0, AUTOMOD_CONFIG.MAX_LINKS);
+    return maxLinks.error !== undefined ? { error: maxLinks.error } : { value: { maxLinks: maxLinks.value } };
+  }
+
+  if (type === 'account_age') {
+    const minDays = parseBoundedInteger(raw.minDays, 'minDays', 1, AUTOMOD_CONFIG.MAX_ACCOUNT_AGE_DAYS);
+    return minDays.error !== undefined ? { error: minDays.error } : { value: { minDays: minDays.value } };
+  }
+
+  if (type === 'category_points') {
+    const minPoints = parseBoundedInteger(raw.minPoints, 'minPoints', 1, AUTOMOD_CONFIG.MAX_MIN_POINTS);
+    return minPoints.error !== undefined ? { error: minPoints.error } : { value: { minPoints: minPoints.value } };
+  }
+
+  return { value: {} }; // verified_email has no settings
+}
+
+/**
+ * Validate a rule from a request body
+ *
+ * @param body - Request body
+ * @param existing - Current rule when updating (missing fields keep their value)
+ * @returns The rule, or an error message
+ */
+export function parseRuleInput(body: any, existing?: AutomodRuleData): ParseResult<AutomodRuleData> {
+  const name = body.name !== undefined ? body.name : existing?.name;
+  const appliesTo = body.appliesTo !== undefined ? body.appliesTo : existing?.appliesTo ?? 'all';
+  const type = body.type !== undefined ? body.type : existing?.type;
+  const action = body.action !== undefined ? body.action : existing?.action;
+  const message = body.message !== undefined ? body.message : existing?.message ?? null;
+  const enabled = body.enabled !== undefined ? body.enabled : existing?.enabled ?? true;
+  const categoryId = body.categoryId !== undefined ? body.categoryId : existing?.categoryId ?? null;
+
+  // ✅ VALIDATION: Check input types
+  if (
+    typeof name !== 'string' ||
+    (message !== null && typeof message !== 'string') ||
+    typeof enabled !== 'boolean' ||
+    (categoryId !== null && typeof categoryId !== 'string')
+  ) {
+    return { error: 'Invalid input type' };
+  }
+
+  if (name.trim().length === 0 || name.trim().length > AUTOMOD_CONFIG.MAX_NAME_LENGTH) {
+    return { error: `Name must be 1 to ${AUTOMOD_CONFIG.MAX_NAME_LENGTH} characters` };
+  }
+
+  if (!AUTOMOD_RULE_TYPES.includes(type)) {
+    return { error: `Type must be one of: ${AUTOMOD_RULE_TYPES.join(', ')}` };
+  }
+
+  if (!AUTOMOD_ACTIONS.includes(action)) {
+    return { error: `Action must be one of: ${AUTOMOD_ACTIONS.join(', ')}` };
+  }
+
+  if (!AUTOMOD_TARGETS.includes(appliesTo)) {
+    return { error: `appliesTo must be one of: ${AUTOMOD_TARGETS.join(', ')}` };
+  }
+
+  if (message && message.trim().length > AUTOMOD_CONFIG.MAX_MESSAGE_LENGTH) {
+    return { error: `Message must be ${AUTOMOD_CONFIG.MAX_MESSAGE_LENGTH} characters or less` };
+  }
+
+  // A new type needs a new config; otherwise keep the stored one unless replaced
+  const rawConfig = body.config !== undefined || type !== existing?.type ? body.config : existing?.config;
+  const config = parseRuleConfig(type, rawConfig);
+  if (config.error !== undefined) {
+    return { error: config.error };
+  }
+
+  return {
+    value: {
+      name: name.trim(),
+      categoryId,
+      appliesTo,
+      type,
+      config: config.value,
+      action,
+      message: message?.trim() || null,
+      enabled,
+    },
+  };
+}
+
+/**
+ * Turn a stored AutomodRule row into rule data
+ */
+export function toRuleData(rule: {
+  id: string;
+  name: string;
+  categoryId: string | null;
+  appliesTo: string;
+  type: string;
+  config: unknown;
+  action: string;
+  message: string | null;
+  enabled: boolean;
+}): AutomodRuleData {
+  return {
+    id: rule.id,
+    name: rule.name,
+    categoryId: rule.categoryId,
+    appliesTo: rule.appliesTo as AutomodTarget,
+    type: rule.type as AutomodRuleType,
+    config: (rule.config ?? {}) as Record<string, unknown>,
+    action: rule.action as AutomodAction,
+    message: rule.message,
+    enabled: rule.enabled,
+  };
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Check one rule against a text and its author
+ *
+ * @returns Why the rule matched, or null if it didn't
+ */
+export function evaluateRule(rule: AutomodRuleData, text: string, author: AutomodAuthor): string | null {
+  const config = rule.config;
+
+  switch (rule.type) {
+    case 'keyword': {
+      const keywords = (config.keywords as string[] | undefined) ?? [];
+      const found = keywords.find((keyword) =>
+        new RegExp(`(^|[^\\p{L}\\p{N}_])${escapeRegExp(keyword)}($|[^\\p{L}\\p{N}_])`, 'iu').test(text)
+      );
+      return found ? `Contains "${found}"` : null;
+    }
+    case 'regex': {
+      const patterns = (config.patterns as string[] | undefined) ?? [];
+      const sample = text.slice(0, AUTOMOD_CONFIG.MAX_REGEX_TEXT_LENGTH);
+      const found = patterns.find((pattern) => new RegExp(pattern, 'iu').test(sample));
+      return found ? `Matches /${found}/` : null;
+    }
+    case 'link_limit': {
+      const maxLinks = config.maxLinks as number;
+      const links = text.match(LINK_PATTERN)?.length ?? 0;
+      return links > maxLinks ? `${links} links (max ${maxLinks})` : null;
+    }
+    case 'account_age': {
+      const minDays = config.minDays as number;
+      return author.accountAgeDays < minDays
+        ? `Account is ${author.accountAgeDays} days old (min ${minDays})`
+        : null;
+    }
+    case 'verified_email':
+      return author.emailVerified ? null : 'Email address is not verified';
+    case 'category_points': {
+      const minPoints = config.minPoints as number;
+      return author.categoryPoints < minPoints
+        ? `${author.categoryPoints} points in this category (min ${minPoints})`
+        : null;
+    }
+    default:
+      return null;
+  }
+}
+
+/**
+ * Check a text against a list of rules
+ *
+ * @param rules - Rules to apply (disabled rules are skipped)
+ * @param text - Post title and content, or comment content
+ * @param author - Author's account data
+ * @param target - What is being checked (default message only)
+ */
+export function applyRules(
+  rules: AutomodRuleData[],
+  text: string,
+  author: AutomodAuthor,
+  target: 'post' | 'comment' = 'post'
+): AutomodResult {
+  const matches: AutomodMatch[] = [];
+  let rejectMessage: string | null = null;
+  for (const rule of rules) {
+    if (!rule.enabled) {
+      continue;
+    }
+    const detail = evaluateRule(rule, text, author);
+    if (detail) {
+      matches.push({ ruleId: rule.id ?? null, name: rule.name, action: rule.action, detail });
+      if (rule.action === 'reject' && !rejectMessage) {
+        rejectMessage = rule.message;
+      }
+    }
+  }
+
+  const decision = ACTION_SEVERITY.find((action) => matches.some((match) => match.action === action)) ?? 'allow';
+  const message = decision === 'reject'
+    ? rejectMessage ?? `Your ${target} was blocked by this category's automatic moderation rules.`
+    : null;
+
+  return { decision, matches, message };
+}
+
+/**
+ * Load the enabled rules that apply to new content in a category
+ * (site-wide rules first, then the category's own)
+ *
+ * @param db - Prisma client instance
+ * @param mainCategoryId - Main category of the post
+ * @param target - post or comment
+ */
+export async function getApplicableRules(
+  db: PrismaClient,
+  mainCategoryId: string,
+  target: 'post' | 'comment'
+): Promise<AutomodRuleData[]> {
+  const rules = await db.automodRule.findMany({
+    where: {
+      enabled: true,
+      appliesTo: { in: [target, 'all'] },
+      OR: [{ categoryId: null }, { categoryId: mainCategoryId }],
+    },
+    orderBy: [{ categoryId: { sort: 'asc', nulls: 'first' } }, { createdAt: 'asc' }],
+  });
+  return rules.map(toRuleData);
+}
+
+/**
+ * Load the account data the account-based rules look at
+ *
+ * @param db - Prisma client instance
+ * @param userId - Author
+ * @param mainCategoryId - Category whose points count
+ */
+export async function getAutomodAuthor(
+  db: PrismaClient,
+  userId: string,
+  mainCategoryId: string | null
+): Promise<AutomodAuthor> {
+  const [user, categoryPoints] = await Promise.all([
+    db.user.findUnique({
+      where: { id: userId },
+      select: { createdAt: true, emailVerified: true, provider: true },
+    }),
+    mainCategoryId
+      ? db.userCategoryPoints.findUnique({
+          where: { userId_categoryId: { userId, categoryId: mainCategoryId } },
+          select: { points: true },
+        })
+      : null,
+  ]);
+
+  return {
+    accountAgeDays: user ? Math.floor((Date.now() - user.createdAt.getTime()) / (24 * 60 * 60 * 1000)) : 0,
+    emailVerified: !!user && (user.emailVerified || user.provider === 'google'), // Google verified the address
+    categoryPoints: categoryPoints?.points ?? 0,
+  };
+}
+
+/**
+ * Check a new post or comment
+ *
+ * @param db - Prisma client instance
+ * @param user - Author
+ * @param content - What is being created, its text and its main category
+ * @returns The decision; 'allow' for moderators of the category and admins
+ */
+export async function checkContent(
+  db: PrismaClient,
+  user: { id: string; role: string },
+  content: { target: 'post' | 'comment'; text: string; mainCategoryId: string }
+): Promise<AutomodResult> {
+  if (await canModerateCategory(db, user, content.mainCategoryId)) {
+    return { decision: 'allow', matches: [], message: null };
+  }
+
+  const rules = await getApplicableRules(db, content.mainCategoryId, content.target);
+  if (rules.length === 0) {
+    return { decision: 'allow', matches: [], message: null };
+  }
+
+  const author = await getAutomodAuthor(db, user.id, content.mainCategoryId);
+  return applyRules(rules, content.text, author, content.target);
+}
+
+/**
+ * Report held or flagged content to the moderators of its category
+ * The report has no reporter and reason 'automod'; details list the matched rules.
+ *
+ * @param db - Prisma client instance
+ * @param target - The post or comment that was just created
+ * @param matches - Rules that matched
+ */
+export async function fileAutomodReport(
+  db: PrismaClient,
+  target: ModerationTarget,
+  matches: AutomodMatch[]
+) {
+  const details = matches
+    .map((match) => `${match.name} (${match.action}): ${match.detail}`)
+    .join('\n')
+    .slice(0, MODERATION_CONFIG.MAX_DETAILS_LENGTH);
+
+  return db.report.create({
+    data: {
+      reporterId: null,
+      targetType: target.targetType,
+      targetId: target.targetId,
+      postId: target.postId,
+      commentId: target.commentId,
+      reportedUserId: target.targetUserId,
+      categoryId: target.categoryId,
+      reason: AUTOMOD_REPORT_REASON,
+      details,
+    },
+  });
+}
@@ -0,0 +1,56 @@
+/**
+ * Avatar URL Helpers
+ * 
+ * Uploaded avatars are stored in several square sizes (see src/lib/avatars.ts).
+ * profilePicture holds the URL of the largest one; these helpers pick the
+ * variant that fits where the picture is shown. Safe to use in client components.
+ */
+
+// Pixel sizes of the stored variants (square, WebP)
+export const AVATAR_SIZES = {
+  small: 48,   // Header, comments, post authors
+  medium: 128, // Sidebar
+  large: 256,  // Profile page
+} as const;
+
+export type AvatarSize = keyof typeof AVATAR_SIZES;
+
+// ".../avatars/<userId>/<version>/<px>.webp"
+const UPLOADED_AVATAR_PATTERN = /^(.*\/avatars\/[^/]+\/[^/]+\/)(\d+)\.webp$/;
+
+// Google profile pictures end with a size parameter: "...=s96-c"
+const GOOGLE_SIZE_PATTERN = /=s\d+(-c)?$/;
+
+/**
+ * Check if a profilePicture URL points to an uploaded avatar
+ * (as opposed to a Google profile picture)
+ */
+export function isUploadedAvatar(url: string | null | undefined): boolean {
+  return !!url && UPLOADED_AVATAR_PATTERN.test(url);
+}
+
+/**
+ * Get the URL of a profile picture at the given size
+ * 
+ * @param url - The user's profilePicture
+ * @param size - Variant to show
+ * @returns URL of the resized variant, or null if the user has no picture
+ */
+export function getAvatarUrl(url: string | null | undefined, size: AvatarSize): string | null {
+  if (!url) {
+    return null;
+  }
+
+  const pixels = AVATAR_SIZES[size];
+
+  const uploaded = url.match(UPLOADED_AVATAR_PATTERN);
+  if (uploaded) {
+    return `${uploaded[1]}${pixels}.webp`;
+  }
+
+  if (url.includes('googleusercontent.com') && GOOGLE_SIZE_PATTERN.test(url)) {
+    return url.replace(GOOGLE_SIZE_PATTERN, `=s${pixels}-c`);
+  }
+
+  return url;
+}
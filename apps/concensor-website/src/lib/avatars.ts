@@ -0,0 +1,147 @@
+/**
+ * Avatar Processing Service
+ * 
+ * Turns an uploaded image into the avatar variants in AVATAR_SIZES:
+ * 1. Checks the real image format (decoded from the bytes, not the client's MIME type)
+ * 2. Applies the EXIF orientation, then strips all metadata (EXIF, GPS, ICC, etc.)
+ * 3. Crops to a square and resizes to every size, encoded as WebP
+ * 
+ * Variants are stored under "avatars/<userId>/<version>/<px>.webp".
+ * A new upload gets a new version, so cached URLs of the old picture never
+ * show the new one (and vice versa).
+ */
+
+import crypto from 'crypto';
+import sharp from 'sharp';
+import { PrismaClient } from '@prisma/client';
+import { storageService } from '@/lib/storage';
+import { AVATAR_SIZES, isUploadedAvatar } from '@/lib/avatarUrl';
+
+export const AVATAR_CONFIG = {
+  MAX_FILE_SIZE: 5 * 1024 * 1024,    // 5 MB
+  MAX_INPUT_PIXELS: 25_000_000,      // Rejects decompression bombs (e.g. 5000x5000)
+  ACCEPTED_FORMATS: ['jpeg', 'png', 'webp', 'gif'] as string[],
+  WEBP_QUALITY: 82,
+};
+
+/**
+ * Storage prefix holding every avatar version of a user
+ */
+function avatarPrefix(userId: string): string {
+  return `avatars/${userId}/`;
+}
+
+/**
+ * Decode, clean and resize an uploaded image
+ * 
+ * @param input - Raw file contents
+ * @returns Variants keyed by pixel size, or an error message for the user
+ */
+export async function processAvatarImage(
+  input: Buffer
+): Promise<{ variants: Map<number, Buffer> } | { error: string }> {
+  if (input.length === 0) {
+    return { error: 'The file is empty' };
+  }
+  if (input.length > AVATAR_CONFIG.MAX_FILE_SIZE) {
+    return { error: 'Image must be 5 MB or smaller' };
+  }
+
+  // Only the first frame of animated GIF/WebP files is used
+  const image = sharp(input, { limitInputPixels: AVATAR_CONFIG.MAX_INPUT_PIXELS });
+
+  let format: string | undefined;
+  try {
+    format = (await image.metadata()).format;
+  } catch {
+    // Not an image sharp can decode, or larger than MAX_INPUT_PIXELS
+    return { error: 'The file is not a valid image' };
+  }
+
+  if (!format || !AVATAR_CONFIG.ACCEPTED_FORMATS.includes(format)) {
+    return { error: 'Image must be a JPEG, PNG, WebP or GIF' };
+  }
+
+  const variants = new Map<number, Buffer>();
+  try {
+    for (const pixels of Object.values(AVATAR_SIZES)) {
+      const data = await image
+        .clone()
+        .rotate() // Apply EXIF orientation before the metadata is dropped
+        .resize(pixels, pixels, { fit: 'cover', position: 'attention' })
+        .webp({ quality: AVATAR_CONFIG.WEBP_QUALITY }) // sharp writes no metadata by default
+        .toBuffer();
+      variants.set(pixels, data);
+    }
+  } catch {
+    // Truncated or corrupt image data
+    return { error: 'The file is not a valid image' };
+  }
+
+  return { variants };
+}
+
+/**
+ * Store a new avatar and make it the user's profile picture
+ * Removes the previous uploaded avatar afterwards.
+ * 
+ * @param db - Prisma client
+ * @param userId - User ID
+ * @param previousPicture - The user's current profilePicture
+ * @param variants - Output of processAvatarImage
+ * @returns URL saved as profilePicture (largest variant)
+ */
+export async function saveAvatar(
+  db: PrismaClient,
+  userId: string,
+  previousPicture: string | null,
+  variants: Map<number, Buffer>
+): Promise<string> {
+  const version = `${Date.now().toString(36)}${crypto.randomBytes(4).toString('hex')}`;
+  const versionPrefix = `${avatarPrefix(userId)}${version}/`;
+
+  for (const [pixels, data] of variants) {
+    await storageService.putObject(`${versionPrefix}${pixels}.webp`, data, 'image/webp');
+  }
+
+  const profilePicture = storageService.getPublicUrl(`${versionPrefix}${AVATAR_SIZES.large}.webp`);
+  await db.user.update({
+    where: { id: userId },
+    data: { profilePicture },
+  });
+
+  // Old files are no longer referenced (best effort: the new avatar is already live)
+  if (isUploadedAvatar(previousPicture)) {
+    const previousVersion = previousPicture!.split('/').slice(-2)[0];
+    try {
+      await storageService.deletePrefix(`${avatarPrefix(userId)}${previousVersion}/`);
+    } catch (error) {
+      console.error('Error deleting previous avatar:', error);
+    }
+  }
+
+  return profilePicture;
+}
+
+/**
+ * Remove a user's uploaded avatar files and clear profilePicture
+ * 
+ * @param db - Prisma client
+ * @param userId - User ID
+ */
+export async function removeAvatar(db: PrismaClient, userId: string): Promise<void> {
+  await db.user.update({
+    where: { id: userId },
+    data: { profilePicture: null },
+  });
+  await deleteAvatarFiles(userId);
+}
+
+/**
+ * Delete every stored avatar file of a user (used when an account is purged)
+ * 
+ * @param userId - User ID
+ */
+export async function deleteAvatarFiles(userId: string): Promise<void> {
+  await storageService.deletePrefix(avatarPrefix(userId));
+}
@@ -0,0 +1,142 @@
+/**
+ * Comment Service
+ *
+ * Shared comment operations used by the comment routes and moderation.
+ * Comments are never hard-deleted: deleted and removed comments keep their
+ * row so replies stay attached and comment numbers (B1-1, ...) don't shift.
+ */
+
+import { Prisma, PrismaClient } from '@prisma/client';
+import { recalculateHotScore } from '@/lib/hotScore';
+
+/**
+ * Take a published comment down and update its post's counters
+ *
+ * Sets the status, decrements Post.commentCount and recalculates hotScore.
+ * Called in a transaction, together with the moderation log when a
+ * moderator removes it. status in the WHERE clause makes it idempotent: a
+ * comment taken down twice only counts once.
+ *
+ * @param tx - Transaction client
+ * @param commentId - Comment ID
+ * @param status - 'deleted' (by the commenter) or 'removed' (by a moderator)
+ * @returns false if the comment was not published
+ */
+export async function unpublishComment(
+  tx: Prisma.TransactionClient,
+  commentId: string,
+  status: 'deleted' | 'removed'
+): Promise<boolean> {
+  const comment = await tx.comment.findUnique({
+    where: { id: commentId },
+    select: { postId: true },
+  });
+  if (!comment) {
+    return false;
+  }
+
+  const result = await tx.comment.updateMany({
+    where: { id: commentId, status: 'published' },
+    data: { status },
+  });
+  if (result.count === 0) {
+    return false;
+  }
+
+  const updatedPost = await tx.post.update({
+    where: { id: comment.postId },
+    data: { commentCount: { decrement: 1 } },
+    select: {
+      totalVotes: true,
+      commentCount: true,
+      createdAt: true,
+    },
+  });
+
+  await tx.post.update({
+    where: { id: comment.postId },
+    data: { hotScore: recalculateHotScore(updatedPost) },
+  });
+
+  return true;
+}
+
+/**
+ * Publish a comment held by automod and update its post's counters
+ *
+ * Counterpart of unpublishComment(): sets the status to 'published',
+ * increments Post.commentCount and recalculates hotScore. Called in the same
+ * transaction as the moderation log.
+ *
+ * @param tx - Transaction client
+ * @param commentId - Comment ID
+ * @returns false if the comment was not pending
+ */
+export async function publishComment(tx: Prisma.TransactionClient, commentId: string): Promise<boolean> {
+  const comment = await tx.comment.findUnique({
+    where: { id: commentId },
+    select: { postId: true },
+  });
+  if (!comment) {
+    return false;
+  }
+
+  const result = await tx.comment.updateMany({
+    where: { id: commentId, status: 'pending' },
+    data: { status: 'published' },
+  });
+  if (result.count === 0) {
+    return false;
+  }
+
+  const updatedPost = await tx.post.update({
+    where: { id: comment.postId },
+    data: { commentCount: { increment: 1 } },
+    select: {
+      totalVotes: true,
+      commentCount: true,
+      createdAt: true,
+    },
+  });
+
+  await tx.post.update({
+    where: { id: comment.postId },
+    data: { hotScore: recalculateHotScore(updatedPost) },
+  });
+
+  return true;
+}
+
+/**
+ * Replace a comment's text and keep the old text as a revision
+ *
+ * @param db - Prisma client instance
+ * @param commentId - Comment ID (must be published)
+ * @param content - New text (already trimmed and validated)
+ * @returns The updated comment, or null if it is no longer published
+ */
+export async function editComment(db: PrismaClient, commentId: string, content: string) {
+  return db.$transaction(async (tx) => {
+    const comment = await tx.comment.findUnique({
+      where: { id: commentId },
+      select: { content: true, status: true },
+    });
+    if (!comment || comment.status !== 'published') {
+      return null;
+    }
+
+    // Same text: nothing to record
+    if (comment.content === content) {
+      return tx.comment.findUnique({ where: { id: commentId } });
+    }
+
+    await tx.commentRevision.create({
+      data: { commentId, content: comment.content },
+    });
+
+    return tx.comment.update({
+      where: { id: commentId },
+      data: { content, editedAt: new Date() },
+    });
+  });
+}
@@ -0,0 +1,114 @@
+/**
+ * Consensus History
+ *
+ * Rebuilds how a post's vote counts evolved by replaying its VoteChange
+ * rows (every vote cast, changed or retracted) and taking a snapshot at the
+ * end of each hour or day. Replaying the same events that moved the Post
+ * counters means the last snapshot always matches the current counts.
+ * Voters whose vote an admin excluded from the counters are left out too.
+ */
+
+import { PrismaClient } from '@prisma/client';
+import { VOTE_TYPES, getVoteValue, type VoteType } from '@/lib/votes';
+
+export const CONSENSUS_HISTORY_CONFIG = {
+  MAX_BUCKETS: 500, // Older buckets are dropped (their votes still count in the first one returned)
+} as const;
+
+export const HISTORY_INTERVALS = ['hour', 'day'] as const;
+export type HistoryInterval = (typeof HISTORY_INTERVALS)[number];
+
+const INTERVAL_MS: Record<HistoryInterval, number> = {
+  hour: 60 * 60 * 1000,
+  day: 24 * 60 * 60 * 1000,
+};
+
+export interface ConsensusSnapshot {
+  time: string; // Start of the bucket (UTC); counts are as of its end
+  counts: Record<VoteType, number>;
+  totalVotes: number;
+  weightedScore: number;
+}
+
+function emptyCounts(): Record<VoteType, number> {
+  return {
+    strongly_disagree: 0,
+    disagree: 0,
+    neutral: 0,
+    agree: 0,
+    strongly_agree: 0,
+  };
+}
+
+function snapshot(time: number, counts: Record<VoteType, number>): ConsensusSnapshot {
+  let totalVotes = 0;
+  let weightedScore = 0;
+  for (const type of VOTE_TYPES) {
+    totalVotes += counts[type];
+    weightedScore += counts[type] * getVoteValue(type);
+  }
+  return { time: new Date(time).toISOString(), counts: { ...counts }, totalVotes, weightedScore };
+}
+
+/**
+ * Vote counts of a post over time
+ *
+ * @param db - Prisma client instance
+ * @param postId - Post ID
+ * @param interval - Bucket size ('hour' or 'day', aligned to UTC)
+ * @param now - End of the last bucket
+ * @returns One snapshot per bucket from the first vote until now (empty if nobody voted)
+ */
+export async function getConsensusHistory(
+  db: PrismaClient,
+  postId: string,
+  interval: HistoryInterval,
+  now: Date = new Date()
+): Promise<ConsensusSnapshot[]> {
+  const excluded = await db.vote.findMany({
+    where: { postId, excluded: true },
+    select: { userId: true },
+  });
+
+  const changes = await db.voteChange.findMany({
+    where: {
+      postId,
+      createdAt: { lte: now },
+      userId: { notIn: excluded.map((vote) => vote.userId) },
+    },
+    select: { fromType: true, toType: true, createdAt: true },
+    orderBy: { createdAt: 'asc' },
+  });
+
+  if (changes.length === 0) {
+    return [];
+  }
+
+  const size = INTERVAL_MS[interval];
+  const lastBucket = Math.floor(now.getTime() / size) * size;
+  const firstBucket = Math.max(
+    Math.floor(changes[0].createdAt.getTime() / size) * size,
+    lastBucket - (CONSENSUS_HISTORY_CONFIG.MAX_BUCKETS - 1) * size
+  );
+
+  const counts = emptyCounts();
+  const snapshots: ConsensusSnapshot[] = [];
+  let next = 0;
+
+  for (let bucket = firstBucket; bucket <= lastBucket; bucket += size) {
+    const bucketEnd = bucket + size;
+    while (next < changes.length && changes[next].createdAt.getTime() < bucketEnd) {
+      const { fromType, toType } = changes[next];
+      if (fromType && fromType in counts) {
+        counts[fromType as VoteType]--;
+      }
+      if (toType && toType in counts) {
+        counts[toType as VoteType]++;
+      }
+      next++;
+    }
+    snapshots.push(snapshot(bucket, counts));
+  }
+
+  return snapshots;
+}
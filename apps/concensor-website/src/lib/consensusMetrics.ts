@@ -0,0 +1,130 @@
+/**
+ * Consensus Metrics
+ *
+ * Describes how a post's votes are spread over the five-point scale, beyond
+ * the agree / neutral / disagree percentages and weightedScore:
+ * - mean: average vote value (-2 to +2)
+ * - variance: spread of vote values around the mean (0 to 4)
+ * - entropy: normalized Shannon entropy of the five counts (0 = everyone
+ *   picked the same option, 1 = votes evenly spread over all five)
+ * - polarization: Leik's ordinal dispersion (0 = everyone picked the same
+ *   option, 1 = half strongly agree and half strongly disagree). Unlike
+ *   variance it treats the scale as ordered categories, so an even
+ *   agree / disagree split already counts as 0.5.
+ * - strength: label derived from polarization, shown to users and used to
+ *   filter lists
+ *
+ * The metrics are stored on Post whenever its vote counters change
+ * (updatePostVoteCounters) so lists can be sorted by them. The backfill in
+ * the add_consensus_metrics migration computes the same values in SQL; keep
+ * both in sync when changing the thresholds.
+ */
+
+import type { VoteType } from '@/lib/votes';
+
+export const CONSENSUS_METRICS_CONFIG = {
+  MIN_VOTES: 5, // Fewer votes: strength is 'insufficient' and the post isn't ranked
+  STRONG_MAX_POLARIZATION: 0.2, // e.g. 80% agree + 20% strongly agree (0.1)
+  MODERATE_MAX_POLARIZATION: 0.35, // e.g. 70% agree / 30% disagree (0.3)
+  DIVIDED_MIN_POLARIZATION: 0.5, // e.g. 50% agree / 50% disagree (0.5)
+} as const;
+
+export const CONSENSUS_STRENGTHS = ['insufficient', 'strong', 'moderate', 'weak', 'divided'] as const;
+export type ConsensusStrength = (typeof CONSENSUS_STRENGTHS)[number];
+
+export interface ConsensusMetrics {
+  voteMean: number;
+  voteVariance: number;
+  voteEntropy: number;
+  polarization: number;
+  consensusStrength: ConsensusStrength;
+}
+
+// Scale order, from -2 to +2
+const SCALE: { type: VoteType; value: number }[] = [
+  { type: 'strongly_disagree', value: -2 },
+  { type: 'disagree', value: -1 },
+  { type: 'neutral', value: 0 },
+  { type: 'agree', value: 1 },
+  { type: 'strongly_agree', value: 2 },
+];
+
+export function isConsensusStrength(value: unknown): value is ConsensusStrength {
+  return typeof value === 'string' && (CONSENSUS_STRENGTHS as readonly string[]).includes(value);
+}
+
+/**
+ * Label a post's consensus from its polarization
+ */
+export function getConsensusStrength(totalVotes: number, polarization: number): ConsensusStrength {
+  if (totalVotes < CONSENSUS_METRICS_CONFIG.MIN_VOTES) {
+    return 'insufficient';
+  }
+  if (polarization >= CONSENSUS_METRICS_CONFIG.DIVIDED_MIN_POLARIZATION) {
+    return 'divided';
+  }
+  if (polarization <= CONSENSUS_METRICS_CONFIG.STRONG_MAX_POLARIZATION) {
+    return 'strong';
+  }
+  if (polarization <= CONSENSUS_METRICS_CONFIG.MODERATE_MAX_POLARIZATION) {
+    return 'moderate';
+  }
+  return 'weak';
+}
+
+/**
+ * Compute the consensus metrics of a set of votes
+ *
+ * @param counts - Number of votes of each type
+ * @returns All metrics (zero, 'insufficient' when there are no votes)
+ */
+export function calculateConsensusMetrics(counts: Record<VoteType, number>): ConsensusMetrics {
+  const total = SCALE.reduce((sum, { type }) => sum + counts[type], 0);
+  if (total === 0) {
+    return { voteMean: 0, voteVariance: 0, voteEntropy: 0, polarization: 0, consensusStrength: 'insufficient' };
+  }
+
+  const shares = SCALE.map(({ type }) => counts[type] / total);
+
+  const mean = SCALE.reduce((sum, { value }, i) => sum + shares[i] * value, 0);
+  const variance = SCALE.reduce((sum, { value }, i) => sum + shares[i] * (value - mean) ** 2, 0);
+
+  const entropy = shares.reduce((sum, share) => sum - (share > 0 ? share * Math.log(share) : 0), 0);
+  const normalizedEntropy = entropy / Math.log(SCALE.length);
+
+  // Leik's D: 2 * sum of min(F, 1 - F) over the cumulative shares, divided by (categories - 1)
+  let cumulative = 0;
+  let dispersion = 0;
+  for (const share of shares.slice(0, -1)) {
+    cumulative += share;
+    dispersion += Math.min(cumulative, 1 - cumulative);
+  }
+  const polarization = (2 * dispersion) / (SCALE.length - 1);
+
+  return {
+    voteMean: mean,
+    voteVariance: variance,
+    voteEntropy: normalizedEntropy,
+    polarization,
+    consensusStrength: getConsensusStrength(total, polarization),
+  };
+}
+
+/**
+ * Consensus metrics from a post's vote counters
+ */
+export function calculatePostConsensusMetrics(post: {
+  stronglyDisagreeCount: number;
+  disagreeCount: number;
+  neutralCount: number;
+  agreeCount: number;
+  stronglyAgreeCount: number;
+}): ConsensusMetrics {
+  return calculateConsensusMetrics({
+    strongly_disagree: post.stronglyDisagreeCount,
+    disagree: post.disagreeCount,
+    neutral: post.neutralCount,
+    agree: post.agreeCount,
+    strongly_agree: post.stronglyAgreeCount,
+  });
+}
@@ -0,0 +1,212 @@
+/**
+ * Personal Data Export
+ *
+ * Collects everything stored about a user, for GET /api/user/export.
+ * Secrets (password hash, TOTP secrets, recovery codes, reset/verification
+ * tokens) are never included.
+ */
+
+import { PrismaClient } from '@prisma/client';
+import type { ZipEntry } from '@/lib/zip';
+
+/**
+ * Build the export for a user
+ *
+ * @param db - Prisma client instance
+ * @param userId - User ID
+ * @returns Object with one key per data set, or null if the user doesn't exist
+ */
+export async function buildUserDataExport(db: PrismaClient, userId: string) {
+  const user = await db.user.findUnique({
+    where: { id: userId },
+    select: {
+      id: true,
+      username: true,
+      email: true,
+      emailVerified: true,
+      provider: true,
+      googleId: true,
+      profilePicture: true,
+      role: true,
+      twoFactorEnabled: true,
+      points: true,
+      peakPoints: true,
+      lastLoginDate: true,
+      equippedBadgeCategory: { select: { id: true, name: true } },
+      ideologyVisibility: true,
+      deletionScheduledAt: true,
+      createdAt: true,
+      updatedAt: true,
+    },
+  });
+
+  if (!user) {
+    return null;
+  }
+
+  const category = { select: { id: true, name: true, slug: true } };
+  const postRef = { select: { id: true, title: true } };
+
+  const [posts, comments, votes, voteChanges, ideology, opinionGroups, savedPosts, categoryPoints, categoryViews, sessions, reports, suspensions] =
+    await Promise.all([
+      db.post.findMany({
+        where: { authorId: userId },
+        select: {
+          id: true,
+          title: true,
+          content: true,
+          status: true,
+          mainCategory: category,
+          subCategory: category,
+          stronglyAgreeCount: true,
+          agreeCount: true,
+          neutralCount: true,
+          disagreeCount: true,
+          stronglyDisagreeCount: true,
+          totalVotes: true,
+          commentCount: true,
+          viewCount: true,
+          createdAt: true,
+          updatedAt: true,
+        },
+        orderBy: { createdAt: 'asc' },
+      }),
+      db.comment.findMany({
+        where: { userId },
+        select: {
+          id: true,
+          post: postRef,
+          parentId: true,
+          content: true,
+          status: true,
+          createdAt: true,
+          updatedAt: true,
+        },
+        orderBy: { createdAt: 'asc' },
+      }),
+      db.vote.findMany({
+        where: { userId },
+        select: {
+          id: true,
+          post: postRef,
+          voteType: true,
+          voteValue: true,
+          createdAt: true,
+        },
+        orderBy: { createdAt: 'asc' },
+      }),
+      db.voteChange.findMany({
+        where: { userId },
+        select: {
+          post: postRef,
+          fromType: true,
+          toType: true,
+          createdAt: true,
+        },
+        orderBy: { createdAt: 'asc' },
+      }),
+      db.userIdeology.findMany({
+        where: { userId },
+        select: {
+          category,
+          stronglyAgreeCount: true,
+          agreeCount: true,
+          neutralCount: true,
+          disagreeCount: true,
+          stronglyDisagreeCount: true,
+          voteCount: true,
+          updatedAt: true,
+        },
+      }),
+      db.opinionGroupMember.findMany({
+        where: { userId },
+        select: {
+          x: true,
+          y: true,
+          group: {
+            select: {
+              label: true,
+              map: { select: { subCategory: category, computedAt: true } },
+            },
+          },
+        },
+      }),
+      db.savedPost.findMany({
+        where: { userId },
+        select: { post: postRef, createdAt: true },
+        orderBy: { createdAt: 'asc' },
+      }),
+      db.userCategoryPoints.findMany({
+        where: { userId },
+        select: {
+          category,
+          points: true,
+          peakPoints: true,
+          currentBadgeLevel: true,
+          peakBadgeLevel: true,
+          lastLoginDate: true,
+        },
+      }),
+      db.userCategoryView.findMany({
+        where: { userId },
+        select: { category, viewCount: true, lastViewedAt: true },
+        orderBy: { lastViewedAt: 'desc' },
+      }),
+      db.session.findMany({
+        where: { userId },
+        select: {
+          userAgent: true,
+          ipAddress: true,
+          createdAt: true,
+          lastSeenAt: true,
+          expiresAt: true,
+          revokedAt: true,
+        },
+        orderBy: { createdAt: 'asc' },
+      }),
+      db.report.findMany({
+        where: { reporterId: userId },
+        select: {
+          targetType: true,
+          targetId: true,
+          reason: true,
+          details: true,
+          status: true,
+          createdAt: true,
+        },
+        orderBy: { createdAt: 'asc' },
+      }),
+      db.userSuspension.findMany({
+        where: { userId },
+        select: { type: true, reason: true, expiresAt: true, liftedAt: true, createdAt: true },
+        orderBy: { createdAt: 'asc' },
+      }),
+    ]);
+
+  return {
+    exportedAt: new Date().toISOString(),
+    profile: user,
+    posts,
+    comments,
+    votes,
+    voteChanges,  // Every vote cast, changed or retracted
+    ideology,     // Vote counts per category behind the ideology profile
+    opinionGroups, // Opinion map group and position per sub category
+    savedPosts,
+    categoryPoints,
+    categoryViews,
+    sessions,
+    reports,      // Reports this user made
+    suspensions,
+  };
+}
+
+/**
+ * Split an export into one JSON file per data set (for the ZIP format)
+ */
+export function toZipEntries(data: Record<string, unknown>): ZipEntry[] {
+  return Object.entries(data).map(([key, value]) => ({
+    name: `${key}.json`,
+    content: JSON.stringify(value, null, 2),
+  }));
+}
@@ -0,0 +1,239 @@
+/**
+ * Draft Service
+ *
+ * Posts can be saved as drafts (status 'draft') and optionally scheduled with
+ * publishAt. Drafts are only visible to their author, get no points and can
+ * be edited freely (edits overwrite revision 1 instead of adding revisions).
+ *
+ * Publishing - by the author or by the scheduled job
+ * (scripts/publish-scheduled-posts.ts) - runs automod like a new post, sets
+ * createdAt to the publish time so the hot score doesn't count the time
+ * spent as a draft, and awards the post points.
+ */
+
+import { PrismaClient } from '@prisma/client';
+import { calculateHotScore } from '@/lib/hotScore';
+import { awardPostPoints } from '@/lib/pointsService';
+import { checkContent, fileAutomodReport } from '@/lib/automod';
+import { getActiveRestriction } from '@/lib/suspensions';
+
+export const DRAFT_CONFIG = {
+  MAX_SCHEDULE_DAYS: 90, // publishAt can be at most this far ahead
+};
+
+export const HELD_POST_MESSAGE = 'Your post was held for review by the moderators. It will appear once approved.';
+
+type ParseResult<T> = { value: T; error?: undefined } | { value?: undefined; error: string };
+
+export type PublishOutcome =
+  | { status: 'published' }
+  | { status: 'pending'; message: string } // Held by automod
+  | { status: 'rejected'; message: string } // Refused by automod; stays an unscheduled draft
+  | { status: 'restricted' } // Author is suspended or banned; stays scheduled
+  | { status: 'not_draft' };
+
+/**
+ * Validate a publishAt value from a request body
+ *
+ * @param value - ISO date string, or null / undefined for "not scheduled"
+ * @param now - Current time
+ * @returns The date (null if not scheduled), or an error message
+ */
+export function parsePublishAt(value: unknown, now: Date = new Date()): ParseResult<Date | null> {
+  if (value === undefined || value === null) {
+    return { value: null };
+  }
+
+  if (typeof value !== 'string') {
+    return { error: 'publishAt must be a date string' };
+  }
+
+  const publishAt = new Date(value);
+  if (isNaN(publishAt.getTime())) {
+    return { error: 'publishAt is not a valid date' };
+  }
+
+  if (publishAt.getTime() <= now.getTime()) {
+    return { error: 'publishAt must be in the future' };
+  }
+
+  const latest = now.getTime() + DRAFT_CONFIG.MAX_SCHEDULE_DAYS * 24 * 60 * 60 * 1000;
+  if (publishAt.getTime() > latest) {
+    return { error: `Posts can be scheduled at most ${DRAFT_CONFIG.MAX_SCHEDULE_DAYS} days ahead` };
+  }
+
+  return { value: publishAt };
+}
+
+/**
+ * Change a draft's text and/or schedule
+ *
+ * The text is written to the post and to revision 1, since nobody has seen
+ * the draft yet.
+ *
+ * @param db - Prisma client instance
+ * @param postId - Draft post ID
+ * @param data - New title and content, and publishAt if it changes (null unschedules)
+ */
+export async function updateDraft(
+  db: PrismaClient,
+  postId: string,
+  data: { title: string; content: string; publishAt?: Date | null }
+) {
+  await db.$transaction(async (tx) => {
+    await tx.post.update({
+      where: { id: postId },
+      data: {
+        title: data.title,
+        content: data.content,
+        ...(data.publishAt !== undefined && { publishAt: data.publishAt }),
+      },
+    });
+
+    await tx.postRevision.updateMany({
+      where: { postId, revision: 1 },
+      data: { title: data.title, content: data.content },
+    });
+  });
+}
+
+/**
+ * Publish a draft
+ *
+ * @param db - Prisma client instance
+ * @param postId - Draft post ID
+ * @param now - Publish time (becomes createdAt)
+ * @returns What happened to the draft
+ */
+export async function publishDraft(
+  db: PrismaClient,
+  postId: string,
+  now: Date = new Date()
+): Promise<PublishOutcome> {
+  const post = await db.post.findUnique({
+    where: { id: postId },
+    select: {
+      id: true,
+      title: true,
+      content: true,
+      status: true,
+      mainCategoryId: true,
+      author: { select: { id: true, role: true } },
+    },
+  });
+
+  // Drafts of deleted accounts are never published
+  if (!post || post.status !== 'draft' || !post.author) {
+    return { status: 'not_draft' };
+  }
+
+  // Suspended authors' scheduled posts wait until the suspension is over
+  if (await getActiveRestriction(db, post.author.id)) {
+    return { status: 'restricted' };
+  }
+
+  // ✅ AUTOMOD: Same rules as new posts
+  const automod = await checkContent(db, post.author, {
+    target: 'post',
+    text: `${post.title}\n${post.content}`,
+    mainCategoryId: post.mainCategoryId,
+  });
+  if (automod.decision === 'reject') {
+    await db.post.update({
+      where: { id: post.id },
+      data: { publishAt: null },
+    });
+    return { status: 'rejected', message: automod.message ?? 'Your post was rejected' };
+  }
+  const held = automod.decision === 'hold';
+
+  const published = await db.$transaction(async (tx) => {
+    // status in the WHERE clause: the author and the job can't both publish it
+    const result = await tx.post.updateMany({
+      where: { id: post.id, status: 'draft' },
+      data: {
+        status: held ? 'pending' : 'published',
+        publishAt: null,
+        createdAt: now,
+        hotScore: calculateHotScore(0, 0, now),
+      },
+    });
+    if (result.count === 0) {
+      return false;
+    }
+
+    await tx.postRevision.updateMany({
+      where: { postId: post.id, revision: 1 },
+      data: { createdAt: now },
+    });
+    return true;
+  });
+
+  if (!published) {
+    return { status: 'not_draft' };
+  }
+
+  // Held or flagged: put it in the moderation queue
+  if (automod.decision !== 'allow') {
+    await fileAutomodReport(db, {
+      targetType: 'post',
+      targetId: post.id,
+      postId: post.id,
+      commentId: null,
+      targetUserId: post.author.id,
+      categoryId: post.mainCategoryId,
+    }, automod.matches);
+  }
+
+  // Held posts get their points once approved
+  if (held) {
+    return { status: 'pending', message: HELD_POST_MESSAGE };
+  }
+
+  try {
+    await awardPostPoints(db, post.author.id, post.mainCategoryId);
+  } catch (pointsError) {
+    // Log error but don't fail publishing
+    console.error('Error awarding post points:', pointsError);
+  }
+
+  return { status: 'published' };
+}
+
+/**
+ * Publish every draft whose publishAt has passed
+ *
+ * @param db - Prisma client instance
+ * @param now - Current time
+ * @returns How many drafts ended up in each outcome
+ */
+export async function publishScheduledPosts(
+  db: PrismaClient,
+  now: Date = new Date()
+): Promise<Record<PublishOutcome['status'], number>> {
+  const due = await db.post.findMany({
+    where: { status: 'draft', publishAt: { lte: now } },
+    select: { id: true },
+    orderBy: { publishAt: 'asc' },
+  });
+
+  const counts: Record<PublishOutcome['status'], number> = {
+    published: 0,
+    pending: 0,
+    rejected: 0,
+    restricted: 0,
+    not_draft: 0,
+  };
+
+  for (const post of due) {
+    try {
+      const outcome = await publishDraft(db, post.id, now);
+      counts[outcome.status]++;
+    } catch (error) {
+      // One broken draft shouldn't stop the others
+      console.error(`Error publishing scheduled post ${post.id}:`, error);
+    }
+  }
+
+  return counts;
+}
@@ -14,6 +14,7 @@
  */
 
 import { Resend } from 'resend';
+import validator from 'validator';
 import type { EmailService } from './types';
 
 // Initialize Resend client
@@ -102,7 +103,6 @@ export class ResendEmailService implements EmailService {
 
   /**
    * Send password reset link
-   * (Implementation for future use)
    */
   async sendPasswordResetEmail(
     email: string,
@@ -110,7 +110,8 @@ export class ResendEmailService implements EmailService {
     username?: string
   ): Promise<void> {
     // Construct reset URL
-    const resetUrl = `${BASE_URL}/api/auth/reset-password?token=${encodeURIComponent(token)}`;
+    // Points to the reset page, which submits the new password to POST /api/auth/reset-password
+    const resetUrl = `${BASE_URL}/reset-password?token=${encodeURIComponent(token)}`;
 
     try {
       await resend.emails.send({
@@ -162,5 +163,293 @@ export class ResendEmailService implements EmailService {
       throw new Error('Failed to send password reset email. Please try again later.');
     }
   }
-}
 
+  /**
+   * Send email change confirmation link (to the new address)
+   */
+  async sendEmailChangeVerification(
+    email: string,
+    token: string,
+    username?: string
+  ): Promise<void> {
+    // The new address replaces the old one only once this link is opened
+    const confirmUrl = `${BASE_URL}/api/auth/confirm-email-change?token=${encodeURIComponent(token)}`;
+
+    try {
+      await resend.emails.send({
+        from: FROM_EMAIL,
+        to: email,
+        subject: 'Confirm your new email address',
+        html: `
+          <!DOCTYPE html>
+          <html>
+            <head>
+              <meta charset="utf-8">
+              <meta name="viewport" content="width=device-width, initial-scale=1.0">
+              <title>Confirm Your New Email</title>
+            </head>
+            <body style="font-family: Arial, sans-serif; line-height: 1.6; color: #333; max-width: 600px; margin: 0 auto; padding: 20px;">
+              <div style="background-color: #f4f4f4; padding: 20px; border-radius: 5px;">
+                <h1 style="color: #1A4B7C;">Confirm Your New Email</h1>
+                <p>Hello${username ? ` ${username}` : ''},</p>
+                <p>You asked to use this address for your Concensor account. Click the button below to confirm the change:</p>
+                <div style="text-align: center; margin: 30px 0;">
+                  <a href="${confirmUrl}" 
+                     style="background-color: #1A4B7C; color: white; padding: 12px 24px; text-decoration: none; border-radius: 5px; display: inline-block;">
+                    Confirm Email
+                  </a>
+                </div>
+                <p>Or copy and paste this link into your browser:</p>
+                <p style="word-break: break-all; color: #666; font-size: 12px;">${confirmUrl}</p>
+                <p style="margin-top: 30px; font-size: 12px; color: #666;">
+                  This link will expire in 24 hours. After confirming, you will be logged out of all devices. If you didn't request this change, please ignore this email.
+                </p>
+              </div>
+            </body>
+          </html>
+        `,
+        text: `
+          Confirm Your New Email
+          
+          Hello${username ? ` ${username}` : ''},
+          
+          You asked to use this address for your Concensor account. Visit this link to confirm the change:
+          
+          ${confirmUrl}
+          
+          This link will expire in 24 hours. After confirming, you will be logged out of all devices. If you didn't request this change, please ignore this email.
+        `,
+      });
+    } catch (error) {
+      console.error('Failed to send email change verification:', error);
+      throw new Error('Failed to send confirmation email. Please try again later.');
+    }
+  }
+
+  /**
+   * Send email changed notification (to the old address)
+   */
+  async sendEmailChangedNotification(
+    email: string,
+    newEmail: string,
+    username?: string
+  ): Promise<void> {
+    try {
+      await resend.emails.send({
+        from: FROM_EMAIL,
+        to: email,
+        subject: 'Your email address was changed',
+        html: `
+          <!DOCTYPE html>
+          <html>
+            <head>
+              <meta charset="utf-8">
+              <meta name="viewport" content="width=device-width, initial-scale=1.0">
+              <title>Email Address Changed</title>
+            </head>
+            <body style="font-family: Arial, sans-serif; line-height: 1.6; color: #333; max-width: 600px; margin: 0 auto; padding: 20px;">
+              <div style="background-color: #f4f4f4; padding: 20px; border-radius: 5px;">
+                <h1 style="color: #1A4B7C;">Email Address Changed</h1>
+                <p>Hello${username ? ` ${username}` : ''},</p>
+                <p>The email address of your Concensor account was changed to <strong>${newEmail}</strong>. This address will no longer receive account emails.</p>
+                <p style="margin-top: 30px; font-size: 12px; color: #666;">
+                  If you didn't make this change, please contact support right away.
+                </p>
+              </div>
+            </body>
+          </html>
+        `,
+        text: `
+          Email Address Changed
+          
+          Hello${username ? ` ${username}` : ''},
+          
+          The email address of your Concensor account was changed to ${newEmail}. This address will no longer receive account emails.
+          
+          If you didn't make this change, please contact support right away.
+        `,
+      });
+    } catch (error) {
+      console.error('Failed to send email changed notification:', error);
+      throw new Error('Failed to send email changed notification.');
+    }
+  }
+
+  /**
+   * Send account deletion confirmation
+   */
+  async sendAccountDeletionScheduledEmail(
+    email: string,
+    scheduledAt: Date,
+    username?: string
+  ): Promise<void> {
+    // Logging in and cancelling from the settings page keeps the account
+    const settingsUrl = `${BASE_URL}/setting/data`;
+    const deletionDate = scheduledAt.toUTCString();
+
+    try {
+      await resend.emails.send({
+        from: FROM_EMAIL,
+        to: email,
+        subject: 'Your account is scheduled for deletion',
+        html: `
+          <!DOCTYPE html>
+          <html>
+            <head>
+              <meta charset="utf-8">
+              <meta name="viewport" content="width=device-width, initial-scale=1.0">
+              <title>Account Deletion Scheduled</title>
+            </head>
+            <body style="font-family: Arial, sans-serif; line-height: 1.6; color: #333; max-width: 600px; margin: 0 auto; padding: 20px;">
+              <div style="background-color: #f4f4f4; padding: 20px; border-radius: 5px;">
+                <h1 style="color: #1A4B7C;">Account Deletion Scheduled</h1>
+                <p>Hello${username ? ` ${username}` : ''},</p>
+                <p>Your Concensor account will be permanently deleted on <strong>${deletionDate}</strong>.</p>
+                <p>Your posts and comments will stay on the site as "[deleted user]". Everything else (votes, saved posts, points and badges) will be removed.</p>
+                <p>Changed your mind? Log in and cancel the deletion before that date:</p>
+                <div style="text-align: center; margin: 30px 0;">
+                  <a href="${settingsUrl}" 
+                     style="background-color: #1A4B7C; color: white; padding: 12px 24px; text-decoration: none; border-radius: 5px; display: inline-block;">
+                    Keep My Account
+                  </a>
+                </div>
+                <p style="margin-top: 30px; font-size: 12px; color: #666;">
+                  If you didn't request this, log in, cancel the deletion and change your password.
+                </p>
+              </div>
+            </body>
+          </html>
+        `,
+        text: `
+          Account Deletion Scheduled
+          
+          Hello${username ? ` ${username}` : ''},
+          
+          Your Concensor account will be permanently deleted on ${deletionDate}.
+          
+          Your posts and comments will stay on the site as "[deleted user]". Everything else (votes, saved posts, points and badges) will be removed.
+          
+          Changed your mind? Log in and cancel the deletion before that date:
+          
+          ${settingsUrl}
+          
+          If you didn't request this, log in, cancel the deletion and change your password.
+        `,
+      });
+    } catch (error) {
+      console.error('Failed to send account deletion email:', error);
+      throw new Error('Failed to send account deletion email. Please try again later.');
+    }
+  }
+
+  /**
+   * Send moderation warning
+   */
+  async sendModerationWarningEmail(
+    email: string,
+    reason: string,
+    username?: string
+  ): Promise<void> {
+    try {
+      await resend.emails.send({
+        from: FROM_EMAIL,
+        to: email,
+        subject: 'A moderator reviewed your content',
+        html: `
+          <!DOCTYPE html>
+          <html>
+            <head>
+              <meta charset="utf-8">
+              <meta name="viewport" content="width=device-width, initial-scale=1.0">
+              <title>Moderator Warning</title>
+            </head>
+            <body style="font-family: Arial, sans-serif; line-height: 1.6; color: #333; max-width: 600px; margin: 0 auto; padding: 20px;">
+              <div style="background-color: #f4f4f4; padding: 20px; border-radius: 5px;">
+                <h1 style="color: #1A4B7C;">Moderator Warning</h1>
+                <p>Hello${username ? ` ${validator.escape(username)}` : ''},</p>
+                <p>A moderator reviewed a report about your content on Concensor and sent you this warning:</p>
+                <blockquote style="border-left: 4px solid #1A4B7C; margin: 20px 0; padding: 10px 15px; background-color: white;">
+                  ${validator.escape(reason)}
+                </blockquote>
+                <p>Please keep discussions respectful. Repeated violations can lead to a suspension.</p>
+              </div>
+            </body>
+          </html>
+        `,
+        text: `
+          Moderator Warning
+          
+          Hello${username ? ` ${username}` : ''},
+          
+          A moderator reviewed a report about your content on Concensor and sent you this warning:
+          
+          ${reason}
+          
+          Please keep discussions respectful. Repeated violations can lead to a suspension.
+        `,
+      });
+    } catch (error) {
+      console.error('Failed to send moderation warning email:', error);
+      throw new Error('Failed to send moderation warning email. Please try again later.');
+    }
+  }
+
+  /**
+   * Send suspension notice
+   */
+  async sendSuspensionEmail(
+    email: string,
+    reason: string,
+    expiresAt: Date | null,
+    username?: string
+  ): Promise<void> {
+    const isBan = expiresAt === null;
+    const title = isBan ? 'Account Banned' : 'Account Suspended';
+    const summary = isBan
+      ? 'Your Concensor account has been permanently banned. You can no longer log in.'
+      : `Your Concensor account has been suspended until ${expiresAt.toUTCString()}. Until then you can still log in and read, but you can't create posts, comment or vote.`;
+
+    try {
+      await resend.emails.send({
+        from: FROM_EMAIL,
+        to: email,
+        subject: isBan ? 'Your account has been banned' : 'Your account has been suspended',
+        html: `
+          <!DOCTYPE html>
+          <html>
+            <head>
+              <meta charset="utf-8">
+              <meta name="viewport" content="width=device-width, initial-scale=1.0">
+              <title>${title}</title>
+            </head>
+            <body style="font-family: Arial, sans-serif; line-height: 1.6; color: #333; max-width: 600px; margin: 0 auto; padding: 20px;">
+              <div style="background-color: #f4f4f4; padding: 20px; border-radius: 5px;">
+                <h1 style="color: #1A4B7C;">${title}</h1>
+                <p>Hello${username ? ` ${validator.escape(username)}` : ''},</p>
+                <p>${validator.escape(summary)}</p>
+                <p>Reason given by the moderator:</p>
+                <blockquote style="border-left: 4px solid #1A4B7C; margin: 20px 0; padding: 10px 15px; background-color: white;">
+                  ${validator.escape(reason)}
+                </blockquote>
+              </div>
+            </body>
+          </html>
+        `,
+        text: `
+          ${title}
+          
+          Hello${username ? ` ${username}` : ''},
+          
+          ${summary}
+          
+          Reason given by the moderator:
+          
+          ${reason}
+        `,
+      });
+    } catch (error) {
+      console.error('Failed to send suspension email:', error);
+      throw new Error('Failed to send suspension email. Please try again later.');
+    }
+  }
+}
@@ -39,5 +39,76 @@ export interface EmailService {
     token: string,
     username?: string
   ): Promise<void>;
-}
 
+  /**
+   * Send confirmation link for an email address change (to the NEW address)
+   * 
+   * @param email - New email address (not applied until the link is clicked)
+   * @param token - Confirmation token (will be included in the link)
+   * @param username - User's username (for personalization)
+   * @returns Promise that resolves when email is sent
+   */
+  sendEmailChangeVerification(
+    email: string,
+    token: string,
+    username?: string
+  ): Promise<void>;
+
+  /**
+   * Notify the OLD address that the account's email was changed
+   * 
+   * @param email - Previous email address
+   * @param newEmail - Email address now used by the account
+   * @param username - User's username (for personalization)
+   * @returns Promise that resolves when email is sent
+   */
+  sendEmailChangedNotification(
+    email: string,
+    newEmail: string,
+    username?: string
+  ): Promise<void>;
+
+  /**
+   * Confirm that account deletion was scheduled
+   * 
+   * @param email - User's email address
+   * @param scheduledAt - When the account will be permanently deleted
+   * @param username - User's username (for personalization)
+   * @returns Promise that resolves when email is sent
+   */
+  sendAccountDeletionScheduledEmail(
+    email: string,
+    scheduledAt: Date,
+    username?: string
+  ): Promise<void>;
+
+  /**
+   * Tell a user a moderator warned them about their content
+   * 
+   * @param email - User's email address
+   * @param reason - Moderator's explanation
+   * @param username - User's username (for personalization)
+   * @returns Promise that resolves when email is sent
+   */
+  sendModerationWarningEmail(
+    email: string,
+    reason: string,
+    username?: string
+  ): Promise<void>;
+
+  /**
+   * Tell a user their account was suspended or banned
+   * 
+   * @param email - User's email address
+   * @param reason - Moderator's explanation
+   * @param expiresAt - When the suspension ends (null = permanent ban)
+   * @param username - User's username (for personalization)
+   * @returns Promise that resolves when email is sent
+   */
+  sendSuspensionEmail(
+    email: string,
+    reason: string,
+    expiresAt: Date | null,
+    username?: string
+  ): Promise<void>;
+}
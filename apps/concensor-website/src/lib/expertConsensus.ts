@@ -0,0 +1,116 @@
+/**
+ * Expert Consensus
+ *
+ * The consensus bar counts every vote the same. This breaks a post's votes
+ * down by the voter's badge level in the post's main category
+ * (UserCategoryPoints.currentBadgeLevel, Rookie to Legend), and gives an
+ * alternative consensus where votes count more the higher the voter's badge:
+ * "what experienced members think".
+ *
+ * Badge levels are read when the breakdown is requested, so a vote moves to
+ * a higher tier once its voter levels up (and down again after badge decay).
+ * Voters without points in the category count as Rookies. Votes excluded
+ * by an admin are left out, like in the post's counters.
+ */
+
+import { PrismaClient } from '@prisma/client';
+import { VOTE_TYPES, type VoteType } from '@/lib/votes';
+import { getBadgeName } from '@/lib/points';
+import { calculateConsensusMetrics, getConsensusStrength, type ConsensusStrength } from '@/lib/consensusMetrics';
+
+export const EXPERT_CONSENSUS_CONFIG = {
+  // Weight of a vote per badge level (1 = Rookie ... 5 = Legend)
+  TIER_WEIGHTS: { 1: 1, 2: 1.5, 3: 2, 4: 3, 5: 4 } as Record<number, number>,
+} as const;
+
+const TIER_LEVELS = [1, 2, 3, 4, 5];
+
+export interface ConsensusBreakdown {
+  counts: Record<VoteType, number>;
+  totalVotes: number;
+  voteMean: number;
+  polarization: number;
+  consensusStrength: ConsensusStrength;
+}
+
+export interface ExpertConsensus {
+  tiers: ({ level: number; name: string; weight: number } & ConsensusBreakdown)[];
+  // Every vote weighted by its tier; counts are weighted, totalVotes is the real number of votes
+  weighted: ConsensusBreakdown;
+}
+
+function emptyCounts(): Record<VoteType, number> {
+  return {
+    strongly_disagree: 0,
+    disagree: 0,
+    neutral: 0,
+    agree: 0,
+    strongly_agree: 0,
+  };
+}
+
+function summarize(counts: Record<VoteType, number>, totalVotes: number): ConsensusBreakdown {
+  const metrics = calculateConsensusMetrics(counts);
+  return {
+    counts,
+    totalVotes,
+    voteMean: metrics.voteMean,
+    polarization: metrics.polarization,
+    // Weighted counts aren't vote counts: the minimum applies to the real votes
+    consensusStrength: getConsensusStrength(totalVotes, metrics.polarization),
+  };
+}
+
+/**
+ * A post's votes per badge tier of its main category, and weighted by tier
+ *
+ * @param db - Prisma client instance
+ * @param post - Post ID and main category
+ * @returns One entry per tier (Rookie first, tiers without votes included) and the weighted consensus
+ */
+export async function getExpertConsensus(
+  db: PrismaClient,
+  post: { id: string; mainCategoryId: string }
+): Promise<ExpertConsensus> {
+  const votes = await db.vote.findMany({
+    where: { postId: post.id, excluded: false },
+    select: { userId: true, voteType: true },
+  });
+
+  const points = await db.userCategoryPoints.findMany({
+    where: {
+      categoryId: post.mainCategoryId,
+      userId: { in: votes.map((vote) => vote.userId) },
+    },
+    select: { userId: true, currentBadgeLevel: true },
+  });
+  const levels = new Map(points.map((row) => [row.userId, row.currentBadgeLevel]));
+
+  const tierCounts = new Map(TIER_LEVELS.map((level) => [level, emptyCounts()]));
+  const weightedCounts = emptyCounts();
+  for (const vote of votes) {
+    if (!(VOTE_TYPES as readonly string[]).includes(vote.voteType)) {
+      continue;
+    }
+    const type = vote.voteType as VoteType;
+    const level = Math.min(5, Math.max(1, levels.get(vote.userId) ?? 1));
+    tierCounts.get(level)![type]++;
+    weightedCounts[type] += EXPERT_CONSENSUS_CONFIG.TIER_WEIGHTS[level];
+  }
+
+  const tiers = TIER_LEVELS.map((level) => {
+    const counts = tierCounts.get(level)!;
+    const totalVotes = VOTE_TYPES.reduce((sum, type) => sum + counts[type], 0);
+    return {
+      level,
+      name: getBadgeName(level),
+      weight: EXPERT_CONSENSUS_CONFIG.TIER_WEIGHTS[level],
+      ...summarize(counts, totalVotes),
+    };
+  });
+
+  return {
+    tiers,
+    weighted: summarize(weightedCounts, tiers.reduce((sum, tier) => sum + tier.totalVotes, 0)),
+  };
+}
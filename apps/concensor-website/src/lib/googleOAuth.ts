@@ -0,0 +1,70 @@
+/**
+ * Google OAuth Helpers
+ *
+ * Shared by the Google login routes:
+ * - GET /api/auth/google (log in / sign up with Google)
+ * - GET /api/auth/google/link (connect Google to the logged-in account)
+ * - GET /api/auth/google/callback (both flows end here)
+ */
+
+import crypto from 'crypto';
+import { NextResponse } from 'next/server';
+
+// Google OAuth configuration
+export const GOOGLE_CLIENT_ID = process.env.GOOGLE_CLIENT_ID;
+export const GOOGLE_CLIENT_SECRET = process.env.GOOGLE_CLIENT_SECRET;
+export const GOOGLE_REDIRECT_URI = process.env.GOOGLE_REDIRECT_URI ||
+  `${process.env.NEXT_PUBLIC_BASE_URL || 'http://localhost:3000'}/api/auth/google/callback`;
+
+/**
+ * Cookie holding the OAuth state parameter (CSRF protection)
+ */
+export const OAUTH_STATE_COOKIE = 'oauth_state';
+
+/**
+ * Cookie holding the signed account-link intent (only set by /api/auth/google/link)
+ *
+ * The auth cookie is SameSite=strict, so it is not sent when Google redirects
+ * back to the callback. This SameSite=lax cookie carries "who is linking" instead.
+ */
+export const OAUTH_LINK_COOKIE = 'oauth_link';
+
+const OAUTH_COOKIE_MAX_AGE = 600; // 10 minutes
+
+/**
+ * Generate a random state parameter for CSRF protection
+ */
+export function generateOAuthState(): string {
+  return crypto.randomBytes(16).toString('hex');
+}
+
+/**
+ * Build the URL of Google's OAuth consent page
+ *
+ * @param state - State parameter (also stored in the oauth_state cookie)
+ */
+export function buildGoogleAuthorizationUrl(state: string): string {
+  return `https://accounts.google.com/o/oauth2/v2/auth?` +
+    `client_id=${encodeURIComponent(GOOGLE_CLIENT_ID || '')}&` +
+    `redirect_uri=${encodeURIComponent(GOOGLE_REDIRECT_URI)}&` +
+    `response_type=code&` +
+    `scope=${encodeURIComponent('openid email profile')}&` +
+    `state=${encodeURIComponent(state)}&` +
+    `access_type=offline&` +
+    `prompt=consent`;
+}
+
+/**
+ * Set a short-lived OAuth cookie (state or link intent)
+ *
+ * SameSite=lax so the browser sends it on Google's redirect back to the callback.
+ */
+export function setOAuthCookie(response: NextResponse, name: string, value: string) {
+  response.cookies.set(name, value, {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'lax',
+    maxAge: OAUTH_COOKIE_MAX_AGE,
+    path: '/',
+  });
+}
@@ -0,0 +1,198 @@
+/**
+ * Ideology Service
+ *
+ * A user's ideology profile is their stance per category, built from their
+ * votes: for every main and sub category they voted in, how much they tend
+ * to agree with the posts there. The vote counts per category are stored in
+ * UserIdeology and updated with each vote (castVote / retractVote), so
+ * nothing has to be recomputed from the whole vote history.
+ *
+ * Per category:
+ * - stance: average vote value (-2 = always strongly disagrees, +2 = always
+ *   strongly agrees)
+ * - intensity: average distance from neutral (0 to 2)
+ * - spread: standard deviation of the vote values (0 = always votes the same)
+ * - distribution: share of each vote type (the stance vector)
+ * - sampleSize / confidence: how many votes the numbers are based on, and a
+ *   0-1 confidence that grows with it
+ *
+ * Profiles are private by default; User.ideologyVisibility lets the user
+ * share it with logged-in members or everyone.
+ */
+
+import { Prisma, PrismaClient } from '@prisma/client';
+import { VOTE_COUNT_FIELDS, VOTE_TYPES, getVoteValue, type VoteType } from '@/lib/votes';
+
+export const IDEOLOGY_CONFIG = {
+  CONFIDENCE_HALF_VOTES: 10, // Sample size at which confidence reaches 0.5
+} as const;
+
+export const IDEOLOGY_VISIBILITIES = ['private', 'members', 'public'] as const;
+export type IdeologyVisibility = (typeof IDEOLOGY_VISIBILITIES)[number];
+
+export function isIdeologyVisibility(value: unknown): value is IdeologyVisibility {
+  return typeof value === 'string' && (IDEOLOGY_VISIBILITIES as readonly string[]).includes(value);
+}
+
+/**
+ * Whether a viewer may see a user's ideology profile
+ *
+ * @param owner - Profile owner and their visibility setting
+ * @param viewerId - Logged-in viewer (null for guests)
+ */
+export function canViewIdeology(
+  owner: { id: string; ideologyVisibility: string },
+  viewerId: string | null
+): boolean {
+  if (viewerId === owner.id) {
+    return true;
+  }
+  if (owner.ideologyVisibility === 'public') {
+    return true;
+  }
+  return owner.ideologyVisibility === 'members' && viewerId !== null;
+}
+
+export interface StanceVector {
+  sampleSize: number;
+  confidence: number;
+  stance: number;
+  intensity: number;
+  spread: number;
+  distribution: Record<VoteType, number>;
+}
+
+type IdeologyCounts = {
+  stronglyDisagreeCount: number;
+  disagreeCount: number;
+  neutralCount: number;
+  agreeCount: number;
+  stronglyAgreeCount: number;
+};
+
+/**
+ * Derive the stance metrics from a UserIdeology row's counts
+ */
+export function calculateStanceVector(counts: IdeologyCounts): StanceVector {
+  let sampleSize = 0;
+  let sum = 0;
+  let absSum = 0;
+  let squareSum = 0;
+  for (const type of VOTE_TYPES) {
+    const count = counts[VOTE_COUNT_FIELDS[type] as keyof IdeologyCounts];
+    const value = getVoteValue(type);
+    sampleSize += count;
+    sum += count * value;
+    absSum += count * Math.abs(value);
+    squareSum += count * value * value;
+  }
+
+  const distribution = Object.fromEntries(
+    VOTE_TYPES.map((type) => [
+      type,
+      sampleSize > 0 ? counts[VOTE_COUNT_FIELDS[type] as keyof IdeologyCounts] / sampleSize : 0,
+    ])
+  ) as Record<VoteType, number>;
+
+  if (sampleSize === 0) {
+    return { sampleSize, confidence: 0, stance: 0, intensity: 0, spread: 0, distribution };
+  }
+
+  const stance = sum / sampleSize;
+  return {
+    sampleSize,
+    confidence: sampleSize / (sampleSize + IDEOLOGY_CONFIG.CONFIDENCE_HALF_VOTES),
+    stance,
+    intensity: absSum / sampleSize,
+    spread: Math.sqrt(Math.max(0, squareSum / sampleSize - stance * stance)),
+    distribution,
+  };
+}
+
+/**
+ * Move a user's per-category counts from one vote to another
+ *
+ * Called in the same transaction as the vote itself.
+ *
+ * @param tx - Transaction client
+ * @param userId - Voter
+ * @param post - Categories of the post voted on
+ * @param fromType - Vote being replaced or removed (null for a new vote)
+ * @param toType - New vote (null when the vote is retracted)
+ */
+export async function updateUserIdeology(
+  tx: Prisma.TransactionClient,
+  userId: string,
+  post: { mainCategoryId: string; subCategoryId: string },
+  fromType: string | null,
+  toType: string | null
+) {
+  const fromField = fromType ? VOTE_COUNT_FIELDS[fromType as VoteType] : null;
+  const toField = toType ? VOTE_COUNT_FIELDS[toType as VoteType] : null;
+  if (fromField === toField) {
+    return;
+  }
+
+  const update: Record<string, { increment: number } | { decrement: number }> = {
+    voteCount: { increment: (toField ? 1 : 0) - (fromField ? 1 : 0) },
+  };
+  if (fromField) {
+    update[fromField] = { decrement: 1 };
+  }
+  if (toField) {
+    update[toField] = { increment: 1 };
+  }
+
+  for (const categoryId of [post.mainCategoryId, post.subCategoryId]) {
+    await tx.userIdeology.upsert({
+      where: { userId_categoryId: { userId, categoryId } },
+      create: {
+        userId,
+        categoryId,
+        voteCount: toField ? 1 : 0,
+        ...(toField && { [toField]: 1 }),
+      },
+      update,
+    });
+  }
+}
+
+/**
+ * A user's ideology profile
+ *
+ * @param db - Prisma client instance
+ * @param userId - User ID
+ * @returns Overall stance (all main categories together) and one entry per
+ *          main category they voted in, each with its sub categories, most
+ *          votes first
+ */
+export async function getUserIdeology(db: PrismaClient, userId: string) {
+  const rows = await db.userIdeology.findMany({
+    where: { userId, voteCount: { gt: 0 } },
+    include: {
+      category: { select: { id: true, name: true, slug: true, parentId: true } },
+    },
+    orderBy: { voteCount: 'desc' },
+  });
+
+  const mainRows = rows.filter((row) => !row.category.parentId);
+
+  // Every vote is counted once in the main categories
+  const overall = calculateStanceVector({
+    stronglyDisagreeCount: mainRows.reduce((sum, row) => sum + row.stronglyDisagreeCount, 0),
+    disagreeCount: mainRows.reduce((sum, row) => sum + row.disagreeCount, 0),
+    neutralCount: mainRows.reduce((sum, row) => sum + row.neutralCount, 0),
+    agreeCount: mainRows.reduce((sum, row) => sum + row.agreeCount, 0),
+    stronglyAgreeCount: mainRows.reduce((sum, row) => sum + row.stronglyAgreeCount, 0),
+  });
+
+  const categories = mainRows.map((row) => ({
+    category: row.category,
+    ...calculateStanceVector(row),
+    subCategories: rows
+      .filter((sub) => sub.category.parentId === row.category.id)
+      .map((sub) => ({ category: sub.category, ...calculateStanceVector(sub) })),
+  }));
+
+  return { overall, categories };
+}
@@ -0,0 +1,331 @@
+/**
+ * Moderation Service
+ *
+ * Reports and moderator actions:
+ * - Users report posts, comments or users with a reason code (one report per
+ *   user per target)
+ * - Moderators work through the queue of open reports in their categories
+ *   (user reports have no category and are handled by admins)
+ * - An action closes every open report on the same target and is written to
+ *   ModerationAction, so the log shows who did what and why
+ *
+ * Actions:
+ * - dismiss: Close the reports, nothing else changes
+ * - approve: Publish a post or comment held by automod ('pending')
+ * - remove: Set Post.status / Comment.status to 'removed'
+ * - warn: Email the author the moderator's note
+ * - suspend: Suspend the author for a number of days
+ * - ban: Ban the author permanently (admins only)
+ *
+ * Suspensions and bans themselves live in src/lib/suspensions.ts.
+ */
+
+import { Prisma, PrismaClient } from '@prisma/client';
+import { publishComment, unpublishComment } from '@/lib/comments';
+import { awardPostPoints, awardCommentPoints } from '@/lib/pointsService';
+
+export const MODERATION_CONFIG = {
+  MAX_DETAILS_LENGTH: 1000,  // Reporter's text
+  MAX_NOTE_LENGTH: 1000,     // Moderator's note
+  MAX_SUSPENSION_DAYS: 365,
+};
+
+/**
+ * Reason codes a report can have
+ */
+export const REPORT_REASONS = [
+  'spam',
+  'harassment',
+  'hate_speech',
+  'misinformation',
+  'off_topic',
+  'illegal',
+  'other', // Requires details
+] as const;
+
+export type ReportReason = (typeof REPORT_REASONS)[number];
+
+export const REPORT_TARGET_TYPES = ['post', 'comment', 'user'] as const;
+
+export type ReportTargetType = (typeof REPORT_TARGET_TYPES)[number];
+
+export const REPORT_STATUSES = ['open', 'dismissed', 'actioned'] as const;
+
+export const MODERATION_ACTIONS = ['dismiss', 'approve', 'remove', 'warn', 'suspend', 'ban'] as const;
+
+export type ModerationActionType = (typeof MODERATION_ACTIONS)[number];
+
+/**
+ * Actions that can appear in the moderation log
+ * ('lift' = suspension or ban lifted by an admin, not a report action)
+ */
+export type ModerationLogAction = ModerationActionType | 'lift';
+
+/**
+ * What a report or action points at
+ */
+export interface ModerationTarget {
+  targetType: ReportTargetType;
+  targetId: string;
+  postId: string | null;
+  commentId: string | null;
+  targetUserId: string | null; // Content author, or the reported user
+  categoryId: string | null;   // Main category (null for users)
+}
+
+/**
+ * Look up a reportable target
+ *
+ * @param db - Prisma client instance
+ * @param targetType - post, comment or user
+ * @param targetId - ID of the post, comment or user
+ * @returns The target, or null if it doesn't exist or is no longer published
+ */
+export async function findModerationTarget(
+  db: PrismaClient,
+  targetType: ReportTargetType,
+  targetId: string
+): Promise<ModerationTarget | null> {
+  if (targetType === 'post') {
+    const post = await db.post.findUnique({
+      where: { id: targetId },
+      select: { id: true, status: true, authorId: true, mainCategoryId: true },
+    });
+    if (!post || post.status !== 'published') {
+      return null;
+    }
+    return {
+      targetType,
+      targetId,
+      postId: post.id,
+      commentId: null,
+      targetUserId: post.authorId,
+      categoryId: post.mainCategoryId,
+    };
+  }
+
+  if (targetType === 'comment') {
+    const comment = await db.comment.findUnique({
+      where: { id: targetId },
+      select: {
+        id: true,
+        status: true,
+        userId: true,
+        postId: true,
+        post: { select: { mainCategoryId: true } },
+      },
+    });
+    if (!comment || comment.status !== 'published') {
+      return null;
+    }
+    return {
+      targetType,
+      targetId,
+      postId: comment.postId,
+      commentId: comment.id,
+      targetUserId: comment.userId,
+      categoryId: comment.post.mainCategoryId,
+    };
+  }
+
+  const user = await db.user.findUnique({
+    where: { id: targetId },
+    select: { id: true },
+  });
+  if (!user) {
+    return null;
+  }
+  return {
+    targetType,
+    targetId,
+    postId: null,
+    commentId: null,
+    targetUserId: user.id,
+    categoryId: null,
+  };
+}
+
+/**
+ * Get the target of an existing report (even if the content was already removed)
+ */
+export function getReportTarget(report: {
+  targetType: string;
+  targetId: string;
+  postId: string | null;
+  commentId: string | null;
+  reportedUserId: string | null;
+  categoryId: string | null;
+}): ModerationTarget {
+  return {
+    targetType: report.targetType as ReportTargetType,
+    targetId: report.targetId,
+    postId: report.postId,
+    commentId: report.commentId,
+    targetUserId: report.reportedUserId,
+    categoryId: report.categoryId,
+  };
+}
+
+/**
+ * Write an entry to the moderation log
+ *
+ * @param db - Prisma client (or transaction client)
+ * @param entry - Action, moderator, target, closed reports and note
+ */
+export async function logModerationAction(
+  db: PrismaClient | Prisma.TransactionClient,
+  entry: {
+    action: ModerationLogAction;
+    moderatorId: string;
+    target: ModerationTarget;
+    reportIds?: string[];
+    note?: string | null;
+  }
+) {
+  return db.moderationAction.create({
+    data: {
+      action: entry.action,
+      moderatorId: entry.moderatorId,
+      targetUserId: entry.target.targetUserId,
+      targetType: entry.target.targetType,
+      targetId: entry.target.targetId,
+      postId: entry.target.postId,
+      commentId: entry.target.commentId,
+      categoryId: entry.target.categoryId,
+      reportIds: entry.reportIds ?? [],
+      note: entry.note || null,
+    },
+  });
+}
+
+/**
+ * Remove a post or comment as a moderator (status 'removed')
+ * Works for published content and content held by automod. Called in the
+ * same transaction as resolveReports().
+ *
+ * @returns false if the content was neither published nor held
+ */
+export async function removeContent(tx: Prisma.TransactionClient, target: ModerationTarget): Promise<boolean> {
+  if (target.targetType === 'comment' && target.commentId) {
+    if (await unpublishComment(tx, target.commentId, 'removed')) {
+      return true;
+    }
+    // Held comments were never counted in Post.commentCount
+    const result = await tx.comment.updateMany({
+      where: { id: target.commentId, status: 'pending' },
+      data: { status: 'removed' },
+    });
+    return result.count > 0;
+  }
+  if (target.targetType === 'post' && target.postId) {
+    const result = await tx.post.updateMany({
+      where: { id: target.postId, status: { in: ['published', 'pending'] } },
+      data: { status: 'removed' },
+    });
+    return result.count > 0;
+  }
+  return false;
+}
+
+/**
+ * Check if a post or comment is held by automod
+ */
+export async function isHeldContent(db: PrismaClient, target: ModerationTarget): Promise<boolean> {
+  if (target.targetType === 'comment' && target.commentId) {
+    const comment = await db.comment.findUnique({
+      where: { id: target.commentId },
+      select: { status: true },
+    });
+    return comment?.status === 'pending';
+  }
+  if (target.targetType === 'post' && target.postId) {
+    const post = await db.post.findUnique({
+      where: { id: target.postId },
+      select: { status: true },
+    });
+    return post?.status === 'pending';
+  }
+  return false;
+}
+
+/**
+ * Publish a post or comment held by automod
+ * Called in the same transaction as resolveReports(); award the author's
+ * points with awardApprovedContentPoints() once it has committed.
+ *
+ * @returns false if the content was not held
+ */
+export async function approveContent(tx: Prisma.TransactionClient, target: ModerationTarget): Promise<boolean> {
+  if (target.targetType === 'comment' && target.commentId) {
+    return publishComment(tx, target.commentId);
+  }
+  if (target.targetType === 'post' && target.postId) {
+    const result = await tx.post.updateMany({
+      where: { id: target.postId, status: 'pending' },
+      data: { status: 'published' },
+    });
+    return result.count > 0;
+  }
+  return false;
+}
+
+/**
+ * Give the author of approved content the points they would have got when
+ * posting (non-blocking: the content stays approved either way)
+ */
+export async function awardApprovedContentPoints(db: PrismaClient, target: ModerationTarget) {
+  if (!target.targetUserId || !target.categoryId) {
+    return;
+  }
+  try {
+    if (target.targetType === 'comment') {
+      await awardCommentPoints(db, target.targetUserId, target.categoryId);
+    } else {
+      await awardPostPoints(db, target.targetUserId, target.categoryId);
+    }
+  } catch (pointsError) {
+    console.error('Error awarding points for approved content:', pointsError);
+  }
+}
+
+/**
+ * Close every open report on a target and log the action
+ *
+ * Called in a transaction with the action itself (removeContent(),
+ * approveContent(), taking a post down), so the log can't miss an action
+ * or record one that didn't happen.
+ *
+ * @param tx - Transaction client
+ * @param action - Action that was taken
+ * @param moderatorId - Moderator who took it
+ * @param target - Reported post, comment or user
+ * @param note - Moderator's note
+ * @returns IDs of the reports that were closed
+ */
+export async function resolveReports(
+  tx: Prisma.TransactionClient,
+  action: ModerationActionType,
+  moderatorId: string,
+  target: ModerationTarget,
+  note?: string | null
+): Promise<string[]> {
+  const openReports = await tx.report.findMany({
+    where: { targetType: target.targetType, targetId: target.targetId, status: 'open' },
+    select: { id: true },
+  });
+  const reportIds = openReports.map((report) => report.id);
+
+  if (reportIds.length > 0) {
+    await tx.report.updateMany({
+      where: { id: { in: reportIds } },
+      data: {
+        status: action === 'dismiss' || action === 'approve' ? 'dismissed' : 'actioned',
+        resolvedById: moderatorId,
+        resolvedAt: new Date(),
+      },
+    });
+  }
+
+  await logModerationAction(tx, { action, moderatorId, target, reportIds, note });
+  return reportIds;
+}
@@ -0,0 +1,288 @@
+/**
+ * Opinion Clustering Math
+ *
+ * Pure functions behind the opinion maps (src/lib/opinionMaps.ts), in the
+ * style of Polis:
+ * 1. The voter x post matrix of vote values is centered per post; posts a
+ *    voter didn't vote on count as the post's average.
+ * 2. PCA (power iteration, no dependencies) projects every voter onto the
+ *    two directions along which votes differ most. Voters who only voted on
+ *    a few posts are scaled outwards so they aren't all drawn in the middle.
+ * 3. k-means groups the 2D points; k is picked by the best silhouette score.
+ *
+ * Randomness (PCA start vectors, k-means++ seeding) uses a seeded generator
+ * so the same votes always give the same map.
+ */
+
+export const CLUSTERING_CONFIG = {
+  MAX_GROUPS: 5,
+  KMEANS_RESTARTS: 5, // Best of this many runs (lowest within-group distance)
+  KMEANS_MAX_ITERATIONS: 100,
+  PCA_MAX_ITERATIONS: 200,
+  PCA_TOLERANCE: 1e-9,
+  SILHOUETTE_SAMPLE: 1000, // Silhouette is O(n²): score at most this many points
+  SEED: 42,
+} as const;
+
+/**
+ * Vote matrix: rows are voters, columns are posts, NaN where a voter didn't vote
+ */
+export type VoteMatrix = number[][];
+
+export interface Projection {
+  points: [number, number][]; // One per voter (row)
+  varianceExplained: number; // Share of the total variance along the two components (0-1)
+}
+
+export interface Clustering {
+  k: number;
+  assignments: number[]; // Group index per point
+  centers: [number, number][];
+  silhouette: number;
+}
+
+/**
+ * Deterministic pseudo-random numbers in [0, 1) (mulberry32)
+ */
+export function seededRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function dot(a: number[], b: number[]): number {
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) {
+    sum += a[i] * b[i];
+  }
+  return sum;
+}
+
+function normalize(vector: number[]): number[] {
+  const length = Math.sqrt(dot(vector, vector));
+  return length > 0 ? vector.map((value) => value / length) : vector;
+}
+
+/**
+ * Center each column on its mean over the voters who voted; missing votes become 0
+ */
+function centerColumns(matrix: VoteMatrix): number[][] {
+  const columns = matrix[0]?.length ?? 0;
+  const means = new Array(columns).fill(0);
+  const counts = new Array(columns).fill(0);
+  for (const row of matrix) {
+    row.forEach((value, j) => {
+      if (!Number.isNaN(value)) {
+        means[j] += value;
+        counts[j]++;
+      }
+    });
+  }
+  for (let j = 0; j < columns; j++) {
+    means[j] = counts[j] > 0 ? means[j] / counts[j] : 0;
+  }
+  return matrix.map((row) => row.map((value, j) => (Number.isNaN(value) ? 0 : value - means[j])));
+}
+
+/**
+ * Project voters onto the first two principal components of the vote matrix
+ *
+ * @param matrix - Voter x post vote values (NaN = no vote)
+ * @returns 2D point per voter and how much of the variance the map shows
+ */
+export function projectVoters(matrix: VoteMatrix): Projection {
+  const centered = centerColumns(matrix);
+  const columns = centered[0]?.length ?? 0;
+  const random = seededRandom(CLUSTERING_CONFIG.SEED);
+
+  const totalVariance = centered.reduce((sum, row) => sum + dot(row, row), 0);
+  const components: number[][] = [];
+  let explained = 0;
+
+  for (let c = 0; c < 2 && c < columns; c++) {
+    let vector = normalize(Array.from({ length: columns }, () => random() - 0.5));
+
+    for (let iteration = 0; iteration < CLUSTERING_CONFIG.PCA_MAX_ITERATIONS; iteration++) {
+      // w = Xᵀ(Xv), then remove the directions already found
+      const scores = centered.map((row) => dot(row, vector));
+      let next = new Array(columns).fill(0);
+      centered.forEach((row, i) => {
+        for (let j = 0; j < columns; j++) {
+          next[j] += row[j] * scores[i];
+        }
+      });
+      for (const component of components) {
+        const overlap = dot(next, component);
+        next = next.map((value, j) => value - overlap * component[j]);
+      }
+      next = normalize(next);
+
+      const change = next.reduce((sum, value, j) => sum + (value - vector[j]) ** 2, 0);
+      vector = next;
+      if (change < CLUSTERING_CONFIG.PCA_TOLERANCE) {
+        break;
+      }
+    }
+
+    components.push(vector);
+    explained += centered.reduce((sum, row) => sum + dot(row, vector) ** 2, 0);
+  }
+
+  const points = centered.map((row, i) => {
+    // Sparse voters sit near the origin only because their missing votes are 0
+    const voted = matrix[i].filter((value) => !Number.isNaN(value)).length;
+    const scale = voted > 0 ? Math.sqrt(columns / voted) : 1;
+    return [
+      components[0] ? dot(row, components[0]) * scale : 0,
+      components[1] ? dot(row, components[1]) * scale : 0,
+    ] as [number, number];
+  });
+
+  return {
+    points,
+    varianceExplained: totalVariance > 0 ? explained / totalVariance : 0,
+  };
+}
+
+function distanceSquared(a: [number, number], b: [number, number]): number {
+  return (a[0] - b[0]) ** 2 + (a[1] - b[1]) ** 2;
+}
+
+function nearest(point: [number, number], centers: [number, number][]): number {
+  let best = 0;
+  for (let c = 1; c < centers.length; c++) {
+    if (distanceSquared(point, centers[c]) < distanceSquared(point, centers[best])) {
+      best = c;
+    }
+  }
+  return best;
+}
+
+/**
+ * One k-means run with k-means++ seeding
+ */
+function runKMeans(points: [number, number][], k: number, random: () => number) {
+  // k-means++: each next center is picked with probability ∝ squared distance
+  const centers: [number, number][] = [points[Math.floor(random() * points.length)]];
+  while (centers.length < k) {
+    const weights = points.map((point) => distanceSquared(point, centers[nearest(point, centers)]));
+    const total = weights.reduce((sum, weight) => sum + weight, 0);
+    let target = random() * total;
+    let index = 0;
+    while (index < points.length - 1 && target >= weights[index]) {
+      target -= weights[index];
+      index++;
+    }
+    centers.push(points[index]);
+  }
+
+  let assignments = points.map((point) => nearest(point, centers));
+  for (let iteration = 0; iteration < CLUSTERING_CONFIG.KMEANS_MAX_ITERATIONS; iteration++) {
+    for (let c = 0; c < k; c++) {
+      const members = points.filter((_, i) => assignments[i] === c);
+      if (members.length === 0) {
+        // Empty group: restart it at the point farthest from its center
+        const farthest = points.reduce((best, point, i) =>
+          distanceSquared(point, centers[assignments[i]]) > distanceSquared(points[best], centers[assignments[best]]) ? i : best, 0);
+        centers[c] = points[farthest];
+        continue;
+      }
+      centers[c] = [
+        members.reduce((sum, point) => sum + point[0], 0) / members.length,
+        members.reduce((sum, point) => sum + point[1], 0) / members.length,
+      ];
+    }
+
+    const next = points.map((point) => nearest(point, centers));
+    const changed = next.some((group, i) => group !== assignments[i]);
+    assignments = next;
+    if (!changed) {
+      break;
+    }
+  }
+
+  const inertia = points.reduce((sum, point, i) => sum + distanceSquared(point, centers[assignments[i]]), 0);
+  return { assignments, centers, inertia };
+}
+
+/**
+ * Mean silhouette score (-1 to 1, higher = better separated groups)
+ */
+export function silhouetteScore(points: [number, number][], assignments: number[], k: number): number {
+  const step = Math.max(1, Math.ceil(points.length / CLUSTERING_CONFIG.SILHOUETTE_SAMPLE));
+  let total = 0;
+  let scored = 0;
+
+  for (let i = 0; i < points.length; i += step) {
+    const sums = new Array(k).fill(0);
+    const counts = new Array(k).fill(0);
+    points.forEach((point, j) => {
+      if (j !== i) {
+        sums[assignments[j]] += Math.sqrt(distanceSquared(points[i], point));
+        counts[assignments[j]]++;
+      }
+    });
+
+    const own = assignments[i];
+    if (counts[own] === 0) {
+      continue; // Singleton groups score 0
+    }
+    const a = sums[own] / counts[own];
+    let b = Infinity;
+    for (let c = 0; c < k; c++) {
+      if (c !== own && counts[c] > 0) {
+        b = Math.min(b, sums[c] / counts[c]);
+      }
+    }
+    if (b === Infinity) {
+      continue;
+    }
+    total += (b - a) / Math.max(a, b, Number.EPSILON);
+    scored++;
+  }
+
+  return scored > 0 ? total / scored : 0;
+}
+
+/**
+ * Group 2D points with k-means, trying k = 2..MAX_GROUPS
+ *
+ * @param points - Voter positions from projectVoters
+ * @param minGroupSize - Ks that would leave a group smaller than this are skipped
+ * @returns The clustering with the best silhouette score, or null if no k fits
+ */
+export function clusterPoints(points: [number, number][], minGroupSize: number): Clustering | null {
+  const random = seededRandom(CLUSTERING_CONFIG.SEED);
+  let best: Clustering | null = null;
+
+  for (let k = 2; k <= CLUSTERING_CONFIG.MAX_GROUPS && k * minGroupSize <= points.length; k++) {
+    let run: ReturnType<typeof runKMeans> | null = null;
+    for (let restart = 0; restart < CLUSTERING_CONFIG.KMEANS_RESTARTS; restart++) {
+      const candidate = runKMeans(points, k, random);
+      if (!run || candidate.inertia < run.inertia) {
+        run = candidate;
+      }
+    }
+    if (!run) {
+      continue;
+    }
+
+    const sizes = new Array(k).fill(0);
+    run.assignments.forEach((group) => sizes[group]++);
+    if (sizes.some((size) => size < minGroupSize)) {
+      continue;
+    }
+
+    const silhouette = silhouetteScore(points, run.assignments, k);
+    if (!best || silhouette > best.silhouette) {
+      best = { k, assignments: run.assignments, centers: run.centers, silhouette };
+    }
+  }
+
+  return best;
+}
@@ -0,0 +1,326 @@
+/**
+ * Opinion Maps
+ *
+ * Finds groups of voters who vote alike across the posts of a sub category
+ * (e.g. "Immigration"), like Polis does for a conversation: PCA plus
+ * k-means over the voter x post matrix of vote values (see
+ * src/lib/opinionClustering.ts). For every group it stores which posts the
+ * group agrees or disagrees on, compared with everyone outside it, and
+ * gives each post a common ground score (Post.commonGroundScore, for
+ * sort=common-ground): how much every group agrees with it.
+ *
+ * Maps are built offline by the clustering job (npm run opinions:cluster)
+ * and shown on /category/[mainCategory]/[subCategory]/opinion-map. Only
+ * published posts and votes not excluded by an admin count. Positions are
+ * shown without usernames.
+ */
+
+import { PrismaClient } from '@prisma/client';
+import { clusterPoints, projectVoters } from '@/lib/opinionClustering';
+
+export const OPINION_MAP_CONFIG = {
+  MIN_VOTERS: 10, // Fewer voters (after the filters below): no map
+  MIN_POSTS: 3,
+  MIN_VOTES_PER_VOTER: 3, // Voters with fewer votes in the sub category are left out
+  MIN_VOTERS_PER_POST: 3, // Posts with fewer voters are left out
+  MIN_GROUP_SIZE: 3,
+  MIN_GROUP_VOTES: 3, // A group's stance on a post is only shown with this many votes
+  TOP_POSTS: 5, // Posts listed per group as "agrees on" / "disagrees on"
+  MAX_POINTS: 2000, // Points returned for drawing the map
+  // Time allowed for replacing a map: a base plus one score update per post
+  REBUILD_TIMEOUT_BASE_MS: 15_000,
+  REBUILD_TIMEOUT_PER_POST_MS: 20,
+} as const;
+
+export type OpinionMapOutcome =
+  | { status: 'built'; voters: number; posts: number; groups: number }
+  | { status: 'skipped'; reason: string }; // Not enough data; any old map was removed
+
+/**
+ * Common ground score of a post
+ *
+ * Polis' group-informed consensus: the chance that a member of each group
+ * agrees with the post ((agree + 1) / (votes + 2), so groups that barely
+ * voted count as 50/50), multiplied over the groups. The geometric mean
+ * keeps maps with more groups comparable. High only if every group
+ * agrees, however much the groups disagree elsewhere.
+ *
+ * @param groups - Vote count and agree count of each group on the post
+ * @returns Score from 0 to 1
+ */
+export function calculateCommonGroundScore(groups: { count: number; agree: number }[]): number {
+  if (groups.length === 0) {
+    return 0;
+  }
+  const logSum = groups.reduce((sum, group) => sum + Math.log((group.agree + 1) / (group.count + 2)), 0);
+  return Math.exp(logSum / groups.length);
+}
+
+/**
+ * Remove a sub category's map and its posts' common ground scores
+ */
+async function clearOpinionMap(db: PrismaClient, subCategoryId: string) {
+  await db.$transaction([
+    db.opinionMap.deleteMany({ where: { subCategoryId } }),
+    db.post.updateMany({
+      where: { subCategoryId, commonGroundScore: { not: null } },
+      data: { commonGroundScore: null },
+    }),
+  ]);
+}
+
+/**
+ * Build (or rebuild) the opinion map of a sub category
+ *
+ * @param db - Prisma client instance
+ * @param subCategoryId - Sub category ID
+ * @returns What happened
+ */
+export async function buildOpinionMap(db: PrismaClient, subCategoryId: string): Promise<OpinionMapOutcome> {
+  const votes = await db.vote.findMany({
+    where: { post: { subCategoryId, status: 'published' }, excluded: false },
+    select: { userId: true, postId: true, voteValue: true },
+  });
+
+  // Drop posts with few voters, then voters with few remaining votes
+  const votersPerPost = new Map<string, number>();
+  for (const vote of votes) {
+    votersPerPost.set(vote.postId, (votersPerPost.get(vote.postId) ?? 0) + 1);
+  }
+  const postIds = [...votersPerPost.keys()]
+    .filter((postId) => votersPerPost.get(postId)! >= OPINION_MAP_CONFIG.MIN_VOTERS_PER_POST)
+    .sort();
+  const postIndex = new Map(postIds.map((postId, j) => [postId, j]));
+
+  const votesByUser = new Map<string, { postId: string; voteValue: number }[]>();
+  for (const vote of votes) {
+    if (!postIndex.has(vote.postId)) {
+      continue;
+    }
+    const userVotes = votesByUser.get(vote.userId) ?? [];
+    userVotes.push(vote);
+    votesByUser.set(vote.userId, userVotes);
+  }
+  const userIds = [...votesByUser.keys()]
+    .filter((userId) => votesByUser.get(userId)!.length >= OPINION_MAP_CONFIG.MIN_VOTES_PER_VOTER)
+    .sort();
+
+  if (userIds.length < OPINION_MAP_CONFIG.MIN_VOTERS || postIds.length < OPINION_MAP_CONFIG.MIN_POSTS) {
+    await clearOpinionMap(db, subCategoryId);
+    return { status: 'skipped', reason: `${userIds.length} voters, ${postIds.length} posts` };
+  }
+
+  const matrix = userIds.map((userId) => {
+    const row = new Array(postIds.length).fill(NaN);
+    for (const vote of votesByUser.get(userId)!) {
+      row[postIndex.get(vote.postId)!] = vote.voteValue;
+    }
+    return row;
+  });
+
+  const projection = projectVoters(matrix);
+  const clustering = clusterPoints(projection.points, OPINION_MAP_CONFIG.MIN_GROUP_SIZE);
+  if (!clustering) {
+    await clearOpinionMap(db, subCategoryId);
+    return { status: 'skipped', reason: 'no grouping with large enough groups' };
+  }
+
+  // Label groups by size: 0 = largest
+  const sizes = new Array(clustering.k).fill(0);
+  clustering.assignments.forEach((group) => sizes[group]++);
+  const order = sizes.map((_, group) => group).sort((a, b) => sizes[b] - sizes[a]);
+
+  // Votes per group and post, and per post overall
+  const tallies = sizes.map(() => postIds.map(() => ({ count: 0, agree: 0, disagree: 0 })));
+  const totals = postIds.map(() => ({ count: 0, agree: 0, disagree: 0 }));
+  matrix.forEach((row, i) => {
+    row.forEach((value, j) => {
+      if (Number.isNaN(value)) {
+        return;
+      }
+      for (const tally of [tallies[clustering.assignments[i]][j], totals[j]]) {
+        tally.count++;
+        tally.agree += value > 0 ? 1 : 0;
+        tally.disagree += value < 0 ? 1 : 0;
+      }
+    });
+  });
+
+  const groups = order.map((group, label) => {
+    const members = userIds
+      .map((userId, i) => ({ userId, i }))
+      .filter(({ i }) => clustering.assignments[i] === group);
+
+    const posts = postIds.map((postId, j) => {
+      const own = tallies[group][j];
+      const others = {
+        count: totals[j].count - own.count,
+        agree: totals[j].agree - own.agree,
+        disagree: totals[j].disagree - own.disagree,
+      };
+      return {
+        postId,
+        voteCount: own.count,
+        agreeShare: own.count > 0 ? own.agree / own.count : 0,
+        disagreeShare: own.count > 0 ? own.disagree / own.count : 0,
+        othersAgreeShare: others.count > 0 ? others.agree / others.count : 0,
+        othersDisagreeShare: others.count > 0 ? others.disagree / others.count : 0,
+      };
+    });
+
+    return {
+      label,
+      memberCount: members.length,
+      centerX: clustering.centers[group][0],
+      centerY: clustering.centers[group][1],
+      members: {
+        createMany: {
+          data: members.map(({ userId, i }) => ({
+            userId,
+            x: projection.points[i][0],
+            y: projection.points[i][1],
+          })),
+        },
+      },
+      posts: {
+        createMany: { data: posts.filter((post) => post.voteCount > 0) },
+      },
+    };
+  });
+
+  const scores = postIds.map((postId, j) => ({
+    postId,
+    score: calculateCommonGroundScore(tallies.map((groupTallies) => groupTallies[j])),
+  }));
+
+  await db.$transaction(async (tx) => {
+    await tx.opinionMap.deleteMany({ where: { subCategoryId } });
+    await tx.post.updateMany({
+      where: { subCategoryId, commonGroundScore: { not: null } },
+      data: { commonGroundScore: null },
+    });
+    for (const { postId, score } of scores) {
+      await tx.post.update({
+        where: { id: postId },
+        data: { commonGroundScore: score },
+      });
+    }
+    await tx.opinionMap.create({
+      data: {
+        subCategoryId,
+        voterCount: userIds.length,
+        postCount: postIds.length,
+        varianceExplained: projection.varianceExplained,
+        silhouette: clustering.silhouette,
+        groups: { create: groups },
+      },
+    });
+  }, {
+    // Prisma's 5 s default is too short for a sub category with many posts
+    timeout:
+      OPINION_MAP_CONFIG.REBUILD_TIMEOUT_BASE_MS + scores.length * OPINION_MAP_CONFIG.REBUILD_TIMEOUT_PER_POST_MS,
+  });
+
+  return { status: 'built', voters: userIds.length, posts: postIds.length, groups: clustering.k };
+}
+
+/**
+ * Rebuild the opinion maps of every sub category
+ *
+ * @param db - Prisma client instance
+ * @returns How many maps were built, skipped (not enough votes) or failed
+ */
+export async function buildAllOpinionMaps(db: PrismaClient) {
+  const subCategories = await db.category.findMany({
+    where: { parentId: { not: null } },
+    select: { id: true, slug: true },
+  });
+
+  const counts = { built: 0, skipped: 0, failed: 0 };
+  for (const subCategory of subCategories) {
+    try {
+      const outcome = await buildOpinionMap(db, subCategory.id);
+      counts[outcome.status]++;
+    } catch (error) {
+      // One broken sub category shouldn't stop the others
+      console.error(`Error building opinion map for ${subCategory.slug}:`, error);
+      counts.failed++;
+    }
+  }
+
+  return counts;
+}
+
+/**
+ * The opinion map of a sub category, ready to display
+ *
+ * @param db - Prisma client instance
+ * @param subCategoryId - Sub category ID
+ * @param viewerId - Logged-in viewer, to mark their own group and position (null for guests)
+ * @returns The map, or null if it hasn't been built (not enough votes yet)
+ */
+export async function getOpinionMap(db: PrismaClient, subCategoryId: string, viewerId: string | null) {
+  const map = await db.opinionMap.findUnique({
+    where: { subCategoryId },
+    include: {
+      groups: {
+        orderBy: { label: 'asc' },
+        include: {
+          posts: {
+            where: {
+              voteCount: { gte: OPINION_MAP_CONFIG.MIN_GROUP_VOTES },
+              post: { status: 'published' },
+            },
+            include: { post: { select: { id: true, title: true } } },
+          },
+          members: { select: { userId: true, x: true, y: true } },
+        },
+      },
+    },
+  });
+
+  if (!map) {
+    return null;
+  }
+
+  const allPoints = map.groups.flatMap((group) =>
+    group.members.map((member) => ({ x: member.x, y: member.y, group: group.label, userId: member.userId }))
+  );
+  const viewer = viewerId ? allPoints.find((point) => point.userId === viewerId) ?? null : null;
+  const step = Math.max(1, Math.ceil(allPoints.length / OPINION_MAP_CONFIG.MAX_POINTS));
+
+  const summarize = (post: (typeof map.groups)[number]['posts'][number], share: number, othersShare: number) => ({
+    post: post.post,
+    voteCount: post.voteCount,
+    share,
+    othersShare,
+  });
+
+  return {
+    computedAt: map.computedAt,
+    voterCount: map.voterCount,
+    postCount: map.postCount,
+    varianceExplained: map.varianceExplained,
+    groups: map.groups.map((group) => ({
+      label: group.label,
+      memberCount: group.memberCount,
+      center: { x: group.centerX, y: group.centerY },
+      // Where the group stands out: majority view that others share least
+      agreesOn: group.posts
+        .filter((post) => post.agreeShare >= 0.5)
+        .sort((a, b) => (b.agreeShare - b.othersAgreeShare) - (a.agreeShare - a.othersAgreeShare))
+        .slice(0, OPINION_MAP_CONFIG.TOP_POSTS)
+        .map((post) => summarize(post, post.agreeShare, post.othersAgreeShare)),
+      disagreesOn: group.posts
+        .filter((post) => post.disagreeShare >= 0.5)
+        .sort((a, b) => (b.disagreeShare - b.othersDisagreeShare) - (a.disagreeShare - a.othersDisagreeShare))
+        .slice(0, OPINION_MAP_CONFIG.TOP_POSTS)
+        .map((post) => summarize(post, post.disagreeShare, post.othersDisagreeShare)),
+    })),
+    // Anonymous positions (every nth voter on large maps)
+    points: allPoints
+      .filter((_, i) => i % step === 0)
+      .map(({ x, y, group }) => ({ x, y, group })),
+    viewer: viewer ? { x: viewer.x, y: viewer.y, group: viewer.group } : null,
+  };
+}
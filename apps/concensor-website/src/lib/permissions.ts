@@ -0,0 +1,162 @@
+/**
+ * Permissions
+ *
+ * Who may do what with posts, comments and categories. Routes call these
+ * checks instead of comparing ids themselves.
+ *
+ * Roles:
+ * - admin: Site administrator (User.role). Passes every check below.
+ * - moderator: Scoped to one MAIN category (CategoryModerator). Covers all
+ *   posts and comments in that category and its sub categories.
+ * - user: Everyone else. Can only change their own content.
+ *
+ * Moderators can remove content but not edit it: a post's text is always
+ * the author's own words.
+ */
+
+import { PrismaClient } from '@prisma/client';
+import type { AuthenticatedUser } from '@/lib/requestAuth';
+
+type PermissionUser = Pick<AuthenticatedUser, 'id' | 'role'>;
+
+/**
+ * Check if the user is a site admin
+ */
+export function isAdmin(user: PermissionUser | null): boolean {
+  return user?.role === 'admin';
+}
+
+/**
+ * Get the ids of the main categories a user moderates
+ *
+ * @param db - Prisma client instance
+ * @param userId - User ID
+ */
+export async function getModeratedCategoryIds(db: PrismaClient, userId: string): Promise<string[]> {
+  const rows = await db.categoryModerator.findMany({
+    where: { userId },
+    select: { categoryId: true },
+  });
+  return rows.map((row) => row.categoryId);
+}
+
+/**
+ * Check if the user can moderate a main category (admins can moderate every category)
+ *
+ * @param db - Prisma client instance
+ * @param user - Current user (null for guests)
+ * @param mainCategoryId - Main category ID
+ */
+export async function canModerateCategory(
+  db: PrismaClient,
+  user: PermissionUser | null,
+  mainCategoryId: string
+): Promise<boolean> {
+  if (!user) {
+    return false;
+  }
+  if (isAdmin(user)) {
+    return true;
+  }
+
+  const moderator = await db.categoryModerator.findUnique({
+    where: { userId_categoryId: { userId: user.id, categoryId: mainCategoryId } },
+    select: { id: true },
+  });
+  return moderator !== null;
+}
+
+/**
+ * Check if the user can edit a post (author only)
+ */
+export function canEditPost(
+  user: PermissionUser | null,
+  post: { authorId: string | null }
+): boolean {
+  return !!user && post.authorId === user.id;
+}
+
+/**
+ * Check if the user can delete a post (author, category moderator or admin)
+ */
+export async function canDeletePost(
+  db: PrismaClient,
+  user: PermissionUser | null,
+  post: { authorId: string | null; mainCategoryId: string }
+): Promise<boolean> {
+  if (canEditPost(user, post)) {
+    return true;
+  }
+  return canModerateCategory(db, user, post.mainCategoryId);
+}
+
+/**
+ * Check if the user can edit a comment (commenter only)
+ */
+export function canEditComment(
+  user: PermissionUser | null,
+  comment: { userId: string | null }
+): boolean {
+  return !!user && comment.userId === user.id;
+}
+
+/**
+ * Check if the user can delete a comment (commenter, moderator of the post's category or admin)
+ */
+export async function canDeleteComment(
+  db: PrismaClient,
+  user: PermissionUser | null,
+  comment: { userId: string | null },
+  post: { mainCategoryId: string }
+): Promise<boolean> {
+  if (user && comment.userId === user.id) {
+    return true;
+  }
+  return canModerateCategory(db, user, post.mainCategoryId);
+}
+
+/**
+ * Check if the user can update a category's details
+ * (moderators of the main category, for it and its sub categories, or admins)
+ */
+export async function canManageCategory(
+  db: PrismaClient,
+  user: PermissionUser | null,
+  category: { id: string; parentId: string | null }
+): Promise<boolean> {
+  return canModerateCategory(db, user, category.parentId ?? category.id);
+}
+
+/**
+ * Check if the user can create, change or delete an automod rule
+ * (site-wide and regex rules: admins; other category rules: moderators of
+ * that main category)
+ */
+export async function canManageAutomodRule(
+  db: PrismaClient,
+  user: PermissionUser | null,
+  rule: { categoryId: string | null; type: string }
+): Promise<boolean> {
+  if (rule.type === 'regex') {
+    return isAdmin(user);
+  }
+  return rule.categoryId ? canModerateCategory(db, user, rule.categoryId) : isAdmin(user);
+}
+
+/**
+ * Get the categories whose moderation queue the user can see
+ *
+ * @param db - Prisma client instance
+ * @param user - Current user
+ * @returns null for admins (every category, plus user reports), otherwise the
+ *          moderated main category ids (empty for regular users)
+ */
+export async function getModerationScope(
+  db: PrismaClient,
+  user: PermissionUser
+): Promise<string[] | null> {
+  if (isAdmin(user)) {
+    return null;
+  }
+  return getModeratedCategoryIds(db, user.id);
+}
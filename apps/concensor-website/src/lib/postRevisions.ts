@@ -0,0 +1,201 @@
+/**
+ * Post Revision Service
+ *
+ * Every version of a post is stored as a PostRevision (revision 1 is the
+ * text it was published with) and each Vote records the revision it was cast
+ * against, so an edit can't quietly change what people voted on.
+ *
+ * Edit policy:
+ * - Authors can lock their post; after that it can't be edited (one-way)
+ * - Once a post has reached MINOR_EDIT_VOTE_THRESHOLD votes, only typo-level
+ *   edits are allowed (see isMinorEdit), even if votes are retracted later.
+ *   They're measured against the version the post had when it reached the
+ *   threshold, not the previous edit, so a series of small edits can't add
+ *   up to a rewrite.
+ * - Title and content are capped at MAX_TITLE_LENGTH / MAX_CONTENT_LENGTH
+ */
+
+import { PrismaClient } from '@prisma/client';
+import { countChangedCharacters } from '@/lib/textDiff';
+
+export const POST_EDIT_CONFIG = {
+  MINOR_EDIT_VOTE_THRESHOLD: 10, // From this many votes on, only typo-level edits
+  MINOR_EDIT_MIN_CHARS: 20, // A typo-level edit may always change this many characters...
+  MINOR_EDIT_MAX_RATIO: 0.02, // ...or 2% of the post's length, whichever is more
+  MAX_TITLE_LENGTH: 200,
+  MAX_CONTENT_LENGTH: 20000,
+};
+
+interface PostText {
+  title: string;
+  content: string;
+}
+
+function countNonWhitespace(text: string): number {
+  return text.replace(/\s+/g, '').length;
+}
+
+/**
+ * Check title and content lengths (trimmed)
+ *
+ * @returns Error message, or null if both fit
+ */
+export function checkPostLength(text: PostText): string | null {
+  if (text.title.trim().length > POST_EDIT_CONFIG.MAX_TITLE_LENGTH) {
+    return `Title is too long (max ${POST_EDIT_CONFIG.MAX_TITLE_LENGTH} characters)`;
+  }
+  if (text.content.trim().length > POST_EDIT_CONFIG.MAX_CONTENT_LENGTH) {
+    return `Content is too long (max ${POST_EDIT_CONFIG.MAX_CONTENT_LENGTH} characters)`;
+  }
+  return null;
+}
+
+/**
+ * Whether an edit is small enough to be a typo fix
+ *
+ * Counts the characters removed and added in the title and content
+ * (whitespace ignored) against the typo-level limit for the old post.
+ * Texts over the length caps, or whose length alone differs by more than the
+ * limit, aren't minor and aren't diffed.
+ */
+export function isMinorEdit(before: PostText, after: PostText): boolean {
+  const limit = Math.max(
+    POST_EDIT_CONFIG.MINOR_EDIT_MIN_CHARS,
+    Math.floor((before.title.length + before.content.length) * POST_EDIT_CONFIG.MINOR_EDIT_MAX_RATIO)
+  );
+
+  const maxLength = POST_EDIT_CONFIG.MAX_TITLE_LENGTH + POST_EDIT_CONFIG.MAX_CONTENT_LENGTH;
+  if (
+    before.title.length + before.content.length > maxLength ||
+    after.title.length + after.content.length > maxLength
+  ) {
+    return false;
+  }
+
+  // Every character more or less is at least one changed character
+  const lengthDifference = Math.abs(
+    countNonWhitespace(before.title + before.content) - countNonWhitespace(after.title + after.content)
+  );
+  if (lengthDifference > limit) {
+    return false;
+  }
+
+  const changed =
+    countChangedCharacters(before.title, after.title) +
+    countChangedCharacters(before.content, after.content);
+  return changed <= limit;
+}
+
+/**
+ * The revision that was current when the post first reached
+ * MINOR_EDIT_VOTE_THRESHOLD votes
+ *
+ * Replays the post's vote changes (a new vote adds one, a retraction takes
+ * one away; excluded votes count too). Once reached, the threshold stays
+ * reached: retracting or excluding votes doesn't reopen the post for
+ * rewrites. Posts whose votes predate the vote history fall back to the
+ * oldest revision a vote was cast against, if they have enough votes.
+ *
+ * @param db - Prisma client instance
+ * @param postId - Post ID
+ * @returns Revision number, or null if the post never reached the threshold
+ */
+export async function getThresholdRevision(db: PrismaClient, postId: string): Promise<number | null> {
+  const changes = await db.voteChange.findMany({
+    where: { postId },
+    orderBy: { createdAt: 'asc' },
+    select: { fromType: true, toType: true, postRevision: true },
+  });
+
+  let count = 0;
+  for (const change of changes) {
+    if (change.fromType === null && change.toType !== null) {
+      count++;
+      if (count === POST_EDIT_CONFIG.MINOR_EDIT_VOTE_THRESHOLD) {
+        return change.postRevision;
+      }
+    } else if (change.fromType !== null && change.toType === null) {
+      count--;
+    }
+  }
+
+  const votes = await db.vote.count({ where: { postId } });
+  if (votes < POST_EDIT_CONFIG.MINOR_EDIT_VOTE_THRESHOLD) {
+    return null;
+  }
+  const oldestVote = await db.vote.findFirst({
+    where: { postId },
+    orderBy: { postRevision: 'asc' },
+    select: { postRevision: true },
+  });
+  return oldestVote?.postRevision ?? null;
+}
+
+/**
+ * Check an edit against the edit policy
+ *
+ * @param db - Prisma client instance
+ * @param post - Current post (text and lock)
+ * @param next - Text after the edit
+ * @returns Error message, or null if the edit is allowed
+ */
+export async function checkPostEdit(
+  db: PrismaClient,
+  post: PostText & { id: string; editsLocked: boolean },
+  next: PostText
+): Promise<string | null> {
+  if (post.editsLocked) {
+    return 'Editing is locked for this post';
+  }
+
+  const thresholdRevision = await getThresholdRevision(db, post.id);
+  if (thresholdRevision !== null) {
+    // Measured against that version, so small edits can't add up to a rewrite
+    const baseline = await db.postRevision.findUnique({
+      where: { postId_revision: { postId: post.id, revision: thresholdRevision } },
+      select: { title: true, content: true },
+    });
+    if (!isMinorEdit(baseline ?? post, next)) {
+      return `This post has reached ${POST_EDIT_CONFIG.MINOR_EDIT_VOTE_THRESHOLD} votes, so only small corrections (typos) are allowed`;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Save an edit as a new revision
+ *
+ * Bumps Post.revision, stores the new text as that revision and sets
+ * editedAt in one transaction.
+ *
+ * @param db - Prisma client instance
+ * @param postId - Post ID
+ * @param next - New title and content
+ * @returns The new revision number
+ */
+export async function editPost(db: PrismaClient, postId: string, next: PostText): Promise<number> {
+  return db.$transaction(async (tx) => {
+    const post = await tx.post.update({
+      where: { id: postId },
+      data: {
+        title: next.title,
+        content: next.content,
+        revision: { increment: 1 },
+        editedAt: new Date(),
+      },
+      select: { revision: true },
+    });
+
+    await tx.postRevision.create({
+      data: {
+        postId,
+        revision: post.revision,
+        title: next.title,
+        content: next.content,
+      },
+    });
+
+    return post.revision;
+  });
+}
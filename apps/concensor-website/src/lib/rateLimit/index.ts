@@ -0,0 +1,238 @@
+/**
+ * Rate Limiting
+ *
+ * Throttles auth endpoints by client IP and by account, and locks accounts
+ * out progressively after repeated failed password checks.
+ *
+ * Store selection (RATE_LIMIT_STORE env variable):
+ * - "memory" (default): Per-instance counters, no setup needed
+ * - "postgres": Shared counters in the rate_limit_buckets table (multi-instance)
+ *
+ * Usage in a route:
+ *   const limit = await consumeRateLimit('SIGNUP_IP', getClientIp(request));
+ *   if (!limit.allowed) {
+ *     return rateLimitExceededResponse(limit.retryAfterSeconds);
+ *   }
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/lib/db';
+import { MemoryRateLimitStore } from './memory';
+import { PostgresRateLimitStore } from './postgres';
+import type { RateLimitStore } from './types';
+
+// Export the interface for type checking
+export type { RateLimitStore, RateLimitEntry } from './types';
+
+// Create and export the store instance
+// To switch backends, set RATE_LIMIT_STORE=postgres (or change this line)
+export const rateLimitStore: RateLimitStore =
+  process.env.RATE_LIMIT_STORE === 'postgres'
+    ? new PostgresRateLimitStore(db)
+    : new MemoryRateLimitStore();
+
+// ============================================
+// RATE LIMIT CONFIGURATION
+// ============================================
+
+/**
+ * Request limits per endpoint
+ * - limit: Maximum requests per window
+ * - windowMs: Window length in milliseconds
+ */
+export const RATE_LIMITS = {
+  LOGIN_IP: { limit: 20, windowMs: 15 * 60 * 1000 },                // 20 login attempts per IP per 15 minutes
+  SIGNUP_IP: { limit: 5, windowMs: 60 * 60 * 1000 },                // 5 signups per IP per hour
+  RESEND_VERIFICATION_IP: { limit: 10, windowMs: 60 * 60 * 1000 },  // 10 resends per IP per hour
+  RESEND_VERIFICATION_ACCOUNT: { limit: 3, windowMs: 60 * 60 * 1000 }, // 3 resends per email per hour
+  FORGOT_PASSWORD_IP: { limit: 10, windowMs: 60 * 60 * 1000 },      // 10 reset requests per IP per hour
+  FORGOT_PASSWORD_ACCOUNT: { limit: 3, windowMs: 60 * 60 * 1000 },  // 3 reset emails per email per hour
+  AVAILABILITY_CHECK_IP: { limit: 60, windowMs: 15 * 60 * 1000 },   // 60 email/username checks per IP per 15 minutes
+  DATA_EXPORT_ACCOUNT: { limit: 5, windowMs: 60 * 60 * 1000 },      // 5 personal data exports per user per hour
+  EMAIL_CHANGE_ACCOUNT: { limit: 3, windowMs: 60 * 60 * 1000 },     // 3 email change requests per user per hour
+  AVATAR_UPLOAD_ACCOUNT: { limit: 10, windowMs: 60 * 60 * 1000 },    // 10 profile picture uploads per user per hour
+  REPORT_ACCOUNT: { limit: 20, windowMs: 60 * 60 * 1000 },           // 20 content reports per user per hour
+  VOTE_CHANGE_ACCOUNT: { limit: 10, windowMs: 60 * 60 * 1000 },      // 10 vote changes / retractions per user per post per hour
+} as const;
+
+export type RateLimitName = keyof typeof RATE_LIMITS;
+
+/**
+ * Progressive lockout after failed password checks (per account)
+ *
+ * After FREE_ATTEMPTS failures, every further failure locks the account for
+ * BASE_LOCKOUT_MS * 2^(failures - FREE_ATTEMPTS), capped at MAX_LOCKOUT_MS.
+ * Example: 5th failure = 1 min, 6th = 2 min, 7th = 4 min, ... up to 1 hour.
+ * The failure count resets after a successful login or FAILURE_WINDOW_MS without failures.
+ */
+export const LOCKOUT_CONFIG = {
+  FREE_ATTEMPTS: 4,                      // Failures allowed before lockout starts
+  BASE_LOCKOUT_MS: 60 * 1000,            // First lockout: 1 minute
+  MAX_LOCKOUT_MS: 60 * 60 * 1000,        // Longest lockout: 1 hour
+  FAILURE_WINDOW_MS: 24 * 60 * 60 * 1000, // Failures are remembered for 24 hours
+} as const;
+
+/**
+ * Result of a rate limit or lockout check
+ */
+export interface RateLimitResult {
+  allowed: boolean;
+  retryAfterSeconds: number; // 0 when allowed
+}
+
+// ============================================
+// HELPERS
+// ============================================
+
+/**
+ * Number of reverse proxies in front of the app (TRUSTED_PROXY_HOPS env
+ * variable, default 1). Each proxy appends the address it received the
+ * request from to X-Forwarded-For, so only the last this many entries are
+ * trustworthy; anything to the left of them was sent by the client.
+ */
+const configuredHops = parseInt(process.env.TRUSTED_PROXY_HOPS ?? '', 10);
+const TRUSTED_PROXY_HOPS = Number.isNaN(configuredHops) ? 1 : Math.max(0, configuredHops);
+
+/**
+ * Get client IP address from request headers
+ *
+ * Uses the X-Forwarded-For entry added by the outermost trusted proxy
+ * (TRUSTED_PROXY_HOPS from the right), never the left-most entry, which the
+ * client controls. Falls back to X-Real-IP (the proxy must overwrite it)
+ * when there is no X-Forwarded-For header.
+ *
+ * @param request - Next.js request object
+ * @returns IP address string, or 'unknown'
+ */
+export function getClientIp(request: NextRequest): string {
+  if (TRUSTED_PROXY_HOPS === 0) {
+    return 'unknown'; // Not behind a proxy: the headers come straight from the client
+  }
+
+  const forwardedFor = request.headers.get('x-forwarded-for');
+  if (forwardedFor) {
+    const hops = forwardedFor.split(',').map((entry) => entry.trim());
+    // Fewer entries than trusted proxies: the header didn't pass through all of them
+    const entry = hops.length >= TRUSTED_PROXY_HOPS ? hops[hops.length - TRUSTED_PROXY_HOPS] : '';
+    return entry || 'unknown';
+  }
+
+  return request.headers.get('x-real-ip')?.trim() || 'unknown';
+}
+
+/**
+ * Seconds from now until a date (at least 1)
+ */
+function secondsUntil(date: Date): number {
+  return Math.max(1, Math.ceil((date.getTime() - Date.now()) / 1000));
+}
+
+/**
+ * Record one request against a limit and check whether it's allowed
+ *
+ * @param name - Limit name from RATE_LIMITS
+ * @param identifier - What the limit is keyed by (IP address or normalized email)
+ * @returns Whether the request is allowed, and how long to wait if not
+ */
+export async function consumeRateLimit(
+  name: RateLimitName,
+  identifier: string
+): Promise<RateLimitResult> {
+  const { limit, windowMs } = RATE_LIMITS[name];
+  const entry = await rateLimitStore.increment(`${name}:${identifier}`, windowMs);
+
+  if (entry.count > limit) {
+    return { allowed: false, retryAfterSeconds: secondsUntil(entry.resetAt) };
+  }
+
+  return { allowed: true, retryAfterSeconds: 0 };
+}
+
+/**
+ * Build a 429 Too Many Requests response with a Retry-After header
+ *
+ * @param retryAfterSeconds - Seconds until the client may retry
+ * @param message - Optional custom error message
+ */
+export function rateLimitExceededResponse(
+  retryAfterSeconds: number,
+  message = 'Too many requests. Please try again later.'
+) {
+  return NextResponse.json(
+    { error: message, retryAfter: retryAfterSeconds },
+    {
+      status: 429, // HTTP 429 = Too Many Requests
+      headers: { 'Retry-After': String(retryAfterSeconds) },
+    }
+  );
+}
+
+// ============================================
+// ACCOUNT LOCKOUT (failed password checks)
+// ============================================
+
+function lockoutKey(accountId: string): string {
+  return `LOGIN_FAILURES:${accountId}`;
+}
+
+/**
+ * Check whether an account is currently locked out
+ *
+ * @param accountId - Normalized email (so unknown emails are tracked too)
+ * @returns allowed = false with retry time while locked
+ */
+export async function checkAccountLockout(accountId: string): Promise<RateLimitResult> {
+  const entry = await rateLimitStore.get(lockoutKey(accountId));
+
+  if (entry?.blockedUntil && entry.blockedUntil > new Date()) {
+    return { allowed: false, retryAfterSeconds: secondsUntil(entry.blockedUntil) };
+  }
+
+  return { allowed: true, retryAfterSeconds: 0 };
+}
+
+/**
+ * Record a failed password check and lock the account if needed
+ *
+ * @param accountId - Normalized email
+ * @returns allowed = false if this failure triggered a lockout
+ */
+export async function recordFailedPasswordAttempt(accountId: string): Promise<RateLimitResult> {
+  const key = lockoutKey(accountId);
+  const entry = await rateLimitStore.increment(key, LOCKOUT_CONFIG.FAILURE_WINDOW_MS);
+
+  const excessFailures = entry.count - LOCKOUT_CONFIG.FREE_ATTEMPTS;
+  if (excessFailures <= 0) {
+    return { allowed: true, retryAfterSeconds: 0 };
+  }
+
+  // Double the lockout for every failure past the free attempts
+  const lockoutMs = Math.min(
+    LOCKOUT_CONFIG.BASE_LOCKOUT_MS * Math.pow(2, excessFailures - 1),
+    LOCKOUT_CONFIG.MAX_LOCKOUT_MS
+  );
+  const blockedUntil = new Date(Date.now() + lockoutMs);
+  await rateLimitStore.block(key, blockedUntil);
+
+  return { allowed: false, retryAfterSeconds: secondsUntil(blockedUntil) };
+}
+
+/**
+ * Clear failed password attempts (call after a successful password check)
+ *
+ * @param accountId - Normalized email
+ */
+export async function clearFailedPasswordAttempts(accountId: string): Promise<void> {
+  await rateLimitStore.reset(lockoutKey(accountId));
+}
+
+/**
+ * Build the 429 response for a locked account
+ */
+export function accountLockedResponse(retryAfterSeconds: number) {
+  const minutes = Math.ceil(retryAfterSeconds / 60);
+  return rateLimitExceededResponse(
+    retryAfterSeconds,
+    `Too many failed login attempts. Please try again in ${minutes} minute${minutes === 1 ? '' : 's'}.`
+  );
+}
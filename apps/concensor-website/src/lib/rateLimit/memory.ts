@@ -0,0 +1,95 @@
+/**
+ * In-Memory Rate Limit Store
+ * 
+ * Default implementation of the RateLimitStore interface.
+ * Counters live in a Map inside the Node.js process, so they are:
+ * - Fast (no database round trip)
+ * - Per instance (each server instance has its own counters)
+ * - Lost on restart
+ * 
+ * Good for development and single-instance deployments.
+ * Use the Postgres store when running more than one instance.
+ */
+
+import type { RateLimitEntry, RateLimitStore } from './types';
+
+// Prune expired entries once the map grows past this size
+const CLEANUP_THRESHOLD = 10000;
+
+/**
+ * In-Memory Rate Limit Store Implementation
+ */
+export class MemoryRateLimitStore implements RateLimitStore {
+  private entries = new Map<string, RateLimitEntry>();
+
+  async get(key: string): Promise<RateLimitEntry | null> {
+    const entry = this.entries.get(key);
+    if (!entry) {
+      return null;
+    }
+
+    if (this.isExpired(entry, new Date())) {
+      this.entries.delete(key);
+      return null;
+    }
+
+    return { ...entry };
+  }
+
+  async increment(key: string, windowMs: number): Promise<RateLimitEntry> {
+    const now = new Date();
+    const existing = this.entries.get(key);
+
+    let entry: RateLimitEntry;
+    if (!existing || existing.resetAt <= now) {
+      // Start a new window (keep an active lockout if there is one)
+      entry = {
+        count: 1,
+        resetAt: new Date(now.getTime() + windowMs),
+        blockedUntil: existing?.blockedUntil && existing.blockedUntil > now ? existing.blockedUntil : null,
+      };
+    } else {
+      entry = { ...existing, count: existing.count + 1 };
+    }
+
+    this.entries.set(key, entry);
+    this.cleanup(now);
+
+    return { ...entry };
+  }
+
+  async block(key: string, until: Date): Promise<void> {
+    const existing = this.entries.get(key);
+    this.entries.set(key, {
+      count: existing?.count ?? 0,
+      resetAt: existing?.resetAt ?? until,
+      blockedUntil: until,
+    });
+  }
+
+  async reset(key: string): Promise<void> {
+    this.entries.delete(key);
+  }
+
+  /**
+   * An entry is expired when its window ended and it isn't locked
+   */
+  private isExpired(entry: RateLimitEntry, now: Date): boolean {
+    return entry.resetAt <= now && (!entry.blockedUntil || entry.blockedUntil <= now);
+  }
+
+  /**
+   * Remove expired entries so the map doesn't grow forever
+   */
+  private cleanup(now: Date) {
+    if (this.entries.size < CLEANUP_THRESHOLD) {
+      return;
+    }
+
+    this.entries.forEach((entry, key) => {
+      if (this.isExpired(entry, now)) {
+        this.entries.delete(key);
+      }
+    });
+  }
+}
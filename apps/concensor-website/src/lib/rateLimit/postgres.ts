@@ -0,0 +1,113 @@
+/**
+ * Postgres Rate Limit Store
+ * 
+ * Postgres implementation of the RateLimitStore interface, backed by the
+ * `rate_limit_buckets` table (RateLimitBucket model).
+ * 
+ * Counters are shared by every server instance, so limits and lockouts hold
+ * no matter which instance handles a request.
+ * 
+ * Setup:
+ * 1. Run migrations (creates rate_limit_buckets)
+ * 2. Add RATE_LIMIT_STORE=postgres to your .env file
+ */
+
+import type { PrismaClient } from '@prisma/client';
+import type { RateLimitEntry, RateLimitStore } from './types';
+
+// Fraction of increments that also delete expired rows (keeps the table small)
+const CLEANUP_PROBABILITY = 0.01;
+
+/**
+ * Postgres Rate Limit Store Implementation
+ */
+export class PostgresRateLimitStore implements RateLimitStore {
+  constructor(private db: PrismaClient) {}
+
+  async get(key: string): Promise<RateLimitEntry | null> {
+    const bucket = await this.db.rateLimitBucket.findUnique({
+      where: { key },
+    });
+
+    if (!bucket) {
+      return null;
+    }
+
+    const now = new Date();
+    if (bucket.resetAt <= now && (!bucket.blockedUntil || bucket.blockedUntil <= now)) {
+      return null;
+    }
+
+    return {
+      count: bucket.count,
+      resetAt: bucket.resetAt,
+      blockedUntil: bucket.blockedUntil,
+    };
+  }
+
+  async increment(key: string, windowMs: number): Promise<RateLimitEntry> {
+    const now = new Date();
+    const resetAt = new Date(now.getTime() + windowMs);
+
+    // Upsert with increment is a single atomic statement (INSERT ... ON CONFLICT)
+    let bucket = await this.db.rateLimitBucket.upsert({
+      where: { key },
+      create: { key, count: 1, resetAt },
+      update: { count: { increment: 1 } },
+    });
+
+    // Previous window already ended - start a new one
+    // The resetAt condition makes sure only one concurrent request restarts the window
+    if (bucket.resetAt <= now) {
+      await this.db.rateLimitBucket.updateMany({
+        where: { key, resetAt: { lte: now } },
+        data: { count: 1, resetAt },
+      });
+      bucket = (await this.db.rateLimitBucket.findUnique({ where: { key } })) ?? bucket;
+    }
+
+    if (Math.random() < CLEANUP_PROBABILITY) {
+      await this.cleanup(now);
+    }
+
+    return {
+      count: bucket.count,
+      resetAt: bucket.resetAt,
+      blockedUntil: bucket.blockedUntil && bucket.blockedUntil > now ? bucket.blockedUntil : null,
+    };
+  }
+
+  async block(key: string, until: Date): Promise<void> {
+    await this.db.rateLimitBucket.upsert({
+      where: { key },
+      create: { key, count: 0, resetAt: until, blockedUntil: until },
+      update: { blockedUntil: until },
+    });
+  }
+
+  async reset(key: string): Promise<void> {
+    await this.db.rateLimitBucket.deleteMany({
+      where: { key },
+    });
+  }
+
+  /**
+   * Delete buckets whose window ended and that aren't locked
+   */
+  private async cleanup(now: Date) {
+    try {
+      await this.db.rateLimitBucket.deleteMany({
+        where: {
+          resetAt: { lte: now },
+          OR: [
+            { blockedUntil: null },
+            { blockedUntil: { lte: now } },
+          ],
+        },
+      });
+    } catch (error) {
+      // Cleanup is best-effort - never fail the request because of it
+      console.error('Failed to clean up rate limit buckets:', error);
+    }
+  }
+}
@@ -0,0 +1,59 @@
+/**
+ * Rate Limit Store Interface
+ * 
+ * This interface defines the contract for rate limit storage backends.
+ * By using this abstraction, rate limiting works the same way whether counters
+ * live in process memory (single instance, development) or in Postgres
+ * (shared across all server instances).
+ * 
+ * To switch backends:
+ * 1. Create a new implementation (e.g., src/lib/rateLimit/redis.ts)
+ * 2. Update src/lib/rateLimit/index.ts to use the new implementation
+ * 3. No other code changes needed!
+ */
+
+/**
+ * State of one rate limit bucket (one key, e.g. "login:ip:1.2.3.4")
+ */
+export interface RateLimitEntry {
+  count: number;             // Hits in the current window
+  resetAt: Date;             // When the current window ends
+  blockedUntil: Date | null; // Lockout end time (null = not locked)
+}
+
+export interface RateLimitStore {
+  /**
+   * Get the current bucket for a key
+   * 
+   * @param key - Bucket key
+   * @returns Current entry, or null if the key has no active window or lockout
+   */
+  get(key: string): Promise<RateLimitEntry | null>;
+
+  /**
+   * Record one hit for a key (fixed window)
+   * 
+   * Starts a new window (count = 1) if there is none or the previous one ended.
+   * Must be atomic so concurrent requests can't slip past the limit.
+   * 
+   * @param key - Bucket key
+   * @param windowMs - Window length in milliseconds
+   * @returns Entry after the hit
+   */
+  increment(key: string, windowMs: number): Promise<RateLimitEntry>;
+
+  /**
+   * Lock a key until the given time
+   * 
+   * @param key - Bucket key
+   * @param until - Lockout end time
+   */
+  block(key: string, until: Date): Promise<void>;
+
+  /**
+   * Remove a key (e.g., clear failed login count after a successful login)
+   * 
+   * @param key - Bucket key
+   */
+  reset(key: string): Promise<void>;
+}
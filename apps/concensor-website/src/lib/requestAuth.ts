@@ -0,0 +1,409 @@
+/**
+ * Request Authentication Layer
+ *
+ * Shared authentication for API route handlers. Every route that needs the
+ * current user should go through this module instead of reading the cookie
+ * and verifying the token itself.
+ *
+ * Provides:
+ * - getAuthenticatedUser(): Resolve the user for a request (or null)
+ * - getCurrentSessionId(): Session registry id of the request's login (or null)
+ * - getAccountRestriction(): Active suspension of the request's user (or null)
+ * - requireUser(): Wrap a handler that needs a logged-in user (401 otherwise,
+ *   403 for writes by suspended users)
+ * - optionalUser(): Wrap a handler that works with or without a user
+ * - requireRole(): Wrap a handler that needs a specific role (403 otherwise)
+ * - startSession(): Create a session, sign its token and set the cookie (login)
+ * - reissueSessionToken(): New token for the current session (after tokenVersion changes)
+ * - setAuthCookie() / clearAuthCookie(): Write or clear the `token` cookie
+ *
+ * Usage:
+ *   export const POST = requireUser(async (request, { params }, user) => {
+ *     // user is guaranteed to be authenticated here
+ *   });
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import type { User } from '@prisma/client';
+import { db } from '@/lib/db';
+import { verifyToken, generateToken } from '@/lib/auth';
+import { createSession, touchSession } from '@/lib/sessions';
+import {
+  ActiveRestriction,
+  activeRestrictionWhere,
+  pickActiveRestriction,
+  accountRestrictedResponse,
+} from '@/lib/suspensions';
+import { getClientIp } from '@/lib/rateLimit';
+import { isAccountDeletionDue } from '@/lib/accountDeletion';
+
+/**
+ * Name of the HttpOnly cookie holding the JWT
+ */
+export const AUTH_COOKIE_NAME = 'token';
+
+/**
+ * Cookie lifetime in seconds (7 days, same as JWT_EXPIRES_IN default)
+ */
+const AUTH_COOKIE_MAX_AGE = 60 * 60 * 24 * 7;
+
+/**
+ * Site-wide roles
+ * - user: Default role for every account
+ * - admin: Site administrator
+ * Category moderators are stored separately (see src/lib/permissions.ts).
+ */
+export type UserRole = 'user' | 'admin';
+
+/**
+ * Authenticated user as loaded from the database
+ */
+export type AuthenticatedUser = User;
+
+/**
+ * Route context passed by Next.js to route handlers (dynamic segment params)
+ */
+export interface RouteContext<P = Record<string, string>> {
+  params: P;
+}
+
+type AuthenticatedHandler<P> = (
+  request: NextRequest,
+  context: RouteContext<P>,
+  user: AuthenticatedUser
+) => Promise<Response>;
+
+type OptionalUserHandler<P> = (
+  request: NextRequest,
+  context: RouteContext<P>,
+  user: AuthenticatedUser | null
+) => Promise<Response>;
+
+/**
+ * Resolved authentication for a request
+ */
+interface RequestAuth {
+  user: AuthenticatedUser;
+  sessionId: string;
+  restriction: ActiveRestriction | null; // Active suspension (bans never get this far)
+}
+
+/**
+ * Options for requireUser() / requireRole()
+ */
+export interface RequireUserOptions {
+  /**
+   * Let suspended users through on write requests.
+   * Only for account management (password, 2FA, sessions, deletion, ...), never
+   * for routes that create or change content, votes or comments.
+   */
+  allowSuspended?: boolean;
+}
+
+/**
+ * Methods that don't change anything (always allowed for suspended users)
+ */
+const READ_ONLY_METHODS = ['GET', 'HEAD', 'OPTIONS'];
+
+/**
+ * Per-request auth cache
+ *
+ * Keyed by the request object, so the user is loaded from the database at most
+ * once per request even if several helpers ask for it. Entries are garbage
+ * collected together with the request.
+ */
+const authCache = new WeakMap<NextRequest, Promise<RequestAuth | null>>();
+
+/**
+ * Load the user and session referenced by the request's token
+ *
+ * Returns null if:
+ * - There is no token cookie
+ * - The token is invalid or expired
+ * - The session is missing, revoked or expired (logged out on that device)
+ * - The user no longer exists
+ * - The token's tokenVersion doesn't match (password changed, logged out everywhere, etc.)
+ * - The user is banned (sessions are revoked on ban, this covers bans issued
+ *   while a request was in flight)
+ */
+async function loadAuth(request: NextRequest): Promise<RequestAuth | null> {
+  const token = request.cookies.get(AUTH_COOKIE_NAME)?.value;
+  if (!token) {
+    return null;
+  }
+
+  try {
+    const payload = verifyToken(token);
+    if (!payload.sessionId) {
+      return null; // Token issued before the session registry existed
+    }
+
+    const session = await db.session.findUnique({
+      where: { id: payload.sessionId },
+      include: {
+        user: {
+          include: {
+            suspensions: {
+              where: activeRestrictionWhere(),
+              select: { type: true, reason: true, expiresAt: true },
+            },
+          },
+        },
+      },
+    });
+
+    if (
+      !session ||
+      session.userId !== payload.userId ||
+      session.revokedAt ||
+      session.expiresAt <= new Date() ||
+      session.user.tokenVersion !== payload.tokenVersion
+    ) {
+      return null;
+    }
+
+    // Past its deletion date the account is gone, even before the purge runs
+    if (isAccountDeletionDue(session.user)) {
+      return null;
+    }
+
+    const { suspensions, ...user } = session.user;
+    const restriction = pickActiveRestriction(suspensions);
+    if (restriction?.type === 'ban') {
+      return null;
+    }
+
+    // Keep "last active" in the device list up to date (throttled)
+    try {
+      await touchSession(db, session);
+    } catch (touchError) {
+      console.error('Error updating session last seen time:', touchError);
+    }
+
+    return { user, sessionId: session.id, restriction };
+  } catch {
+    return null;
+  }
+}
+
+function getRequestAuth(request: NextRequest): Promise<RequestAuth | null> {
+  let cached = authCache.get(request);
+  if (!cached) {
+    cached = loadAuth(request);
+    authCache.set(request, cached);
+  }
+  return cached;
+}
+
+/**
+ * Get authenticated user from request
+ *
+ * @param request - Next.js request object
+ * @returns The authenticated user, or null if not logged in
+ */
+export async function getAuthenticatedUser(request: NextRequest): Promise<AuthenticatedUser | null> {
+  const auth = await getRequestAuth(request);
+  return auth?.user ?? null;
+}
+
+/**
+ * Get the session id of the request's login
+ *
+ * @param request - Next.js request object
+ * @returns Session id, or null if not logged in
+ */
+export async function getCurrentSessionId(request: NextRequest): Promise<string | null> {
+  const auth = await getRequestAuth(request);
+  return auth?.sessionId ?? null;
+}
+
+/**
+ * Get the active suspension of the request's user
+ *
+ * @param request - Next.js request object
+ * @returns The suspension, or null if not logged in or not suspended
+ */
+export async function getAccountRestriction(request: NextRequest): Promise<ActiveRestriction | null> {
+  const auth = await getRequestAuth(request);
+  return auth?.restriction ?? null;
+}
+
+/**
+ * Standard 401 response (not logged in / token no longer valid)
+ */
+export function unauthorizedResponse() {
+  return NextResponse.json(
+    { error: 'Not authenticated' },
+    { status: 401 } // HTTP 401 = Unauthorized
+  );
+}
+
+/**
+ * Standard 403 response (logged in, but not allowed)
+ */
+export function forbiddenResponse(message = 'You do not have permission to perform this action') {
+  return NextResponse.json(
+    { error: message },
+    { status: 403 } // HTTP 403 = Forbidden
+  );
+}
+
+/**
+ * Check whether a user has one of the given roles
+ * Admins pass every role check.
+ */
+export function hasRole(user: AuthenticatedUser, roles: UserRole | UserRole[]): boolean {
+  const allowed = Array.isArray(roles) ? roles : [roles];
+  return user.role === 'admin' || allowed.includes(user.role as UserRole);
+}
+
+/**
+ * Wrap a route handler that requires a logged-in user
+ *
+ * Suspended users get a 403 with the suspension's end date on every
+ * non-GET request, so all write routes (posts, votes, comments, ...) are
+ * covered here. Pass { allowSuspended: true } for account management routes.
+ *
+ * Example:
+ *   export const GET = requireUser(async (request, context, user) => {
+ *     return NextResponse.json({ id: user.id });
+ *   });
+ */
+export function requireUser<P = Record<string, string>>(
+  handler: AuthenticatedHandler<P>,
+  options: RequireUserOptions = {}
+) {
+  return async (request: NextRequest, context: RouteContext<P>) => {
+    const auth = await getRequestAuth(request);
+    if (!auth) {
+      return unauthorizedResponse();
+    }
+    if (auth.restriction && !options.allowSuspended && !READ_ONLY_METHODS.includes(request.method)) {
+      return accountRestrictedResponse(auth.restriction);
+    }
+    return handler(request, context, auth.user);
+  };
+}
+
+/**
+ * Wrap a route handler that works for both guests and logged-in users
+ *
+ * Example:
+ *   export const POST = optionalUser(async (request, context, user) => {
+ *     if (!user) return NextResponse.json({ success: true });
+ *     // ...
+ *   });
+ */
+export function optionalUser<P = Record<string, string>>(handler: OptionalUserHandler<P>) {
+  return async (request: NextRequest, context: RouteContext<P>) => {
+    const user = await getAuthenticatedUser(request);
+    return handler(request, context, user);
+  };
+}
+
+/**
+ * Wrap a route handler that requires a logged-in user with a given role
+ * Returns 401 for guests and 403 for users without the role.
+ *
+ * Example:
+ *   export const POST = requireRole('admin', async (request, context, user) => { ... });
+ */
+export function requireRole<P = Record<string, string>>(
+  roles: UserRole | UserRole[],
+  handler: AuthenticatedHandler<P>,
+  options: RequireUserOptions = {}
+) {
+  return requireUser<P>(async (request, context, user) => {
+    if (!hasRole(user, roles)) {
+      return forbiddenResponse();
+    }
+    return handler(request, context, user);
+  }, options);
+}
+
+/**
+ * Start a new session for a successful login
+ *
+ * Records the device in the session registry, signs a token carrying the
+ * session id, and sets it as the auth cookie.
+ *
+ * @param request - Login request (user agent and IP are recorded)
+ * @param response - Response to attach the cookie to
+ * @param user - User who just logged in
+ */
+export async function startSession(
+  request: NextRequest,
+  response: NextResponse,
+  user: Pick<AuthenticatedUser, 'id' | 'email' | 'tokenVersion'>
+) {
+  const ipAddress = getClientIp(request);
+  const session = await createSession(db, {
+    userId: user.id,
+    userAgent: request.headers.get('user-agent'),
+    ipAddress: ipAddress === 'unknown' ? null : ipAddress,
+  });
+
+  const token = generateToken({
+    userId: user.id,
+    email: user.email,
+    tokenVersion: user.tokenVersion,
+    sessionId: session.id,
+  });
+
+  setAuthCookie(response, token);
+}
+
+/**
+ * Re-issue the auth cookie for an existing session
+ *
+ * Used after tokenVersion is incremented (password change, 2FA disabled) so
+ * the current device stays logged in while every other token stops working.
+ *
+ * @param response - Response to attach the cookie to
+ * @param user - User with the new tokenVersion
+ * @param sessionId - Current session (from getCurrentSessionId)
+ */
+export function reissueSessionToken(
+  response: NextResponse,
+  user: Pick<AuthenticatedUser, 'id' | 'email' | 'tokenVersion'>,
+  sessionId: string
+) {
+  const token = generateToken({
+    userId: user.id,
+    email: user.email,
+    tokenVersion: user.tokenVersion,
+    sessionId,
+  });
+
+  setAuthCookie(response, token);
+}
+
+/**
+ * Set the HttpOnly auth cookie on a response
+ *
+ * @param response - Response to attach the cookie to
+ * @param token - JWT from generateToken()
+ */
+export function setAuthCookie(response: NextResponse, token: string) {
+  response.cookies.set(AUTH_COOKIE_NAME, token, {
+    httpOnly: true,                              // JavaScript cannot read (XSS protection)
+    secure: process.env.NODE_ENV === 'production', // HTTPS only in production
+    sameSite: 'strict',                          // Prevents CSRF attacks
+    maxAge: AUTH_COOKIE_MAX_AGE,                 // Cookie expires in 7 days (in seconds)
+    path: '/',                                   // Cookie available for all paths on domain
+  });
+}
+
+/**
+ * Clear the HttpOnly auth cookie on a response
+ * Settings must match setAuthCookie() for the browser to drop it.
+ */
+export function clearAuthCookie(response: NextResponse) {
+  response.cookies.set(AUTH_COOKIE_NAME, '', {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'strict',
+    maxAge: 0, // Expire immediately
+    path: '/',
+  });
+}
@@ -0,0 +1,114 @@
+/**
+ * Role Management Service
+ *
+ * Grants and revokes site admin and category moderator roles. Every change
+ * is written to RoleAuditLog in the same transaction, so the audit trail
+ * always matches the roles actually in effect.
+ */
+
+import { PrismaClient } from '@prisma/client';
+
+/**
+ * Roles that can be granted through the admin API
+ */
+export type ManagedRole = 'admin' | 'moderator';
+
+export const MANAGED_ROLES: ManagedRole[] = ['admin', 'moderator'];
+
+interface RoleChange {
+  targetUserId: string;
+  role: ManagedRole;
+  categoryId?: string | null; // Required for 'moderator' (main category)
+  actorId: string | null; // null for changes made from the command line (scripts/grant-admin.ts)
+  reason?: string | null;
+}
+
+/**
+ * Grant a role
+ *
+ * @param db - Prisma client instance
+ * @param change - Who gets which role, granted by whom
+ * @returns false if the user already had the role (nothing is logged)
+ */
+export async function grantRole(db: PrismaClient, change: RoleChange): Promise<boolean> {
+  return db.$transaction(async (tx) => {
+    if (change.role === 'admin') {
+      const result = await tx.user.updateMany({
+        where: { id: change.targetUserId, role: { not: 'admin' } },
+        data: { role: 'admin' },
+      });
+      if (result.count === 0) {
+        return false;
+      }
+    } else {
+      const existing = await tx.categoryModerator.findUnique({
+        where: {
+          userId_categoryId: { userId: change.targetUserId, categoryId: change.categoryId! },
+        },
+        select: { id: true },
+      });
+      if (existing) {
+        return false;
+      }
+      await tx.categoryModerator.create({
+        data: {
+          userId: change.targetUserId,
+          categoryId: change.categoryId!,
+          grantedById: change.actorId,
+        },
+      });
+    }
+
+    await tx.roleAuditLog.create({
+      data: {
+        action: 'grant',
+        role: change.role,
+        categoryId: change.role === 'moderator' ? change.categoryId : null,
+        targetUserId: change.targetUserId,
+        actorId: change.actorId,
+        reason: change.reason || null,
+      },
+    });
+    return true;
+  });
+}
+
+/**
+ * Revoke a role
+ *
+ * @param db - Prisma client instance
+ * @param change - Who loses which role, revoked by whom
+ * @returns false if the user did not have the role (nothing is logged)
+ */
+export async function revokeRole(db: PrismaClient, change: RoleChange): Promise<boolean> {
+  return db.$transaction(async (tx) => {
+    if (change.role === 'admin') {
+      const result = await tx.user.updateMany({
+        where: { id: change.targetUserId, role: 'admin' },
+        data: { role: 'user' },
+      });
+      if (result.count === 0) {
+        return false;
+      }
+    } else {
+      const result = await tx.categoryModerator.deleteMany({
+        where: { userId: change.targetUserId, categoryId: change.categoryId! },
+      });
+      if (result.count === 0) {
+        return false;
+      }
+    }
+
+    await tx.roleAuditLog.create({
+      data: {
+        action: 'revoke',
+        role: change.role,
+        categoryId: change.role === 'moderator' ? change.categoryId : null,
+        targetUserId: change.targetUserId,
+        actorId: change.actorId,
+        reason: change.reason || null,
+      },
+    });
+    return true;
+  });
+}
@@ -0,0 +1,131 @@
+/**
+ * Session Registry
+ *
+ * Every login creates a Session row. Its id is stored in the JWT (sessionId),
+ * so a single device can be logged out by revoking its session, without
+ * touching tokenVersion (which logs out every device at once).
+ *
+ * This file contains helper functions for:
+ * - Creating sessions on login
+ * - Updating last-seen time (throttled)
+ * - Listing active sessions for the settings page
+ * - Revoking one session or all of a user's sessions
+ */
+
+import { PrismaClient } from '@prisma/client';
+
+/**
+ * Session settings
+ */
+export const SESSION_CONFIG = {
+  LIFETIME_MS: 7 * 24 * 60 * 60 * 1000,      // Same as the JWT / cookie lifetime (7 days)
+  LAST_SEEN_UPDATE_INTERVAL_MS: 5 * 60 * 1000, // Write lastSeenAt at most every 5 minutes per session
+  USER_AGENT_MAX_LENGTH: 512,                // User-Agent headers can be arbitrarily long
+} as const;
+
+/**
+ * Create a new session for a login
+ *
+ * @param db - Prisma client instance
+ * @param data - User ID plus request details for the device list
+ * @returns The created session
+ */
+export async function createSession(
+  db: PrismaClient,
+  data: { userId: string; userAgent: string | null; ipAddress: string | null }
+) {
+  return db.session.create({
+    data: {
+      userId: data.userId,
+      userAgent: data.userAgent?.slice(0, SESSION_CONFIG.USER_AGENT_MAX_LENGTH) || null,
+      ipAddress: data.ipAddress,
+      expiresAt: new Date(Date.now() + SESSION_CONFIG.LIFETIME_MS),
+    },
+  });
+}
+
+/**
+ * Update a session's last-seen time if it is stale
+ *
+ * Throttled so authenticated requests don't each cause a database write.
+ *
+ * @param db - Prisma client instance
+ * @param session - Session loaded for the current request
+ */
+export async function touchSession(
+  db: PrismaClient,
+  session: { id: string; lastSeenAt: Date }
+): Promise<void> {
+  const now = Date.now();
+  if (now - session.lastSeenAt.getTime() < SESSION_CONFIG.LAST_SEEN_UPDATE_INTERVAL_MS) {
+    return;
+  }
+
+  await db.session.update({
+    where: { id: session.id },
+    data: { lastSeenAt: new Date(now) },
+  });
+}
+
+/**
+ * Get a user's active (not revoked, not expired) sessions, most recent first
+ *
+ * @param db - Prisma client instance
+ * @param userId - User ID
+ */
+export async function listActiveSessions(db: PrismaClient, userId: string) {
+  return db.session.findMany({
+    where: {
+      userId,
+      revokedAt: null,
+      expiresAt: { gt: new Date() },
+    },
+    orderBy: { lastSeenAt: 'desc' },
+  });
+}
+
+/**
+ * Revoke a single session
+ *
+ * Scoped by userId so users can only revoke their own sessions.
+ *
+ * @param db - Prisma client instance
+ * @param userId - Owner of the session
+ * @param sessionId - Session to revoke
+ * @returns boolean - True if an active session was revoked
+ */
+export async function revokeSession(
+  db: PrismaClient,
+  userId: string,
+  sessionId: string
+): Promise<boolean> {
+  const result = await db.session.updateMany({
+    where: { id: sessionId, userId, revokedAt: null },
+    data: { revokedAt: new Date() },
+  });
+  return result.count > 0;
+}
+
+/**
+ * Revoke all of a user's sessions
+ *
+ * @param db - Prisma client instance
+ * @param userId - User ID
+ * @param exceptSessionId - Optional session to keep (the current device)
+ * @returns number - How many sessions were revoked
+ */
+export async function revokeAllSessions(
+  db: PrismaClient,
+  userId: string,
+  exceptSessionId?: string
+): Promise<number> {
+  const result = await db.session.updateMany({
+    where: {
+      userId,
+      revokedAt: null,
+      ...(exceptSessionId ? { id: { not: exceptSessionId } } : {}),
+    },
+    data: { revokedAt: new Date() },
+  });
+  return result.count;
+}
@@ -0,0 +1,20 @@
+/**
+ * Storage Service Export
+ * 
+ * This file exports the storage service implementation.
+ * To switch backends, just change the import here!
+ * 
+ * Current: Local filesystem (development / testing)
+ * Future: S3, Cloudflare R2, etc.
+ */
+
+import { LocalStorageService } from './local';
+import type { StorageService } from './types';
+
+// Export the interface for type checking
+export type { StorageService } from './types';
+
+// Create and export the storage service instance
+// To switch backends, just change this line:
+// Example: export const storageService: StorageService = new S3StorageService();
+export const storageService: StorageService = new LocalStorageService();
@@ -0,0 +1,90 @@
+/**
+ * Local Filesystem Storage Implementation
+ * 
+ * Stores files on the server's disk. Meant for development and testing:
+ * files are not shared between server instances and are lost when the
+ * container is replaced.
+ * 
+ * Setup:
+ * - Files go to LOCAL_STORAGE_DIR (default: ./uploads in the app directory)
+ * - They are served by GET /api/uploads/[...key]
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import type { StorageService } from './types';
+
+// Root directory for stored files
+const STORAGE_DIR = path.resolve(
+  process.env.LOCAL_STORAGE_DIR || path.join(process.cwd(), 'uploads')
+);
+
+// Route that serves the files (see app/api/uploads/[...key]/route.ts)
+const PUBLIC_PATH = '/api/uploads';
+
+// The filesystem keeps no metadata, so the type comes from the extension
+const CONTENT_TYPES: Record<string, string> = {
+  '.webp': 'image/webp',
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.gif': 'image/gif',
+};
+
+/**
+ * Resolve a key to a path inside STORAGE_DIR
+ * Throws for keys that would escape it ("../", absolute paths, etc.)
+ */
+function resolveKey(key: string): string {
+  const segments = key.split('/');
+  if (
+    key.length === 0 ||
+    segments.some((segment) => segment === '' || segment === '.' || segment === '..' || segment.includes('\\'))
+  ) {
+    throw new Error(`Invalid storage key: ${key}`);
+  }
+
+  const filePath = path.resolve(STORAGE_DIR, ...segments);
+  if (!filePath.startsWith(STORAGE_DIR + path.sep)) {
+    throw new Error(`Invalid storage key: ${key}`);
+  }
+  return filePath;
+}
+
+/**
+ * Local Filesystem Storage Implementation
+ * 
+ * Implements the StorageService interface on top of the fs module.
+ */
+export class LocalStorageService implements StorageService {
+  async putObject(key: string, data: Buffer, contentType: string): Promise<void> {
+    const filePath = resolveKey(key);
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, data);
+  }
+
+  async getObject(key: string): Promise<{ data: Buffer; contentType: string } | null> {
+    const filePath = resolveKey(key);
+    try {
+      const data = await fs.readFile(filePath);
+      const contentType =
+        CONTENT_TYPES[path.extname(filePath).toLowerCase()] || 'application/octet-stream';
+      return { data, contentType };
+    } catch (error: any) {
+      if (error?.code === 'ENOENT' || error?.code === 'EISDIR') {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  async deletePrefix(prefix: string): Promise<void> {
+    // Prefixes used in the app are directories ("avatars/<userId>/")
+    const dirPath = resolveKey(prefix.replace(/\/+$/, ''));
+    await fs.rm(dirPath, { recursive: true, force: true });
+  }
+
+  getPublicUrl(key: string): string {
+    return `${PUBLIC_PATH}/${key}`;
+  }
+}
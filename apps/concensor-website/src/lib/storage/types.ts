@@ -0,0 +1,51 @@
+/**
+ * Storage Service Interface
+ * 
+ * This interface defines the contract for file storage (uploaded images, etc.).
+ * By using this abstraction, we can switch between storage backends
+ * (local filesystem, S3, Cloudflare R2, etc.) without changing the rest of the codebase.
+ * 
+ * Keys are forward-slash paths such as "avatars/<userId>/<version>-128.webp".
+ * 
+ * To switch backends:
+ * 1. Create a new implementation (e.g., src/lib/storage/s3.ts)
+ * 2. Update src/lib/storage/index.ts to use the new implementation
+ * 3. No other code changes needed!
+ */
+
+export interface StorageService {
+  /**
+   * Store a file, replacing any existing file with the same key
+   * 
+   * @param key - Object key (path inside the storage)
+   * @param data - File contents
+   * @param contentType - MIME type served with the file
+   * @returns Promise that resolves when the file is stored
+   */
+  putObject(key: string, data: Buffer, contentType: string): Promise<void>;
+
+  /**
+   * Read a file
+   * 
+   * @param key - Object key
+   * @returns File contents and MIME type, or null if the file does not exist
+   */
+  getObject(key: string): Promise<{ data: Buffer; contentType: string } | null>;
+
+  /**
+   * Delete every file under a folder-like prefix
+   * (e.g. "avatars/<userId>/" removes all of a user's avatar variants)
+   * 
+   * @param prefix - Key prefix ending in "/"
+   * @returns Promise that resolves when the files are deleted
+   */
+  deletePrefix(prefix: string): Promise<void>;
+
+  /**
+   * Public URL the browser can load the file from
+   * 
+   * @param key - Object key
+   * @returns Absolute path or URL
+   */
+  getPublicUrl(key: string): string;
+}
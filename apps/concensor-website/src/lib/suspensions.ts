@@ -0,0 +1,172 @@
+/**
+ * Suspensions and Bans
+ *
+ * Restrictions a moderator can put on an account:
+ * - suspension: Temporary. The user can still log in, read and manage their
+ *   account, but every write route (posting, voting, commenting, ...) is
+ *   refused until it expires. Enforced by requireUser() in src/lib/requestAuth.ts.
+ * - ban: Permanent (or until lifted). The user can't log in at all and all
+ *   existing sessions are revoked.
+ *
+ * A restriction is active while it is not lifted and not expired.
+ */
+
+import { NextResponse } from 'next/server';
+import { Prisma, PrismaClient } from '@prisma/client';
+
+export type RestrictionType = 'suspension' | 'ban';
+
+/**
+ * Restriction in effect for a user
+ */
+export interface ActiveRestriction {
+  type: RestrictionType;
+  reason: string;
+  expiresAt: Date | null; // null = permanent
+}
+
+/**
+ * Prisma filter for restrictions that are currently in effect
+ */
+export function activeRestrictionWhere(now: Date = new Date()) {
+  return {
+    liftedAt: null,
+    OR: [{ expiresAt: null }, { expiresAt: { gt: now } }],
+  };
+}
+
+/**
+ * Pick the restriction that applies when a user has several
+ * (a ban wins, otherwise the suspension that ends last)
+ */
+export function pickActiveRestriction(
+  restrictions: { type: string; reason: string; expiresAt: Date | null }[]
+): ActiveRestriction | null {
+  if (restrictions.length === 0) {
+    return null;
+  }
+
+  const ban = restrictions.find((restriction) => restriction.type === 'ban');
+  const chosen = ban ?? restrictions.reduce((latest, restriction) =>
+    (restriction.expiresAt?.getTime() ?? Infinity) > (latest.expiresAt?.getTime() ?? Infinity)
+      ? restriction
+      : latest
+  );
+
+  return {
+    type: chosen.type as RestrictionType,
+    reason: chosen.reason,
+    expiresAt: chosen.expiresAt,
+  };
+}
+
+/**
+ * Get the restriction currently in effect for a user
+ *
+ * @param db - Prisma client instance
+ * @param userId - User ID
+ * @returns The restriction, or null if the user is in good standing
+ */
+export async function getActiveRestriction(
+  db: PrismaClient,
+  userId: string
+): Promise<ActiveRestriction | null> {
+  const restrictions = await db.userSuspension.findMany({
+    where: { userId, ...activeRestrictionWhere() },
+    select: { type: true, reason: true, expiresAt: true },
+  });
+  return pickActiveRestriction(restrictions);
+}
+
+/**
+ * Message shown to a restricted user
+ */
+export function restrictionMessage(restriction: ActiveRestriction): string {
+  if (restriction.type === 'ban') {
+    return `This account has been banned. Reason: ${restriction.reason}`;
+  }
+  const until = restriction.expiresAt ? restriction.expiresAt.toUTCString() : 'further notice';
+  return `Your account is suspended until ${until}. Reason: ${restriction.reason}`;
+}
+
+/**
+ * Standard 403 response for restricted accounts
+ * Includes the end date so the client can show it in the user's time zone.
+ */
+export function accountRestrictedResponse(restriction: ActiveRestriction) {
+  return NextResponse.json(
+    {
+      error: restrictionMessage(restriction),
+      code: restriction.type === 'ban' ? 'ACCOUNT_BANNED' : 'ACCOUNT_SUSPENDED',
+      reason: restriction.reason,
+      expiresAt: restriction.expiresAt,
+    },
+    { status: 403 } // HTTP 403 = Forbidden
+  );
+}
+
+/**
+ * Suspend a user for a number of days
+ *
+ * @param db - Prisma client (or transaction client)
+ * @param userId - User to suspend
+ * @param reason - Shown to the user
+ * @param days - Length of the suspension
+ * @param issuedById - Moderator who issued it
+ * @returns The suspension's end date
+ */
+export async function suspendUser(
+  db: PrismaClient | Prisma.TransactionClient,
+  userId: string,
+  reason: string,
+  days: number,
+  issuedById: string
+): Promise<Date> {
+  const expiresAt = new Date(Date.now() + days * 24 * 60 * 60 * 1000);
+  await db.userSuspension.create({
+    data: { userId, type: 'suspension', reason, expiresAt, issuedById },
+  });
+  return expiresAt;
+}
+
+/**
+ * Ban a user permanently
+ *
+ * Revoke their sessions with revokeAllSessions() once this has committed
+ * (requireUser() already refuses banned accounts in the meantime).
+ *
+ * @param db - Prisma client (or transaction client)
+ * @param userId - User to ban
+ * @param reason - Shown to the user when they try to log in
+ * @param issuedById - Admin who issued it
+ */
+export async function banUser(
+  db: PrismaClient | Prisma.TransactionClient,
+  userId: string,
+  reason: string,
+  issuedById: string
+): Promise<void> {
+  await db.userSuspension.create({
+    data: { userId, type: 'ban', reason, expiresAt: null, issuedById },
+  });
+}
+
+/**
+ * Lift every active suspension and ban of a user
+ *
+ * @param db - Prisma client instance
+ * @param userId - User ID
+ * @param liftedById - Admin who lifted them
+ * @returns Number of restrictions lifted
+ */
+export async function liftRestrictions(
+  db: PrismaClient,
+  userId: string,
+  liftedById: string
+): Promise<number> {
+  const result = await db.userSuspension.updateMany({
+    where: { userId, ...activeRestrictionWhere() },
+    data: { liftedAt: new Date(), liftedById },
+  });
+  return result.count;
+}
@@ -0,0 +1,324 @@
+/**
+ * Coordinated Voting Detection
+ *
+ * A handful of throwaway accounts can swing the consensus on a post, since
+ * every account gets one vote. The detection job (npm run votes:detect)
+ * looks at the voters of the last LOOKBACK_DAYS and scores each account on
+ * these signals:
+ * - fresh_account_burst: many votes within minutes while the account was
+ *   only days old
+ * - identical_votes: exactly the same votes on the same posts as another
+ *   account
+ * - shared_ip: signed up or logged in from an IP used by several accounts
+ *   (User.signupIp, Session.ipAddress)
+ * - unverified_email: the email address was never verified
+ *
+ * Accounts reaching FLAG_MIN_SCORE get a VoteFlag on each of their recent
+ * votes. Admins review the flags (/api/admin/vote-flags): dismiss them, or
+ * exclude the votes, which takes them out of the post counters
+ * (recountPostVotes). Dismissed flags are not raised again for the same vote.
+ *
+ * An exclusion belongs to the voter's vote on the post rather than the Vote
+ * row: retracting and voting again gives a vote that is still excluded (see
+ * castVote), and the flag is kept with voteId null.
+ */
+
+import { PrismaClient } from '@prisma/client';
+import { recountPostVotes } from '@/lib/votes';
+
+export const SYBIL_DETECTION_CONFIG = {
+  LOOKBACK_DAYS: 30, // Votes cast in this window are checked
+  FRESH_ACCOUNT_DAYS: 7, // Account age (at the time of the vote) that counts as fresh
+  BURST_WINDOW_MINUTES: 10,
+  BURST_MIN_VOTES: 10, // Votes within the window that make a burst
+  IDENTICAL_MIN_VOTES: 5, // Accounts with fewer votes aren't compared
+  SHARED_IP_MIN_ACCOUNTS: 3, // Accounts seen on one IP
+  FLAG_MIN_SCORE: 3,
+  MAX_REVIEW_FLAGS: 500, // Flags per review request
+} as const;
+
+export const SYBIL_SIGNALS = ['fresh_account_burst', 'identical_votes', 'shared_ip', 'unverified_email'] as const;
+export type SybilSignal = (typeof SYBIL_SIGNALS)[number];
+
+// Weak signals on their own (shared household IP, unverified email) don't flag an account
+const SIGNAL_WEIGHTS: Record<SybilSignal, number> = {
+  fresh_account_burst: 2,
+  identical_votes: 2,
+  shared_ip: 1,
+  unverified_email: 1,
+};
+
+export const VOTE_FLAG_STATUSES = ['open', 'dismissed', 'excluded'] as const;
+export type VoteFlagStatus = (typeof VOTE_FLAG_STATUSES)[number];
+
+export const VOTE_FLAG_ACTIONS = ['exclude', 'dismiss', 'restore'] as const;
+export type VoteFlagAction = (typeof VOTE_FLAG_ACTIONS)[number];
+
+export function isSybilSignal(value: unknown): value is SybilSignal {
+  return typeof value === 'string' && (SYBIL_SIGNALS as readonly string[]).includes(value);
+}
+
+export function isVoteFlagAction(value: unknown): value is VoteFlagAction {
+  return typeof value === 'string' && (VOTE_FLAG_ACTIONS as readonly string[]).includes(value);
+}
+
+export interface DetectionInput {
+  votes: { userId: string; postId: string; voteType: string; createdAt: Date }[];
+  users: { id: string; createdAt: Date; verified: boolean }[];
+  ipAccounts: Map<string, number>; // Voter -> most accounts seen on any of their IPs
+}
+
+export interface SuspiciousAccount {
+  userId: string;
+  signals: SybilSignal[];
+  score: number;
+  details: {
+    burstVotes?: number; // Most votes within BURST_WINDOW_MINUTES while fresh
+    identicalAccounts?: number; // Other accounts with the same votes
+    sharedIpAccounts?: number; // Accounts on the busiest shared IP (including this one)
+  };
+}
+
+/**
+ * Score voters on the detection signals
+ *
+ * @param input - Recent votes, their voters and the shared IP counts
+ * @returns Accounts reaching FLAG_MIN_SCORE, highest score first
+ */
+export function findSuspiciousAccounts(input: DetectionInput): SuspiciousAccount[] {
+  const freshMs = SYBIL_DETECTION_CONFIG.FRESH_ACCOUNT_DAYS * 24 * 60 * 60 * 1000;
+  const windowMs = SYBIL_DETECTION_CONFIG.BURST_WINDOW_MINUTES * 60 * 1000;
+
+  const votesByUser = new Map<string, DetectionInput['votes']>();
+  for (const vote of input.votes) {
+    const userVotes = votesByUser.get(vote.userId) ?? [];
+    userVotes.push(vote);
+    votesByUser.set(vote.userId, userVotes);
+  }
+
+  // Accounts per vote vector (every post and vote type, sorted)
+  const vectorOf = (votes: DetectionInput['votes']) =>
+    votes
+      .map((vote) => `${vote.postId}:${vote.voteType}`)
+      .sort()
+      .join('|');
+  const accountsPerVector = new Map<string, number>();
+  for (const votes of votesByUser.values()) {
+    if (votes.length >= SYBIL_DETECTION_CONFIG.IDENTICAL_MIN_VOTES) {
+      const vector = vectorOf(votes);
+      accountsPerVector.set(vector, (accountsPerVector.get(vector) ?? 0) + 1);
+    }
+  }
+
+  const accounts: SuspiciousAccount[] = [];
+  for (const user of input.users) {
+    const votes = votesByUser.get(user.id) ?? [];
+    const signals: SybilSignal[] = [];
+    const details: SuspiciousAccount['details'] = {};
+
+    // Largest number of votes within one window while the account was fresh
+    const freshTimes = votes
+      .map((vote) => vote.createdAt.getTime())
+      .filter((time) => time - user.createdAt.getTime() <= freshMs)
+      .sort((a, b) => a - b);
+    let burst = 0;
+    for (let start = 0, end = 0; end < freshTimes.length; end++) {
+      while (freshTimes[end] - freshTimes[start] > windowMs) {
+        start++;
+      }
+      burst = Math.max(burst, end - start + 1);
+    }
+    if (burst >= SYBIL_DETECTION_CONFIG.BURST_MIN_VOTES) {
+      signals.push('fresh_account_burst');
+      details.burstVotes = burst;
+    }
+
+    if (votes.length >= SYBIL_DETECTION_CONFIG.IDENTICAL_MIN_VOTES) {
+      const sameVector = accountsPerVector.get(vectorOf(votes)) ?? 0;
+      if (sameVector > 1) {
+        signals.push('identical_votes');
+        details.identicalAccounts = sameVector - 1;
+      }
+    }
+
+    const sharedIp = input.ipAccounts.get(user.id) ?? 0;
+    if (sharedIp >= SYBIL_DETECTION_CONFIG.SHARED_IP_MIN_ACCOUNTS) {
+      signals.push('shared_ip');
+      details.sharedIpAccounts = sharedIp;
+    }
+
+    if (!user.verified) {
+      signals.push('unverified_email');
+    }
+
+    const score = signals.reduce((sum, signal) => sum + SIGNAL_WEIGHTS[signal], 0);
+    if (score >= SYBIL_DETECTION_CONFIG.FLAG_MIN_SCORE) {
+      accounts.push({ userId: user.id, signals, score, details });
+    }
+  }
+
+  return accounts.sort((a, b) => b.score - a.score);
+}
+
+/**
+ * Most accounts seen on any IP each voter signed up or logged in from
+ */
+async function countAccountsPerIp(db: PrismaClient, userIds: string[]): Promise<Map<string, number>> {
+  const [voterSessions, voterSignups] = await Promise.all([
+    db.session.findMany({
+      where: { userId: { in: userIds }, ipAddress: { not: null } },
+      select: { userId: true, ipAddress: true },
+      distinct: ['userId', 'ipAddress'],
+    }),
+    db.user.findMany({
+      where: { id: { in: userIds }, signupIp: { not: null } },
+      select: { id: true, signupIp: true },
+    }),
+  ]);
+
+  const ipsByUser = new Map<string, Set<string>>();
+  const addIp = (userId: string, ip: string) => {
+    const ips = ipsByUser.get(userId) ?? new Set<string>();
+    ips.add(ip);
+    ipsByUser.set(userId, ips);
+  };
+  voterSessions.forEach((session) => addIp(session.userId, session.ipAddress!));
+  voterSignups.forEach((user) => addIp(user.id, user.signupIp!));
+
+  // Every account (voter or not) seen on those IPs
+  const ips = [...new Set([...ipsByUser.values()].flatMap((set) => [...set]))];
+  const [ipSessions, ipSignups] = await Promise.all([
+    db.session.findMany({
+      where: { ipAddress: { in: ips } },
+      select: { userId: true, ipAddress: true },
+      distinct: ['userId', 'ipAddress'],
+    }),
+    db.user.findMany({
+      where: { signupIp: { in: ips } },
+      select: { id: true, signupIp: true },
+    }),
+  ]);
+
+  const accountsByIp = new Map<string, Set<string>>();
+  const addAccount = (ip: string, userId: string) => {
+    const accounts = accountsByIp.get(ip) ?? new Set<string>();
+    accounts.add(userId);
+    accountsByIp.set(ip, accounts);
+  };
+  ipSessions.forEach((session) => addAccount(session.ipAddress!, session.userId));
+  ipSignups.forEach((user) => addAccount(user.signupIp!, user.id));
+
+  const counts = new Map<string, number>();
+  for (const [userId, userIps] of ipsByUser) {
+    counts.set(userId, Math.max(...[...userIps].map((ip) => accountsByIp.get(ip)?.size ?? 0)));
+  }
+  return counts;
+}
+
+/**
+ * Check recent voters and flag the votes of suspicious accounts
+ *
+ * Open flags of accounts that are flagged again get the new signals; votes
+ * that were already reviewed keep their flag as it is.
+ *
+ * @param db - Prisma client instance
+ * @param now - End of the window checked
+ * @returns Voters checked, accounts flagged and new flags in the review queue
+ */
+export async function detectCoordinatedVoting(db: PrismaClient, now: Date = new Date()) {
+  const since = new Date(now.getTime() - SYBIL_DETECTION_CONFIG.LOOKBACK_DAYS * 24 * 60 * 60 * 1000);
+
+  const votes = await db.vote.findMany({
+    where: { createdAt: { gte: since, lte: now }, excluded: false },
+    select: { id: true, userId: true, postId: true, voteType: true, createdAt: true },
+  });
+  const userIds = [...new Set(votes.map((vote) => vote.userId))];
+
+  const users = await db.user.findMany({
+    where: { id: { in: userIds } },
+    select: { id: true, createdAt: true, emailVerified: true, provider: true },
+  });
+
+  const accounts = findSuspiciousAccounts({
+    votes,
+    users: users.map((user) => ({
+      id: user.id,
+      createdAt: user.createdAt,
+      verified: user.emailVerified || user.provider === 'google', // Google verified the address
+    })),
+    ipAccounts: await countAccountsPerIp(db, userIds),
+  });
+
+  let newFlags = 0;
+  for (const account of accounts) {
+    const flag = { signals: account.signals, score: account.score, details: account.details };
+    const created = await db.voteFlag.createMany({
+      data: votes
+        .filter((vote) => vote.userId === account.userId)
+        .map((vote) => ({ voteId: vote.id, postId: vote.postId, userId: vote.userId, ...flag })),
+      skipDuplicates: true, // Already flagged (open or reviewed)
+    });
+    await db.voteFlag.updateMany({
+      where: { userId: account.userId, status: 'open' },
+      data: flag,
+    });
+    newFlags += created.count;
+  }
+
+  return { voters: userIds.length, flaggedAccounts: accounts.length, newFlags };
+}
+
+/**
+ * Apply an admin's decision to vote flags
+ *
+ * - exclude: open flags; their votes are left out of the post counters
+ * - dismiss: open flags; the votes keep counting
+ * - restore: excluded flags; their votes count again (the flag is dismissed)
+ *
+ * Flags in another status are skipped. The counters of every post whose
+ * votes were excluded or restored are recounted.
+ *
+ * @param db - Prisma client instance
+ * @param flagIds - Flags to review
+ * @param action - Decision
+ * @param reviewerId - Admin
+ * @returns Number of flags changed and posts recounted
+ */
+export async function reviewVoteFlags(
+  db: PrismaClient,
+  flagIds: string[],
+  action: VoteFlagAction,
+  reviewerId: string
+) {
+  const flags = await db.voteFlag.findMany({
+    where: { id: { in: flagIds }, status: action === 'restore' ? 'excluded' : 'open' },
+    select: { id: true, postId: true, userId: true },
+  });
+
+  if (flags.length === 0) {
+    return { updated: 0, recountedPosts: 0 };
+  }
+
+  const reviewed = { reviewedById: reviewerId, reviewedAt: new Date() };
+  await db.$transaction([
+    db.voteFlag.updateMany({
+      where: { id: { in: flags.map((flag) => flag.id) } },
+      data: { status: action === 'exclude' ? 'excluded' : 'dismissed', ...reviewed },
+    }),
+    ...(action === 'dismiss'
+      ? []
+      : [
+          db.vote.updateMany({
+            where: { OR: flags.map((flag) => ({ postId: flag.postId, userId: flag.userId })) },
+            data: { excluded: action === 'exclude' },
+          }),
+        ]),
+  ]);
+
+  const postIds = action === 'dismiss' ? [] : [...new Set(flags.map((flag) => flag.postId))];
+  for (const postId of postIds) {
+    await recountPostVotes(db, postId);
+  }
+
+  return { updated: flags.length, recountedPosts: postIds.length };
+}
@@ -0,0 +1,127 @@
+/**
+ * Text Diff
+ *
+ * Word-level diff used to show what changed between two versions of a post
+ * and to measure how big an edit is. Runs on both server and client.
+ *
+ * Whitespace is kept as its own token so joining the segments of one side
+ * gives back that side's exact text.
+ */
+
+// Largest LCS table (cells) diffWords builds; past that the changed middle is
+// shown as one deletion and one insertion instead of word by word
+const MAX_DIFF_CELLS = 4_000_000;
+
+export type DiffSegmentType = 'equal' | 'insert' | 'delete';
+
+export interface DiffSegment {
+  type: DiffSegmentType;
+  text: string;
+}
+
+function tokenize(text: string): string[] {
+  return text.split(/(\s+)/).filter((token) => token.length > 0);
+}
+
+function pushSegment(segments: DiffSegment[], type: DiffSegmentType, text: string) {
+  const last = segments[segments.length - 1];
+  if (last && last.type === type) {
+    last.text += text;
+  } else {
+    segments.push({ type, text });
+  }
+}
+
+/**
+ * Word-by-word diff of the changed middle of two texts (LCS table)
+ */
+function pushLcsDiff(segments: DiffSegment[], a: string[], b: string[]) {
+  // lcs[i][j] = LCS of a[i..] and b[j..]
+  const rows = a.length;
+  const cols = b.length;
+  const lcs: Uint32Array[] = [];
+  for (let i = 0; i <= rows; i++) {
+    lcs.push(new Uint32Array(cols + 1));
+  }
+  for (let i = rows - 1; i >= 0; i--) {
+    for (let j = cols - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j]
+        ? lcs[i + 1][j + 1] + 1
+        : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  let i = 0;
+  let j = 0;
+  while (i < rows || j < cols) {
+    if (i < rows && j < cols && a[i] === b[j]) {
+      pushSegment(segments, 'equal', a[i]);
+      i++;
+      j++;
+    } else if (j >= cols || (i < rows && lcs[i + 1][j] >= lcs[i][j + 1])) {
+      pushSegment(segments, 'delete', a[i]);
+      i++;
+    } else {
+      pushSegment(segments, 'insert', b[j]);
+      j++;
+    }
+  }
+}
+
+/**
+ * Diff two texts word by word
+ *
+ * Common leading and trailing words are matched first, so a small edit in a
+ * long text only runs the LCS table over the part that changed. If that part
+ * is still too big (MAX_DIFF_CELLS), it's replaced as a whole: the result is
+ * valid but not minimal, so it overstates the size of the edit.
+ *
+ * @param before - Old text
+ * @param after - New text
+ * @returns Segments in reading order ('delete' before 'insert' at a change)
+ */
+export function diffWords(before: string, after: string): DiffSegment[] {
+  const a = tokenize(before);
+  const b = tokenize(after);
+
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) {
+    start++;
+  }
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  const segments: DiffSegment[] = [];
+  if (start > 0) {
+    pushSegment(segments, 'equal', a.slice(0, start).join(''));
+  }
+
+  const rows = endA - start;
+  const cols = endB - start;
+  if (rows * cols > MAX_DIFF_CELLS) {
+    pushSegment(segments, 'delete', a.slice(start, endA).join(''));
+    pushSegment(segments, 'insert', b.slice(start, endB).join(''));
+  } else {
+    pushLcsDiff(segments, a.slice(start, endA), b.slice(start, endB));
+  }
+
+  if (endA < a.length) {
+    pushSegment(segments, 'equal', a.slice(endA).join(''));
+  }
+
+  return segments;
+}
+
+/**
+ * Number of characters removed plus added between two texts
+ * (whitespace-only changes don't count)
+ */
+export function countChangedCharacters(before: string, after: string): number {
+  return diffWords(before, after)
+    .filter((segment) => segment.type !== 'equal')
+    .reduce((total, segment) => total + segment.text.replace(/\s+/g, '').length, 0);
+}
@@ -0,0 +1,329 @@
+/**
+ * Two-Factor Authentication (TOTP)
+ *
+ * Time-based one-time passwords (RFC 6238), compatible with Google Authenticator,
+ * Authy, 1Password, etc.
+ *
+ * This file contains helper functions for:
+ * - Generating TOTP secrets and otpauth:// setup URIs
+ * - Verifying 6-digit codes (with replay protection)
+ * - Encrypting secrets at rest (AES-256-GCM)
+ * - Generating and hashing one-time recovery codes
+ * - Checking a login code against a user's secret or recovery codes
+ *
+ * Implemented with Node's crypto module (no extra dependency).
+ */
+
+import crypto from 'crypto';
+import { PrismaClient, User } from '@prisma/client';
+import { hashToken } from '@/lib/auth';
+
+/**
+ * TOTP settings (the defaults every authenticator app supports)
+ */
+export const TOTP_CONFIG = {
+  ISSUER: 'Concensor',   // Shown as the account label in authenticator apps
+  DIGITS: 6,             // Code length
+  PERIOD_SECONDS: 30,    // New code every 30 seconds
+  WINDOW: 1,             // Accept codes one step before/after (clock drift)
+  SECRET_BYTES: 20,      // 160-bit secret (RFC 4226 recommendation)
+  RECOVERY_CODE_COUNT: 10,
+} as const;
+
+/**
+ * Key used to encrypt TOTP secrets in the database
+ *
+ * Get from TWO_FACTOR_ENCRYPTION_KEY, or derive from JWT_SECRET (development only).
+ * Hashed to get a fixed 32-byte AES-256 key from any string.
+ */
+const ENCRYPTION_KEY = crypto
+  .createHash('sha256')
+  .update(
+    process.env.TWO_FACTOR_ENCRYPTION_KEY ||
+    process.env.JWT_SECRET ||
+    'your-secret-key-change-in-production'
+  )
+  .digest();
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+// ============================================
+// BASE32 (RFC 4648, used by otpauth:// URIs)
+// ============================================
+
+function base32Encode(buffer: Buffer): string {
+  let bits = 0;
+  let value = 0;
+  let output = '';
+
+  for (const byte of buffer) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+
+  return output;
+}
+
+function base32Decode(input: string): Buffer {
+  const cleaned = input.replace(/=+$/, '').toUpperCase();
+  let bits = 0;
+  let value = 0;
+  const bytes: number[] = [];
+
+  for (const char of cleaned) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) {
+      throw new Error('Invalid base32 character');
+    }
+    value = (value << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+
+  return Buffer.from(bytes);
+}
+
+// ============================================
+// TOTP
+// ============================================
+
+/**
+ * Generate a new random TOTP secret
+ *
+ * @returns string - Base32 secret (what the user types in if they can't scan)
+ */
+export function generateTotpSecret(): string {
+  return base32Encode(crypto.randomBytes(TOTP_CONFIG.SECRET_BYTES));
+}
+
+/**
+ * Build the otpauth:// URI authenticator apps use to add the account
+ *
+ * @param secret - Base32 secret
+ * @param accountName - Label for the account (user's email)
+ * @returns string - e.g. otpauth://totp/Concensor:user%40example.com?secret=...&issuer=Concensor
+ */
+export function buildOtpauthUri(secret: string, accountName: string): string {
+  const label = `${encodeURIComponent(TOTP_CONFIG.ISSUER)}:${encodeURIComponent(accountName)}`;
+  const params = new URLSearchParams({
+    secret,
+    issuer: TOTP_CONFIG.ISSUER,
+    algorithm: 'SHA1',
+    digits: String(TOTP_CONFIG.DIGITS),
+    period: String(TOTP_CONFIG.PERIOD_SECONDS),
+  });
+  return `otpauth://totp/${label}?${params.toString()}`;
+}
+
+/**
+ * Current TOTP time step (number of 30-second periods since the Unix epoch)
+ */
+function currentTimeStep(): number {
+  return Math.floor(Date.now() / 1000 / TOTP_CONFIG.PERIOD_SECONDS);
+}
+
+/**
+ * Generate the code for a given time step (HOTP, RFC 4226)
+ */
+function generateCode(secret: Buffer, timeStep: number): string {
+  // 8-byte big-endian counter
+  const counter = Buffer.alloc(8);
+  counter.writeUInt32BE(Math.floor(timeStep / 0x100000000), 0);
+  counter.writeUInt32BE(timeStep % 0x100000000, 4);
+
+  const hmac = crypto.createHmac('sha1', secret).update(counter).digest();
+
+  // Dynamic truncation
+  const offset = hmac[hmac.length - 1] & 0x0f;
+  const binary =
+    ((hmac[offset] & 0x7f) << 24) |
+    (hmac[offset + 1] << 16) |
+    (hmac[offset + 2] << 8) |
+    hmac[offset + 3];
+
+  return String(binary % 10 ** TOTP_CONFIG.DIGITS).padStart(TOTP_CONFIG.DIGITS, '0');
+}
+
+/**
+ * Verify a TOTP code
+ *
+ * Accepts codes within TOTP_CONFIG.WINDOW steps of the current time.
+ * Codes at or before lastUsedStep are rejected, so a code can't be used twice.
+ *
+ * @param secret - Base32 secret
+ * @param code - Code entered by the user
+ * @param lastUsedStep - Last accepted time step for this user (null if none)
+ * @returns number | null - The matched time step (store it as lastUsedStep), or null if invalid
+ */
+export function verifyTotpCode(
+  secret: string,
+  code: string,
+  lastUsedStep: number | null = null
+): number | null {
+  const normalized = code.replace(/\s/g, '');
+  if (!/^\d+$/.test(normalized) || normalized.length !== TOTP_CONFIG.DIGITS) {
+    return null;
+  }
+
+  const key = base32Decode(secret);
+  const now = currentTimeStep();
+
+  for (let offset = -TOTP_CONFIG.WINDOW; offset <= TOTP_CONFIG.WINDOW; offset++) {
+    const step = now + offset;
+    if (lastUsedStep !== null && step <= lastUsedStep) {
+      continue;
+    }
+
+    const expected = generateCode(key, step);
+    // Constant-time comparison (prevents timing attacks)
+    if (crypto.timingSafeEqual(Buffer.from(expected), Buffer.from(normalized))) {
+      return step;
+    }
+  }
+
+  return null;
+}
+
+// ============================================
+// SECRET ENCRYPTION
+// ============================================
+
+/**
+ * Encrypt a TOTP secret before storing it
+ *
+ * @param secret - Base32 secret
+ * @returns string - "iv:authTag:ciphertext" (hex)
+ */
+export function encryptSecret(secret: string): string {
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv('aes-256-gcm', ENCRYPTION_KEY, iv);
+  const encrypted = Buffer.concat([cipher.update(secret, 'utf8'), cipher.final()]);
+  const authTag = cipher.getAuthTag();
+  return [iv.toString('hex'), authTag.toString('hex'), encrypted.toString('hex')].join(':');
+}
+
+/**
+ * Decrypt a TOTP secret loaded from the database
+ *
+ * @param stored - Value produced by encryptSecret()
+ * @returns string - Base32 secret
+ * @throws Error - If the value was tampered with or the key changed
+ */
+export function decryptSecret(stored: string): string {
+  const [ivHex, authTagHex, encryptedHex] = stored.split(':');
+  const decipher = crypto.createDecipheriv(
+    'aes-256-gcm',
+    ENCRYPTION_KEY,
+    Buffer.from(ivHex, 'hex')
+  );
+  decipher.setAuthTag(Buffer.from(authTagHex, 'hex'));
+  return Buffer.concat([
+    decipher.update(Buffer.from(encryptedHex, 'hex')),
+    decipher.final(),
+  ]).toString('utf8');
+}
+
+// ============================================
+// RECOVERY CODES
+// ============================================
+
+/**
+ * Generate one-time recovery codes
+ *
+ * Shown to the user once; only their hashes are stored.
+ *
+ * @returns string[] - Codes like "a1b2c-3d4e5"
+ */
+export function generateRecoveryCodes(): string[] {
+  return Array.from({ length: TOTP_CONFIG.RECOVERY_CODE_COUNT }, () => {
+    const raw = crypto.randomBytes(5).toString('hex'); // 10 hex characters
+    return `${raw.slice(0, 5)}-${raw.slice(5)}`;
+  });
+}
+
+/**
+ * Normalize and hash a recovery code for storage / lookup
+ * Ignores case, spaces and dashes so "A1B2C 3D4E5" matches "a1b2c-3d4e5".
+ */
+export function hashRecoveryCode(code: string): string {
+  return hashToken(code.toLowerCase().replace(/[\s-]/g, ''));
+}
+
+/**
+ * Check whether user input looks like a recovery code (vs. a 6-digit TOTP code)
+ */
+export function isRecoveryCodeFormat(code: string): boolean {
+  return /^[0-9a-f]{10}$/.test(code.toLowerCase().replace(/[\s-]/g, ''));
+}
+
+// ============================================
+// LOGIN VERIFICATION
+// ============================================
+
+/**
+ * Verify a second-factor code for a user with 2FA enabled
+ *
+ * Accepts either a current TOTP code or an unused recovery code.
+ * Both are consumed atomically, so the same code can't complete two logins.
+ *
+ * @param db - Prisma client instance
+ * @param user - User with twoFactorEnabled = true
+ * @param code - Code entered by the user
+ * @returns 'totp' | 'recovery' if accepted, null if invalid
+ */
+export async function verifySecondFactor(
+  db: PrismaClient,
+  user: User,
+  code: string
+): Promise<'totp' | 'recovery' | null> {
+  if (!user.twoFactorEnabled || !user.twoFactorSecret) {
+    return null;
+  }
+
+  // Recovery code (e.g. "a1b2c-3d4e5")
+  if (isRecoveryCodeFormat(code)) {
+    const result = await db.twoFactorRecoveryCode.updateMany({
+      where: {
+        userId: user.id,
+        codeHash: hashRecoveryCode(code),
+        usedAt: null,
+      },
+      data: { usedAt: new Date() },
+    });
+    return result.count > 0 ? 'recovery' : null;
+  }
+
+  // TOTP code
+  const step = verifyTotpCode(
+    decryptSecret(user.twoFactorSecret),
+    code,
+    user.twoFactorLastUsedStep
+  );
+  if (step === null) {
+    return null;
+  }
+
+  // Record the step only if no newer code was accepted in the meantime
+  const result = await db.user.updateMany({
+    where: {
+      id: user.id,
+      OR: [
+        { twoFactorLastUsedStep: null },
+        { twoFactorLastUsedStep: { lt: step } },
+      ],
+    },
+    data: { twoFactorLastUsedStep: step },
+  });
+  return result.count > 0 ? 'totp' : null;
+}
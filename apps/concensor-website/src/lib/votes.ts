@@ -0,0 +1,358 @@
+/**
+ * Vote Service
+ *
+ * Casting, changing and retracting votes. Each of these updates the Vote
+ * row, the post's counters (per-type counts, weightedScore, totalVotes),
+ * hotScore and consensus metrics, and the voter's ideology counts in one
+ * transaction, and appends a VoteChange row, so the history of how opinions
+ * moved on a post is kept even though a user only has one Vote per post.
+ *
+ * Vote points are awarded for the first vote on a post only: retracting and
+ * voting again, or changing the vote, earns nothing.
+ *
+ * Changes are conditional on the vote the transaction read: when two requests
+ * of the same voter race, one of them finds its vote changed and gets null
+ * (or P2002 on the Vote unique constraint for two first votes) instead of
+ * moving the counters twice.
+ *
+ * Votes an admin excluded (Vote.excluded, see src/lib/sybilDetection.ts)
+ * stay in place for the voter but are left out of the post's counters, also
+ * when they are changed or retracted. A new vote on a post where the voter's
+ * vote was excluded before starts out excluded.
+ */
+
+import { Prisma, PrismaClient, type Vote } from '@prisma/client';
+import { recalculateHotScore } from '@/lib/hotScore';
+import { calculatePostConsensusMetrics } from '@/lib/consensusMetrics';
+import { updateUserIdeology } from '@/lib/ideology';
+
+export const VOTE_TYPES = ['strongly_disagree', 'disagree', 'neutral', 'agree', 'strongly_agree'] as const;
+export type VoteType = (typeof VOTE_TYPES)[number];
+
+/**
+ * Post counter incremented by each vote type
+ */
+export const VOTE_COUNT_FIELDS: Record<VoteType, string> = {
+  strongly_disagree: 'stronglyDisagreeCount',
+  disagree: 'disagreeCount',
+  neutral: 'neutralCount',
+  agree: 'agreeCount',
+  strongly_agree: 'stronglyAgreeCount',
+};
+
+const VOTE_VALUES: Record<VoteType, number> = {
+  strongly_disagree: -2,
+  disagree: -1,
+  neutral: 0,
+  agree: 1,
+  strongly_agree: 2,
+};
+
+export function isVoteType(value: unknown): value is VoteType {
+  return typeof value === 'string' && (VOTE_TYPES as readonly string[]).includes(value);
+}
+
+/**
+ * Map vote type to vote value
+ */
+export function getVoteValue(voteType: VoteType): number {
+  return VOTE_VALUES[voteType];
+}
+
+/**
+ * Move a post's counters from one vote to another and recalculate hotScore
+ * and the consensus metrics
+ *
+ * @param tx - Transaction client
+ * @param postId - Post ID
+ * @param from - Vote being replaced or removed (null for a new vote)
+ * @param to - New vote (null when the vote is removed)
+ * @returns The post's categories
+ */
+export async function updatePostVoteCounters(
+  tx: Prisma.TransactionClient,
+  postId: string,
+  from: { voteType: string; voteValue: number } | null,
+  to: { voteType: string; voteValue: number } | null
+) {
+  const updateData: any = {
+    totalVotes: { increment: (to ? 1 : 0) - (from ? 1 : 0) },
+    weightedScore: { increment: (to?.voteValue ?? 0) - (from?.voteValue ?? 0) },
+  };
+
+  const fromField = from ? VOTE_COUNT_FIELDS[from.voteType as VoteType] : null;
+  const toField = to ? VOTE_COUNT_FIELDS[to.voteType as VoteType] : null;
+  if (fromField !== toField) {
+    if (fromField) {
+      updateData[fromField] = { decrement: 1 };
+    }
+    if (toField) {
+      updateData[toField] = { increment: 1 };
+    }
+  }
+
+  const post = await tx.post.update({
+    where: { id: postId },
+    data: updateData,
+    select: {
+      mainCategoryId: true,
+      subCategoryId: true,
+      totalVotes: true,
+      commentCount: true,
+      createdAt: true,
+      stronglyDisagreeCount: true,
+      disagreeCount: true,
+      neutralCount: true,
+      agreeCount: true,
+      stronglyAgreeCount: true,
+    },
+  });
+
+  await tx.post.update({
+    where: { id: postId },
+    data: {
+      hotScore: recalculateHotScore(post),
+      ...calculatePostConsensusMetrics(post),
+    },
+  });
+
+  return { mainCategoryId: post.mainCategoryId, subCategoryId: post.subCategoryId };
+}
+
+/**
+ * Recount a post's counters from its votes, leaving out excluded votes, and
+ * recalculate hotScore and the consensus metrics
+ *
+ * Used after admins exclude or restore votes; the counters are otherwise
+ * only moved incrementally (updatePostVoteCounters).
+ *
+ * @param db - Prisma client instance
+ * @param postId - Post ID
+ */
+export async function recountPostVotes(db: PrismaClient, postId: string) {
+  await db.$transaction(async (tx) => {
+    const groups = await tx.vote.groupBy({
+      by: ['voteType'],
+      where: { postId, excluded: false },
+      _count: { _all: true },
+      _sum: { voteValue: true },
+    });
+
+    const data: Record<string, number> = { totalVotes: 0, weightedScore: 0 };
+    for (const type of VOTE_TYPES) {
+      data[VOTE_COUNT_FIELDS[type]] = 0;
+    }
+    for (const group of groups) {
+      if (!isVoteType(group.voteType)) {
+        continue;
+      }
+      data[VOTE_COUNT_FIELDS[group.voteType]] = group._count._all;
+      data.totalVotes += group._count._all;
+      data.weightedScore += group._sum.voteValue ?? 0;
+    }
+
+    const post = await tx.post.update({
+      where: { id: postId },
+      data,
+      select: {
+        totalVotes: true,
+        commentCount: true,
+        createdAt: true,
+        stronglyDisagreeCount: true,
+        disagreeCount: true,
+        neutralCount: true,
+        agreeCount: true,
+        stronglyAgreeCount: true,
+      },
+    });
+
+    await tx.post.update({
+      where: { id: postId },
+      data: {
+        hotScore: recalculateHotScore(post),
+        ...calculatePostConsensusMetrics(post),
+      },
+    });
+  });
+}
+
+/**
+ * Cast a new vote or change an existing one
+ *
+ * @param db - Prisma client instance
+ * @param vote - Post, voter, vote type and the post revision the voter saw
+ * @returns The vote, the type it replaced (null for a new vote) and whether
+ *          this is the user's first vote ever on the post (award points), or
+ *          null if the vote was changed or retracted at the same time
+ */
+export async function castVote(
+  db: PrismaClient,
+  vote: { postId: string; userId: string; voteType: VoteType; postRevision: number }
+) {
+  const { postId, userId, voteType, postRevision } = vote;
+  const voteValue = getVoteValue(voteType);
+
+  return db.$transaction(async (tx) => {
+    const existing = await tx.vote.findUnique({
+      where: { postId_userId: { postId, userId } },
+    });
+    const votedBefore = existing !== null || (await tx.voteChange.count({ where: { postId, userId } })) > 0;
+
+    let saved: Vote;
+    if (existing) {
+      // Only if nobody changed it since it was read (the row lock makes a racing update wait)
+      const updated = await tx.vote.updateMany({
+        where: { id: existing.id, voteType: existing.voteType },
+        data: { voteType, voteValue, postRevision },
+      });
+      if (updated.count === 0) {
+        return null;
+      }
+      saved = await tx.vote.findUniqueOrThrow({ where: { id: existing.id } });
+    } else {
+      // Voting again after retracting an excluded vote doesn't undo the exclusion
+      const excluded = (await tx.voteFlag.count({ where: { postId, userId, status: 'excluded' } })) > 0;
+      saved = await tx.vote.create({
+        data: { postId, userId, voteType, voteValue, postRevision, excluded },
+      });
+    }
+
+    // An excluded vote stays excluded when it is changed
+    const counted = !(existing ?? saved).excluded;
+    const post = await updatePostVoteCounters(tx, postId, counted ? existing : null, counted ? saved : null);
+    await updateUserIdeology(tx, userId, post, existing?.voteType ?? null, voteType);
+
+    await tx.voteChange.create({
+      data: {
+        postId,
+        userId,
+        fromType: existing?.voteType ?? null,
+        fromValue: existing?.voteValue ?? null,
+        toType: voteType,
+        toValue: voteValue,
+        postRevision,
+      },
+    });
+
+    return { vote: saved, previousType: existing?.voteType ?? null, firstVote: !votedBefore };
+  });
+}
+
+/**
+ * Retract a vote
+ *
+ * @param db - Prisma client instance
+ * @param postId - Post ID
+ * @param userId - Voter
+ * @param postRevision - Current post revision (kept in the history)
+ * @returns false if the user had no vote on the post, null if it was changed
+ *          or retracted at the same time
+ */
+export async function retractVote(
+  db: PrismaClient,
+  postId: string,
+  userId: string,
+  postRevision: number
+): Promise<boolean | null> {
+  return db.$transaction(async (tx) => {
+    const existing = await tx.vote.findUnique({
+      where: { postId_userId: { postId, userId } },
+    });
+    if (!existing) {
+      return false;
+    }
+
+    const deleted = await tx.vote.deleteMany({
+      where: { id: existing.id, voteType: existing.voteType },
+    });
+    if (deleted.count === 0) {
+      return null;
+    }
+    const post = await updatePostVoteCounters(tx, postId, existing.excluded ? null : existing, null);
+    await updateUserIdeology(tx, userId, post, existing.voteType, null);
+
+    await tx.voteChange.create({
+      data: {
+        postId,
+        userId,
+        fromType: existing.voteType,
+        fromValue: existing.voteValue,
+        toType: null,
+        toValue: null,
+        postRevision,
+      },
+    });
+
+    return true;
+  });
+}
+
+/**
+ * How opinions on a post moved since people first voted
+ *
+ * Compares each voter's first vote with their vote now (or no vote, if they
+ * retracted). "Toward agree" / "toward disagree" follow the vote value.
+ *
+ * @param db - Prisma client instance
+ * @param postId - Post ID
+ */
+export async function getOpinionShiftStats(db: PrismaClient, postId: string) {
+  const changes = await db.voteChange.findMany({
+    where: { postId },
+    select: { userId: true, fromType: true, toType: true, toValue: true },
+    orderBy: { createdAt: 'asc' },
+  });
+
+  // First vote and current vote per voter
+  const voters = new Map<string, { first: { type: string; value: number }; current: { type: string; value: number } | null }>();
+  let totalChanges = 0;
+  for (const change of changes) {
+    const next = change.toType !== null && change.toValue !== null
+      ? { type: change.toType, value: change.toValue }
+      : null;
+    const voter = voters.get(change.userId);
+    if (!voter) {
+      if (next) {
+        voters.set(change.userId, { first: next, current: next });
+      }
+      continue;
+    }
+    voter.current = next;
+    totalChanges++;
+  }
+
+  let changedVoters = 0;
+  let retracted = 0;
+  let towardAgree = 0;
+  let towardDisagree = 0;
+  const transitions: Record<string, Record<string, number>> = {}; // first type -> current type ('retracted') -> voters
+
+  for (const { first, current } of voters.values()) {
+    if (current && current.type === first.type) {
+      continue;
+    }
+
+    changedVoters++;
+    const to = current ? current.type : 'retracted';
+    transitions[first.type] = transitions[first.type] ?? {};
+    transitions[first.type][to] = (transitions[first.type][to] ?? 0) + 1;
+
+    if (!current) {
+      retracted++;
+    } else if (current.value > first.value) {
+      towardAgree++;
+    } else if (current.value < first.value) {
+      towardDisagree++;
+    }
+  }
+
+  return {
+    voters: voters.size, // Everyone who voted at some point
+    changedVoters, // Vote now differs from their first vote (or retracted)
+    retracted,
+    towardAgree,
+    towardDisagree,
+    totalChanges, // Every change and retraction, including back-and-forth
+    transitions,
+  };
+}
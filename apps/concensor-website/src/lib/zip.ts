@@ -0,0 +1,115 @@
+/**
+ * ZIP Archive Writer
+ *
+ * Minimal ZIP (PKWARE APPNOTE) writer for small in-memory archives, such as the
+ * personal data export. Files are DEFLATE-compressed with Node's zlib.
+ * No ZIP64 support, so archives must stay under 4 GB (far above what we produce).
+ */
+
+import zlib from 'zlib';
+
+/**
+ * File to add to the archive
+ */
+export interface ZipEntry {
+  name: string;             // Path inside the archive, e.g. "posts.json"
+  content: string | Buffer; // Strings are stored as UTF-8
+}
+
+// CRC-32 lookup table (polynomial 0xEDB88320)
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+function crc32(data: Buffer): number {
+  let crc = 0xffffffff;
+  for (const byte of data) {
+    crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+/**
+ * Convert a date to MS-DOS time and date fields (local time, 2-second precision)
+ */
+function toDosDateTime(date: Date): { time: number; date: number } {
+  return {
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+    date: ((date.getFullYear() - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+  };
+}
+
+/**
+ * Build a ZIP archive
+ *
+ * @param entries - Files to include
+ * @param modifiedAt - Modification time recorded for every file (default: now)
+ * @returns Buffer - The .zip file contents
+ */
+export function createZipArchive(entries: ZipEntry[], modifiedAt: Date = new Date()): Buffer {
+  const { time, date } = toDosDateTime(modifiedAt);
+  const localParts: Buffer[] = [];
+  const centralParts: Buffer[] = [];
+  let offset = 0;
+
+  for (const entry of entries) {
+    const name = Buffer.from(entry.name, 'utf8');
+    const data = typeof entry.content === 'string' ? Buffer.from(entry.content, 'utf8') : entry.content;
+    const compressed = zlib.deflateRawSync(data);
+    const crc = crc32(data);
+
+    // Local file header
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);  // Signature
+    local.writeUInt16LE(20, 4);          // Version needed to extract (2.0)
+    local.writeUInt16LE(0x0800, 6);      // Flags: file name is UTF-8
+    local.writeUInt16LE(8, 8);           // Compression: DEFLATE
+    local.writeUInt16LE(time, 10);
+    local.writeUInt16LE(date, 12);
+    local.writeUInt32LE(crc, 14);
+    local.writeUInt32LE(compressed.length, 18);
+    local.writeUInt32LE(data.length, 22);
+    local.writeUInt16LE(name.length, 26);
+    local.writeUInt16LE(0, 28);          // Extra field length
+
+    // Central directory header
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(0x02014b50, 0); // Signature
+    central.writeUInt16LE(20, 4);         // Version made by
+    central.writeUInt16LE(20, 6);         // Version needed to extract
+    central.writeUInt16LE(0x0800, 8);     // Flags: file name is UTF-8
+    central.writeUInt16LE(8, 10);         // Compression: DEFLATE
+    central.writeUInt16LE(time, 12);
+    central.writeUInt16LE(date, 14);
+    central.writeUInt32LE(crc, 16);
+    central.writeUInt32LE(compressed.length, 20);
+    central.writeUInt32LE(data.length, 24);
+    central.writeUInt16LE(name.length, 28);
+    // Extra field, comment, disk number, attributes: all zero
+    central.writeUInt32LE(offset, 42);    // Offset of the local header
+
+    localParts.push(local, name, compressed);
+    centralParts.push(central, name);
+    offset += local.length + name.length + compressed.length;
+  }
+
+  const centralDirectory = Buffer.concat(centralParts);
+
+  // End of central directory record
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);             // Signature
+  end.writeUInt16LE(entries.length, 8);         // Entries on this disk
+  end.writeUInt16LE(entries.length, 10);        // Total entries
+  end.writeUInt32LE(centralDirectory.length, 12);
+  end.writeUInt32LE(offset, 16);                // Offset of the central directory
+
+  return Buffer.concat([...localParts, centralDirectory, end]);
+}
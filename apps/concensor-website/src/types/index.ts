@@ -5,9 +5,56 @@ export interface User {
   username: string;
   email: string;
   profilePicture?: string; // Optional profile picture URL
+  suspension?: AccountSuspension | null; // Set while the account is suspended
   // Add more user fields as needed
 }
 
+/**
+ * Active suspension of the current user
+ * While suspended the user can read but not post, comment or vote.
+ */
+export interface AccountSuspension {
+  type: 'suspension' | 'ban';
+  reason: string;
+  expiresAt: string | null; // null = permanent
+}
+
+/**
+ * Active login session (one per device), from GET /api/user/sessions
+ */
+export interface UserSession {
+  id: string;
+  userAgent: string | null;
+  ipAddress: string | null;
+  createdAt: string;
+  lastSeenAt: string;
+  current: boolean; // The session making the request
+}
+
+/**
+ * Login methods connected to the account, from GET /api/user/linked-accounts
+ */
+export interface LinkedAccounts {
+  email: {
+    address: string;
+    linked: boolean;    // A password is set
+    canUnlink: boolean; // False if it's the only login method
+  };
+  google: {
+    linked: boolean;
+    canUnlink: boolean;
+  };
+}
+
+/**
+ * Account deletion status, from GET /api/user/account-deletion
+ */
+export interface AccountDeletionStatus {
+  scheduled: boolean;
+  requestedAt: string | null;
+  scheduledAt: string | null; // When the account will be purged
+}
+
 export interface Category {
   id: string;
   name: string;
@@ -16,13 +63,19 @@ export interface Category {
   description?: string | null;
 }
 
+export type ConsensusStrength = 'insufficient' | 'strong' | 'moderate' | 'weak' | 'divided';
+
+// List order for GET /api/posts ('divisive' / 'agreement' rank by polarization,
+// 'common-ground' by how much every opinion group agrees)
+export type PostSort = 'new' | 'popular' | 'divisive' | 'agreement' | 'common-ground';
+
 export interface Post {
   id: string;
   title: string;
   content: string;
-  authorId: string;
+  authorId: string | null; // null if the author's account was deleted
   author: {
-    id: string;
+    id: string | null; // null for "[deleted user]"
     username: string | null;
     profilePicture: string | null;
     equippedBadge?: {
@@ -38,6 +91,7 @@ export interface Post {
   subCategoryId: string;
   subCategory: Category;
   status: string;
+  publishAt?: string | null; // Scheduled drafts: when it will be published
   // Vote counts
   stronglyAgreeCount: number;
   agreeCount: number;
@@ -51,25 +105,136 @@ export interface Post {
   viewCount: number;
   // Popularity
   hotScore: number;
+  // Consensus metrics (see src/lib/consensusMetrics.ts)
+  voteMean: number; // Average vote value (-2 to +2)
+  voteVariance: number; // 0 to 4
+  voteEntropy: number; // 0 (unanimous) to 1 (evenly spread)
+  polarization: number; // 0 (unanimous) to 1 (split between the extremes)
+  consensusStrength: ConsensusStrength;
+  commonGroundScore: number | null; // 0-1, how much every opinion group agrees (null = not scored yet)
+  // Edit transparency
+  revision: number; // Current revision (1 = as published)
+  editedAt?: string | null; // Set if the author edited the title or content
+  editsLocked: boolean; // Author locked the post against edits
   createdAt: string;
   updatedAt: string;
   _count?: {
     votes: number;
     comments: number;
   };
+  // What the current user may do (GET /api/posts/[id] only)
+  viewerPermissions?: {
+    canEdit: boolean;
+    canDelete: boolean;
+    canModerate: boolean; // Can remove other users' comments
+  };
+  expertConsensus?: ExpertConsensus; // Single post only
+}
+
+export interface PostRevision {
+  revision: number;
+  title: string;
+  content: string;
+  createdAt: string; // When this version was published
+  voteCount: number; // Votes cast while this version was current
+}
+
+export interface OpinionShiftStats {
+  voters: number; // Everyone who voted at some point
+  changedVoters: number; // Vote now differs from their first vote (or retracted)
+  retracted: number;
+  towardAgree: number;
+  towardDisagree: number;
+  totalChanges: number;
+  transitions: Record<string, Record<string, number>>; // first vote type -> current type or 'retracted' -> voters
+}
+
+export interface ConsensusSnapshot {
+  time: string; // Start of the hour / day (UTC); counts are as of its end
+  counts: {
+    strongly_disagree: number;
+    disagree: number;
+    neutral: number;
+    agree: number;
+    strongly_agree: number;
+  };
+  totalVotes: number;
+  weightedScore: number;
+}
+
+export type IdeologyVisibility = 'private' | 'members' | 'public';
+
+// One category of an ideology profile (see src/lib/ideology.ts)
+export interface StanceVector {
+  sampleSize: number; // Votes the numbers are based on
+  confidence: number; // 0-1, grows with the sample size
+  stance: number; // Average vote value (-2 to +2)
+  intensity: number; // Average distance from neutral (0 to 2)
+  spread: number; // Standard deviation of the vote values
+  distribution: ConsensusSnapshot['counts']; // Share (0-1) of each vote type
+}
+
+// Votes of a post split by the voter's badge level in its main category
+export interface ConsensusBreakdown {
+  counts: ConsensusSnapshot['counts'];
+  totalVotes: number;
+  voteMean: number;
+  polarization: number;
+  consensusStrength: ConsensusStrength;
+}
+
+export interface ExpertConsensus {
+  tiers: (ConsensusBreakdown & { level: number; name: string; weight: number })[]; // Rookie to Legend
+  weighted: ConsensusBreakdown; // Votes weighted by tier (counts are weighted, totalVotes isn't)
+}
+
+export interface IdeologyProfile {
+  userId: string;
+  username: string | null;
+  visibility: IdeologyVisibility;
+  overall: StanceVector;
+  categories: (StanceVector & {
+    category: Category;
+    subCategories: (StanceVector & { category: Category })[];
+  })[];
+}
+
+// A post an opinion group stands out on (see src/lib/opinionMaps.ts)
+export interface OpinionGroupPost {
+  post: { id: string; title: string };
+  voteCount: number; // Group members who voted on it
+  share: number; // Share of them who agree (agreesOn) or disagree (disagreesOn)
+  othersShare: number; // Same among everyone outside the group
+}
+
+export interface OpinionMap {
+  computedAt: string;
+  voterCount: number;
+  postCount: number;
+  varianceExplained: number; // Share of the vote variance the map shows (0-1)
+  groups: {
+    label: number; // 0 = "Group A" (largest)
+    memberCount: number;
+    center: { x: number; y: number };
+    agreesOn: OpinionGroupPost[];
+    disagreesOn: OpinionGroupPost[];
+  }[];
+  points: { x: number; y: number; group: number }[]; // Anonymous voter positions
+  viewer: { x: number; y: number; group: number } | null; // Current user, if on the map
 }
 
 export interface Comment {
   id: string;
   postId: string;
-  userId: string;
+  userId: string | null; // null if the commenter's account was deleted
   content: string;
   parentId: string | null;
-  status: string;
+  status: string; // 'deleted' / 'removed' comments are "[deleted]" placeholders (no text or author)
+  editedAt?: string | null; // Set if the commenter edited the text
   createdAt: string;
   updatedAt: string;
   user: {
-    id: string;
+    id: string | null; // null for "[deleted user]"
     username: string | null;
     profilePicture: string | null;
     equippedBadge?: {